@@ -0,0 +1,210 @@
+import { type StoredFile, fileHash, sha256Hex } from "./files";
+import { htmlPage } from "./html";
+import type { Env, ScanFinding } from "./types";
+
+/**
+ * Abuse handling for user-generated apps.
+ *
+ * - publish scans the draft (scanFiles). A flagged draft isn't published: it's held as a
+ *   publish review until an admin approves it (which publishes exactly the files that
+ *   were scanned) or rejects it.
+ * - Visitors report apps at /report/:slug (see report.ts).
+ * - Admins (ADMIN_EMAILS) work through reports and reviews with the REST API, and can
+ *   suspend an app: it then answers every request with a neutral page, but keeps all
+ *   its files and data so the suspension can be lifted.
+ *
+ * The scanner looks for the usual signs of phishing: forms that send passwords or card
+ * numbers off to another site (or into form submissions), well-known brands next to
+ * "verify your account" style lures, links to blocklisted hosts, and obfuscated scripts.
+ * It's a tripwire rather than a verdict, which is why flags go to a person.
+ */
+
+/** Hosts (and host/path prefixes) that apps may not use, on top of ABUSE_BLOCKLIST. */
+export const BLOCKLIST = [
+  // IP loggers
+  "grabify.link",
+  "iplogger.org",
+  "iplogger.com",
+  "iplogger.ru",
+  "2no.co",
+  "yip.su",
+  "blasze.com",
+  // Chat bot webhooks, a common drop for harvested credentials
+  "api.telegram.org/bot",
+  "discord.com/api/webhooks",
+  "discordapp.com/api/webhooks",
+];
+
+/** The built-in blocklist plus the deployment's own entries. */
+export function blocklistFor(env: Env): string[] {
+  const extra = (env.ABUSE_BLOCKLIST ?? "").split(",").map((entry) => entry.trim().toLowerCase());
+  return [...BLOCKLIST, ...extra.filter(Boolean)];
+}
+
+/** Whether the email is one of ADMIN_EMAILS. */
+export function isAdmin(env: Env, email: string | null): boolean {
+  if (!email) return false;
+  const admins = (env.ADMIN_EMAILS ?? "").split(",").map((admin) => admin.trim().toLowerCase());
+  return admins.includes(email.toLowerCase());
+}
+
+// --- Scanning ---
+
+const BRANDS = [
+  "PayPal",
+  "Apple ID",
+  "iCloud",
+  "Microsoft",
+  "Office 365",
+  "Outlook",
+  "OneDrive",
+  "SharePoint",
+  "Google Account",
+  "Gmail",
+  "Facebook",
+  "Instagram",
+  "WhatsApp",
+  "Netflix",
+  "Amazon",
+  "eBay",
+  "Coinbase",
+  "Binance",
+  "MetaMask",
+  "Trust Wallet",
+  "Ledger Live",
+  "DocuSign",
+  "Dropbox",
+  "DHL",
+  "FedEx",
+  "USPS",
+  "Royal Mail",
+  "Chase Bank",
+  "Wells Fargo",
+  "Bank of America",
+  "HSBC",
+  "Barclays",
+  "IRS",
+  "HMRC",
+];
+
+const BRAND_PATTERN = new RegExp(`\\b(${BRANDS.map((b) => b.replace(/ /g, "\\s+")).join("|")})\\b`, "i");
+
+/** Phrases phishing pages use to hurry people into signing in. */
+const LURE_PATTERN =
+  /verify your (account|identity)|confirm your (account|identity|billing|payment)|account (has been |is |was )?(suspended|locked|limited|disabled)|unusual (sign-in|login) activity|update your (billing|payment)|(seed|recovery|secret) phrase/i;
+
+/** Inputs for passwords, card details, ID numbers or wallet keys. */
+const SENSITIVE_INPUT_PATTERN =
+  /<input\b[^>]*\btype\s*=\s*["']?password\b|<(input|textarea)\b[^>]*\b(name|id|autocomplete)\s*=\s*["']?[^"'\s>]*(cc-number|cc-csc|card-?number|cardnumber|cvv|cvc|ssn|seed|mnemonic|recovery|private-?key)/i;
+
+const OBFUSCATION_PATTERNS: [RegExp, string][] = [
+  [/eval\s*\(\s*function\s*\(\s*p\s*,\s*a\s*,\s*c\s*,\s*k\s*,\s*e\s*,/, "is packed with eval(function(p,a,c,k,e,...))"],
+  [
+    /\b(eval|Function|setTimeout)\s*\(\s*(window\.)?(atob|unescape|decodeURIComponent|String\.fromCharCode)\s*\(/,
+    "runs code it decodes at runtime",
+  ],
+  [/document\.write\s*\(\s*(unescape|atob|decodeURIComponent)\s*\(/, "writes out encoded markup"],
+  [/(\\x[0-9a-f]{2}){60,}/i, "contains long runs of hex-escaped text"],
+  [/String\.fromCharCode\s*\(\s*(\d+\s*,\s*){40,}/, "builds text from long lists of character codes"],
+];
+
+/** Identifiers like _0x3f2a, which javascript-obfuscator produces by the hundred. */
+const MANGLED_NAME_PATTERN = /\b_0x[0-9a-f]{4,6}\b/gi;
+const MANGLED_NAME_THRESHOLD = 20;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'`<>()\\]+/gi;
+
+/**
+ * Looks through a draft's text files for signs of phishing or malware. Binary files
+ * aren't scanned. Each rule reports at most once per file.
+ */
+export function scanFiles(files: Pick<StoredFile, "file_path" | "content" | "content_type" | "encoding">[], blocklist: string[]): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  for (const file of files) {
+    if (file.encoding === "base64" || !file.content) continue;
+    const add = (rule: ScanFinding["rule"], detail: string) => findings.push({ rule, file_path: file.file_path, detail });
+    const html = file.content_type.startsWith("text/html");
+    const script = html || /javascript/.test(file.content_type) || /\.m?js$/.test(file.file_path);
+
+    const blocked = blockedUrl(file.content, blocklist);
+    if (blocked) add("blocked_url", `links to ${blocked}, which is on the blocklist`);
+
+    if (html) {
+      const form = credentialForm(file.content);
+      if (form) add("credential_form", `a form asks for a password or payment details and sends them to ${form}`);
+
+      const brand = file.content.match(BRAND_PATTERN)?.[1];
+      if (brand && (SENSITIVE_INPUT_PATTERN.test(file.content) || LURE_PATTERN.test(file.content))) {
+        add("brand_impersonation", `mentions ${brand.replace(/\s+/g, " ")} next to a sign-in or account verification prompt`);
+      }
+    }
+
+    if (script) {
+      const obfuscation = obfuscatedScript(file.content);
+      if (obfuscation) add("obfuscated_script", `a script ${obfuscation}`);
+    }
+  }
+  return findings;
+}
+
+/** The first URL in the text that's on the blocklist. */
+function blockedUrl(text: string, blocklist: string[]): string | null {
+  for (const [match] of text.matchAll(URL_PATTERN)) {
+    let url: URL;
+    try {
+      url = new URL(match);
+    } catch {
+      continue;
+    }
+    const hit = blocklist.some((entry) => {
+      const slash = entry.indexOf("/");
+      const host = slash === -1 ? entry : entry.slice(0, slash);
+      const path = slash === -1 ? "" : entry.slice(slash);
+      return (url.hostname === host || url.hostname.endsWith(`.${host}`)) && url.pathname.startsWith(path);
+    });
+    if (hit) return url.href;
+  }
+  return null;
+}
+
+/**
+ * Where a form with sensitive inputs sends them, if that's another site or the app's
+ * form submissions (a static app has no legitimate use for a stored password).
+ */
+function credentialForm(html: string): string | null {
+  for (const [, attributes, body] of html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi)) {
+    if (!SENSITIVE_INPUT_PATTERN.test(body)) continue;
+    const action = attributes.match(/\baction\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+    if (action && (/^(https?:)?\/\//i.test(action) || /(^|\/)~forms\//.test(action))) return action;
+  }
+  return null;
+}
+
+function obfuscatedScript(code: string): string | null {
+  for (const [pattern, description] of OBFUSCATION_PATTERNS) {
+    if (pattern.test(code)) return description;
+  }
+  const mangled = code.match(MANGLED_NAME_PATTERN)?.length ?? 0;
+  return mangled >= MANGLED_NAME_THRESHOLD ? "uses machine-obfuscated names like _0x1a2b" : null;
+}
+
+/** A finding as one line, for error details and review queues. */
+export function describeFinding(finding: ScanFinding): string {
+  return `${finding.file_path}: ${finding.detail} (${finding.rule})`;
+}
+
+/**
+ * A hash of a draft's file paths and contents. A publish review stores it so approving
+ * it can't publish files nobody scanned.
+ */
+export async function draftFingerprint(files: Pick<StoredFile, "file_path" | "content" | "encoding" | "storage_key">[]): Promise<string> {
+  const entries = await Promise.all(files.map(async (file) => `${file.file_path}\n${await fileHash(file)}`));
+  return sha256Hex(new TextEncoder().encode(entries.sort().join("\n")));
+}
+
+// --- Suspension ---
+
+/** What a suspended app answers every request with. It doesn't say why. */
+export function suspendedResponse(): Response {
+  return htmlPage(403, "App unavailable", "<h1>This app isn't available</h1><p>It has been suspended.</p>");
+}
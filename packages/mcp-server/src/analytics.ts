@@ -0,0 +1,245 @@
+import { sha256Hex } from "./files";
+import { clientIp } from "./limits";
+import { type PageView, type ProjectStore, createProjectStore } from "./store";
+import type { AnalyticsRow, Env } from "./types";
+
+/**
+ * Visit analytics for published apps, without cookies or stored IP addresses.
+ *
+ * serveApp counts each HTML page it serves at /app/:slug (including from the edge cache)
+ * with the path, the referring site's host, the country Cloudflare puts the visitor in
+ * and a device class from the user agent. Bots and prefetches aren't counted.
+ *
+ * Visitors are told apart by hashing their IP address and user agent with a secret and
+ * the day, so the same person gets a different hash tomorrow. The store adds each view
+ * to daily rollups straight away (see the analytics migration), and the hourly cron
+ * deletes earlier days' hashes (see forgetOldVisitors).
+ */
+
+/** How many days before and after a publish are compared. */
+export const COMPARE_DAYS = 7;
+
+/** Longest date range one report covers. */
+export const MAX_RANGE_DAYS = 366;
+
+const TOP_ITEMS = 10;
+
+/** What serveApp knows about the page it served. */
+export interface ServedPage {
+  projectId: string;
+  /** Where the app is served (see appBase) */
+  base: string;
+  filePath: string;
+}
+
+/**
+ * Counts a page view in the background, after the response is sent. Failures are only
+ * logged: analytics never breaks an app.
+ */
+export function countPageView(env: Env, ctx: ExecutionContext, request: Request, page: ServedPage, store?: ProjectStore): void {
+  if (request.method !== "GET" || isPrefetch(request)) return;
+  const userAgent = request.headers.get("User-Agent") ?? "";
+  if (isBot(userAgent)) return;
+  if (!store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) return;
+
+  ctx.waitUntil(
+    pageView(env, request, page, userAgent)
+      .then((view) => (store ?? createProjectStore(env)).recordPageView(view))
+      .catch((err) => console.error("Error counting page view", err))
+  );
+}
+
+async function pageView(env: Env, request: Request, page: ServedPage, userAgent: string): Promise<PageView> {
+  const day = utcDay(new Date());
+  const secret = env.COOKIE_ENCRYPTION_KEY ?? "";
+  const hash = await sha256Hex(
+    new TextEncoder().encode([secret, day, page.projectId, clientIp(request) ?? "", userAgent].join("\n"))
+  );
+
+  return {
+    project_id: page.projectId,
+    day,
+    path: `/${page.filePath}`.slice(0, 300),
+    referrer_host: referrerHost(request, page.base),
+    country: country(request),
+    device: deviceClass(userAgent),
+    visitor_hash: hash.slice(0, 32),
+  };
+}
+
+/** The referring site's host, or null for direct visits and links from elsewhere in the app. */
+function referrerHost(request: Request, base: string): string | null {
+  let referrer: URL;
+  try {
+    referrer = new URL(request.headers.get("Referer") ?? "");
+  } catch {
+    return null;
+  }
+  const url = new URL(request.url);
+  if (referrer.origin === url.origin && referrer.pathname.startsWith(base)) return null;
+  return referrer.hostname || null;
+}
+
+function country(request: Request): string | null {
+  const code = (request.cf?.country as string | undefined) ?? request.headers.get("CF-IPCountry");
+  // XX is unknown and T1 is Tor
+  return code && /^[A-Z]{2}$/.test(code) && code !== "XX" ? code : null;
+}
+
+function deviceClass(userAgent: string): PageView["device"] {
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) return "tablet";
+  if (/Mobi|iPhone|iPod|Android|Windows Phone/i.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+function isBot(userAgent: string): boolean {
+  return (
+    userAgent === "" ||
+    /bot|crawl|spider|slurp|headless|lighthouse|preview|facebookexternalhit|curl|wget|python|go-http|node-fetch|axios/i.test(
+      userAgent
+    )
+  );
+}
+
+function isPrefetch(request: Request): boolean {
+  return /prefetch|prerender/.test(request.headers.get("Sec-Purpose") ?? request.headers.get("Purpose") ?? "");
+}
+
+// --- Reports ---
+
+/** A publish, from the activity log. */
+export interface PublishEvent {
+  version_number: number;
+  message: string | null;
+  published_at: string;
+}
+
+/** Views and visitors over some days. */
+export interface Period {
+  days: number;
+  views: number;
+  visitors: number;
+}
+
+/**
+ * Sums the rollups for the days from `from` to `to`, and compares the days before and
+ * after each publish in that range. `rows` must also cover the COMPARE_DAYS around it.
+ *
+ * A publish is compared on full days only: up to COMPARE_DAYS before the day it happened
+ * (since the previous publish) and after it (until the next one, and before today).
+ * Visitors are summed per day, so someone who came back on two days counts twice.
+ */
+export function summarizeAnalytics(
+  rows: AnalyticsRow[],
+  range: { from: string; to: string },
+  publishes: PublishEvent[],
+  today: string
+) {
+  const inRange = rows.filter((r) => r.day >= range.from && r.day <= range.to);
+  const totals = new Map(rows.filter((r) => r.dimension === "total").map((r) => [r.day, r]));
+
+  const daily = days(range.from, range.to).map((day) => ({
+    day,
+    views: totals.get(day)?.views ?? 0,
+    visitors: totals.get(day)?.visitors ?? 0,
+  }));
+
+  const top = (dimension: AnalyticsRow["dimension"]) => {
+    const views = new Map<string, number>();
+    for (const r of inRange) {
+      if (r.dimension === dimension) views.set(r.value, (views.get(r.value) ?? 0) + r.views);
+    }
+    return [...views].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+  };
+
+  const period = (from: string, to: string): Period => {
+    const included = from <= to ? days(from, to) : [];
+    return {
+      days: included.length,
+      views: included.reduce((sum, day) => sum + (totals.get(day)?.views ?? 0), 0),
+      visitors: included.reduce((sum, day) => sum + (totals.get(day)?.visitors ?? 0), 0),
+    };
+  };
+
+  const sorted = [...publishes].sort((a, b) => a.published_at.localeCompare(b.published_at));
+  const comparisons = sorted.flatMap((publish, i) => {
+    const day = publish.published_at.slice(0, 10);
+    if (day < range.from || day > range.to) return [];
+
+    const previous = sorted[i - 1]?.published_at.slice(0, 10);
+    const next = sorted[i + 1]?.published_at.slice(0, 10);
+    const before = previous
+      ? period(maxDay(addDays(day, -COMPARE_DAYS), addDays(previous, 1)), addDays(day, -1))
+      : period(day, addDays(day, -1));
+    const after = period(
+      addDays(day, 1),
+      minDay(addDays(day, COMPARE_DAYS), addDays(next ?? today, -1), addDays(today, -1))
+    );
+
+    return [
+      {
+        ...publish,
+        before,
+        after,
+        change: {
+          views_per_day: percentChange(before, after, "views"),
+          visitors_per_day: percentChange(before, after, "visitors"),
+        },
+      },
+    ];
+  });
+
+  return {
+    from: range.from,
+    to: range.to,
+    views: daily.reduce((sum, d) => sum + d.views, 0),
+    visitors: daily.reduce((sum, d) => sum + d.visitors, 0),
+    daily,
+    top_pages: top("page").slice(0, TOP_ITEMS).map(([path, views]) => ({ path, views })),
+    top_referrers: top("referrer")
+      .filter(([host]) => host !== "")
+      .slice(0, TOP_ITEMS)
+      .map(([host, views]) => ({ host, views })),
+    countries: top("country").slice(0, TOP_ITEMS).map(([code, views]) => ({ country: code || null, views })),
+    devices: top("device").map(([device, views]) => ({ device, views })),
+    publishes: comparisons,
+  };
+}
+
+/** The change in the daily average, as a rounded percentage; null when there's nothing to compare. */
+function percentChange(before: Period, after: Period, key: "views" | "visitors"): number | null {
+  if (before.days === 0 || after.days === 0 || before[key] === 0) return null;
+  const average = (p: Period) => p[key] / p.days;
+  return Math.round(((average(after) - average(before)) / average(before)) * 100);
+}
+
+/** YYYY-MM-DD in UTC. */
+/** Deletes the visitor hashes of days before today, which no view can match any more. */
+export async function forgetOldVisitors(env: Env, store: ProjectStore = createProjectStore(env)): Promise<number> {
+  return store.deleteVisitorHashes(utcDay(new Date()));
+}
+
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, n: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + n);
+  return utcDay(date);
+}
+
+/** Every day from `from` to `to`, both included. */
+export function days(from: string, to: string): string[] {
+  const result: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) result.push(day);
+  return result;
+}
+
+function minDay(...days: string[]): string {
+  return days.reduce((a, b) => (a < b ? a : b));
+}
+
+function maxDay(...days: string[]): string {
+  return days.reduce((a, b) => (a > b ? a : b));
+}
@@ -0,0 +1,474 @@
+import { z } from "zod";
+import { MAX_EXPORT_TTL_MINUTES } from "../exports";
+import {
+  ACTIVITY_ACTIONS,
+  collectionRulesSchema,
+  fileEditsSchema,
+  fileInputSchema,
+  hostnameSchema,
+  memberRoleSchema,
+  settingsSchema,
+  slugSchema,
+} from "../services/schemas";
+
+/**
+ * OpenAPI 3.1 description of the REST API. Request bodies are generated from the same
+ * zod schemas the API and MCP tools validate with, so they can't drift apart.
+ */
+
+function schema(s: z.ZodType) {
+  const { $schema: _, ...rest } = z.toJSONSchema(s, { io: "input" });
+  return rest;
+}
+
+const projectId = { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } };
+const hostname = { name: "hostname", in: "path", required: true, schema: { type: "string" } };
+const collectionName = { name: "name", in: "path", required: true, schema: { type: "string" } };
+const environment = {
+  name: "environment",
+  in: "query",
+  description: "live: the published app's data; draft: the previews' data",
+  schema: { type: "string", enum: ["live", "draft"], default: "live" },
+};
+const submissionFilters = [
+  { name: "form", in: "query", schema: { type: "string" } },
+  environment,
+  { name: "since", in: "query", schema: { type: "string", format: "date-time" } },
+  { name: "until", in: "query", schema: { type: "string", format: "date-time" } },
+];
+const analyticsRange = [
+  { name: "from", in: "query", schema: { type: "string", format: "date" } },
+  { name: "to", in: "query", schema: { type: "string", format: "date" } },
+];
+const pageParams = [
+  { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100, default: 20 } },
+  { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+];
+
+const body = (s: z.ZodType) => ({
+  required: true,
+  content: { "application/json": { schema: schema(s) } },
+});
+
+const zipBody = {
+  required: true,
+  content: { "application/zip": { schema: { type: "string", format: "binary" } } },
+};
+
+const ok = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Data" } } },
+});
+
+const list = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/List" } } },
+});
+
+const errors = {
+  "400": { $ref: "#/components/responses/Error" },
+  "401": { $ref: "#/components/responses/Error" },
+  "403": { $ref: "#/components/responses/Error" },
+  "404": { $ref: "#/components/responses/Error" },
+  "429": { $ref: "#/components/responses/RateLimited" },
+};
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Shapps API",
+    version: "1.0.0",
+    description: "Manage Shapps projects, files and versions. Sign in at /login?client=dashboard to get a bearer token.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/templates": {
+      get: { summary: "List starter templates", responses: { "200": ok("Templates"), ...errors } },
+    },
+    "/projects": {
+      get: { summary: "List projects", parameters: pageParams, responses: { "200": list("Projects"), ...errors } },
+      post: {
+        summary: "Create a project",
+        requestBody: body(
+          z.object({
+            name: z.string(),
+            slug: slugSchema,
+            description: z.string().optional(),
+            template: z.string().optional(),
+          })
+        ),
+        responses: { "201": ok("The new project"), "409": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/projects/import": {
+      post: {
+        summary: "Create a project from a zip archive",
+        parameters: [
+          { name: "name", in: "query", schema: { type: "string" } },
+          { name: "slug", in: "query", schema: { type: "string" } },
+          { name: "description", in: "query", schema: { type: "string" } },
+        ],
+        requestBody: zipBody,
+        responses: { "201": ok("Import result"), "409": { $ref: "#/components/responses/Error" }, "422": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/projects/{id}": {
+      parameters: [projectId],
+      get: { summary: "Get a project with its files and routing", responses: { "200": ok("Project"), ...errors } },
+      patch: {
+        summary: "Update project settings",
+        requestBody: body(settingsSchema),
+        responses: { "200": ok("Updated project"), "409": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+      delete: { summary: "Delete a project", responses: { "204": { description: "Deleted" }, ...errors } },
+    },
+    "/projects/{id}/files": {
+      parameters: [projectId],
+      get: {
+        summary: "Read draft files",
+        parameters: [
+          { name: "path", in: "query", schema: { type: "array", items: { type: "string" } }, explode: true },
+          { name: "include_binary", in: "query", schema: { type: "boolean" } },
+        ],
+        responses: { "200": ok("Files"), ...errors },
+      },
+      put: {
+        summary: "Create or replace draft files",
+        requestBody: body(z.object({ files: z.array(fileInputSchema).min(1) })),
+        responses: { "200": ok("Per-file results"), ...errors },
+      },
+      patch: {
+        summary: "Apply targeted edits to draft files",
+        requestBody: body(z.object({ files: z.array(fileEditsSchema).min(1) })),
+        responses: { "200": ok("Edited files"), "422": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+      delete: {
+        summary: "Delete draft files",
+        parameters: [{ name: "path", in: "query", required: true, schema: { type: "array", items: { type: "string" } }, explode: true }],
+        responses: { "200": ok("Number of files deleted"), ...errors },
+      },
+    },
+    "/projects/{id}/versions": {
+      parameters: [projectId],
+      get: { summary: "List versions, newest first", parameters: pageParams, responses: { "200": list("Versions"), ...errors } },
+    },
+    "/projects/{id}/diff": {
+      parameters: [projectId],
+      get: {
+        summary: "Diff two versions (defaults to active vs. draft)",
+        parameters: [
+          { name: "from", in: "query", schema: { type: "string", format: "uuid" } },
+          { name: "to", in: "query", schema: { type: "string", format: "uuid" } },
+        ],
+        responses: { "200": ok("Diff"), ...errors },
+      },
+    },
+    "/projects/{id}/publish": {
+      parameters: [projectId],
+      post: {
+        summary: "Publish the draft. A draft the abuse scanner flags is held for an admin's review instead (422).",
+        requestBody: body(z.object({ message: z.string().optional(), expected_revision: z.number().int().optional() })),
+        responses: {
+          "200": ok("Publish result"),
+          "409": { $ref: "#/components/responses/Error" },
+          "422": { $ref: "#/components/responses/Error" },
+          ...errors,
+        },
+      },
+    },
+    "/projects/{id}/rollback": {
+      parameters: [projectId],
+      post: {
+        summary: "Copy a previous version into the draft",
+        requestBody: body(z.object({ version_id: z.string().uuid(), expected_revision: z.number().int().optional() })),
+        responses: { "200": ok("Rollback result"), "409": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/projects/{id}/duplicate": {
+      parameters: [projectId],
+      post: {
+        summary: "Copy a version into a new project (your own, or a public app with show_source on)",
+        requestBody: body(
+          z.object({
+            slug: slugSchema,
+            name: z.string().optional(),
+            description: z.string().optional(),
+            version_id: z.string().uuid().optional(),
+          })
+        ),
+        responses: { "201": ok("The new project"), "409": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/projects/{id}/import": {
+      parameters: [projectId],
+      post: {
+        summary: "Replace the draft's files with a zip archive",
+        requestBody: zipBody,
+        responses: { "200": ok("Import result"), "422": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/projects/{id}/exports": {
+      parameters: [projectId],
+      post: {
+        summary: "Export a version as a zip and get a short-lived download link",
+        requestBody: body(
+          z.object({
+            version_id: z.string().uuid().optional(),
+            expires_in_minutes: z.number().int().min(1).max(MAX_EXPORT_TTL_MINUTES).optional(),
+          })
+        ),
+        responses: { "201": ok("Download link"), ...errors },
+      },
+    },
+    "/projects/{id}/activity": {
+      parameters: [projectId],
+      get: {
+        summary: "The project's change history, newest first (owners only)",
+        parameters: [
+          ...pageParams,
+          { name: "since", in: "query", schema: { type: "string", format: "date-time" } },
+          { name: "until", in: "query", schema: { type: "string", format: "date-time" } },
+          { name: "actor", in: "query", schema: { type: "string" } },
+          {
+            name: "action",
+            in: "query",
+            description: "Repeat to match several actions",
+            schema: { type: "array", items: { type: "string", enum: [...ACTIVITY_ACTIONS] } },
+          },
+        ],
+        responses: { "200": list("Activity events"), ...errors },
+      },
+    },
+    "/projects/{id}/members": {
+      parameters: [projectId],
+      get: { summary: "List everyone with access and their role, the owner first", responses: { "200": ok("Members"), ...errors } },
+    },
+    "/projects/{id}/members/{email}": {
+      parameters: [projectId, { name: "email", in: "path", required: true, schema: { type: "string", format: "email" } }],
+      put: {
+        summary: "Give someone access or change their role (owners only)",
+        requestBody: body(z.object({ role: memberRoleSchema })),
+        responses: { "200": ok("The member"), ...errors },
+      },
+      delete: {
+        summary: "Remove someone's access (owners, or the member themselves)",
+        responses: { "204": { description: "Removed" }, ...errors },
+      },
+    },
+    "/projects/{id}/domains": {
+      parameters: [projectId],
+      get: {
+        summary: "List the custom domains the published app is served on, with the DNS records each needs",
+        responses: { "200": ok("Domains"), ...errors },
+      },
+      post: {
+        summary: "Add a custom domain (owners only); it serves the app once verified",
+        requestBody: body(z.object({ hostname: hostnameSchema })),
+        responses: { "201": ok("The domain and its DNS records"), ...errors },
+      },
+    },
+    "/projects/{id}/domains/{hostname}/verify": {
+      parameters: [projectId, hostname],
+      post: {
+        summary: "Check the domain's TXT record and start serving the app on it (owners only)",
+        responses: { "200": ok("The verified domain"), ...errors },
+      },
+    },
+    "/projects/{id}/domains/{hostname}": {
+      parameters: [projectId, hostname],
+      delete: {
+        summary: "Stop serving the app on a domain (owners only)",
+        responses: { "204": { description: "Removed" }, ...errors },
+      },
+    },
+    "/projects/{id}/preview-links": {
+      parameters: [projectId],
+      post: {
+        summary: "Create a signed preview link for the draft",
+        requestBody: body(z.object({ expires_in_hours: z.number().int().min(1).max(168).optional() })),
+        responses: { "201": ok("Preview link"), ...errors },
+      },
+      delete: { summary: "Revoke every preview link", responses: { "200": ok("Number revoked"), ...errors } },
+    },
+    "/projects/{id}/preview-links/{tokenId}": {
+      parameters: [projectId, { name: "tokenId", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      delete: { summary: "Revoke one preview link", responses: { "200": ok("Number revoked"), ...errors } },
+    },
+    "/projects/{id}/form-submissions": {
+      parameters: [projectId],
+      get: {
+        summary: "List submissions to the app's forms, newest first",
+        parameters: [...pageParams, ...submissionFilters],
+        responses: { "200": list("Form submissions"), ...errors },
+      },
+    },
+    "/projects/{id}/form-submissions/export": {
+      parameters: [projectId],
+      get: {
+        summary: "Download form submissions as CSV, oldest first",
+        parameters: submissionFilters,
+        responses: {
+          "200": { description: "CSV file", content: { "text/csv": { schema: { type: "string" } } } },
+          ...errors,
+        },
+      },
+    },
+    "/projects/{id}/analytics": {
+      parameters: [projectId],
+      get: {
+        summary: "Visits to the published app per day, top pages and referrers, and how each publish changed them",
+        parameters: analyticsRange,
+        responses: { "200": ok("Analytics for the date range (the last 30 days by default)"), ...errors },
+      },
+    },
+    "/projects/{id}/collections": {
+      parameters: [projectId],
+      get: {
+        summary: "List the app's data collections with their rules and document counts",
+        responses: { "200": ok("Collections"), ...errors },
+      },
+    },
+    "/projects/{id}/collections/{name}": {
+      parameters: [projectId, collectionName],
+      put: {
+        summary: "Create a collection or replace its rules (editors and owners)",
+        requestBody: body(collectionRulesSchema),
+        responses: { "200": ok("The collection"), "201": ok("The new collection"), ...errors },
+      },
+      delete: {
+        summary: "Delete a collection and all its documents, live and draft (owners only)",
+        responses: { "204": { description: "Deleted" }, ...errors },
+      },
+    },
+    "/projects/{id}/collections/{name}/documents": {
+      parameters: [projectId, collectionName],
+      get: {
+        summary: "List a collection's documents, newest first",
+        parameters: [...pageParams, environment],
+        responses: { "200": list("Documents"), ...errors },
+      },
+    },
+    "/projects/{id}/collections/{name}/documents/{docId}": {
+      parameters: [
+        projectId,
+        collectionName,
+        { name: "docId", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+      ],
+      delete: {
+        summary: "Delete a document (editors and owners)",
+        parameters: [environment],
+        responses: { "204": { description: "Deleted" }, ...errors },
+      },
+    },
+    "/admin/reports": {
+      get: {
+        summary: "Abuse reports from visitors, newest first (admins only)",
+        parameters: [
+          {
+            name: "status",
+            in: "query",
+            schema: { type: "string", enum: ["open", "dismissed", "actioned"], default: "open" },
+          },
+          { name: "project_id", in: "query", schema: { type: "string", format: "uuid" } },
+          ...pageParams,
+        ],
+        responses: { "200": list("Reports, each with its app's slug and owner"), ...errors },
+      },
+    },
+    "/admin/reports/{id}/dismiss": {
+      parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      post: {
+        summary: "Close an open report without acting on it (admins only)",
+        responses: { "204": { description: "Dismissed" }, ...errors },
+      },
+    },
+    "/admin/reviews": {
+      get: {
+        summary: "Publishes held by the abuse scanner, oldest first (admins only)",
+        parameters: pageParams,
+        responses: { "200": list("Pending reviews with the scanner's findings"), ...errors },
+      },
+    },
+    "/admin/reviews/{id}": {
+      parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      post: {
+        summary: "Approve a held publish, which publishes the scanned draft, or reject it (admins only)",
+        requestBody: body(z.object({ decision: z.enum(["approve", "reject"]), note: z.string().max(1000).optional() })),
+        responses: { "200": ok("The decided review and, if approved, the publish"), "409": { $ref: "#/components/responses/Error" }, ...errors },
+      },
+    },
+    "/admin/projects/{id}/suspension": {
+      parameters: [projectId],
+      put: {
+        summary: "Suspend an app: it's replaced by a neutral page but keeps its files and data (admins only)",
+        requestBody: body(z.object({ reason: z.string().min(1).max(1000) })),
+        responses: { "200": ok("The suspension, and how many open reports it closed"), ...errors },
+      },
+      delete: {
+        summary: "Lift an app's suspension (admins only)",
+        responses: { "200": ok("The project's suspension fields, now cleared"), ...errors },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      Data: { type: "object", properties: { data: {} }, required: ["data"] },
+      List: {
+        type: "object",
+        required: ["data", "pagination"],
+        properties: {
+          data: { type: "array", items: {} },
+          pagination: {
+            type: "object",
+            properties: {
+              limit: { type: "integer" },
+              offset: { type: "integer" },
+              total: { type: "integer" },
+              next_offset: { type: ["integer", "null"] },
+            },
+          },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: { type: "string" },
+              message: { type: "string" },
+              details: { type: "array", items: { type: "string" } },
+              limit: {
+                description: "Present when a quota (code quota_exceeded) or rate limit (code rate_limited) was hit",
+                type: "object",
+                properties: {
+                  limit: { type: "string" },
+                  max: { type: "integer" },
+                  requested: { type: "integer" },
+                  resets_at: { type: ["string", "null"], format: "date-time" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    responses: {
+      Error: {
+        description: "Error",
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      },
+      RateLimited: {
+        description: "Too many requests from this user or IP",
+        headers: { "Retry-After": { description: "Seconds until the limit resets", schema: { type: "integer" } } },
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      },
+    },
+  },
+};
@@ -0,0 +1,608 @@
+import { z } from "zod";
+import { MAX_ARCHIVE_BYTES } from "../archive";
+import { MAX_EXPORT_TTL_MINUTES } from "../exports";
+import { checkIpRate, enforceCallRate } from "../limits";
+import { LimitError, ServiceError } from "../services/errors";
+import { ProjectService } from "../services/projects";
+import {
+  activityFilterSchema,
+  analyticsRangeSchema,
+  collectionNameSchema,
+  collectionRulesSchema,
+  dataEnvironmentSchema,
+  fileEditsSchema,
+  fileInputSchema,
+  filePathSchema,
+  formSubmissionFilterSchema,
+  hostnameSchema,
+  memberRoleSchema,
+  settingsSchema,
+  slugSchema,
+} from "../services/schemas";
+import { verifySessionToken } from "../session";
+import type { Page } from "../store";
+import { fileTree, templates } from "../templates";
+import type { DataEnvironment, Env } from "../types";
+import { openApiDocument } from "./openapi";
+
+/**
+ * REST API for the dashboard, under /api/v1.
+ *
+ * - Authenticated with `Authorization: Bearer <session token>` (from /login?client=dashboard).
+ *   Cookies are deliberately not accepted: user apps share this origin and could
+ *   otherwise make requests with a signed-in visitor's cookie.
+ * - Success bodies are `{ data }`, plus `pagination` on list endpoints.
+ * - Error bodies are `{ error: { code, message, details? } }`. Quota and rate-limit errors
+ *   add a `limit` object, and rate-limit errors a Retry-After header.
+ * - Calls are rate-limited per IP and, once signed in, per user (shared with MCP tool calls).
+ * - The OpenAPI description is served at /api/v1/openapi.json.
+ */
+
+interface ApiContext {
+  request: Request;
+  env: Env;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  projects: ProjectService;
+}
+
+type Handler = (ctx: ApiContext) => Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handler: Handler) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    "^" + path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    }) + "$"
+  );
+  routes.push({ method, pattern, keys, handler });
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// --- Templates ---
+
+route("GET", "/api/v1/templates", async () =>
+  json({
+    data: templates.map((t) => ({ id: t.id, name: t.name, description: t.description, file_tree: fileTree(t) })),
+  })
+);
+
+// --- Projects ---
+
+route("GET", "/api/v1/projects", async ({ projects, query }) => {
+  const page = parsePage(query);
+  const { items, total } = await projects.listProjects(page);
+  return paginated(items, page, total);
+});
+
+route("POST", "/api/v1/projects", async ({ projects, request }) => {
+  const input = await parseBody(
+    request,
+    z.object({
+      name: z.string(),
+      slug: slugSchema,
+      description: z.string().optional(),
+      template: z.string().optional(),
+    })
+  );
+  const { project, template, files } = await projects.createProject(input);
+  return json({ data: { ...project, template, files } }, 201);
+});
+
+route("POST", "/api/v1/projects/:id/duplicate", async ({ projects, params, request }) => {
+  const input = await parseBody(
+    request,
+    z.object({
+      slug: slugSchema,
+      name: z.string().optional(),
+      description: z.string().optional(),
+      version_id: z.string().uuid().optional(),
+    })
+  );
+  const { project, forked_from, files_copied } = await projects.duplicateProject(params.id, {
+    slug: input.slug,
+    name: input.name,
+    description: input.description,
+    versionId: input.version_id,
+  });
+  return json({ data: { ...project, forked_from, files_copied } }, 201);
+});
+
+route("GET", "/api/v1/projects/:id", async ({ projects, params }) =>
+  json({ data: await projects.getProject(params.id) })
+);
+
+route("PATCH", "/api/v1/projects/:id", async ({ projects, params, request }) => {
+  const settings = await parseBody(request, settingsSchema);
+  return json({ data: await projects.updateSettings(params.id, settings) });
+});
+
+route("DELETE", "/api/v1/projects/:id", async ({ projects, params }) => {
+  await projects.deleteProject(params.id);
+  return new Response(null, { status: 204 });
+});
+
+// --- Files ---
+
+route("GET", "/api/v1/projects/:id/files", async ({ projects, params, query }) => {
+  const files = await projects.readFiles(params.id, {
+    paths: query.getAll("path"),
+    includeBinary: query.get("include_binary") === "true",
+  });
+  return json({ data: files });
+});
+
+route("PUT", "/api/v1/projects/:id/files", async ({ projects, params, request }) => {
+  const { files } = await parseBody(request, z.object({ files: z.array(fileInputSchema).min(1) }));
+  return json({ data: await projects.writeFiles(params.id, files) });
+});
+
+route("PATCH", "/api/v1/projects/:id/files", async ({ projects, params, request }) => {
+  const { files } = await parseBody(request, z.object({ files: z.array(fileEditsSchema).min(1) }));
+  return json({ data: await projects.editFiles(params.id, files) });
+});
+
+route("DELETE", "/api/v1/projects/:id/files", async ({ projects, params, query }) => {
+  const paths = query.getAll("path");
+  if (paths.length === 0) {
+    throw new ServiceError("invalid_request", "Pass at least one ?path= to delete.");
+  }
+  const checked = z.array(filePathSchema).safeParse(paths);
+  if (!checked.success) {
+    throw new ServiceError(
+      "invalid_request",
+      "Query parameters are invalid.",
+      checked.error.issues.map((issue) => `path.${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  return json({ data: { deleted: await projects.deleteFiles(params.id, checked.data) } });
+});
+
+// --- Versions ---
+
+route("GET", "/api/v1/projects/:id/versions", async ({ projects, params, query }) => {
+  const page = parsePage(query);
+  const { items, total } = await projects.listVersions(params.id, page);
+  return paginated(items, page, total);
+});
+
+route("GET", "/api/v1/projects/:id/diff", async ({ projects, params, query }) =>
+  json({ data: await projects.diffVersions(params.id, query.get("from") ?? undefined, query.get("to") ?? undefined) })
+);
+
+route("POST", "/api/v1/projects/:id/publish", async ({ projects, params, request }) => {
+  const body = await parseBody(
+    request,
+    z.object({ message: z.string().optional(), expected_revision: z.number().int().optional() })
+  );
+  const { project, ...result } = await projects.publish(params.id, {
+    message: body.message,
+    expectedRevision: body.expected_revision,
+  });
+  return json({ data: result });
+});
+
+route("POST", "/api/v1/projects/:id/rollback", async ({ projects, params, request }) => {
+  const body = await parseBody(
+    request,
+    z.object({ version_id: z.string().uuid(), expected_revision: z.number().int().optional() })
+  );
+  return json({
+    data: await projects.rollback(params.id, body.version_id, { expectedRevision: body.expected_revision }),
+  });
+});
+
+// --- Archives ---
+
+route("POST", "/api/v1/projects/import", async ({ projects, request, query }) => {
+  const result = await projects.importProject(await readZip(request), {
+    name: query.get("name") ?? undefined,
+    slug: query.get("slug") ?? undefined,
+    description: query.get("description") ?? undefined,
+  });
+  return json({ data: result }, 201);
+});
+
+route("POST", "/api/v1/projects/:id/import", async ({ projects, params, request }) =>
+  json({ data: await projects.importProject(await readZip(request), { projectId: params.id }) })
+);
+
+route("POST", "/api/v1/projects/:id/exports", async ({ projects, params, request }) => {
+  const body = await parseBody(
+    request,
+    z.object({
+      version_id: z.string().uuid().optional(),
+      expires_in_minutes: z.number().int().min(1).max(MAX_EXPORT_TTL_MINUTES).optional(),
+    })
+  );
+  const result = await projects.exportProject(params.id, {
+    versionId: body.version_id,
+    expiresInMinutes: body.expires_in_minutes,
+  });
+  return json({ data: result }, 201);
+});
+
+// --- Members ---
+
+route("GET", "/api/v1/projects/:id/members", async ({ projects, params }) =>
+  json({ data: await projects.listMembers(params.id) })
+);
+
+route("PUT", "/api/v1/projects/:id/members/:email", async ({ projects, params, request }) => {
+  if (!z.string().email().safeParse(params.email).success) {
+    throw new ServiceError("invalid_request", `"${params.email}" isn't a valid email address.`);
+  }
+  const { role } = await parseBody(request, z.object({ role: memberRoleSchema }));
+  return json({ data: await projects.addMember(params.id, params.email, role) });
+});
+
+route("DELETE", "/api/v1/projects/:id/members/:email", async ({ projects, params }) => {
+  await projects.removeMember(params.id, params.email);
+  return new Response(null, { status: 204 });
+});
+
+// --- Domains ---
+
+route("GET", "/api/v1/projects/:id/domains", async ({ projects, params }) =>
+  json({ data: await projects.listDomains(params.id) })
+);
+
+route("POST", "/api/v1/projects/:id/domains", async ({ projects, params, request }) => {
+  const { hostname } = await parseBody(request, z.object({ hostname: hostnameSchema }));
+  return json({ data: await projects.addDomain(params.id, hostname) }, 201);
+});
+
+route("POST", "/api/v1/projects/:id/domains/:hostname/verify", async ({ projects, params }) =>
+  json({ data: await projects.verifyDomain(params.id, params.hostname) })
+);
+
+route("DELETE", "/api/v1/projects/:id/domains/:hostname", async ({ projects, params }) => {
+  await projects.removeDomain(params.id, params.hostname);
+  return new Response(null, { status: 204 });
+});
+
+// --- Activity ---
+
+route("GET", "/api/v1/projects/:id/activity", async ({ projects, params, query }) => {
+  const page = parsePage(query);
+  const filter = activityFilterSchema.safeParse({
+    since: query.get("since") ?? undefined,
+    until: query.get("until") ?? undefined,
+    actor: query.get("actor") ?? undefined,
+    action: query.has("action") ? query.getAll("action") : undefined,
+  });
+  if (!filter.success) {
+    throw new ServiceError(
+      "invalid_request",
+      "Query parameters are invalid.",
+      filter.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  const { items, total } = await projects.getActivity(params.id, filter.data, page);
+  return paginated(items, page, total);
+});
+
+// --- Preview links ---
+
+route("POST", "/api/v1/projects/:id/preview-links", async ({ projects, params, request }) => {
+  const body = await parseBody(
+    request,
+    z.object({ expires_in_hours: z.number().int().min(1).max(168).optional() })
+  );
+  return json({ data: await projects.createPreviewLink(params.id, body.expires_in_hours) }, 201);
+});
+
+route("DELETE", "/api/v1/projects/:id/preview-links", async ({ projects, params }) =>
+  json({ data: { revoked: await projects.revokePreviewLinks(params.id) } })
+);
+
+route("DELETE", "/api/v1/projects/:id/preview-links/:tokenId", async ({ projects, params }) =>
+  json({ data: { revoked: await projects.revokePreviewLinks(params.id, params.tokenId) } })
+);
+
+// --- App data ---
+
+route("GET", "/api/v1/projects/:id/collections", async ({ projects, params }) =>
+  json({ data: await projects.listCollections(params.id) })
+);
+
+route("PUT", "/api/v1/projects/:id/collections/:name", async ({ projects, params, request }) => {
+  if (!collectionNameSchema.safeParse(params.name).success) {
+    throw new ServiceError(
+      "invalid_request",
+      `"${params.name}" isn't a valid collection name. Use lowercase letters, numbers, '_' and '-'.`
+    );
+  }
+  const rules = await parseBody(request, collectionRulesSchema);
+  const collection = await projects.defineCollection(params.id, params.name, rules);
+  return json({ data: collection }, collection.created ? 201 : 200);
+});
+
+route("DELETE", "/api/v1/projects/:id/collections/:name", async ({ projects, params }) => {
+  await projects.deleteCollection(params.id, params.name);
+  return new Response(null, { status: 204 });
+});
+
+route("GET", "/api/v1/projects/:id/collections/:name/documents", async ({ projects, params, query }) => {
+  const page = parsePage(query);
+  const { items, total } = await projects.queryData(params.id, params.name, parseEnvironment(query), page);
+  return paginated(items, page, total);
+});
+
+route("DELETE", "/api/v1/projects/:id/collections/:name/documents/:docId", async ({ projects, params, query }) => {
+  const deleted = await projects.deleteDocuments(params.id, params.name, parseEnvironment(query), [params.docId]);
+  if (deleted === 0) {
+    throw new ServiceError("not_found", "Document not found");
+  }
+  return new Response(null, { status: 204 });
+});
+
+// --- Forms ---
+
+route("GET", "/api/v1/projects/:id/form-submissions", async ({ projects, params, query }) => {
+  const page = parsePage(query);
+  const { items, total } = await projects.listFormSubmissions(params.id, parseSubmissionFilter(query), page);
+  return paginated(items, page, total);
+});
+
+route("GET", "/api/v1/projects/:id/form-submissions/export", async ({ projects, params, query }) => {
+  const { csv } = await projects.exportFormSubmissions(params.id, parseSubmissionFilter(query));
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="form-submissions.csv"',
+    },
+  });
+});
+
+route("GET", "/api/v1/projects/:id/analytics", async ({ projects, params, query }) => {
+  const range = analyticsRangeSchema.safeParse({ from: query.get("from") ?? undefined, to: query.get("to") ?? undefined });
+  if (!range.success) {
+    throw new ServiceError("invalid_request", "from and to must be dates (YYYY-MM-DD).");
+  }
+  return json({ data: await projects.getAnalytics(params.id, range.data) });
+});
+
+// --- Moderation (admins only) ---
+
+route("GET", "/api/v1/admin/reports", async ({ projects, query }) => {
+  const status = z.enum(["open", "dismissed", "actioned"]).safeParse(query.get("status") ?? "open");
+  if (!status.success) {
+    throw new ServiceError("invalid_request", 'status must be "open", "dismissed" or "actioned".');
+  }
+  const page = parsePage(query);
+  const { items, total } = await projects.listReports(
+    { status: status.data, projectId: query.get("project_id") ?? undefined },
+    page
+  );
+  return paginated(items, page, total);
+});
+
+route("POST", "/api/v1/admin/reports/:id/dismiss", async ({ projects, params }) => {
+  await projects.dismissReport(params.id);
+  return new Response(null, { status: 204 });
+});
+
+route("GET", "/api/v1/admin/reviews", async ({ projects, query }) => {
+  const page = parsePage(query);
+  const { items, total } = await projects.listPublishReviews(page);
+  return paginated(items, page, total);
+});
+
+route("POST", "/api/v1/admin/reviews/:id", async ({ projects, params, request }) => {
+  const body = await parseBody(
+    request,
+    z.object({ decision: z.enum(["approve", "reject"]), note: z.string().max(1000).optional() })
+  );
+  return json({ data: await projects.decidePublishReview(params.id, body.decision, body.note) });
+});
+
+route("PUT", "/api/v1/admin/projects/:id/suspension", async ({ projects, params, request }) => {
+  const body = await parseBody(request, z.object({ reason: z.string().trim().min(1).max(1000) }));
+  return json({ data: await projects.setSuspension(params.id, body.reason) });
+});
+
+route("DELETE", "/api/v1/admin/projects/:id/suspension", async ({ projects, params }) =>
+  json({ data: await projects.setSuspension(params.id, null) })
+);
+
+/** Entry point for everything under /api/. */
+export async function handleApi(request: Request, env: Env): Promise<Response> {
+  const cors = corsHeaders(request, env);
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: cors });
+  }
+
+  const limited = await checkIpRate(env, request, "api");
+  const response = limited ? errorResponse(limited) : await dispatch(request, env);
+  for (const [name, value] of Object.entries(cors)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+async function dispatch(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (url.pathname === "/api/v1/openapi.json") {
+    return json(openApiDocument);
+  }
+
+  const matching = routes.filter((r) => r.pattern.test(url.pathname));
+  if (matching.length === 0) {
+    return errorResponse(new ServiceError("not_found", `No API route for ${url.pathname}`));
+  }
+
+  const matched = matching.find((r) => r.method === request.method);
+  if (!matched) {
+    const allowed = matching.map((r) => r.method).join(", ");
+    return errorResponse(new ServiceError("invalid_request", `Method ${request.method} not allowed. Use ${allowed}.`), 405, {
+      Allow: allowed,
+    });
+  }
+
+  try {
+    const email = await authenticate(request, env);
+    await enforceCallRate(env, email);
+    const values = url.pathname.match(matched.pattern)!.slice(1);
+    const params = Object.fromEntries(matched.keys.map((key, i) => [key, decodeURIComponent(values[i])]));
+
+    return await matched.handler({
+      request,
+      env,
+      params,
+      query: url.searchParams,
+      projects: new ProjectService(env, email, undefined, undefined, "dashboard"),
+    });
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      return errorResponse(err);
+    }
+    console.error("Unhandled API error", err);
+    return errorResponse(new ServiceError("internal", "Something went wrong. Please try again."));
+  }
+}
+
+async function authenticate(request: Request, env: Env): Promise<string> {
+  const header = request.headers.get("Authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null;
+  const email = token ? await verifySessionToken(env, token) : null;
+
+  if (!email) {
+    throw new ServiceError("unauthorized", "Missing or invalid session token. Sign in again to get a new one.");
+  }
+  return email;
+}
+
+async function parseBody<T extends z.ZodType>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new ServiceError("invalid_request", "Request body must be valid JSON.");
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ServiceError(
+      "invalid_request",
+      "Request body is invalid.",
+      result.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/** Reads a raw zip request body (Content-Type application/zip). */
+async function readZip(request: Request): Promise<Uint8Array> {
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim();
+  if (contentType !== "application/zip" && contentType !== "application/octet-stream") {
+    throw new ServiceError("invalid_request", "Send the zip file as the request body with Content-Type: application/zip.");
+  }
+  if (Number(request.headers.get("Content-Length") ?? 0) > MAX_ARCHIVE_BYTES) {
+    throw new ServiceError("invalid_request", `Archive is too large; the limit is ${MAX_ARCHIVE_BYTES} bytes.`);
+  }
+  return new Uint8Array(await request.arrayBuffer());
+}
+
+function parsePage(query: URLSearchParams): Page {
+  const limit = Number(query.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(query.get("offset") ?? 0);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ServiceError("invalid_request", `limit must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ServiceError("invalid_request", "offset must be a non-negative integer.");
+  }
+  return { limit, offset };
+}
+
+function parseSubmissionFilter(query: URLSearchParams) {
+  const filter = formSubmissionFilterSchema.safeParse({
+    form: query.get("form") ?? undefined,
+    environment: query.get("environment") ?? undefined,
+    since: query.get("since") ?? undefined,
+    until: query.get("until") ?? undefined,
+  });
+  if (!filter.success) {
+    throw new ServiceError(
+      "invalid_request",
+      "Query parameters are invalid.",
+      filter.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  return filter.data;
+}
+
+/** The ?environment= of app data endpoints, "live" by default. */
+function parseEnvironment(query: URLSearchParams): DataEnvironment {
+  const result = dataEnvironmentSchema.safeParse(query.get("environment") ?? "live");
+  if (!result.success) {
+    throw new ServiceError("invalid_request", 'environment must be "live" or "draft".');
+  }
+  return result.data;
+}
+
+function paginated(items: unknown[], page: Page, total: number): Response {
+  const nextOffset = page.offset + items.length;
+  return json({
+    data: items,
+    pagination: {
+      limit: page.limit,
+      offset: page.offset,
+      total,
+      next_offset: nextOffset < total ? nextOffset : null,
+    },
+  });
+}
+
+function corsHeaders(request: Request, env: Env): Record<string, string> {
+  const origin = request.headers.get("Origin");
+  if (!origin || !env.DASHBOARD_URL || origin !== new URL(env.DASHBOARD_URL).origin) {
+    return {};
+  }
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorResponse(err: ServiceError, status = err.status, headers: Record<string, string> = {}): Response {
+  const limit = err instanceof LimitError ? { limit: err.limit } : {};
+  const response = json(
+    { error: { code: err.code, message: err.message, ...(err.details ? { details: err.details } : {}), ...limit } },
+    status
+  );
+  if (err instanceof LimitError && err.retryAfter !== null) {
+    response.headers.set("Retry-After", String(err.retryAfter));
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
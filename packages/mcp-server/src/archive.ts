@@ -0,0 +1,180 @@
+import { type Zippable, unzipSync, zipSync } from "fflate";
+import { MAX_FILE_BYTES, pathProblem } from "./files";
+
+/**
+ * Zip archives for export_project and import_project.
+ *
+ * An export holds the version's files at their project paths plus MANIFEST_FILE,
+ * which records the project's metadata and the version it came from. Imports accept
+ * any zip (e.g. a static site downloaded from elsewhere): a manifest is optional,
+ * and a single top-level folder that wraps everything is stripped.
+ */
+
+export const MANIFEST_FILE = "shapps-export.json";
+
+/** Largest zip we accept for import. */
+export const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024; // 50 MB
+
+/** Most files an import may contain. */
+export const MAX_ARCHIVE_FILES = 1000;
+
+/** Largest total size of an import's files once unpacked. */
+export const MAX_UNPACKED_BYTES = 100 * 1024 * 1024; // 100 MB
+
+/** OS clutter that's skipped instead of imported. */
+const JUNK = [/^__MACOSX\//, /(^|\/)\.DS_Store$/, /(^|\/)Thumbs\.db$/];
+
+export interface ExportManifest {
+  format: "shapps-export";
+  format_version: 1;
+  exported_at: string;
+  project: {
+    name: string;
+    slug: string;
+    description: string | null;
+    routing_mode: "static" | "spa";
+    show_source: boolean;
+  };
+  version: {
+    version_number: number;
+    message: string | null;
+    is_draft: boolean;
+    created_at: string;
+  };
+  files: { file_path: string; content_type: string; size: number }[];
+}
+
+export interface ArchiveFile {
+  file_path: string;
+  bytes: Uint8Array;
+}
+
+export interface ReadArchiveResult {
+  files: ArchiveFile[];
+  manifest: ExportManifest | null;
+  /** Entries left out on purpose (directories are not listed). */
+  skipped: string[];
+  /** Problems that make the archive unusable. Empty when it can be imported. */
+  errors: string[];
+}
+
+export function buildArchive(files: ArchiveFile[], manifest: ExportManifest): Uint8Array {
+  const entries: Zippable = {};
+  for (const file of files) {
+    entries[file.file_path] = file.bytes;
+  }
+  entries[MANIFEST_FILE] = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return zipSync(entries, { level: 6 });
+}
+
+/**
+ * Unpacks and validates a zip. Sizes are checked against the zip's own headers before
+ * anything is inflated, and again afterwards in case the headers lied.
+ * Throws with a user-facing message if the data isn't a readable zip.
+ */
+export function readArchive(data: Uint8Array): ReadArchiveResult {
+  const errors: string[] = [];
+  const skipped: string[] = [];
+
+  if (data.length > MAX_ARCHIVE_BYTES) {
+    return { files: [], manifest: null, skipped, errors: [`Archive is ${data.length} bytes; the limit is ${MAX_ARCHIVE_BYTES} bytes.`] };
+  }
+
+  let declaredTotal = 0;
+  let fileCount = 0;
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, {
+      filter: (info) => {
+        if (info.name.endsWith("/")) return false;
+        fileCount++;
+        declaredTotal += info.originalSize;
+        if (info.originalSize > MAX_FILE_BYTES) {
+          errors.push(`${info.name}: File is ${info.originalSize} bytes; the limit is ${MAX_FILE_BYTES} bytes.`);
+        }
+        return errors.length === 0 && fileCount <= MAX_ARCHIVE_FILES && declaredTotal <= MAX_UNPACKED_BYTES;
+      },
+    });
+  } catch {
+    throw new Error("Content is not a valid zip archive.");
+  }
+
+  if (fileCount > MAX_ARCHIVE_FILES) {
+    errors.push(`Archive has ${fileCount} files; the limit is ${MAX_ARCHIVE_FILES}.`);
+  }
+  if (declaredTotal > MAX_UNPACKED_BYTES) {
+    errors.push(`Archive unpacks to ${declaredTotal} bytes; the limit is ${MAX_UNPACKED_BYTES} bytes.`);
+  }
+  if (errors.length > 0) {
+    return { files: [], manifest: null, skipped, errors };
+  }
+
+  let files: ArchiveFile[] = [];
+  let unpackedTotal = 0;
+  for (const [name, bytes] of Object.entries(entries)) {
+    unpackedTotal += bytes.length;
+    if (bytes.length > MAX_FILE_BYTES) {
+      errors.push(`${name}: File is ${bytes.length} bytes; the limit is ${MAX_FILE_BYTES} bytes.`);
+      continue;
+    }
+
+    const path = name.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+    if (JUNK.some((pattern) => pattern.test(path))) {
+      skipped.push(name);
+      continue;
+    }
+
+    const problem = pathProblem(path);
+    if (problem) {
+      errors.push(`${name}: ${problem}`);
+      continue;
+    }
+    files.push({ file_path: path, bytes });
+  }
+
+  if (unpackedTotal > MAX_UNPACKED_BYTES) {
+    errors.push(`Archive unpacks to ${unpackedTotal} bytes; the limit is ${MAX_UNPACKED_BYTES} bytes.`);
+  }
+
+  files = stripCommonRoot(files);
+
+  let manifest: ExportManifest | null = null;
+  const manifestFile = files.find((f) => f.file_path === MANIFEST_FILE);
+  if (manifestFile) {
+    manifest = parseManifest(manifestFile.bytes);
+    if (manifest) {
+      files = files.filter((f) => f !== manifestFile);
+    }
+  }
+
+  if (files.length === 0 && errors.length === 0) {
+    errors.push("Archive contains no files.");
+  }
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (seen.has(file.file_path)) errors.push(`${file.file_path}: Appears more than once.`);
+    seen.add(file.file_path);
+  }
+
+  return { files: files.sort((a, b) => a.file_path.localeCompare(b.file_path)), manifest, skipped, errors };
+}
+
+/** "site/index.html", "site/css/a.css" → "index.html", "css/a.css" when every file shares one folder. */
+function stripCommonRoot(files: ArchiveFile[]): ArchiveFile[] {
+  if (files.length === 0 || files.some((f) => !f.file_path.includes("/"))) return files;
+
+  const root = files[0].file_path.split("/")[0];
+  if (files.some((f) => f.file_path.split("/")[0] !== root)) return files;
+
+  return files.map((f) => ({ ...f, file_path: f.file_path.slice(root.length + 1) }));
+}
+
+function parseManifest(bytes: Uint8Array): ExportManifest | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    return parsed?.format === "shapps-export" ? (parsed as ExportManifest) : null;
+  } catch {
+    return null;
+  }
+}
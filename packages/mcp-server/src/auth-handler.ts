@@ -1,14 +1,38 @@
 import type { AuthRequest } from "@cloudflare/workers-oauth-provider";
-import { serveApp } from "./serve";
+import { handleApi } from "./api/router";
+import { createAppCache } from "./cache";
+import { DATA_PREFIX, serveData } from "./data";
+import { serveExport } from "./exports";
+import { isReservedHostname, normalizeHostname, vanitySlug } from "./domains";
+import { FORMS_PREFIX, serveForm } from "./forms";
+import { checkIpRate, rateLimitedResponse } from "./limits";
+import { serveReport } from "./report";
+import { type ServeDeps, serveApp } from "./serve";
+import { SOURCE_PREFIX, serveSource } from "./source";
+import { clearSessionCookie, createSessionCookie, createSessionToken } from "./session";
+import { createProjectStore } from "./store";
 import type { Env, Props } from "./types";
 
 /**
  * Handles all non-MCP routes:
  * - /authorize  → starts the Google Sign-In flow
  * - /callback   → Google redirects back here after sign-in
- * - /app/:slug  → serves published apps (public, no auth)
- * - /preview/:slug → serves draft previews (public for now)
+ * - /login      → signs an owner in to the browser (for private apps and previews),
+ *                  or with ?client=dashboard hands the dashboard an API token
+ * - /logout     → clears the owner's browser session
+ * - /app/:slug  → serves published apps (public apps to anyone, private apps to the owner)
+ *                  (app and preview requests are rate-limited per IP, see limits.ts, except
+ *                  edge cache hits, see serveApp)
+ * - /app/:slug/~source → view-source pages, when the app is public and show_source is on
+ * - /app/:slug/~data and /preview/:slug/~data → the app's data collections (see data.ts)
+ * - /app/:slug/~forms/:form and /preview/... → the app's form submissions (see forms.ts)
+ * - /preview/:slug → serves draft previews (preview token or owner session)
+ * - /report/:slug → lets visitors report an app for abuse (see report.ts)
+ * - /api/v1/*   → REST API for the dashboard (see api/router.ts)
+ * - /exports/:id.zip → downloads a project export (signed, short-lived link)
  * - /           → health check
+ *
+ * Apps on their own domains are served by routeAppHost before any of this.
  */
 export const AuthHandler: ExportedHandler<Env> = {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -25,22 +49,45 @@ export const AuthHandler: ExportedHandler<Env> = {
       return handleCallback(request, env);
     }
 
-    // --- /app/:slug → serve published app files ---
-    if (path.startsWith("/app/")) {
-      const rest = path.slice("/app/".length);
-      const slashIndex = rest.indexOf("/");
-      const slug = slashIndex === -1 ? rest : rest.slice(0, slashIndex);
-      const filePath = slashIndex === -1 ? "index.html" : rest.slice(slashIndex + 1) || "index.html";
-      return serveApp(env, slug, filePath, "active");
+    // --- /login: Sign the owner in to the browser ---
+    if (path === "/login") {
+      return handleLogin(request, env);
     }
 
-    // --- /preview/:slug → serve draft preview files ---
-    if (path.startsWith("/preview/")) {
-      const rest = path.slice("/preview/".length);
-      const slashIndex = rest.indexOf("/");
-      const slug = slashIndex === -1 ? rest : rest.slice(0, slashIndex);
-      const filePath = slashIndex === -1 ? "index.html" : rest.slice(slashIndex + 1) || "index.html";
-      return serveApp(env, slug, filePath, "draft");
+    // --- /logout: Clear the owner's browser session ---
+    if (path === "/logout") {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: "/", "Set-Cookie": clearSessionCookie() },
+      });
+    }
+
+    // --- /api/* → REST API ---
+    if (path.startsWith("/api/")) {
+      return handleApi(request, env);
+    }
+
+    // --- /exports/:id.zip → project export downloads ---
+    const exportMatch = path.match(/^\/exports\/([0-9a-f-]{36})\.zip$/);
+    if (exportMatch) {
+      return serveExport(env, request, exportMatch[1]);
+    }
+
+    // --- /app/:slug and /preview/:slug → app files ---
+    if (path.startsWith("/app/") || path.startsWith("/preview/")) {
+      return path.startsWith("/app/")
+        ? routeApp(request, env, ctx, "/app/", "active")
+        : routeApp(request, env, ctx, "/preview/", "draft");
+    }
+
+    // --- /report/:slug → abuse reports, rate-limited per IP like apps ---
+    const reportMatch = path.match(/^\/report\/([a-z0-9-]+)\/?$/);
+    if (reportMatch) {
+      const limited = await checkIpRate(env, request, "app");
+      if (limited) {
+        return rateLimitedResponse(limited);
+      }
+      return serveReport(env, request, reportMatch[1]);
     }
 
     // --- / → health check ---
@@ -54,6 +101,119 @@ export const AuthHandler: ExportedHandler<Env> = {
   },
 };
 
+/**
+ * Splits /app/:slug/<path> (or /preview/...) into slug and file path and serves it.
+ * A bare /app/:slug is redirected to /app/:slug/ so the app's relative links resolve.
+ */
+function routeApp(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  prefix: "/app/" | "/preview/",
+  mode: "active" | "draft"
+): Promise<Response> | Response {
+  const url = new URL(request.url);
+  const rest = url.pathname.slice(prefix.length);
+  const slashIndex = rest.indexOf("/");
+
+  if (slashIndex === -1) {
+    return new Response(null, { status: 301, headers: { Location: `${prefix}${rest}/${url.search}` } });
+  }
+
+  const slug = rest.slice(0, slashIndex);
+  let filePath: string;
+  try {
+    filePath = decodeURIComponent(rest.slice(slashIndex + 1));
+  } catch {
+    return new Response("Bad request", { status: 400 });
+  }
+
+  if (mode === "active" && (filePath === SOURCE_PREFIX || filePath.startsWith(`${SOURCE_PREFIX}/`))) {
+    return limitAppRequest(env, request, () => serveSource(env, request, slug, filePath.slice(SOURCE_PREFIX.length)));
+  }
+
+  return serveAppPath(request, env, ctx, slug, filePath, mode);
+}
+
+/**
+ * Serves apps on their own hostnames (see domains.ts): verified custom domains, and
+ * <slug>.<APPS_DOMAIN> when that's set. The published app is served at the root, with
+ * the same rate limits as /app. Returns null for every other host, like the Worker's own.
+ */
+export async function routeAppHost(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  deps: ServeDeps = {}
+): Promise<Response | null> {
+  let hostname: string;
+  try {
+    hostname = normalizeHostname(new URL(request.url).hostname);
+  } catch {
+    return null; // localhost, IP addresses
+  }
+
+  let slug = vanitySlug(env, hostname);
+  if (!slug) {
+    if (isReservedHostname(env, hostname)) return null;
+    slug = await customDomainSlug(env, ctx, hostname, deps);
+    if (!slug) return null;
+  }
+
+  let filePath: string;
+  try {
+    filePath = decodeURIComponent(new URL(request.url).pathname.slice(1));
+  } catch {
+    return new Response("Bad request", { status: 400 });
+  }
+  return serveAppPath(request, env, ctx, slug, filePath, "active", deps, "/");
+}
+
+/** The slug of the app verified for a custom domain, or null. Both answers are cached (see cache.ts). */
+async function customDomainSlug(env: Env, ctx: ExecutionContext, hostname: string, deps: ServeDeps): Promise<string | null> {
+  const cache = deps.cache ?? createAppCache(env);
+  const cached = await cache.getHost(hostname);
+  if (cached) return cached.slug;
+
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) return null;
+  const project = await (deps.store ?? createProjectStore(env)).getProjectByDomain(hostname);
+  const slug = project?.slug ?? null;
+  ctx.waitUntil(cache.putHost(hostname, { slug }));
+  return slug;
+}
+
+/** Serves an app's data API, form endpoint or files. Files are rate-limited by serveApp itself. */
+function serveAppPath(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  slug: string,
+  filePath: string,
+  mode: "active" | "draft",
+  deps?: ServeDeps,
+  base?: string
+): Promise<Response> {
+  if (filePath.startsWith(`${DATA_PREFIX}/`)) {
+    return limitAppRequest(env, request, () =>
+      serveData(env, request, slug, filePath.slice(DATA_PREFIX.length + 1), mode, deps, base)
+    );
+  }
+
+  if (filePath.startsWith(`${FORMS_PREFIX}/`)) {
+    return limitAppRequest(env, request, () =>
+      serveForm(env, request, slug, filePath.slice(FORMS_PREFIX.length + 1), mode, deps, base)
+    );
+  }
+
+  return serveApp(env, ctx, request, slug, filePath, mode, deps, base);
+}
+
+/** Counts an app request against the client's IP and serves it if that's within the limit. */
+async function limitAppRequest(env: Env, request: Request, serve: () => Promise<Response>): Promise<Response> {
+  const limited = await checkIpRate(env, request, "app");
+  return limited ? rateLimitedResponse(limited) : serve();
+}
+
 /**
  * Step 1 of OAuth: Parse the MCP client's authorization request,
  * save it in KV, and redirect the user to Google's sign-in page.
@@ -75,22 +235,65 @@ async function handleAuthorize(request: Request, env: Env): Promise<Response> {
     { expirationTtl: 600 } // expires in 10 minutes
   );
 
-  // Build the Google Sign-In URL
+  return Response.redirect(googleAuthUrl(request, env, stateParam), 302);
+}
+
+/**
+ * Browser sign-in for owners: same Google flow as /authorize, but it ends by
+ * setting a session cookie instead of completing an MCP authorization.
+ * With ?client=dashboard it instead sends a session token to DASHBOARD_URL.
+ */
+async function handleLogin(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const client = url.searchParams.get("client") === "dashboard" ? "dashboard" : "browser";
+
+  if (client === "dashboard" && !env.DASHBOARD_URL) {
+    return new Response("Dashboard sign-in is not configured", { status: 404 });
+  }
+
+  const returnTo = sameOriginPath(url.searchParams.get("return_to") ?? "/", url.origin);
+
+  const stateParam = crypto.randomUUID();
+  await env.OAUTH_KV.put(
+    `login_state:${stateParam}`,
+    JSON.stringify({ returnTo, client }),
+    { expirationTtl: 600 } // expires in 10 minutes
+  );
+
+  return Response.redirect(googleAuthUrl(request, env, stateParam), 302);
+}
+
+/**
+ * The path, query and hash of a return_to that stays on this origin, else "/" (no open redirects).
+ * Resolving it as a URL catches tricks like "//evil.com" and "/\evil.com", which browsers treat as other hosts.
+ */
+function sameOriginPath(requested: string, origin: string): string {
+  let target: URL;
+  try {
+    target = new URL(requested, origin);
+  } catch {
+    return "/";
+  }
+  return target.origin === origin ? target.pathname + target.search + target.hash : "/";
+}
+
+/** Builds the Google Sign-In URL for a given state token. */
+function googleAuthUrl(request: Request, env: Env, stateParam: string): string {
   const redirectUri = new URL("/callback", request.url).href;
-  const googleAuthUrl = new URL("https://accounts.google.com/o/oauth2/v2/auth");
-  googleAuthUrl.searchParams.set("client_id", env.GOOGLE_CLIENT_ID);
-  googleAuthUrl.searchParams.set("redirect_uri", redirectUri);
-  googleAuthUrl.searchParams.set("response_type", "code");
-  googleAuthUrl.searchParams.set("scope", "openid email profile");
-  googleAuthUrl.searchParams.set("state", stateParam);
-  googleAuthUrl.searchParams.set("access_type", "offline");
-
-  return Response.redirect(googleAuthUrl.toString(), 302);
+  const url = new URL("https://accounts.google.com/o/oauth2/v2/auth");
+  url.searchParams.set("client_id", env.GOOGLE_CLIENT_ID);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", stateParam);
+  url.searchParams.set("access_type", "offline");
+  return url.toString();
 }
 
 /**
  * Step 2 of OAuth: Google redirects here with a code.
- * We exchange it for the user's profile, then complete the MCP authorization.
+ * We exchange it for the user's profile, then complete the MCP authorization
+ * (or, for a /login flow, set the owner's session cookie).
  */
 async function handleCallback(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
@@ -101,13 +304,13 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
     return new Response("Missing code or state from Google", { status: 400 });
   }
 
-  // Retrieve the original OAuth request we saved in /authorize
+  // Retrieve the original OAuth request we saved in /authorize (or the /login request)
   const stored = await env.OAUTH_KV.get(`oauth_state:${state}`);
-  if (!stored) {
+  const storedLogin = stored ? null : await env.OAUTH_KV.get(`login_state:${state}`);
+  if (!stored && !storedLogin) {
     return new Response("Invalid or expired state. Please try connecting again.", { status: 400 });
   }
-  await env.OAUTH_KV.delete(`oauth_state:${state}`);
-  const oauthReqInfo: AuthRequest = JSON.parse(stored);
+  await env.OAUTH_KV.delete(stored ? `oauth_state:${state}` : `login_state:${state}`);
 
   // Exchange Google's authorization code for tokens
   const redirectUri = new URL("/callback", request.url).href;
@@ -147,6 +350,27 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
     name: string;
   };
 
+  // Browser sign-in: set the owner session and send them back where they started
+  if (storedLogin) {
+    const { returnTo, client } = JSON.parse(storedLogin) as { returnTo: string; client?: "browser" | "dashboard" };
+
+    // Dashboard sign-in: pass an API token in the fragment so it never reaches server logs
+    if (client === "dashboard" && env.DASHBOARD_URL) {
+      const token = await createSessionToken(env, profile.email);
+      const location = new URL("/auth/callback", env.DASHBOARD_URL);
+      location.hash = `token=${encodeURIComponent(token)}`;
+      return Response.redirect(location.toString(), 302);
+    }
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: returnTo, "Set-Cookie": await createSessionCookie(env, profile.email) },
+    });
+  }
+
+  const oauthReqInfo: AuthRequest = JSON.parse(stored!);
+  const client = await env.OAUTH_PROVIDER.lookupClient(oauthReqInfo.clientId);
+
   // Complete the OAuthProvider flow — this creates our access token
   // and encrypts the user's identity (props) into it
   const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
@@ -158,6 +382,7 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
       email: profile.email,
       name: profile.name,
       userId: profile.id,
+      client: client?.clientName ?? oauthReqInfo.clientId,
     } satisfies Props,
   });
 
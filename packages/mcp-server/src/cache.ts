@@ -0,0 +1,173 @@
+import type { RoutingMode } from "./routing";
+import type { SecuritySettings } from "./services/schemas";
+import type { Env } from "./types";
+
+/**
+ * Edge cache for published apps.
+ *
+ * A published version's files never change, but how a path resolves to them also
+ * depends on the project's routing mode, which update_settings changes without a new
+ * version. So responses are cached under the app's base path + version ID + routing
+ * mode + path (HTML pages differ by base path, see data.ts), and a response under an
+ * old mode is simply never looked up again. What does change is which version and mode
+ * a slug points at, so that lookup (the "pointer") is cached separately and is the only
+ * thing publish, rollback, update_settings and delete_project have to invalidate (a
+ * pointer read just before one of them is dropped again, see putFreshPointer). Only
+ * public apps are cached; draft previews never are.
+ *
+ * Which app a custom domain serves, or that it serves none, is cached the same way (a
+ * "host entry"), and dropped when a domain is verified or removed, or its project is
+ * renamed or deleted.
+ */
+export interface AppPointer {
+  projectId: string;
+  activeVersionId: string;
+  /** The project's routing_mode setting (missing from older pointers, which then miss the cache) */
+  routingMode?: RoutingMode;
+  /** The settings serveApp needs to answer without the database (missing from older pointers) */
+  security?: SecuritySettings;
+  isolatedOrigin?: boolean;
+}
+
+/** The app served at a custom domain (see routeAppHost), or a null slug when there's none. */
+export interface HostEntry {
+  slug: string | null;
+}
+
+export interface AppCache {
+  getPointer(slug: string): Promise<AppPointer | null>;
+  putPointer(slug: string, pointer: AppPointer): Promise<void>;
+  getResponse(key: string): Promise<Response | null>;
+  putResponse(key: string, response: Response): Promise<void>;
+  /** Drops the cached pointers for these slugs so the next request reads the database. */
+  invalidate(slugs: string[]): Promise<void>;
+  getHost(hostname: string): Promise<HostEntry | null>;
+  putHost(hostname: string, entry: HostEntry): Promise<void>;
+  /** Drops the cached host entries for these hostnames. */
+  invalidateHosts(hostnames: string[]): Promise<void>;
+}
+
+/** Cache key for one path of one published version, served under `base` (see appBase) with a routing mode. */
+export function responseKey(base: string, versionId: string, routingMode: RoutingMode, filePath: string): string {
+  return `${base}${versionId}/${routingMode}/${filePath}`;
+}
+
+const POINTER_TTL_SECONDS = 60 * 60 * 24; // 1 day
+const RESPONSE_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days (content is immutable per version)
+
+/**
+ * Production cache: pointers in KV (shared across locations; a deleted pointer
+ * can take up to a minute to disappear everywhere) and responses in the
+ * Cloudflare Cache API of the serving location.
+ */
+export class EdgeAppCache implements AppCache {
+  constructor(
+    private kv: KVNamespace,
+    private cache: Cache
+  ) {}
+
+  async getPointer(slug: string): Promise<AppPointer | null> {
+    return this.kv.get<AppPointer>(pointerKey(slug), "json");
+  }
+
+  async putPointer(slug: string, pointer: AppPointer): Promise<void> {
+    await this.kv.put(pointerKey(slug), JSON.stringify(pointer), { expirationTtl: POINTER_TTL_SECONDS });
+  }
+
+  async getResponse(key: string): Promise<Response | null> {
+    return (await this.cache.match(cacheRequest(key))) ?? null;
+  }
+
+  async putResponse(key: string, response: Response): Promise<void> {
+    // The Cache API decides how long to keep an entry from its Cache-Control header
+    const stored = new Response(response.body, response);
+    stored.headers.set("Cache-Control", `public, max-age=${RESPONSE_TTL_SECONDS}`);
+    stored.headers.delete("Set-Cookie");
+    await this.cache.put(cacheRequest(key), stored);
+  }
+
+  async invalidate(slugs: string[]): Promise<void> {
+    await Promise.all(slugs.map((slug) => this.kv.delete(pointerKey(slug))));
+  }
+
+  async getHost(hostname: string): Promise<HostEntry | null> {
+    return this.kv.get<HostEntry>(hostKey(hostname), "json");
+  }
+
+  async putHost(hostname: string, entry: HostEntry): Promise<void> {
+    await this.kv.put(hostKey(hostname), JSON.stringify(entry), { expirationTtl: POINTER_TTL_SECONDS });
+  }
+
+  async invalidateHosts(hostnames: string[]): Promise<void> {
+    await Promise.all(hostnames.map((hostname) => this.kv.delete(hostKey(hostname))));
+  }
+}
+
+/** In-process cache with the same behaviour, for tests and local experiments. */
+export class MemoryAppCache implements AppCache {
+  pointers = new Map<string, AppPointer>();
+  responses = new Map<string, { body: ArrayBuffer; status: number; headers: [string, string][] }>();
+  hosts = new Map<string, HostEntry>();
+
+  async getPointer(slug: string): Promise<AppPointer | null> {
+    return this.pointers.get(slug) ?? null;
+  }
+
+  async putPointer(slug: string, pointer: AppPointer): Promise<void> {
+    this.pointers.set(slug, pointer);
+  }
+
+  async getResponse(key: string): Promise<Response | null> {
+    const entry = this.responses.get(key);
+    if (!entry) return null;
+    return new Response(entry.body, { status: entry.status, headers: entry.headers });
+  }
+
+  async putResponse(key: string, response: Response): Promise<void> {
+    this.responses.set(key, {
+      body: await response.arrayBuffer(),
+      status: response.status,
+      headers: [...response.headers].filter(([name]) => name.toLowerCase() !== "set-cookie"),
+    });
+  }
+
+  async invalidate(slugs: string[]): Promise<void> {
+    for (const slug of slugs) this.pointers.delete(slug);
+  }
+
+  async getHost(hostname: string): Promise<HostEntry | null> {
+    return this.hosts.get(hostname) ?? null;
+  }
+
+  async putHost(hostname: string, entry: HostEntry): Promise<void> {
+    this.hosts.set(hostname, entry);
+  }
+
+  async invalidateHosts(hostnames: string[]): Promise<void> {
+    for (const hostname of hostnames) this.hosts.delete(hostname);
+  }
+}
+
+export function createAppCache(env: Env): AppCache {
+  return new EdgeAppCache(env.OAUTH_KV, caches.default);
+}
+
+/** Whether the request's If-None-Match header matches this strong ETag. */
+export function etagMatches(request: Request, etag: string): boolean {
+  const header = request.headers.get("If-None-Match");
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+function pointerKey(slug: string): string {
+  return `app_pointer:${slug}`;
+}
+
+function hostKey(hostname: string): string {
+  return `app_host:${hostname}`;
+}
+
+function cacheRequest(key: string): Request {
+  return new Request(`https://app-cache.shapps.internal/${encodeURI(key)}`);
+}
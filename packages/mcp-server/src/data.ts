@@ -0,0 +1,337 @@
+import { z } from "zod";
+import { assertQuota, limitsFor } from "./limits";
+import type { ServeDeps } from "./serve";
+import { LimitError, ServiceError } from "./services/errors";
+import { collectionNameSchema } from "./services/schemas";
+import { APP_KEY_HEADER, PREVIEW_COOKIE, getCookie, readSession, verifyAppKey, verifyPreviewToken } from "./session";
+import { type DataScope, type Page, type ProjectStore, createProjectStore } from "./store";
+import type { CollectionRow, DocumentRow, Env, ProjectRow } from "./types";
+import { appBase } from "./urls";
+
+/**
+ * App data: a small JSON document store that an app's own pages use, at /app/:slug/~data.
+ *
+ * - GET    ~data/client.js        → the browser client (window.shapps.data), injected into every HTML page
+ * - GET    ~data/:collection      → list documents, newest first (?limit=&offset=)
+ * - POST   ~data/:collection      → add a document
+ * - GET    ~data/:collection/:id  → one document
+ * - PUT    ~data/:collection/:id  → replace a document
+ * - DELETE ~data/:collection/:id  → delete a document
+ *
+ * Collections are defined by the project's editors (define_collection), and their rules
+ * say what visitors may do: public_read allows the GETs, public_write "create" allows POST
+ * and "all" also PUT and DELETE. Visitors are whoever can open the app, so members get
+ * nothing extra here; they manage data through the MCP tools and the REST API instead.
+ *
+ * Published apps use the "live" documents and previews (/preview/:slug/~data) the "draft"
+ * ones, so trying out a draft never touches live data. Bodies and errors are JSON, with
+ * errors shaped like the REST API's: { error: { code, message, details? } }.
+ */
+
+export const DATA_PREFIX = "~data";
+
+/** Largest document, measured as JSON. */
+export const MAX_DOCUMENT_BYTES = 64 * 1024;
+
+const CLIENT_FILE = "client.js";
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function serveData(
+  env: Env,
+  request: Request,
+  slug: string,
+  dataPath: string,
+  mode: "active" | "draft",
+  deps: ServeDeps = {},
+  base = appBase(slug, mode)
+): Promise<Response> {
+  if (dataPath === CLIENT_FILE) {
+    return request.method === "GET" ? clientScript(`${base}${DATA_PREFIX}/`) : methodNotAllowed("GET");
+  }
+
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) {
+    return errorResponse(new ServiceError("internal", "Server misconfiguration: missing database credentials"));
+  }
+  const store = deps.store ?? createProjectStore(env);
+
+  try {
+    const project = await store.getProjectBySlug(slug);
+    if (!project || !(await canOpen(env, request, project, mode, store))) {
+      // Same answer as a missing project, like the app itself gives
+      throw new ServiceError("not_found", "Project not found");
+    }
+
+    const [name, id, ...extra] = dataPath.split("/");
+    const valid = collectionNameSchema.safeParse(name).success && extra.length === 0;
+    const collection = valid ? await store.getCollection(project.id, name) : null;
+    if (!collection) {
+      throw new ServiceError("not_found", "Collection not found");
+    }
+
+    const scope: DataScope = {
+      projectId: project.id,
+      environment: mode === "active" ? "live" : "draft",
+      collection: collection.name,
+    };
+
+    if (id === undefined) {
+      switch (request.method) {
+        case "GET": {
+          allow(collection.public_read, "reading");
+          const page = parsePage(new URL(request.url).searchParams);
+          const { items, total } = await store.listDocuments(scope, page);
+          const nextOffset = page.offset + items.length;
+          return json({
+            data: items.map(documentInfo),
+            pagination: { limit: page.limit, offset: page.offset, total, next_offset: nextOffset < total ? nextOffset : null },
+          });
+        }
+        case "POST": {
+          allow(collection.public_write !== "none", "adding documents");
+          const data = validateDocument(collection, await readDocument(request));
+          const { maxDataDocuments } = limitsFor(env);
+          const count = await store.countDocuments(scope);
+          assertQuota(
+            "data_documents",
+            maxDataDocuments,
+            count + 1,
+            `This collection already has ${count} documents, the most allowed.`
+          );
+          return json({ data: documentInfo(await store.insertDocument(scope, data)) }, 201);
+        }
+        default:
+          return methodNotAllowed("GET, POST");
+      }
+    }
+
+    // Anything that isn't a document ID can't name a document
+    const document = UUID.test(id) ? await store.getDocument(scope, id) : null;
+    if (!document) {
+      throw new ServiceError("not_found", "Document not found");
+    }
+
+    switch (request.method) {
+      case "GET":
+        allow(collection.public_read, "reading");
+        return json({ data: documentInfo(document) });
+      case "PUT": {
+        allow(collection.public_write === "all", "changing documents");
+        const data = validateDocument(collection, await readDocument(request));
+        const updated = await store.updateDocument(scope, document.id, data);
+        if (!updated) {
+          throw new ServiceError("not_found", "Document not found");
+        }
+        return json({ data: documentInfo(updated) });
+      }
+      case "DELETE":
+        allow(collection.public_write === "all", "deleting documents");
+        await store.deleteDocuments(scope, [document.id]);
+        return new Response(null, { status: 204, headers: { "Cache-Control": "no-store" } });
+      default:
+        return methodNotAllowed("GET, PUT, DELETE");
+    }
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      return errorResponse(err);
+    }
+    console.error("Unhandled app data error", err);
+    return errorResponse(new ServiceError("internal", "Something went wrong. Please try again."));
+  }
+}
+
+/** The document as the data API and the MCP tools show it. */
+export function documentInfo(document: DocumentRow) {
+  const { id, data, created_at, updated_at } = document;
+  return { id, data, created_at, updated_at };
+}
+
+/** Turns a collection's JSON Schema into a validator. Throws invalid_request if the schema can't be used. */
+export function compileSchema(schema: Record<string, unknown>): z.ZodType {
+  try {
+    return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (err) {
+    throw new ServiceError("invalid_request", `The schema isn't a JSON Schema Shapps can use: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Checks a document against the collection's rules for every document: a JSON object of at most
+ * MAX_DOCUMENT_BYTES that matches the collection's schema, if it has one. Returns it unchanged.
+ */
+export function validateDocument(collection: CollectionRow, value: unknown): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ServiceError("invalid_request", "A document must be a JSON object.");
+  }
+  const bytes = new TextEncoder().encode(JSON.stringify(value)).length;
+  if (bytes > MAX_DOCUMENT_BYTES) {
+    throw new ServiceError("invalid_request", `The document is ${bytes} bytes; the limit is ${MAX_DOCUMENT_BYTES}.`);
+  }
+
+  if (collection.schema) {
+    const result = compileSchema(collection.schema).safeParse(value);
+    if (!result.success) {
+      throw new ServiceError(
+        "unprocessable",
+        `The document doesn't match the schema of "${collection.name}".`,
+        result.error.issues.map((issue) => `${issue.path.join(".") || "document"}: ${issue.message}`)
+      );
+    }
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Adds the data client's script tag to an HTML page: after <meta charset> if there is one
+ * (which must stay near the top), otherwise right after <head>. Pages without a head
+ * (fragments) are left alone. An app key (see session.ts) goes in the tag's data-key, for
+ * the client to send with its calls.
+ */
+export function injectDataClient(html: string, base: string, appKey?: string): string {
+  const key = appKey ? ` data-key="${appKey}"` : "";
+  const tag = `<script src="${base}${DATA_PREFIX}/${CLIENT_FILE}"${key}></script>`;
+  const anchor = html.match(/<meta\s+charset=[^>]*>/i) ?? html.match(/<head(\s[^>]*)?>/i);
+  if (!anchor) return html;
+  const end = anchor.index! + anchor[0].length;
+  return html.slice(0, end) + tag + html.slice(end);
+}
+
+/** Whether this request may see the app (nobody for suspended apps): anyone for public live apps, members for private ones, members or preview links for drafts. */
+export async function canOpen(env: Env, request: Request, project: ProjectRow, mode: "active" | "draft", store: ProjectStore) {
+  if (project.suspended_at) return false;
+  if (mode === "active" && project.is_public) return true;
+
+  // Data calls are fetch()es, which don't carry the session: member pages send their app key
+  const key = request.headers.get(APP_KEY_HEADER);
+  const email = (await readSession(env, request)) ?? (key ? await verifyAppKey(env, project.id, key) : null);
+  if (email && (email.toLowerCase() === project.owner_email || (await store.getRole(project.id, email)) !== null)) {
+    return true;
+  }
+
+  // The preview page has already swapped its ?token= for the cookie
+  const token = mode === "draft" ? getCookie(request, PREVIEW_COOKIE) : null;
+  return token !== null && (await verifyPreviewToken(env, project.id, token)) !== null;
+}
+
+function allow(allowed: boolean, what: string) {
+  if (!allowed) {
+    throw new ServiceError("forbidden", `This collection doesn't allow ${what} from the app.`);
+  }
+}
+
+/** Reads a JSON request body. Requiring the JSON content type keeps plain cross-site form posts out. */
+async function readDocument(request: Request): Promise<unknown> {
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim();
+  if (contentType !== "application/json") {
+    throw new ServiceError("invalid_request", "Send the document as JSON with Content-Type: application/json.");
+  }
+  if (Number(request.headers.get("Content-Length") ?? 0) > MAX_DOCUMENT_BYTES * 2) {
+    throw new ServiceError("invalid_request", `The document is too large; the limit is ${MAX_DOCUMENT_BYTES} bytes.`);
+  }
+  try {
+    return JSON.parse(await request.text());
+  } catch {
+    throw new ServiceError("invalid_request", "Request body must be valid JSON.");
+  }
+}
+
+function parsePage(query: URLSearchParams): Page {
+  const limit = Number(query.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(query.get("offset") ?? 0);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ServiceError("invalid_request", `limit must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ServiceError("invalid_request", "offset must be a non-negative integer.");
+  }
+  return { limit, offset };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+/** A JSON error in the REST API's shape. */
+export function errorResponse(err: ServiceError): Response {
+  const limit = err instanceof LimitError ? { limit: err.limit } : {};
+  return json(
+    { error: { code: err.code, message: err.message, ...(err.details ? { details: err.details } : {}), ...limit } },
+    err.status
+  );
+}
+
+function methodNotAllowed(allowed: string): Response {
+  const response = json(
+    { error: { code: "invalid_request", message: `Method not allowed. Use ${allowed}.` } },
+    405
+  );
+  response.headers.set("Allow", allowed);
+  return response;
+}
+
+function clientScript(base: string): Response {
+  return new Response(CLIENT_SCRIPT.replace("__BASE__", JSON.stringify(base)).replace("__KEY_HEADER__", APP_KEY_HEADER), {
+    headers: { "Content-Type": "text/javascript; charset=utf-8", "Cache-Control": "public, max-age=300" },
+  });
+}
+
+// Plain ES5 so it runs wherever the app does. Errors reject with the API's code, message and details.
+const CLIENT_SCRIPT = `(function () {
+  var base = __BASE__;
+  var key = document.currentScript && document.currentScript.getAttribute("data-key");
+
+  function call(method, path, body) {
+    var init = { method: method, credentials: "same-origin", headers: {} };
+    if (key) init.headers["__KEY_HEADER__"] = key;
+    if (body !== undefined) {
+      init.headers["Content-Type"] = "application/json";
+      init.body = JSON.stringify(body);
+    }
+    return fetch(base + path, init).then(function (res) {
+      if (res.status === 204) return null;
+      return res.json().then(function (json) {
+        if (res.ok) return json;
+        var err = new Error(json.error.message);
+        err.status = res.status;
+        err.code = json.error.code;
+        err.details = json.error.details || [];
+        throw err;
+      });
+    });
+  }
+
+  function collection(name) {
+    var path = encodeURIComponent(name);
+    return {
+      list: function (options) {
+        var query = [];
+        if (options && options.limit !== undefined) query.push("limit=" + options.limit);
+        if (options && options.offset !== undefined) query.push("offset=" + options.offset);
+        return call("GET", path + (query.length ? "?" + query.join("&") : "")).then(function (json) {
+          return { items: json.data, pagination: json.pagination };
+        });
+      },
+      get: function (id) {
+        return call("GET", path + "/" + encodeURIComponent(id)).then(function (json) { return json.data; });
+      },
+      add: function (data) {
+        return call("POST", path, data).then(function (json) { return json.data; });
+      },
+      update: function (id, data) {
+        return call("PUT", path + "/" + encodeURIComponent(id), data).then(function (json) { return json.data; });
+      },
+      remove: function (id) {
+        return call("DELETE", path + "/" + encodeURIComponent(id));
+      }
+    };
+  }
+
+  window.shapps = window.shapps || {};
+  window.shapps.data = { collection: collection };
+})();
+`;
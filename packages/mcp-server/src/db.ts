@@ -1,10 +0,0 @@
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
-
-let client: SupabaseClient | null = null;
-
-export function getSupabase(url: string, anonKey: string): SupabaseClient {
-  if (!client) {
-    client = createClient(url, anonKey);
-  }
-  return client;
-}
@@ -0,0 +1,175 @@
+/**
+ * Line-based diffing (Myers' algorithm) used to summarize edits and compare versions.
+ */
+
+export type DiffOp =
+  | { type: "equal"; line: string }
+  | { type: "insert"; line: string }
+  | { type: "delete"; line: string };
+
+/** Beyond this many changed lines we stop searching for a minimal diff and treat it as a full rewrite. */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Splits text into lines. A trailing newline does not produce an extra empty line. */
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Computes the line operations that turn `a` into `b`. */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Strip the common prefix and suffix so the search only covers the changed region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: "equal", line: a[i] });
+  ops.push(...myers(a.slice(start, endA), b.slice(start, endB)));
+  for (let i = endA; i < a.length; i++) ops.push({ type: "equal", line: a[i] });
+  return ops;
+}
+
+/** Counts added and removed lines between two texts. */
+export function summarizeDiff(before: string, after: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const op of diffLines(splitLines(before), splitLines(after))) {
+    if (op.type === "insert") added++;
+    if (op.type === "delete") removed++;
+  }
+  return { added, removed };
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  // Too many changes to diff minimally: report a full replacement
+  return [
+    ...a.map((line) => ({ type: "delete" as const, line })),
+    ...b.map((line) => ({ type: "insert" as const, line })),
+  ];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", line: b[y - 1] });
+      } else {
+        ops.push({ type: "delete", line: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Renders a unified diff (like `diff -u`) between two texts.
+ * Returns an empty string when the texts have the same lines.
+ */
+export function unifiedDiff(path: string, before: string, after: string, context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (ops.every((op) => op.type === "equal")) return "";
+
+  const out = [`--- a/${path}`, `+++ b/${path}`];
+
+  // Line numbers (1-based) of each op in the old and new file
+  const oldNo: number[] = [];
+  const newNo: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldNo.push(o);
+    newNo.push(n);
+    if (op.type !== "insert") o++;
+    if (op.type !== "delete") n++;
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === "equal") {
+      i++;
+      continue;
+    }
+
+    // Grow the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end].type !== "equal") lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "insert").length;
+    const newCount = hunk.filter((op) => op.type !== "delete").length;
+    const oldStart = oldCount === 0 ? oldNo[start] - 1 : oldNo[start];
+    const newStart = newCount === 0 ? newNo[start] - 1 : newNo[start];
+
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === "insert" ? "+" : op.type === "delete" ? "-" : " ";
+      out.push(prefix + op.line);
+    }
+
+    i = end;
+  }
+
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,109 @@
+import { ServiceError } from "./services/errors";
+import type { DomainRow, Env } from "./types";
+
+/**
+ * Custom domains: a project's published app served at the root of its own hostname,
+ * like https://www.mybakery.com/.
+ *
+ * Owners add a hostname (add_domain), which gets a random token. To verify it they
+ * publish the token in a TXT record at _shapps.<hostname> and call verify_domain, which
+ * looks the record up through a DnsResolver. For visitors to reach the app, the hostname
+ * also needs a CNAME to this Worker's host (routed to the Worker as a custom hostname).
+ *
+ * Requests whose Host header is a verified domain, or <slug>.<APPS_DOMAIN> when that's
+ * set, are dispatched to the app before anything else (see routeAppHost in
+ * auth-handler.ts). Only the published app is served there, so private apps (whose
+ * members sign in on the Worker's own host) and previews stay on the Worker's host.
+ */
+
+/** Looks up DNS TXT records. */
+export interface DnsResolver {
+  /** The TXT records at `name`, each joined into one string; [] when there are none. */
+  txt(name: string): Promise<string[]>;
+}
+
+/** Resolves through a DNS-over-HTTPS JSON API, like Cloudflare's or Google's. */
+export class DohResolver implements DnsResolver {
+  constructor(private url: string) {}
+
+  async txt(name: string): Promise<string[]> {
+    const url = new URL(this.url);
+    url.searchParams.set("name", name);
+    url.searchParams.set("type", "TXT");
+
+    const response = await fetch(url, { headers: { Accept: "application/dns-json" } });
+    if (!response.ok) {
+      throw new ServiceError("internal", `DNS lookup for ${name} failed (HTTP ${response.status}). Try again in a minute.`);
+    }
+    const result = (await response.json()) as { Answer?: { type: number; data: string }[] };
+    // Type 16 is TXT; long records come as several quoted strings
+    return (result.Answer ?? [])
+      .filter((answer) => answer.type === 16)
+      .map((answer) => [...answer.data.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1]).join("") || answer.data);
+  }
+}
+
+/** TXT records kept in a map, for tests and local experiments. */
+export class MemoryDnsResolver implements DnsResolver {
+  records = new Map<string, string[]>();
+
+  async txt(name: string): Promise<string[]> {
+    return this.records.get(name) ?? [];
+  }
+}
+
+export function createDnsResolver(env: Env): DnsResolver {
+  return new DohResolver(env.DNS_OVER_HTTPS_URL ?? "https://cloudflare-dns.com/dns-query");
+}
+
+/** The TXT record that proves control of a domain. */
+export function verificationRecord(domain: Pick<DomainRow, "hostname" | "verification_token">) {
+  return { type: "TXT", name: `_shapps.${domain.hostname}`, value: `shapps-verify=${domain.verification_token}` };
+}
+
+/** A domain as tools and the API show it, with the DNS records it needs. */
+export function domainInfo(env: Env, domain: DomainRow) {
+  const { hostname, verified_at, created_at } = domain;
+  const target = env.PUBLIC_BASE_URL && new URL(env.PUBLIC_BASE_URL).hostname;
+  return {
+    hostname,
+    verified: verified_at !== null,
+    verified_at,
+    url: `https://${hostname}/`,
+    dns_records: [verificationRecord(domain), ...(target ? [{ type: "CNAME", name: hostname, value: target }] : [])],
+    created_at,
+  };
+}
+
+/** Whether the domain's TXT record is in place. */
+export async function hasVerificationRecord(resolver: DnsResolver, domain: DomainRow): Promise<boolean> {
+  const { name, value } = verificationRecord(domain);
+  return (await resolver.txt(name)).some((record) => record.trim() === value);
+}
+
+/**
+ * A hostname as it's stored: lowercase without a trailing dot. Throws for anything
+ * that isn't a plain DNS name with at least two labels (no ports, IPs or wildcards).
+ */
+export function normalizeHostname(input: string): string {
+  const hostname = input.trim().toLowerCase().replace(/\.$/, "");
+  const label = "[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?";
+  if (hostname.length > 253 || !new RegExp(`^(?:${label}\\.)+[a-z][a-z0-9-]*[a-z0-9]$`).test(hostname)) {
+    throw new ServiceError("invalid_request", `"${input}" isn't a hostname. Use a domain name like www.example.com.`);
+  }
+  return hostname;
+}
+
+/** Whether a hostname belongs to Shapps itself (the Worker's host or APPS_DOMAIN), so it can't be claimed. */
+export function isReservedHostname(env: Env, hostname: string): boolean {
+  const own = [env.PUBLIC_BASE_URL && new URL(env.PUBLIC_BASE_URL).hostname, env.APPS_DOMAIN?.toLowerCase()];
+  return own.some((host) => host && (hostname === host || hostname.endsWith(`.${host}`)));
+}
+
+/** The slug of the app at <slug>.<APPS_DOMAIN>, or null for other hostnames. */
+export function vanitySlug(env: Env, hostname: string): string | null {
+  const suffix = env.APPS_DOMAIN && `.${env.APPS_DOMAIN.toLowerCase()}`;
+  if (!suffix || !hostname.endsWith(suffix)) return null;
+  const slug = hostname.slice(0, -suffix.length);
+  return slug && !slug.includes(".") ? slug : null;
+}
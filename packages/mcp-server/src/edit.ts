@@ -0,0 +1,168 @@
+import { splitLines } from "./diff";
+
+/**
+ * A single change to an existing file. Used by the edit_files tool so the AI
+ * can change part of a file without re-sending the whole thing.
+ */
+export type FileEdit =
+  | { type: "search_replace"; search: string; replace: string }
+  | { type: "line_range"; start_line: number; end_line: number; content: string }
+  | { type: "unified_diff"; diff: string };
+
+/**
+ * Applies edits to a file's content in order.
+ * Each edit sees the result of the previous ones. Failed edits are skipped and
+ * reported, so the caller can reject the whole batch with every problem listed.
+ */
+export function applyEdits(content: string, edits: FileEdit[]): { content: string; errors: string[] } {
+  const errors: string[] = [];
+  let current = content;
+
+  edits.forEach((edit, index) => {
+    try {
+      current = applyEdit(current, edit);
+    } catch (err) {
+      errors.push(`Edit #${index + 1} (${edit.type}): ${(err as Error).message}`);
+    }
+  });
+
+  return { content: current, errors };
+}
+
+function applyEdit(content: string, edit: FileEdit): string {
+  switch (edit.type) {
+    case "search_replace":
+      return applySearchReplace(content, edit.search, edit.replace);
+    case "line_range":
+      return applyLineRange(content, edit.start_line, edit.end_line, edit.content);
+    case "unified_diff":
+      return applyUnifiedDiff(content, edit.diff);
+  }
+}
+
+function applySearchReplace(content: string, search: string, replace: string): string {
+  if (search === "") {
+    throw new Error("Search text must not be empty.");
+  }
+
+  const first = content.indexOf(search);
+  if (first === -1) {
+    throw new Error("Search text not found in file.");
+  }
+
+  const second = content.indexOf(search, first + 1);
+  if (second !== -1) {
+    const count = content.split(search).length - 1;
+    throw new Error(`Search text matches ${count} times. Include more surrounding lines so it matches exactly once.`);
+  }
+
+  return content.slice(0, first) + replace + content.slice(first + search.length);
+}
+
+/** Replaces lines start_line..end_line (1-based, inclusive). Use end_line = start_line - 1 to insert without removing. */
+function applyLineRange(content: string, startLine: number, endLine: number, replacement: string): string {
+  const lines = splitLines(content);
+
+  if (startLine < 1 || startLine > lines.length + 1) {
+    throw new Error(`start_line ${startLine} is out of range (file has ${lines.length} lines).`);
+  }
+  if (endLine < startLine - 1 || endLine > lines.length) {
+    throw new Error(`end_line ${endLine} is out of range for start_line ${startLine} (file has ${lines.length} lines).`);
+  }
+
+  lines.splice(startLine - 1, endLine - startLine + 1, ...splitLines(replacement));
+  return joinLines(lines, content);
+}
+
+interface Hunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+function applyUnifiedDiff(content: string, diff: string): string {
+  const hunks = parseHunks(diff);
+  if (hunks.length === 0) {
+    throw new Error("No hunks found. Expected a unified diff with @@ -a,b +c,d @@ headers.");
+  }
+
+  const lines = splitLines(content);
+  let delta = 0;
+
+  hunks.forEach((hunk, index) => {
+    const expected = Math.max(hunk.oldStart - 1, 0) + delta;
+    const at = locateHunk(lines, hunk.oldLines, expected);
+
+    if (at === "missing") {
+      throw new Error(`Hunk ${index + 1} (at line ${hunk.oldStart}) does not match the file contents.`);
+    }
+    if (at === "ambiguous") {
+      throw new Error(`Hunk ${index + 1} (at line ${hunk.oldStart}) matches several places. Include more context lines.`);
+    }
+
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    delta += hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return joinLines(lines, content);
+}
+
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+
+  for (const line of splitLines(diff)) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    // File headers and anything before the first hunk are ignored
+    if (!current || line.startsWith("\\")) continue;
+
+    if (line.startsWith("+")) {
+      current.newLines.push(line.slice(1));
+    } else if (line.startsWith("-")) {
+      current.oldLines.push(line.slice(1));
+    } else {
+      // Context line ("" covers editors that strip the leading space from blank lines)
+      const text = line.startsWith(" ") ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  return hunks;
+}
+
+/** Finds where a hunk applies: at its stated position if it matches there, otherwise the single place it matches. */
+function locateHunk(lines: string[], oldLines: string[], expected: number): number | "missing" | "ambiguous" {
+  if (oldLines.length === 0) {
+    return expected <= lines.length ? expected : "missing";
+  }
+
+  if (matchesAt(lines, oldLines, expected)) return expected;
+
+  let found: number | null = null;
+  for (let i = 0; i + oldLines.length <= lines.length; i++) {
+    if (matchesAt(lines, oldLines, i)) {
+      if (found !== null) return "ambiguous";
+      found = i;
+    }
+  }
+  return found ?? "missing";
+}
+
+function matchesAt(lines: string[], block: string[], at: number): boolean {
+  if (at < 0 || at + block.length > lines.length) return false;
+  return block.every((line, i) => lines[at + i] === line);
+}
+
+/** Rejoins lines, keeping the original file's trailing-newline convention. */
+function joinLines(lines: string[], original: string): string {
+  if (lines.length === 0) return "";
+  const trailingNewline = original === "" || original.endsWith("\n");
+  return lines.join("\n") + (trailingNewline ? "\n" : "");
+}
@@ -0,0 +1,83 @@
+import { signDownload, verifyDownload } from "./session";
+import type { Env } from "./types";
+import { publicUrl } from "./urls";
+
+/**
+ * Storage and download links for project exports.
+ *
+ * Export zips are written to the ASSETS bucket under exports/ and handed out as
+ * /exports/:id.zip?token=... links signed with COOKIE_ENCRYPTION_KEY, so anyone with
+ * the link can download it until it expires, without signing in. The objects
+ * themselves are deleted by the hourly cron (see deleteExpiredExports) once they're
+ * older than EXPORT_RETENTION_MS, which outlasts the longest link.
+ */
+
+/** How long export links work by default, and at most. */
+export const DEFAULT_EXPORT_TTL_MINUTES = 60;
+export const MAX_EXPORT_TTL_MINUTES = 24 * 60;
+
+/** How long export zips are kept: an hour longer than the longest link, so none outlives its file. */
+const EXPORT_RETENTION_MS = (MAX_EXPORT_TTL_MINUTES + 60) * 60 * 1000;
+
+export interface ExportLink {
+  download_url: string;
+  expires_at: string;
+}
+
+/** Saves an export zip and returns a signed link to it. */
+export async function saveExport(env: Env, zip: Uint8Array, fileName: string, ttlSeconds: number): Promise<ExportLink> {
+  const exportId = crypto.randomUUID();
+
+  await env.ASSETS.put(exportKey(exportId), zip, {
+    httpMetadata: {
+      contentType: "application/zip",
+      contentDisposition: `attachment; filename="${fileName.replace(/["\\]/g, "_")}"`,
+    },
+  });
+
+  const { token, expiresAt } = await signDownload(env, exportId, ttlSeconds);
+  return { download_url: publicUrl(env, `/exports/${exportId}.zip?token=${token}`), expires_at: expiresAt };
+}
+
+/** Serves GET /exports/:id.zip for a valid, unexpired link. */
+export async function serveExport(env: Env, request: Request, exportId: string): Promise<Response> {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token || !(await verifyDownload(env, exportId, token))) {
+    return new Response("This download link is invalid or has expired. Export the project again for a new one.", {
+      status: 403,
+    });
+  }
+
+  const object = await env.ASSETS.get(exportKey(exportId));
+  if (!object) {
+    return new Response("Export not found", { status: 404 });
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": object.httpMetadata?.contentType ?? "application/zip",
+      "Content-Disposition": object.httpMetadata?.contentDisposition ?? "attachment",
+      "Content-Length": String(object.size),
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+/** Deletes export zips older than EXPORT_RETENTION_MS. Returns how many were deleted. */
+export async function deleteExpiredExports(env: Env, now = Date.now()): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.ASSETS.list({ prefix: "exports/", cursor });
+    const expired = page.objects.filter((o) => now - o.uploaded.getTime() > EXPORT_RETENTION_MS).map((o) => o.key);
+    if (expired.length > 0) await env.ASSETS.delete(expired);
+    deleted += expired.length;
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
+
+function exportKey(exportId: string): string {
+  return `exports/${exportId}.zip`;
+}
@@ -0,0 +1,259 @@
+import { type ProjectStore, createProjectStore } from "./store";
+import type { Env } from "./types";
+
+/**
+ * Storage for project file contents.
+ *
+ * Text files live in project_files.content as UTF-8. Binary files (images, fonts,
+ * downloads) are stored as base64 in the same column while they're small, and in
+ * the ASSETS R2 bucket once they're larger than INLINE_BINARY_LIMIT. R2 objects are
+ * keyed by content hash, so copying a version (publish, rollback) only copies the key.
+ * Once no version points at a blob, the hourly cron deletes it (see deleteUnusedBlobs).
+ */
+
+export type FileEncoding = "utf8" | "base64";
+
+/** Binary files above this size go to R2 instead of the database. */
+export const INLINE_BINARY_LIMIT = 256 * 1024; // 256 KB
+
+/** Largest single file we accept. */
+export const MAX_FILE_BYTES = 25 * 1024 * 1024; // 25 MB
+
+/**
+ * How old an unreferenced blob must be before it's deleted. A blob is uploaded before
+ * the file row that points at it is saved, and uploading the same content again
+ * refreshes its upload time, so a write in progress never loses its blob.
+ */
+const BLOB_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const MAX_PATH_LENGTH = 512;
+
+/** First segments the app routes serve themselves (see auth-handler.ts), so no file could be reached there. */
+const RESERVED_SEGMENTS = ["~source", "~data", "~forms"];
+
+/** Why a path can't be used as a project file path, or null if it's fine. */
+export function pathProblem(path: string): string | null {
+  if (path === "") return "Path is empty.";
+  if (path.length > MAX_PATH_LENGTH) return `Path is longer than ${MAX_PATH_LENGTH} characters.`;
+  if (/[\x00-\x1f\x7f]/.test(path)) return "Path contains control characters.";
+  if (path.includes("\\")) return "Use '/' to separate folders, not '\\'.";
+  if (path.startsWith("/") || /^[A-Za-z]:/.test(path)) return "Absolute paths aren't allowed.";
+
+  const segments = path.split("/");
+  if (segments.some((s) => s === "..")) return "Paths may not contain '..'.";
+  if (segments.some((s) => s === "" || s === ".")) return "Path has an empty or '.' segment.";
+  if (RESERVED_SEGMENTS.includes(segments[0])) return `Paths under ${segments[0]}/ are reserved for the app's built-in pages.`;
+  return null;
+}
+
+/** A project_files row as written to the database (minus version_id). */
+export interface StoredFile {
+  file_path: string;
+  content: string;
+  content_type: string;
+  encoding: FileEncoding;
+  size: number;
+  storage_key: string | null;
+}
+
+/**
+ * Turns a file from write_files into a row ready to insert, uploading large binaries to R2.
+ * Base64 content for a text type (e.g. an HTML file) is decoded and stored as text.
+ * Throws with a user-facing message if the content is invalid or too large.
+ */
+export async function prepareFile(
+  env: Env,
+  file: { file_path: string; content: string; content_type: string; encoding?: FileEncoding },
+  isText: boolean
+): Promise<StoredFile> {
+  if ((file.encoding ?? "utf8") === "utf8") {
+    const size = new TextEncoder().encode(file.content).length;
+    assertSize(size);
+    return { ...base(file), content: file.content, encoding: "utf8", size, storage_key: null };
+  }
+
+  return prepareBytes(env, file, decodeBase64(file.content), isText);
+}
+
+/** Like prepareFile, for content that's already raw bytes (e.g. from a zip archive). */
+export async function prepareBytes(
+  env: Env,
+  file: { file_path: string; content_type: string },
+  bytes: Uint8Array,
+  isText: boolean
+): Promise<StoredFile> {
+  assertSize(bytes.length);
+
+  if (isText) {
+    return { ...base(file), content: new TextDecoder().decode(bytes), encoding: "utf8", size: bytes.length, storage_key: null };
+  }
+
+  if (bytes.length <= INLINE_BINARY_LIMIT) {
+    return { ...base(file), content: encodeBase64(bytes), encoding: "base64", size: bytes.length, storage_key: null };
+  }
+
+  const storageKey = `blobs/${await sha256Hex(bytes)}`;
+  await env.ASSETS.put(storageKey, bytes, { httpMetadata: { contentType: file.content_type } });
+  return { ...base(file), content: "", encoding: "base64", size: bytes.length, storage_key: storageKey };
+}
+
+/** Deletes R2 blobs that no file points at, once they're older than BLOB_GRACE_MS. Returns how many were deleted. */
+export async function deleteUnusedBlobs(
+  env: Env,
+  store: ProjectStore = createProjectStore(env),
+  now = Date.now()
+): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.ASSETS.list({ prefix: "blobs/", cursor });
+    const old = page.objects.filter((o) => now - o.uploaded.getTime() > BLOB_GRACE_MS).map((o) => o.key);
+    const inUse = new Set(await store.storageKeysInUse(old));
+    const unused = old.filter((key) => !inUse.has(key));
+    if (unused.length > 0) await env.ASSETS.delete(unused);
+    deleted += unused.length;
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
+
+/** The size a file from write_files will have once stored, without decoding or uploading it. */
+export function contentSize(file: { content: string; encoding?: FileEncoding }): number {
+  if ((file.encoding ?? "utf8") === "utf8") {
+    return new TextEncoder().encode(file.content).length;
+  }
+  const cleaned = file.content.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+  return Math.floor((cleaned.length * 3) / 4) - (cleaned.match(/=*$/)?.[0].length ?? 0);
+}
+
+/** Returns a file's body for serving, or null if its R2 object is missing. */
+export async function fileBody(
+  env: Env,
+  file: Pick<StoredFile, "content" | "encoding" | "storage_key">
+): Promise<{ body: BodyInit; size: number } | null> {
+  if (file.storage_key) {
+    const object = await env.ASSETS.get(file.storage_key);
+    return object ? { body: object.body, size: object.size } : null;
+  }
+
+  const bytes = file.encoding === "base64" ? decodeBase64(file.content) : new TextEncoder().encode(file.content);
+  return { body: bytes, size: bytes.length };
+}
+
+/** Returns a file's raw bytes (fetching from R2 when needed), or null if its R2 object is missing. */
+export async function fileBytes(
+  env: Env,
+  file: Pick<StoredFile, "content" | "encoding" | "storage_key">
+): Promise<Uint8Array | null> {
+  if (file.storage_key) {
+    const object = await env.ASSETS.get(file.storage_key);
+    return object ? new Uint8Array(await object.arrayBuffer()) : null;
+  }
+  return file.encoding === "base64" ? decodeBase64(file.content) : new TextEncoder().encode(file.content);
+}
+
+/** Returns a binary file's bytes as base64 (fetching from R2 when needed), or null if missing. */
+export async function readBase64(
+  env: Env,
+  file: Pick<StoredFile, "content" | "storage_key">
+): Promise<string | null> {
+  if (!file.storage_key) return file.content;
+  const object = await env.ASSETS.get(file.storage_key);
+  return object ? encodeBase64(new Uint8Array(await object.arrayBuffer())) : null;
+}
+
+/** Content hash of a file, without downloading R2 objects (their key is the hash). */
+export async function fileHash(file: Pick<StoredFile, "content" | "encoding" | "storage_key">): Promise<string> {
+  if (file.storage_key) return file.storage_key.slice("blobs/".length);
+  return sha256Hex(file.encoding === "base64" ? decodeBase64(file.content) : new TextEncoder().encode(file.content));
+}
+
+export function guessContentType(filePath: string, fallback = "text/plain"): string {
+  const ext = filePath.split(".").pop()?.toLowerCase();
+  const types: Record<string, string> = {
+    html: "text/html",
+    css: "text/css",
+    js: "application/javascript",
+    ts: "application/typescript",
+    json: "application/json",
+    svg: "image/svg+xml",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    avif: "image/avif",
+    ico: "image/x-icon",
+    woff: "font/woff",
+    woff2: "font/woff2",
+    ttf: "font/ttf",
+    otf: "font/otf",
+    pdf: "application/pdf",
+    zip: "application/zip",
+    mp3: "audio/mpeg",
+    mp4: "video/mp4",
+    webm: "video/webm",
+    md: "text/markdown",
+    txt: "text/plain",
+    csv: "text/csv",
+    xml: "application/xml",
+  };
+  return types[ext ?? ""] ?? fallback;
+}
+
+/** Best guess at whether bytes of an unknown type are text: valid UTF-8 with no NUL bytes. */
+export function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether a file with this content type can be shown as text (and diffed line by line). */
+export function isTextContentType(contentType: string): boolean {
+  return (
+    contentType.startsWith("text/") ||
+    contentType === "application/javascript" ||
+    contentType === "application/typescript" ||
+    contentType === "application/json" ||
+    contentType === "application/xml" ||
+    contentType === "image/svg+xml"
+  );
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function decodeBase64(value: string): Uint8Array {
+  // Accept data: URLs and whitespace-wrapped base64 as well as the bare string
+  const cleaned = value.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(cleaned)) {
+    throw new Error("Content is not valid base64.");
+  }
+  const binary = atob(cleaned);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base(file: { file_path: string; content_type: string }) {
+  return { file_path: file.file_path, content_type: file.content_type };
+}
+
+function assertSize(size: number) {
+  if (size > MAX_FILE_BYTES) {
+    throw new Error(`File is ${size} bytes; the limit is ${MAX_FILE_BYTES} bytes.`);
+  }
+}
@@ -0,0 +1,219 @@
+import { MAX_DOCUMENT_BYTES, canOpen, errorResponse } from "./data";
+import { errorPage, escapeHtml, htmlPage } from "./html";
+import { assertQuota, clientIp, createRateLimiter, enforceRate, limitsFor } from "./limits";
+import { CONFIG_FILE } from "./routing";
+import type { ServeDeps } from "./serve";
+import { ServiceError } from "./services/errors";
+import { formNameSchema } from "./services/schemas";
+import { createProjectStore } from "./store";
+import type { Env, FormSubmissionRow } from "./types";
+import { appBase } from "./urls";
+
+/**
+ * A form backend for apps: POST /app/:slug/~forms/:form (or /preview/...) stores the
+ * submission, so a plain <form method="post" action="~forms/contact"> works without any
+ * JavaScript. Forms don't need defining first.
+ *
+ * - Bodies can be urlencoded or multipart (what browsers send; file fields are dropped) or JSON.
+ * - Browser posts are redirected to the form's thank-you page from shapps.json,
+ *   { "forms": { "contact": { "redirect": "thanks.html" } } }, or get a built-in one.
+ *   JSON posts (or ones that accept JSON) get a JSON answer instead.
+ * - Fields whose names start with "_" aren't stored. A filled-in HONEYPOT_FIELD marks a
+ *   bot: it's told the post worked, but nothing is stored.
+ * - Each IP can post a few times a minute per app, and each project keeps a limited
+ *   number of submissions (see limits.ts).
+ *
+ * Submissions are kept per environment like app data (see data.ts): live for the
+ * published app, draft for previews.
+ */
+
+export const FORMS_PREFIX = "~forms";
+
+/** Hide this field with CSS; people leave it empty and bots fill it in. */
+export const HONEYPOT_FIELD = "_honeypot";
+
+export async function serveForm(
+  env: Env,
+  request: Request,
+  slug: string,
+  form: string,
+  mode: "active" | "draft",
+  deps: ServeDeps = {},
+  base = appBase(slug, mode)
+): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response("Forms only accept POST.", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  const wantsJson =
+    isJson(request.headers.get("Content-Type")) || (request.headers.get("Accept") ?? "").includes("application/json");
+  const fail = (err: ServiceError) => (wantsJson ? errorResponse(err) : errorPage(err, "Form not sent", "Your form wasn't sent"));
+
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) {
+    return fail(new ServiceError("internal", "Server misconfiguration: missing database credentials"));
+  }
+  const store = deps.store ?? createProjectStore(env);
+
+  try {
+    const project = await store.getProjectBySlug(slug);
+    const versionId = project && (mode === "active" ? project.active_version_id : project.draft_version_id);
+    const valid = project && versionId && formNameSchema.safeParse(form).success;
+    if (!valid || !(await canOpen(env, request, project, mode, store))) {
+      throw new ServiceError("not_found", "Form not found");
+    }
+
+    const { formSubmissionsPerMinute, maxFormSubmissions } = limitsFor(env);
+    const ip = clientIp(request);
+    if (ip) {
+      await enforceRate(
+        createRateLimiter(env),
+        `ip:form:${project.id}:${ip}`,
+        "form_submissions_per_minute",
+        formSubmissionsPerMinute,
+        `Too many submissions from this address: the limit is ${formSubmissionsPerMinute} per minute. Please wait a minute and try again.`
+      );
+    }
+
+    const fields = await readFields(request);
+    const environment = mode === "active" ? "live" : "draft";
+    let submission: Pick<FormSubmissionRow, "id" | "form" | "created_at">;
+
+    if (typeof fields[HONEYPOT_FIELD] === "string" && fields[HONEYPOT_FIELD] !== "") {
+      submission = { id: crypto.randomUUID(), form, created_at: new Date().toISOString() };
+    } else {
+      const data = Object.fromEntries(Object.entries(fields).filter(([name]) => !name.startsWith("_")));
+      if (Object.keys(data).length === 0) {
+        throw new ServiceError("invalid_request", "The form was empty.");
+      }
+
+      const count = await store.countFormSubmissions(project.id, environment);
+      assertQuota(
+        "form_submissions",
+        maxFormSubmissions,
+        count + 1,
+        "This app can't take more form submissions right now. Please contact its owner another way."
+      );
+      submission = await store.addFormSubmission({ project_id: project.id, environment, form, data });
+    }
+
+    if (wantsJson) {
+      const { id, created_at } = submission;
+      return new Response(JSON.stringify({ data: { id, form, created_at } }), {
+        status: 201,
+        headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+      });
+    }
+
+    const [config] = await store.getFiles(versionId, [CONFIG_FILE]);
+    const appUrl = new URL(base, request.url);
+    const redirect = thankYouUrl(config?.content ?? null, form, appUrl);
+    if (redirect) {
+      return new Response(null, { status: 303, headers: { Location: redirect } });
+    }
+    return thankYouPage(backUrl(request, appUrl));
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      return fail(err);
+    }
+    console.error("Unhandled form error", err);
+    return fail(new ServiceError("internal", "Something went wrong. Please try again."));
+  }
+}
+
+/**
+ * The form's thank-you page from shapps.json, as a path on this app, or null when there
+ * isn't a usable one. Redirects can't leave the app.
+ */
+function thankYouUrl(configFile: string | null, form: string, appUrl: URL): string | null {
+  let redirect: unknown;
+  try {
+    redirect = configFile && JSON.parse(configFile)?.forms?.[form]?.redirect;
+  } catch {
+    return null;
+  }
+  if (typeof redirect !== "string" || redirect === "") return null;
+
+  const url = new URL(redirect.replace(/^\/+/, ""), appUrl);
+  if (url.origin !== appUrl.origin || !url.pathname.startsWith(appUrl.pathname)) return null;
+  return url.pathname + url.search + url.hash;
+}
+
+/**
+ * Submissions as CSV, in the order given: submitted_at and form, then a column per field,
+ * in the order fields first appear. Multiple values are joined with "; ".
+ */
+export function submissionsCsv(submissions: Pick<FormSubmissionRow, "form" | "data" | "created_at">[]): string {
+  const fields = [...new Set(submissions.flatMap((s) => Object.keys(s.data)))];
+  const rows = [
+    ["submitted_at", "form", ...fields],
+    ...submissions.map((s) => [s.created_at, s.form, ...fields.map((field) => csvValue(s.data[field]))]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(csvValue).join("; ");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Quotes a cell when needed, and stops spreadsheets reading visitors' text as formulas. */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Reads the submitted fields. Fields sent more than once keep every value, in an array. */
+async function readFields(request: Request): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+  if (Number(request.headers.get("Content-Length") ?? 0) > MAX_DOCUMENT_BYTES * 2) {
+    throw new ServiceError("invalid_request", "The form is too large to send.");
+  }
+
+  let fields: Record<string, unknown>;
+  if (isJson(contentType)) {
+    try {
+      fields = JSON.parse(await request.text());
+    } catch {
+      throw new ServiceError("invalid_request", "Request body must be valid JSON.");
+    }
+    if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+      throw new ServiceError("invalid_request", "Send the fields as a JSON object.");
+    }
+  } else if (contentType === "application/x-www-form-urlencoded" || contentType === "multipart/form-data") {
+    fields = {};
+    for (const [name, value] of await request.formData()) {
+      if (typeof value !== "string") continue;
+      const existing = fields[name];
+      fields[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+  } else {
+    throw new ServiceError("invalid_request", "Send the form as application/x-www-form-urlencoded, multipart/form-data or JSON.");
+  }
+
+  if (new TextEncoder().encode(JSON.stringify(fields)).length > MAX_DOCUMENT_BYTES) {
+    throw new ServiceError("invalid_request", "The form is too large to send.");
+  }
+  return fields;
+}
+
+function isJson(contentType: string | null): boolean {
+  return contentType?.split(";")[0].trim() === "application/json";
+}
+
+/** Where the thank-you page links back to: the page the form was on, if it's part of this app. */
+function backUrl(request: Request, appUrl: URL): string {
+  try {
+    const url = new URL(request.headers.get("Referer") ?? "");
+    if (url.origin === appUrl.origin && url.pathname.startsWith(appUrl.pathname)) {
+      return url.pathname + url.search;
+    }
+  } catch {
+    // No referer, or not a URL
+  }
+  return appUrl.pathname;
+}
+
+function thankYouPage(back: string): Response {
+  return htmlPage(200, "Thank you", `<h1>Thank you!</h1><p>Your form was sent.</p><p><a href="${escapeHtml(back)}">Go back</a></p>`);
+}
@@ -0,0 +1,92 @@
+import { escapeHtml } from "./html";
+
+/**
+ * A small syntax highlighter for the view-source pages.
+ *
+ * Each language is a list of token rules tried left to right at every position;
+ * matches are wrapped in <span class="tok-..."> and everything else is escaped
+ * as-is. It's deliberately approximate (no nesting, no embedded languages) —
+ * good enough to make HTML, CSS and JavaScript readable without a dependency.
+ */
+
+export type Language = "markup" | "css" | "script" | "plain";
+
+interface Rule {
+  token: string;
+  pattern: RegExp;
+  /** Highlights the inside of a match instead of wrapping it in one span. */
+  inner?: (text: string) => string;
+}
+
+const JS_KEYWORDS =
+  "async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|finally|for|from|" +
+  "function|if|import|in|instanceof|let|new|of|return|static|super|switch|this|throw|try|typeof|var|void|while|yield";
+
+const scriptRules: Rule[] = [
+  { token: "comment", pattern: /\/\/[^\n]*|\/\*[\s\S]*?\*\// },
+  { token: "string", pattern: /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/ },
+  { token: "keyword", pattern: new RegExp(`\\b(?:${JS_KEYWORDS})\\b`) },
+  { token: "literal", pattern: /\b(?:true|false|null|undefined|NaN|Infinity)\b/ },
+  { token: "number", pattern: /\b(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/ },
+];
+
+const cssRules: Rule[] = [
+  { token: "comment", pattern: /\/\*[\s\S]*?\*\// },
+  { token: "string", pattern: /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/ },
+  { token: "keyword", pattern: /@[\w-]+/ },
+  { token: "property", pattern: /[\w-]+(?=\s*:[^;{}]*[;}])/ },
+  { token: "number", pattern: /#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:%|[a-z]+)?/ },
+];
+
+const attributeRules: Rule[] = [
+  { token: "string", pattern: /"[^"]*"|'[^']*'/ },
+  { token: "attr", pattern: /[^\s"'<>\/=]+(?=\s*=)/ },
+  { token: "tag", pattern: /^<\/?[\w:-]+|\/?>$/ },
+];
+
+const markupRules: Rule[] = [
+  { token: "comment", pattern: /<!--[\s\S]*?-->/ },
+  { token: "keyword", pattern: /<![^>]*>/ },
+  { token: "tag", pattern: /<\/?[A-Za-z][\w:-]*(?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>/, inner: (text) => tokenize(text, attributeRules) },
+  { token: "entity", pattern: /&[#\w]+;/ },
+];
+
+const rulesByLanguage: Record<Language, Rule[]> = {
+  markup: markupRules,
+  css: cssRules,
+  script: scriptRules,
+  plain: [],
+};
+
+/** Picks a highlighting language from a file's content type. */
+export function languageFor(contentType: string): Language {
+  if (contentType === "text/html" || contentType === "image/svg+xml" || contentType.endsWith("/xml")) return "markup";
+  if (contentType === "text/css") return "css";
+  if (contentType === "application/javascript" || contentType === "application/typescript" || contentType === "application/json") {
+    return "script";
+  }
+  return "plain";
+}
+
+/** Returns the code as escaped HTML with tokens wrapped in <span class="tok-..."> elements. */
+export function highlight(code: string, language: Language): string {
+  return tokenize(code, rulesByLanguage[language]);
+}
+
+function tokenize(code: string, rules: Rule[]): string {
+  if (rules.length === 0) return escapeHtml(code);
+
+  // One regex with a group per rule; the first group that matched tells us which rule it was
+  const combined = new RegExp(rules.map((r) => `(${r.pattern.source})`).join("|"), "g");
+  let html = "";
+  let last = 0;
+
+  for (const match of code.matchAll(combined)) {
+    const rule = rules[match.slice(1).findIndex((group) => group !== undefined)];
+    html += escapeHtml(code.slice(last, match.index));
+    html += rule.inner ? rule.inner(match[0]) : `<span class="tok-${rule.token}">${escapeHtml(match[0])}</span>`;
+    last = match.index + match[0].length;
+  }
+
+  return html + escapeHtml(code.slice(last));
+}
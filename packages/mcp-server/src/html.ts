@@ -0,0 +1,30 @@
+import { LimitError, type ServiceError } from "./services/errors";
+
+/** Escapes text for use in HTML content and quoted attribute values. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** A small self-contained page for endpoints that answer browsers directly, like forms.ts and report.ts. Never cached. */
+export function htmlPage(status: number, title: string, body: string, style = ""): Response {
+  return new Response(
+    `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+      `<title>${title}</title><style>body{font:16px/1.5 system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem}${style}</style>` +
+      `</head><body>${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" } }
+  );
+}
+
+/** An htmlPage explaining why a post failed, with Retry-After when it hit a rate limit. */
+export function errorPage(err: ServiceError, title: string, heading: string): Response {
+  const response = htmlPage(err.status, title, `<h1>${heading}</h1><p>${escapeHtml(err.message)}</p>`);
+  if (err instanceof LimitError && err.retryAfter !== null) {
+    response.headers.set("Retry-After", String(err.retryAfter));
+  }
+  return response;
+}
@@ -1,21 +1,49 @@
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
+import { checkIpRate, rateLimitedResponse } from "./limits";
 import { ShappsMCP } from "./mcp";
-import { AuthHandler } from "./auth-handler";
+import { forgetOldVisitors } from "./analytics";
+import { AuthHandler, routeAppHost } from "./auth-handler";
+import { deleteExpiredExports } from "./exports";
+import { deleteUnusedBlobs } from "./files";
+import { RateCounter } from "./rate-counter";
+import type { Env } from "./types";
 
-// Re-export the Durable Object class (required by Cloudflare Workers)
-export { ShappsMCP };
+// Re-export the Durable Object classes (required by Cloudflare Workers)
+export { ShappsMCP, RateCounter };
+
+const mcpHandler = ShappsMCP.serve("/mcp");
+
+/** The MCP endpoint, rate-limited per IP. Per-user limits on tool calls are applied inside ShappsMCP. */
+const McpHandler: { fetch: ExportedHandlerFetchHandler<Env> } = {
+  async fetch(request, env, ctx) {
+    const limited = await checkIpRate(env, request, "api");
+    return limited ? rateLimitedResponse(limited) : mcpHandler.fetch(request, env, ctx);
+  },
+};
 
 /**
- * OAuthProvider wraps everything:
+ * OAuthProvider wraps everything on the Worker's own host:
  * - Requests to /mcp go to the MCP server (apiHandler), but ONLY if they have a valid token
  * - /token and /register are handled automatically (OAuth 2.1 protocol)
- * - Everything else (/authorize, /callback, /app/*, /preview/*, /) goes to AuthHandler
+ * - Everything else (/authorize, /callback, /login, /api/*, /app/*, /preview/*, /) goes to AuthHandler
  */
-export default new OAuthProvider({
+const provider = new OAuthProvider({
   apiRoute: "/mcp",
-  apiHandler: ShappsMCP.serve("/mcp"),
+  apiHandler: McpHandler as { fetch: ExportedHandlerFetchHandler },
   defaultHandler: AuthHandler as ExportedHandler,
   authorizeEndpoint: "/authorize",
   tokenEndpoint: "/token",
   clientRegistrationEndpoint: "/register",
 });
+
+/** Apps on their own domains are served as they are (see domains.ts); everything else goes through OAuthProvider. */
+export default {
+  async fetch(request, env, ctx) {
+    return (await routeAppHost(request, env, ctx)) ?? provider.fetch(request, env, ctx);
+  },
+
+  /** Hourly cleanup (see triggers in wrangler.jsonc). */
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(Promise.all([deleteExpiredExports(env), deleteUnusedBlobs(env), forgetOldVisitors(env)]));
+  },
+} satisfies ExportedHandler<Env>;
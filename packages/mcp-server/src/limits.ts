@@ -0,0 +1,222 @@
+import type { RateCounter } from "./rate-counter";
+import { LimitError } from "./services/errors";
+import type { Env } from "./types";
+
+/**
+ * Quotas and rate limits.
+ *
+ * Quotas cap what a user can keep: they're checked by ProjectService against the
+ * project owner's usage, so an editor's writes count toward the owner's quota.
+ * Rate limits cap how fast calls come in: tool and REST calls per user, and app,
+ * MCP and API requests per IP. Both can be overridden with the LIMITS variable,
+ * a JSON object such as {"maxProjects": 100}.
+ */
+export interface Limits {
+  /** Projects one user may own */
+  maxProjects: number;
+  /** Files in one version */
+  maxFilesPerVersion: number;
+  /**
+   * Total size of the drafts of every project a user owns. Published versions aren't
+   * counted: each one is a draft that already fit, its large binaries share blobs with
+   * the draft, and maxVersionsRetained caps how many are kept.
+   */
+  maxTotalBytes: number;
+  /** Published versions kept per project; publishing deletes older ones */
+  maxVersionsRetained: number;
+  /** Documents in one data collection, counted separately for live and draft */
+  maxDataDocuments: number;
+  /** Form submissions kept per project, counted separately for live and draft */
+  maxFormSubmissions: number;
+  /** Custom domains per project, verified or not */
+  maxDomainsPerProject: number;
+  /** MCP tool calls and REST API calls per user per minute */
+  callsPerMinute: number;
+  /** Requests to /mcp and /api per IP per minute */
+  ipCallsPerMinute: number;
+  /** Requests to /app and /preview per IP per minute */
+  appRequestsPerMinute: number;
+  /** Form submissions to one app per IP per minute */
+  formSubmissionsPerMinute: number;
+  /** Abuse reports (see report.ts) per IP per minute */
+  reportsPerMinute: number;
+}
+
+export const DEFAULT_LIMITS: Limits = {
+  maxProjects: 25,
+  maxFilesPerVersion: 1000,
+  maxTotalBytes: 500 * 1024 * 1024, // 500 MB
+  maxVersionsRetained: 50,
+  maxDataDocuments: 10000,
+  maxFormSubmissions: 10000,
+  maxDomainsPerProject: 5,
+  callsPerMinute: 120,
+  ipCallsPerMinute: 600,
+  appRequestsPerMinute: 1200,
+  formSubmissionsPerMinute: 5,
+  reportsPerMinute: 3,
+};
+
+/** The limits in force, with any LIMITS overrides applied. A malformed LIMITS is logged and ignored. */
+export function limitsFor(env: Env): Limits {
+  if (!env.LIMITS) return DEFAULT_LIMITS;
+  try {
+    const overrides = JSON.parse(env.LIMITS) as Partial<Limits>;
+    const valid = Object.entries(overrides).filter(
+      ([key, value]) => key in DEFAULT_LIMITS && typeof value === "number" && value >= 0
+    );
+    return { ...DEFAULT_LIMITS, ...Object.fromEntries(valid) };
+  } catch (err) {
+    console.error("Ignoring invalid LIMITS", err);
+    return DEFAULT_LIMITS;
+  }
+}
+
+/** Throws a quota_exceeded LimitError if `requested` is over `max`. */
+export function assertQuota(limit: string, max: number, requested: number, message: string): void {
+  if (requested > max) {
+    throw new LimitError("quota_exceeded", message, { limit, max, requested, resets_at: null });
+  }
+}
+
+/** Sizes for quota messages, e.g. "12.5 MB". */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// --- Rate limiting ---
+
+export interface RateWindow {
+  count: number;
+  /** Epoch milliseconds when the window ends */
+  resetAt: number;
+}
+
+export interface RateResult {
+  allowed: boolean;
+  /** Requests counted in the current window, including this one */
+  count: number;
+  resetAt: number;
+}
+
+/** Counts requests per key in fixed windows. */
+export interface RateLimiter {
+  /** Counts one request against `key` and says whether it's within `limit` per `windowSeconds`. */
+  hit(key: string, limit: number, windowSeconds: number): Promise<RateResult>;
+}
+
+/**
+ * Adds one request to a window, starting a new one if it has ended. Rejected requests
+ * still count, so a client that keeps retrying doesn't get through early.
+ * Shared by RateCounter and MemoryRateLimiter so both count the same way.
+ */
+export function countHit(window: RateWindow | undefined, now: number, limit: number, windowSeconds: number) {
+  const current = window && window.resetAt > now ? window : { count: 0, resetAt: now + windowSeconds * 1000 };
+  const next = { count: current.count + 1, resetAt: current.resetAt };
+  return { window: next, result: { allowed: next.count <= limit, count: next.count, resetAt: next.resetAt } };
+}
+
+/** Production limiter: one RateCounter Durable Object per key, so counts are global. */
+export class DurableObjectRateLimiter implements RateLimiter {
+  constructor(private namespace: DurableObjectNamespace<RateCounter>) {}
+
+  async hit(key: string, limit: number, windowSeconds: number): Promise<RateResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    return stub.hit(limit, windowSeconds);
+  }
+}
+
+/** In-process limiter with the same behaviour, for tests and local experiments. */
+export class MemoryRateLimiter implements RateLimiter {
+  windows = new Map<string, RateWindow>();
+
+  async hit(key: string, limit: number, windowSeconds: number): Promise<RateResult> {
+    const { window, result } = countHit(this.windows.get(key), Date.now(), limit, windowSeconds);
+    this.windows.set(key, window);
+    return result;
+  }
+}
+
+export function createRateLimiter(env: Env): RateLimiter {
+  return new DurableObjectRateLimiter(env.RATE_LIMITER);
+}
+
+/** Throws a rate_limited LimitError once `key` has used up this minute's `max` requests. */
+export async function enforceRate(
+  limiter: RateLimiter,
+  key: string,
+  limit: string,
+  max: number,
+  message: string
+): Promise<void> {
+  const result = await limiter.hit(key, max, 60);
+  if (!result.allowed) {
+    throw new LimitError("rate_limited", message, {
+      limit,
+      max,
+      requested: result.count,
+      resets_at: new Date(result.resetAt).toISOString(),
+    });
+  }
+}
+
+/** Counts a tool or REST API call by a signed-in user. */
+export async function enforceCallRate(env: Env, email: string): Promise<void> {
+  const { callsPerMinute } = limitsFor(env);
+  await enforceRate(
+    createRateLimiter(env),
+    `user:${email.toLowerCase()}`,
+    "calls_per_minute",
+    callsPerMinute,
+    `Too many calls: the limit is ${callsPerMinute} per minute across tools and the API. Wait until resets_at, then try again.`
+  );
+}
+
+/**
+ * Counts a request by the client's IP: "app" for app and preview pages, "api" for /mcp and /api.
+ * Returns the LimitError when over the limit, so each route can answer in its own format.
+ * Requests without an IP aren't counted (see clientIp).
+ */
+export async function checkIpRate(
+  env: Env,
+  request: Request,
+  kind: "app" | "api"
+): Promise<LimitError | null> {
+  const ip = clientIp(request);
+  if (!ip) return null;
+
+  const limits = limitsFor(env);
+  const max = kind === "app" ? limits.appRequestsPerMinute : limits.ipCallsPerMinute;
+  try {
+    await enforceRate(
+      createRateLimiter(env),
+      `ip:${kind}:${ip}`,
+      `${kind}_requests_per_minute`,
+      max,
+      `Too many requests from this address: the limit is ${max} per minute.`
+    );
+    return null;
+  } catch (err) {
+    if (err instanceof LimitError) return err;
+    throw err;
+  }
+}
+
+/**
+ * The client's IP as Cloudflare reports it. Cloudflare sets it on every request from the
+ * internet, so only local and internal requests have none; they get no per-IP limit rather
+ * than one bucket shared by all of them.
+ */
+export function clientIp(request: Request): string | null {
+  return request.headers.get("CF-Connecting-IP");
+}
+
+/** A plain-text 429 for routes that don't answer in JSON (apps, previews and /mcp). */
+export function rateLimitedResponse(err: LimitError): Response {
+  return new Response(`${err.message}\n${err.details!.join("\n")}\n`, {
+    status: 429,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Retry-After": String(err.retryAfter ?? 60) },
+  });
+}
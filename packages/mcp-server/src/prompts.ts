@@ -0,0 +1,99 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { MAX_FILE_BYTES } from "./files";
+import type { ToolDeps } from "./tools";
+
+/** How Shapps apps work, given to the assistant at the start of every prompt. */
+export const SHAPPS_CONVENTIONS = `You're building a static web app on Shapps. How Shapps works:
+- An app is a set of files: HTML, CSS, JavaScript, images and fonts. There is no server-side code.
+- For forms (contact, sign-up, feedback), use <form method="post" action="~forms/<name>"> (from a page in a folder, "../~forms/<name>"): Shapps stores the fields, and owners read them with list_form_submissions or export_form_submissions. Add a hidden, empty "_honeypot" field against spam. Set a thank-you page in shapps.json: {"forms": {"<name>": {"redirect": "thanks.html"}}}.
+- To store other data (guestbooks, votes...), define a collection with define_collection, then use the client Shapps adds to every HTML page: await shapps.data.collection("name").add({...}), .list(), .get(id), .update(id, {...}), .remove(id). A collection's rules decide what visitors can read and write; read stored data with query_data. Previews have their own draft data, separate from the live app's.
+- Edit the project's draft with write_files (whole files) and edit_files (targeted changes). Send binary files as base64.
+- The app is served at /app/<slug>/ (and at the root of any custom domain), so link between files with relative paths ("style.css", "about.html"), never "/style.css".
+- "about" serves about.html or about/index.html. For a single-page app with client-side routing, set routing mode "spa" in shapps.json: {"routing": {"mode": "spa"}}. A 404.html page is used for missing paths.
+- Keep each file under ${MAX_FILE_BYTES / (1024 * 1024)} MB. Prefer plain HTML, CSS and JavaScript; load libraries from a CDN (jsDelivr, unpkg, cdnjs, esm.sh) rather than bundling them.
+- Apps are served with a strict Content-Security-Policy: scripts, fetch() calls, iframes and form posts to other sites are blocked until you allow their origins with update_settings' security setting (e.g. {"connect_sources": ["https://api.example.com"]}), as are eval() ("allow_eval") and features like the camera or geolocation ("permissions").
+- Check your work with get_preview_url before calling publish, which makes the draft live.`;
+
+/**
+ * Registers prompts that start common tasks with Shapps conventions already explained.
+ * Each returns a single user message: the conventions, then the task.
+ */
+export function registerPrompts(server: McpServer, deps: Pick<ToolDeps, "projects">) {
+  const projectId = (description: string) =>
+    completable(z.string().describe(description), async (value) => {
+      const { items } = await deps.projects().listProjects();
+      return items.map((p) => p.id).filter((id) => id.startsWith(value ?? ""));
+    });
+
+  server.registerPrompt(
+    "build_landing_page",
+    {
+      title: "Build a landing page",
+      description: "Create a new project with a landing page for a product, event or idea",
+      argsSchema: {
+        subject: z.string().describe("What the page is for, e.g. 'a dog-walking service in Leeds'"),
+        audience: z.string().optional().describe("Who the page is for"),
+        style: z.string().optional().describe("Look and feel, e.g. 'playful, bright colours'"),
+      },
+    },
+    ({ subject, audience, style }) =>
+      prompt([
+        `Build a landing page for ${subject}.`,
+        audience && `It's aimed at ${audience}.`,
+        style && `Style: ${style}.`,
+        "Start with create_project using the landing-page template, then rewrite its content: a clear headline, " +
+          "what's on offer, a call to action, and a short footer. Use real copy, not lorem ipsum.",
+      ])
+  );
+
+  server.registerPrompt(
+    "add_contact_form",
+    {
+      title: "Add a contact form",
+      description: "Add a contact form to an existing project",
+      argsSchema: {
+        project_id: projectId("The project to add the form to"),
+        fields: z.string().optional().describe("Fields to ask for (default: name, email and message)"),
+      },
+    },
+    ({ project_id, fields }) =>
+      prompt([
+        `Add a contact form to project ${project_id}. Call get_project first to see its files and style.`,
+        `Ask for: ${fields ?? "name, email and message"}. Label every field, mark required ones, and validate in the browser.`,
+        'Post it to Shapps\' form endpoint: <form method="post" action="~forms/contact">, with a hidden "_honeypot" field. ' +
+          'Add a thanks.html page that matches the rest of the site\'s design, and point to it from shapps.json ({"forms": ' +
+          '{"contact": {"redirect": "thanks.html"}}}), merging with any settings already there. ' +
+          "Finally, tell me I can ask for submissions with list_form_submissions or export them as CSV.",
+      ])
+  );
+
+  server.registerPrompt(
+    "make_mobile_friendly",
+    {
+      title: "Make it mobile friendly",
+      description: "Review a project and fix how it looks and works on phones",
+      argsSchema: {
+        project_id: projectId("The project to improve"),
+      },
+    },
+    ({ project_id }) =>
+      prompt([
+        `Make project ${project_id} work well on phones. Call get_project, then read_files to review every page and stylesheet.`,
+        'Check that each page has <meta name="viewport" content="width=device-width, initial-scale=1">, layouts reflow ' +
+          "with flexbox or grid and media queries instead of fixed widths, images scale (max-width: 100%), text is at " +
+          "least 16px, tap targets are at least 44px, and navigation collapses on narrow screens.",
+        "Use edit_files for targeted changes, then list what you changed.",
+      ])
+  );
+}
+
+/** A prompt's single user message: the conventions, then the task's lines (empty ones skipped). */
+function prompt(lines: (string | undefined)[]): GetPromptResult {
+  const task = lines.filter(Boolean).join("\n");
+  return {
+    messages: [{ role: "user", content: { type: "text", text: `${SHAPPS_CONVENTIONS}\n\n${task}` } }],
+  };
+}
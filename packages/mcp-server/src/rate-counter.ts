@@ -0,0 +1,17 @@
+import { DurableObject } from "cloudflare:workers";
+import { type RateResult, type RateWindow, countHit } from "./limits";
+import type { Env } from "./types";
+
+/**
+ * One rate-limit counter (one per user or IP key, see DurableObjectRateLimiter).
+ * The window lives in storage so it survives the object being evicted; a Durable
+ * Object handles one call at a time, so counting needs no further locking.
+ */
+export class RateCounter extends DurableObject<Env> {
+  async hit(limit: number, windowSeconds: number): Promise<RateResult> {
+    const stored = await this.ctx.storage.get<RateWindow>("window");
+    const { window, result } = countHit(stored, Date.now(), limit, windowSeconds);
+    await this.ctx.storage.put("window", window);
+    return result;
+  }
+}
@@ -0,0 +1,135 @@
+import { HONEYPOT_FIELD } from "./forms";
+import { errorPage, escapeHtml, htmlPage } from "./html";
+import { clientIp, createRateLimiter, enforceRate, limitsFor } from "./limits";
+import type { ServeDeps } from "./serve";
+import { ServiceError } from "./services/errors";
+import { abuseReportSchema, reportReasonSchema } from "./services/schemas";
+import { createProjectStore } from "./store";
+import type { Env, ReportReason } from "./types";
+import { publicUrl } from "./urls";
+
+/**
+ * Abuse reports from visitors, at /report/:slug on the Worker's own host.
+ *
+ * GET shows a plain form (no JavaScript); POST stores the report for admins (see
+ * abuse.ts). `?url=` fills in the page being reported. Only public apps can be reported,
+ * so private ones still look like they don't exist. Each IP can send a few reports a
+ * minute, and a filled-in honeypot field is thanked but dropped, like forms.ts does.
+ */
+
+const REASONS: Record<ReportReason, string> = {
+  phishing: "Phishing: it asks for passwords, payment details or other personal information",
+  malware: "Malware or a scam download",
+  spam: "Spam",
+  impersonation: "It pretends to be someone else",
+  illegal: "Illegal content",
+  other: "Something else",
+};
+
+export async function serveReport(env: Env, request: Request, slug: string, deps: ServeDeps = {}): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) {
+    return new Response("Server misconfiguration: missing database credentials", { status: 500 });
+  }
+  const store = deps.store ?? createProjectStore(env);
+
+  const project = await store.getProjectBySlug(slug);
+  if (!project || !project.is_public) {
+    return htmlPage(404, "App not found", "<h1>App not found</h1><p>There's no public app at this address.</p>");
+  }
+
+  if (request.method === "GET") {
+    const pageUrl = new URL(request.url).searchParams.get("url") ?? publicUrl(env, `/app/${slug}/`);
+    return reportForm(slug, pageUrl);
+  }
+
+  try {
+    const { reportsPerMinute } = limitsFor(env);
+    const ip = clientIp(request);
+    if (ip) {
+      await enforceRate(
+        createRateLimiter(env),
+        `ip:report:${ip}`,
+        "reports_per_minute",
+        reportsPerMinute,
+        `Too many reports from this address: the limit is ${reportsPerMinute} per minute. Please wait a minute and try again.`
+      );
+    }
+
+    const fields = Object.fromEntries(
+      [...(await readForm(request))].filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== "")
+    );
+    if (fields[HONEYPOT_FIELD]) {
+      return thankYouPage();
+    }
+
+    const parsed = abuseReportSchema.safeParse(fields);
+    if (!parsed.success) {
+      const field = parsed.error.issues[0]?.path[0];
+      throw new ServiceError(
+        "invalid_request",
+        field === "reason"
+          ? "Choose what's wrong with the app."
+          : field === "email"
+            ? "That email address doesn't look right."
+            : "Please check the form and try again."
+      );
+    }
+
+    const { reason, details, page_url, email } = parsed.data;
+    await store.addReport({
+      project_id: project.id,
+      reason,
+      details: details ?? null,
+      page_url: page_url ?? null,
+      reporter_email: email ?? null,
+    });
+    return thankYouPage();
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      return failed(err);
+    }
+    console.error("Unhandled report error", err);
+    return failed(new ServiceError("internal", "Something went wrong. Please try again."));
+  }
+}
+
+async function readForm(request: Request): Promise<FormData> {
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+  if (contentType !== "application/x-www-form-urlencoded" && contentType !== "multipart/form-data") {
+    throw new ServiceError("invalid_request", "Send the report from the form on this page.");
+  }
+  if (Number(request.headers.get("Content-Length") ?? 0) > 16 * 1024) {
+    throw new ServiceError("invalid_request", "The report is too long.");
+  }
+  return request.formData();
+}
+
+function reportForm(slug: string, pageUrl: string): Response {
+  const reasons = reportReasonSchema.options
+    .map((reason) => `<label><input type="radio" name="reason" value="${reason}" required> ${escapeHtml(REASONS[reason])}</label>`)
+    .join("");
+  return htmlPage(
+    200,
+    "Report an app",
+    `<h1>Report ${escapeHtml(slug)}</h1>` +
+      "<p>Tell us what's wrong with this app and we'll take a look. Reports go to the Shapps team, not the app's owner.</p>" +
+      `<form method="post"><fieldset><legend>What's wrong?</legend>${reasons}</fieldset>` +
+      `<label>Details (optional)<textarea name="details" rows="5" maxlength="2000"></textarea></label>` +
+      `<label>Page<input type="url" name="page_url" value="${escapeHtml(pageUrl)}" maxlength="500"></label>` +
+      `<label>Your email, if we may ask you about it (optional)<input type="email" name="email" maxlength="254"></label>` +
+      `<input type="text" name="${HONEYPOT_FIELD}" tabindex="-1" autocomplete="off" hidden>` +
+      `<button type="submit">Send report</button></form>`,
+    "label{display:block;margin:.75rem 0}textarea,input[type=url],input[type=email]{display:block;width:100%;box-sizing:border-box}"
+  );
+}
+
+function failed(err: ServiceError): Response {
+  return errorPage(err, "Report not sent", "Your report wasn't sent");
+}
+
+function thankYouPage(): Response {
+  return htmlPage(200, "Report sent", "<h1>Thank you</h1><p>Your report was sent. We'll look into it.</p>");
+}
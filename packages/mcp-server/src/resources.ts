@@ -0,0 +1,168 @@
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ServiceError } from "./services/errors";
+import type { ProjectChange, ToolDeps } from "./tools";
+
+/** The MCP error code for a resource that doesn't exist (from the MCP spec). */
+const RESOURCE_NOT_FOUND = -32002;
+
+export function projectUri(projectId: string): string {
+  return `shapps://project/${projectId}`;
+}
+
+/** Each path segment is percent-encoded, so files with spaces or "#" still make valid URIs. */
+export function fileUri(projectId: string, filePath: string): string {
+  return `${projectUri(projectId)}/file/${filePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Exposes projects and their draft files as MCP resources, so clients can browse
+ * and attach them instead of calling read_files:
+ *
+ *   shapps://project/{id}               the project, as get_project returns it
+ *   shapps://project/{id}/file/{+path}  one file of the draft (or the live version)
+ *
+ * Clients may subscribe to any of these URIs. Call the returned `projectChanged`
+ * after a change; it sends resources/updated for the subscribed URIs it touches and
+ * resources/list_changed when files or projects may have come or gone. Only changes
+ * made through this server are seen, so other sessions' edits arrive on next read.
+ */
+export function registerResources(server: McpServer, deps: Pick<ToolDeps, "projects" | "checkRate">) {
+  const subscriptions = new Set<string>();
+
+  const completeProjectId = async (value: string) => {
+    const { items } = await deps.projects().listProjects();
+    return items.map((p) => p.id).filter((id) => id.startsWith(value));
+  };
+
+  server.registerResource(
+    "project",
+    new ResourceTemplate("shapps://project/{id}", {
+      list: () =>
+        readResource(async () => {
+          await deps.checkRate();
+          const { items } = await deps.projects().listProjects();
+          return {
+            resources: items.map((p) => ({
+              uri: projectUri(p.id),
+              name: p.slug,
+              title: p.name,
+              description: p.description ?? undefined,
+              mimeType: "application/json",
+            })),
+          };
+        }),
+      complete: { id: completeProjectId },
+    }),
+    {
+      title: "Project",
+      description: "A Shapps project: settings, routing and the file list of its draft",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) =>
+      readResource(async () => {
+        await deps.checkRate();
+        const project = await deps.projects().getProject(String(id));
+        return {
+          contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(project, null, 2) }],
+        };
+      })
+  );
+
+  server.registerResource(
+    "project-file",
+    new ResourceTemplate("shapps://project/{id}/file/{+path}", {
+      list: () =>
+        readResource(async () => {
+          await deps.checkRate();
+          const projects = deps.projects();
+          const { items } = await projects.listProjects();
+          const resources = [];
+          for (const p of items) {
+            const { files } = await projects.getProject(p.id);
+            for (const f of files) {
+              resources.push({
+                uri: fileUri(p.id, f.file_path),
+                name: `${p.slug}/${f.file_path}`,
+                mimeType: f.content_type,
+                size: f.size,
+              });
+            }
+          }
+          return { resources };
+        }),
+      complete: { id: completeProjectId },
+    }),
+    {
+      title: "Project file",
+      description: "A file in a Shapps project's draft. Binary files are returned as base64 blobs.",
+    },
+    async (uri, { id, path }) =>
+      readResource(async () => {
+        await deps.checkRate();
+        const filePath = decodeURIComponent(String(path));
+        const [file] = await deps.projects().readFiles(String(id), { paths: [filePath], includeBinary: true });
+        if (!file) {
+          throw new ServiceError("not_found", `File not found: ${filePath}`);
+        }
+        if (!("encoding" in file)) {
+          return { contents: [{ uri: uri.href, mimeType: file.content_type, text: file.content }] };
+        }
+        const blob = "content" in file ? file.content : null;
+        if (blob === null) {
+          throw new ServiceError("not_found", `The content of ${filePath} is missing from storage.`);
+        }
+        return { contents: [{ uri: uri.href, mimeType: file.content_type, blob }] };
+      })
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return {
+    /** Notifies clients about a change made by a tool. Notifications are best effort. */
+    projectChanged(change: ProjectChange) {
+      if (!server.isConnected()) return;
+
+      const prefix = `${projectUri(change.projectId)}/file/`;
+      const changedFiles = change.paths && new Set(change.paths.map((p) => fileUri(change.projectId, p)));
+      for (const uri of subscriptions) {
+        const touched =
+          uri === projectUri(change.projectId) ||
+          (uri.startsWith(prefix) && (!changedFiles || changedFiles.has(uri)));
+        if (touched) {
+          server.server.sendResourceUpdated({ uri }).catch((err) => console.error("resources/updated failed", err));
+        }
+      }
+      if (change.listChanged) {
+        server.sendResourceListChanged();
+      }
+    },
+  };
+}
+
+/** Runs a resource handler, turning a ServiceError into the matching MCP error. */
+async function readResource<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      const message = err.details?.length ? `${err.message}\n${err.details.join("\n")}` : err.message;
+      const code = err.code === "not_found" ? RESOURCE_NOT_FOUND : ErrorCode.InvalidRequest;
+      throw new McpError(code, message, { code: err.code });
+    }
+    throw err;
+  }
+}
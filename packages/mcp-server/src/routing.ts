@@ -0,0 +1,104 @@
+/**
+ * Maps request paths inside an app (/app/:slug/<path>) to project files.
+ *
+ * Rules, in order:
+ * 1. "" or "dir/"  → "index.html" / "dir/index.html"
+ * 2. "about"       → "about", then "about.html", then "about/index.html"
+ * 3. SPA mode: any other extensionless path → "index.html"
+ * 4. Otherwise the custom not-found page (default "404.html") with status 404
+ *
+ * The mode comes from the version's shapps.json file if it has one, so routing
+ * travels with the files; otherwise from the project's routing_mode setting.
+ */
+
+export type RoutingMode = "static" | "spa";
+
+export const CONFIG_FILE = "shapps.json";
+const DEFAULT_NOT_FOUND_PAGE = "404.html";
+
+export interface RoutingConfig {
+  mode: RoutingMode;
+  notFoundPage: string;
+  source: "shapps.json" | "settings";
+  /** Set when shapps.json exists but couldn't be used. */
+  error?: string;
+}
+
+export type Resolution =
+  | { kind: "file"; path: string; status: 200 | 404 }
+  | { kind: "redirect"; path: string }
+  | { kind: "missing" };
+
+/**
+ * Works out the routing rules for a version.
+ * shapps.json looks like: { "routing": { "mode": "spa", "not_found_page": "404.html" } }
+ */
+export function routingConfig(configFile: string | null, settingsMode: RoutingMode): RoutingConfig {
+  const fallback: RoutingConfig = { mode: settingsMode, notFoundPage: DEFAULT_NOT_FOUND_PAGE, source: "settings" };
+  if (configFile === null) return fallback;
+
+  let routing: { mode?: unknown; not_found_page?: unknown } | undefined;
+  try {
+    routing = (JSON.parse(configFile) as { routing?: typeof routing }).routing;
+  } catch {
+    return { ...fallback, error: `${CONFIG_FILE} is not valid JSON` };
+  }
+  if (routing === undefined) return fallback;
+
+  if (routing.mode !== undefined && routing.mode !== "static" && routing.mode !== "spa") {
+    return { ...fallback, error: `routing.mode in ${CONFIG_FILE} must be "static" or "spa"` };
+  }
+
+  return {
+    mode: (routing.mode as RoutingMode | undefined) ?? settingsMode,
+    notFoundPage: typeof routing.not_found_page === "string" ? routing.not_found_page : DEFAULT_NOT_FOUND_PAGE,
+    source: "shapps.json",
+  };
+}
+
+/**
+ * Every file that could answer a request (plus shapps.json itself), so they can all be fetched
+ * in one query. A custom not_found_page from shapps.json has to be fetched separately.
+ */
+export function candidateFiles(requestPath: string): string[] {
+  return [...new Set([...directCandidates(requestPath), "index.html", CONFIG_FILE, DEFAULT_NOT_FOUND_PAGE])];
+}
+
+/** Picks the file that answers a request, given which files exist in the version. */
+export function resolvePath(requestPath: string, exists: (path: string) => boolean, config: RoutingConfig): Resolution {
+  const direct = directCandidates(requestPath);
+  const match = direct.find(exists);
+
+  if (match) {
+    // "about" served from "about/index.html" needs the trailing slash so its relative links work
+    if (!requestPath.endsWith("/") && requestPath !== "" && match.endsWith("/index.html") && match !== requestPath) {
+      return { kind: "redirect", path: `${requestPath}/` };
+    }
+    return { kind: "file", path: match, status: 200 };
+  }
+
+  if (config.mode === "spa" && !hasExtension(requestPath) && exists("index.html")) {
+    return { kind: "file", path: "index.html", status: 200 };
+  }
+
+  if (exists(config.notFoundPage)) {
+    return { kind: "file", path: config.notFoundPage, status: 404 };
+  }
+
+  return { kind: "missing" };
+}
+
+function directCandidates(requestPath: string): string[] {
+  if (requestPath === "" || requestPath.endsWith("/")) {
+    return [`${requestPath}index.html`];
+  }
+  if (hasExtension(requestPath)) {
+    return [requestPath];
+  }
+  return [requestPath, `${requestPath}.html`, `${requestPath}/index.html`];
+}
+
+function hasExtension(path: string): boolean {
+  const lastSegment = path.split("/").pop() ?? "";
+  return lastSegment.includes(".");
+}
@@ -0,0 +1,91 @@
+import { PERMISSION_FEATURES, type SecuritySettings } from "./services/schemas";
+
+/**
+ * Security headers for the files serveApp serves.
+ *
+ * Every app gets a Content-Security-Policy, a Permissions-Policy, nosniff and a
+ * Referrer-Policy. The default policy allows what apps here are told to build with:
+ * inline scripts and styles, libraries from common CDNs, and images, fonts and media
+ * from anywhere over https. It blocks everything else a script could load, fetch, frame
+ * or post to. Owners loosen it per project with the `security` setting, e.g. to load
+ * Stripe's script or call an external API.
+ *
+ * Published apps can only be framed by the sites in frame_ancestors, which stops
+ * clickjacking. On their own origin (isolated, or a custom domain) they may also frame
+ * themselves. At /app/:slug every app shares the Worker's origin, so 'self' would let
+ * one app frame another; there it's only allowed once the project lists sites to embed
+ * it. Previews can be framed anywhere, since the preview widget (widget.ts) shows them
+ * inside chat clients on hosts we don't know.
+ *
+ * The headers are added to each response rather than kept in the edge cache, so a
+ * settings change applies straight away (the cached pointer carries the settings).
+ */
+
+/** Where scripts may load from without any settings: the app itself and common CDNs. */
+export const DEFAULT_SCRIPT_SOURCES = [
+  "https://cdn.jsdelivr.net",
+  "https://unpkg.com",
+  "https://cdnjs.cloudflare.com",
+  "https://esm.sh",
+  "https://cdn.skypack.dev",
+  "https://ga.jspm.io",
+  "https://cdn.tailwindcss.com",
+];
+
+/**
+ * The headers for a file of an app, published ("active") or previewed ("draft").
+ * ownOrigin is whether the app is served at the root of an origin of its own.
+ */
+export function securityHeaders(
+  settings: SecuritySettings | undefined,
+  mode: "active" | "draft",
+  ownOrigin: boolean
+): Record<string, string> {
+  return {
+    "Content-Security-Policy": contentSecurityPolicy(settings ?? {}, mode, ownOrigin),
+    "Permissions-Policy": permissionsPolicy(settings ?? {}),
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+  };
+}
+
+export function contentSecurityPolicy(settings: SecuritySettings, mode: "active" | "draft", ownOrigin: boolean): string {
+  const self = "'self'";
+  const directives: [string, ...string[]][] = [
+    ["default-src", self],
+    [
+      "script-src",
+      self,
+      "'unsafe-inline'",
+      ...(settings.allow_eval ? ["'unsafe-eval'"] : []),
+      ...DEFAULT_SCRIPT_SOURCES,
+      ...(settings.script_sources ?? []),
+    ],
+    ["style-src", self, "'unsafe-inline'", "https:"],
+    ["img-src", self, "data:", "blob:", "https:"],
+    ["font-src", self, "data:", "https:"],
+    ["media-src", self, "data:", "blob:", "https:"],
+    // Module CDNs fetch source maps and imports, so they're allowed here too
+    ["connect-src", self, ...DEFAULT_SCRIPT_SOURCES, ...(settings.connect_sources ?? [])],
+    ["frame-src", self, ...(settings.frame_sources ?? [])],
+    ["worker-src", self, "blob:"],
+    ["object-src", "'none'"],
+    ["base-uri", self],
+    ["form-action", self, ...(settings.form_actions ?? [])],
+  ];
+  if (mode === "active") {
+    const ancestors = settings.frame_ancestors ?? [];
+    directives.push(
+      ownOrigin || ancestors.length > 0 ? ["frame-ancestors", self, ...ancestors] : ["frame-ancestors", "'none'"]
+    );
+  }
+  directives.push(["upgrade-insecure-requests"]);
+
+  return directives.map((directive) => [...new Set(directive)].join(" ")).join("; ");
+}
+
+/** Turns off the browser features the app doesn't ask for. */
+function permissionsPolicy(settings: SecuritySettings): string {
+  const allowed = new Set(settings.permissions ?? []);
+  return PERMISSION_FEATURES.map((feature) => `${feature}=${allowed.has(feature) ? "(self)" : "()"}`).join(", ");
+}
@@ -1,33 +1,121 @@
-import { getSupabase } from "./db";
-import type { Env } from "./types";
+import { suspendedResponse } from "./abuse";
+import { countPageView } from "./analytics";
+import { type AppCache, type AppPointer, createAppCache, etagMatches, responseKey } from "./cache";
+import { injectDataClient } from "./data";
+import { checkIpRate, rateLimitedResponse } from "./limits";
+import { fileBody, fileHash } from "./files";
+import { CONFIG_FILE, type RoutingMode, candidateFiles, resolvePath, routingConfig } from "./routing";
+import { PREVIEW_COOKIE, getCookie, mintAppKey, previewCookie, readSession, verifyPreviewToken } from "./session";
+import { securityHeaders } from "./security";
+import { type ProjectStore, createProjectStore } from "./store";
+import type { Env, ProjectRow } from "./types";
+import { appBase, liveUrl } from "./urls";
+
+/** Storage and cache for serveApp. Omitted ones are created from env. */
+export interface ServeDeps {
+  store?: ProjectStore;
+  cache?: AppCache;
+}
 
 /**
  * Serves a file from a Shapps project.
- * mode "active" = published app at /app/:slug
- * mode "draft"  = preview at /preview/:slug
+ * mode "active" = published app at /app/:slug (private apps are visible to their members only)
+ * mode "draft"  = preview at /preview/:slug (needs a preview token or a member's session)
+ *
+ * filePath is the raw path after the slug ("" for the root); routing.ts maps it to a file.
+ * `base` is where the app is served, which is "/" on its own domain (see domains.ts).
+ * Public published files are served from the edge cache when possible (see cache.ts),
+ * which skips both database lookups and the per-IP rate limit. Drafts and private apps are never cached.
+ * Views of published HTML pages are counted for analytics.ts. Files get the project's
+ * security headers (see security.ts), and published apps with an isolated origin are
+ * redirected there from /app/:slug. Suspended apps (see abuse.ts) get a neutral page instead.
  */
 export async function serveApp(
   env: Env,
+  ctx: ExecutionContext,
+  request: Request,
   slug: string,
   filePath: string,
-  mode: "active" | "draft"
+  mode: "active" | "draft",
+  deps: ServeDeps = {},
+  base = appBase(slug, mode)
 ): Promise<Response> {
-  if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) {
+  const cache = deps.cache ?? createAppCache(env);
+  // Isolated apps are only served at the root of their own origin
+  const movesToOwnOrigin = (isolated: boolean | undefined) =>
+    mode === "active" && base !== "/" && !!isolated && !!env.APPS_DOMAIN;
+
+  if (mode === "active") {
+    const pointer = await cache.getPointer(slug);
+    if (pointer && movesToOwnOrigin(pointer.isolatedOrigin)) {
+      return redirectToOwnOrigin(env, request, slug, filePath);
+    }
+    const cached =
+      pointer?.routingMode && (await cache.getResponse(responseKey(base, pointer.activeVersionId, pointer.routingMode, filePath)));
+    if (cached) {
+      if (isPage(cached.headers.get("Content-Type")) && cached.status === 200) {
+        countPageView(env, ctx, request, { projectId: pointer.projectId, base, filePath }, deps.store);
+      }
+      return respondFromCache(request, cached, securityHeaders(pointer.security, mode, base === "/"));
+    }
+  }
+
+  const limited = await checkIpRate(env, request, "app");
+  if (limited) {
+    return rateLimitedResponse(limited);
+  }
+
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) {
     return new Response("Server misconfiguration: missing database credentials", { status: 500 });
   }
 
-  const supabase = getSupabase(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+  const store = deps.store ?? createProjectStore(env);
 
   // Look up the project by slug
-  const { data: project, error: projectError } = await supabase
-    .from("projects")
-    .select("id, active_version_id, draft_version_id, status")
-    .eq("slug", slug)
-    .single();
+  const project = await store.getProjectBySlug(slug);
 
-  if (projectError || !project) {
+  if (!project) {
     return new Response("Project not found", { status: 404 });
   }
+  const viewerEmail = await readSession(env, request);
+  // Any role (viewer and up) may see private apps and drafts
+  const isMember =
+    viewerEmail !== null &&
+    (viewerEmail.toLowerCase() === project.owner_email || (await store.getRole(project.id, viewerEmail)) !== null);
+  // Only members may see this, through their session (see readSession)
+  const forMember = isMember && (mode === "draft" || !project.is_public);
+
+  // Private apps look exactly like missing ones to everyone but members
+  if (mode === "active" && !project.is_public && !isMember) {
+    return new Response("Project not found", { status: 404 });
+  }
+  if (project.suspended_at) {
+    return suspendedResponse();
+  }
+
+  if (project.is_public && movesToOwnOrigin(project.isolated_origin)) {
+    return redirectToOwnOrigin(env, request, slug, filePath);
+  }
+
+  // Drafts need a member's session or a preview token (from ?token= or the cookie it sets)
+  let setPreviewCookie: string | null = null;
+  if (mode === "draft" && !isMember) {
+    const queryToken = new URL(request.url).searchParams.get("token");
+    const token = queryToken ?? getCookie(request, PREVIEW_COOKIE);
+    const remaining = token ? await verifyPreviewToken(env, project.id, token) : null;
+
+    if (remaining === null) {
+      return new Response(
+        "<!DOCTYPE html><html><body><h1>This preview link is invalid or has expired.</h1>" +
+          "<p>Ask the project owner for a new preview link.</p></body></html>",
+        { status: 403, headers: { "Content-Type": "text/html", "Cache-Control": "no-store" } }
+      );
+    }
+
+    if (queryToken) {
+      setPreviewCookie = previewCookie(slug, queryToken, remaining);
+    }
+  }
 
   // Pick the right version based on mode
   const versionId =
@@ -44,25 +132,140 @@ export async function serveApp(
     );
   }
 
-  // Fetch the requested file
-  const { data: file, error: fileError } = await supabase
-    .from("project_files")
-    .select("content, content_type")
-    .eq("version_id", versionId)
-    .eq("file_path", filePath)
-    .single();
+  // Fetch every file that could answer this path in one query, then apply the routing rules
+  const candidates = await store.getFiles(versionId, candidateFiles(filePath));
+
+  const files = new Map(candidates.map((f) => [f.file_path, f]));
+  const routingMode = (project.routing_mode as RoutingMode | null) ?? "static";
+  const config = routingConfig(files.get(CONFIG_FILE)?.content ?? null, routingMode);
+
+  if (!files.has(config.notFoundPage)) {
+    const [notFoundPage] = await store.getFiles(versionId, [config.notFoundPage]);
+    if (notFoundPage) files.set(notFoundPage.file_path, notFoundPage);
+  }
+
+  const resolution = resolvePath(filePath, (path) => files.has(path), config);
+
+  if (resolution.kind === "missing") {
+    return new Response("File not found", { status: 404 });
+  }
+
+  if (resolution.kind === "redirect") {
+    const location = new URL(request.url);
+    location.pathname = `${base}${resolution.path}`;
+    const headers = new Headers({ Location: location.pathname + location.search });
+    if (setPreviewCookie) headers.append("Set-Cookie", setPreviewCookie);
+    return new Response(null, { status: 302, headers });
+  }
 
-  if (fileError || !file) {
+  const file = files.get(resolution.path)!;
+
+  // HTML pages get the app data client (see data.ts), with the member's app key if the page is theirs
+  // alone; their content is always in the database
+  const served = isPage(file.content_type) && !file.storage_key && file.encoding !== "base64"
+    ? {
+        ...file,
+        content: injectDataClient(file.content, base, forMember ? await mintAppKey(env, project.id, viewerEmail!) : undefined),
+      }
+    : file;
+  const body = await fileBody(env, served);
+  if (!body) {
     return new Response("File not found", { status: 404 });
   }
 
-  const cacheControl =
-    mode === "active" ? "public, max-age=300" : "no-cache, no-store";
+  const isFound = resolution.status === 200;
+  const cacheable = mode === "active" && project.is_public && isFound;
+
+  if (mode === "active" && isFound && isPage(file.content_type)) {
+    countPageView(env, ctx, request, { projectId: project.id, base, filePath }, store);
+  }
 
-  return new Response(file.content, {
-    headers: {
-      "Content-Type": file.content_type,
-      "Cache-Control": cacheControl,
-    },
+  const headers = new Headers({
+    "Content-Type": file.content_type,
+    "Content-Length": String(body.size),
+    "Cache-Control": cacheable ? BROWSER_CACHE_CONTROL : "no-cache, no-store",
   });
+  if (mode === "active" && isFound) {
+    headers.set("ETag", `"${await fileHash(file)}"`);
+  }
+  if (setPreviewCookie) {
+    headers.append("Set-Cookie", setPreviewCookie);
+  }
+  if (forMember) {
+    // Another app that opens this page in a window can't read it
+    headers.set("Cross-Origin-Opener-Policy", "same-origin");
+  }
+
+  const response = new Response(body.body, { status: resolution.status, headers });
+
+  if (cacheable) {
+    const pointer: AppPointer = {
+      projectId: project.id,
+      activeVersionId: versionId,
+      routingMode,
+      security: project.security,
+      isolatedOrigin: project.isolated_origin,
+    };
+    ctx.waitUntil(
+      Promise.all([
+        putFreshPointer(cache, store, slug, project, pointer),
+        cache.putResponse(responseKey(base, versionId, routingMode, filePath), response.clone()),
+      ])
+    );
+  }
+  // Added after caching, since they can change without a new version
+  for (const [name, value] of Object.entries(securityHeaders(project.security, mode, base === "/"))) {
+    response.headers.set(name, value);
+  }
+
+  const etag = headers.get("ETag");
+  if (etag && etagMatches(request, etag)) {
+    return notModified(etag, headers.get("Cache-Control")!);
+  }
+
+  return response;
+}
+
+const BROWSER_CACHE_CONTROL = "public, max-age=300";
+
+/**
+ * Caches the pointer, then drops it again if the project changed since it was read. A
+ * publish, rollback or settings change that invalidated the pointer in between would
+ * otherwise be undone by this write, and the old version served until the pointer expires.
+ */
+async function putFreshPointer(cache: AppCache, store: ProjectStore, slug: string, read: ProjectRow, pointer: AppPointer) {
+  await cache.putPointer(slug, pointer);
+  const current = await store.getProjectBySlug(slug);
+  if (current?.revision !== read.revision || current.updated_at !== read.updated_at) {
+    await cache.invalidate([slug]);
+  }
+}
+
+function isPage(contentType: string | null): boolean {
+  return contentType?.startsWith("text/html") ?? false;
+}
+
+/** Serves a cached response with the app's security headers, answering conditional requests with 304. */
+function respondFromCache(request: Request, cached: Response, security: Record<string, string>): Response {
+  const etag = cached.headers.get("ETag");
+  if (etag && etagMatches(request, etag)) {
+    return notModified(etag, BROWSER_CACHE_CONTROL);
+  }
+
+  const response = new Response(cached.body, cached);
+  response.headers.set("Cache-Control", BROWSER_CACHE_CONTROL);
+  for (const [name, value] of Object.entries(security)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+function redirectToOwnOrigin(env: Env, request: Request, slug: string, filePath: string): Response {
+  // Leading slashes would make the path a protocol-relative URL to another host
+  const location = new URL(filePath.replace(/^\/+/, "") + new URL(request.url).search, liveUrl(env, { slug, isolated_origin: true }));
+  return new Response(null, { status: 302, headers: { Location: location.href } });
+}
+
+function notModified(etag: string, cacheControl: string): Response {
+  return new Response(null, { status: 304, headers: { ETag: etag, "Cache-Control": cacheControl } });
 }
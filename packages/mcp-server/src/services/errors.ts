@@ -0,0 +1,92 @@
+/**
+ * An expected failure in a service call (bad input, missing project, conflict...).
+ * MCP tools turn it into an error result and the REST API into a JSON error body,
+ * so messages should tell the caller what to do next.
+ */
+export type ServiceErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "unprocessable"
+  | "quota_exceeded"
+  | "rate_limited"
+  | "internal";
+
+const STATUS: Record<ServiceErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  unprocessable: 422,
+  quota_exceeded: 403,
+  rate_limited: 429,
+  internal: 500,
+};
+
+export class ServiceError extends Error {
+  constructor(
+    public code: ServiceErrorCode,
+    message: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = "ServiceError";
+  }
+
+  get status(): number {
+    return STATUS[this.code];
+  }
+
+  static slugTaken(slug: string | undefined): ServiceError {
+    return new ServiceError("conflict", `The slug "${slug}" is already taken. Choose another one.`);
+  }
+
+  static revisionConflict(): ServiceError {
+    return new ServiceError(
+      "conflict",
+      "The project was changed by someone else since you last read it. Call get_project to see the latest state, then try again."
+    );
+  }
+
+  /** Wraps a database error we don't expect to happen in normal use. */
+  static fromDatabase(error: { message: string }, context: string): ServiceError {
+    return new ServiceError("internal", `${context}: ${error.message}`);
+  }
+}
+
+/** Which limit a call ran into, in a form the caller (often an AI) can act on. */
+export interface LimitInfo {
+  /** Name of the limit, e.g. "projects" or "tool_calls_per_minute" */
+  limit: string;
+  max: number;
+  /** Usage the call would have reached */
+  requested: number;
+  /** When the limit resets (ISO), or null for quotas, which only free up when usage goes down */
+  resets_at: string | null;
+}
+
+/** A quota or rate limit was hit. The details lines repeat `limit` so MCP tools show it too. */
+export class LimitError extends ServiceError {
+  constructor(
+    code: "quota_exceeded" | "rate_limited",
+    message: string,
+    public limit: LimitInfo
+  ) {
+    super(code, message, [
+      `limit: ${limit.limit}`,
+      `max: ${limit.max}`,
+      `requested: ${limit.requested}`,
+      `resets_at: ${limit.resets_at ?? "never (free up usage to continue)"}`,
+    ]);
+    this.name = "LimitError";
+  }
+
+  /** Seconds until the limit resets, for a Retry-After header. */
+  get retryAfter(): number | null {
+    if (!this.limit.resets_at) return null;
+    return Math.max(1, Math.ceil((Date.parse(this.limit.resets_at) - Date.now()) / 1000));
+  }
+}
@@ -0,0 +1,1382 @@
+import { blocklistFor, describeFinding, draftFingerprint, isAdmin, scanFiles } from "../abuse";
+import { COMPARE_DAYS, MAX_RANGE_DAYS, addDays, days, summarizeAnalytics, utcDay } from "../analytics";
+import { type ExportManifest, buildArchive, readArchive } from "../archive";
+import { type AppCache, createAppCache } from "../cache";
+import { splitLines, summarizeDiff, unifiedDiff } from "../diff";
+import { DATA_PREFIX, compileSchema, documentInfo } from "../data";
+import {
+  type DnsResolver,
+  createDnsResolver,
+  domainInfo,
+  hasVerificationRecord,
+  isReservedHostname,
+  normalizeHostname,
+} from "../domains";
+import { applyEdits } from "../edit";
+import { DEFAULT_EXPORT_TTL_MINUTES, saveExport } from "../exports";
+import { submissionsCsv } from "../forms";
+import {
+  contentSize,
+  fileBytes,
+  fileHash,
+  guessContentType,
+  isTextContentType,
+  looksLikeText,
+  pathProblem,
+  prepareBytes,
+  prepareFile,
+  readBase64,
+  type StoredFile,
+} from "../files";
+import { assertQuota, formatBytes, limitsFor } from "../limits";
+import { CONFIG_FILE, routingConfig } from "../routing";
+import { mintPreviewToken, revokePreviewTokens } from "../session";
+import {
+  type NewActivity,
+  type Page,
+  type ProjectStore,
+  type PublishOptions,
+  type ReportFilter,
+  createProjectStore,
+} from "../store";
+import { getTemplate, renderTemplate, templates } from "../templates";
+import type { CollectionRow, DataEnvironment, DomainRow, Env, ProjectRole, ProjectRow } from "../types";
+import { liveUrl, publicUrl } from "../urls";
+import { ServiceError } from "./errors";
+import {
+  type ActivityAction,
+  type ActivityQuery,
+  type AnalyticsQuery,
+  type CollectionRules,
+  type FileEdits,
+  type FileInput,
+  type FormSubmissionQuery,
+  type MemberRole,
+  type Settings,
+  slugSchema,
+} from "./schemas";
+
+/**
+ * All project operations, shared by the MCP tools and the REST API.
+ *
+ * Calls are scoped to `actorEmail`: projects they aren't a member of look like they
+ * don't exist, and each operation needs a minimum role (viewers read and preview,
+ * editors write, publish and share preview links, owners change settings, delete and
+ * manage members).
+ * A null actor (MCP without OAuth, e.g. local development) isn't checked, for
+ * backwards compatibility. Failures are thrown as ServiceError.
+ * Storage goes through a ProjectStore (Supabase in production, in memory in tests).
+ *
+ * Quotas (see limits.ts) count against the project owner and are checked before
+ * anything is stored, so a call that would go over them changes nothing.
+ *
+ * Every change is recorded in the project's activity log under the name of the MCP
+ * tool that makes it, with `client` saying where the call came from.
+ */
+export class ProjectService {
+  /** In lower case, like the owner and member emails it's compared with */
+  private actorEmail: string | null;
+
+  constructor(
+    private env: Env,
+    actorEmail: string | null,
+    private store: ProjectStore = createProjectStore(env),
+    private appCache: AppCache = createAppCache(env),
+    /** The OAuth client's name, or "dashboard" for the REST API */
+    private client: string | null = null,
+    /** Checks custom domains' TXT records */
+    private dns: DnsResolver = createDnsResolver(env)
+  ) {
+    this.actorEmail = actorEmail?.toLowerCase() ?? null;
+  }
+
+  // --- Projects ---
+
+  async createProject(input: { name: string; slug: string; description?: string; template?: string }) {
+    if (!this.actorEmail) {
+      throw new ServiceError("unauthorized", "Authentication required to create a project. Please sign in via OAuth.");
+    }
+
+    const template = input.template ? getTemplate(input.template) : undefined;
+    if (input.template && !template) {
+      const ids = templates.map((t) => t.id).join(", ");
+      throw new ServiceError("invalid_request", `Unknown template "${input.template}". Available templates: ${ids}`);
+    }
+    await this.assertProjectQuota();
+
+    const project = await this.store.createProject({
+      name: input.name,
+      slug: input.slug,
+      description: input.description ?? null,
+      owner_email: this.actorEmail,
+    });
+
+    let files: string[] | null = null;
+    if (template) {
+      const rendered = renderTemplate(template, {
+        project_name: input.name,
+        project_description: input.description ?? "",
+        year: String(new Date().getFullYear()),
+      });
+      const rows = await Promise.all(
+        rendered.map((f) => {
+          const contentType = guessContentType(f.file_path);
+          return prepareFile(this.env, { ...f, content_type: contentType }, isTextContentType(contentType));
+        })
+      );
+
+      await this.store.putFiles(project.draft_version_id!, rows);
+      files = rendered.map((f) => f.file_path);
+    }
+
+    await this.record(project.id, "create_project", {
+      paths: files,
+      version_id: project.draft_version_id,
+      details: { name: project.name, slug: project.slug, template: template?.id ?? null },
+    });
+
+    return {
+      project,
+      template: template?.id ?? null,
+      files,
+    };
+  }
+
+  /** Lists the caller's own and shared projects with their role, newest first. Without a page, returns all of them. */
+  async listProjects(page?: Page) {
+    return this.store.listProjects(this.actorEmail, page);
+  }
+
+  /** Project details, the caller's role, its routing rules and the file list of its draft (or active) version. */
+  async getProject(projectId: string) {
+    const { project, role } = await this.access(projectId, "viewer");
+
+    const versionId = project.draft_version_id ?? project.active_version_id;
+    const files = versionId ? await this.store.listFiles(versionId) : [];
+
+    let configFile: string | null = null;
+    if (versionId && files.some((f) => f.file_path === CONFIG_FILE)) {
+      const [configRow] = await this.store.getFiles(versionId, [CONFIG_FILE]);
+      configFile = configRow?.content ?? null;
+    }
+    const config = routingConfig(configFile, project.routing_mode ?? "static");
+    const routing = {
+      mode: config.mode,
+      not_found_page: config.notFoundPage,
+      source: config.source,
+      ...(config.error ? { error: config.error } : {}),
+    };
+
+    return { ...project, role, routing, forked_from: await this.lineage(project), files };
+  }
+
+  /**
+   * Copies a version into a new project owned by the caller. Projects you're a member of
+   * can be copied at any version (the draft by default). Anyone else's can be forked
+   * only while it's public with show_source on, and only at its published version.
+   */
+  async duplicateProject(
+    sourceProjectId: string,
+    input: { slug: string; name?: string; description?: string; versionId?: string }
+  ) {
+    if (!this.actorEmail) {
+      throw new ServiceError("unauthorized", "Authentication required to create a project. Please sign in via OAuth.");
+    }
+
+    const source = await this.store.getProject(sourceProjectId, null);
+    const member = source ? (await this.roleOn(source)) !== null : false;
+    if (!source || (!member && !isForkable(source))) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+    if (source.suspended_at) {
+      throw new ServiceError("forbidden", "This app has been suspended, so it can't be copied.");
+    }
+
+    const versionId = input.versionId ?? (member ? (source.draft_version_id ?? source.active_version_id) : source.active_version_id);
+    if (!member && versionId !== source.active_version_id) {
+      throw new ServiceError("forbidden", "Only the published version of someone else's app can be forked.");
+    }
+    const [version] = versionId ? await this.store.getVersions(source.id, [versionId]) : [];
+    if (!version) {
+      throw new ServiceError("not_found", "Version not found or doesn't belong to this project.");
+    }
+
+    // Binary files point at content-addressed blobs, so copying the rows is enough
+    const files = await this.store.getFiles(version.id);
+    await this.assertProjectQuota();
+    await this.assertStorageQuota(this.actorEmail, null, files);
+
+    let project = await this.store.createProject({
+      name: input.name ?? source.name,
+      slug: input.slug,
+      description: input.description ?? source.description,
+      owner_email: this.actorEmail,
+      forked_from_project_id: source.id,
+      forked_from_version_id: version.id,
+    });
+    await this.store.putFiles(project.draft_version_id!, files);
+    // The copied code may rely on the source's routing and security settings
+    if (source.routing_mode !== project.routing_mode || Object.keys(source.security ?? {}).length > 0) {
+      project = await this.store.updateProject(project.id, { routing_mode: source.routing_mode, security: source.security });
+    }
+
+    await this.record(project.id, "duplicate_project", {
+      version_id: project.draft_version_id,
+      details: { source_project_id: source.id, source_slug: source.slug, source_version_id: version.id, files_copied: files.length },
+    });
+
+    return {
+      project,
+      forked_from: { project_id: source.id, slug: source.slug, version_id: version.id, version_number: version.version_number },
+      files_copied: files.length,
+    };
+  }
+
+  async updateSettings(projectId: string, settings: Settings) {
+    const updates = Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined)
+    ) as Settings;
+
+    if (Object.keys(updates).length === 0) {
+      throw new ServiceError("invalid_request", "Nothing to update. Provide at least one setting to change.");
+    }
+    if (updates.isolated_origin && !this.env.APPS_DOMAIN) {
+      throw new ServiceError("invalid_request", "Isolated origins aren't available on this server (APPS_DOMAIN isn't set).");
+    }
+
+    // Remember the current slug so a rename or visibility change can drop its cached entries
+    const before = await this.getProjectAs(projectId, "owner");
+    const data = await this.store.updateProject(before.id, {
+      ...updates,
+      security: updates.security === null ? {} : updates.security,
+    });
+
+    await this.appCache.invalidate([...new Set([before.slug, data.slug])]);
+    if (data.slug !== before.slug) {
+      await this.appCache.invalidateHosts((await this.store.listDomains(data.id)).map((d) => d.hostname));
+    }
+    await this.record(data.id, "update_settings", { details: updates });
+    const { id, name, slug, description, is_public, show_source, routing_mode, security, isolated_origin } = data;
+    return {
+      id,
+      name,
+      slug,
+      description,
+      is_public,
+      show_source,
+      routing_mode,
+      security,
+      isolated_origin,
+      live_url: liveUrl(this.env, data),
+    };
+  }
+
+  async deleteProject(projectId: string) {
+    const project = await this.getProjectAs(projectId, "owner");
+    const domains = await this.store.listDomains(project.id);
+
+    // Deletes files, versions, members, activity, app data and the project in one transaction
+    await this.store.deleteProject(project.id, { actorEmail: this.actorEmail });
+
+    await this.appCache.invalidate([project.slug]);
+    await this.appCache.invalidateHosts(domains.map((d) => d.hostname));
+  }
+
+  // --- Files ---
+
+  async readFiles(projectId: string, options: { paths?: string[]; includeBinary?: boolean } = {}) {
+    const project = await this.getProjectAs(projectId, "viewer");
+
+    const versionId = project.draft_version_id ?? project.active_version_id;
+    if (!versionId) {
+      throw new ServiceError("not_found", "No version found for this project.");
+    }
+
+    const paths = options.paths && options.paths.length > 0 ? options.paths : undefined;
+    const data = await this.store.getFiles(versionId, paths);
+
+    return Promise.all(
+      data.map(async (f) => {
+        if (f.encoding !== "base64") {
+          return { file_path: f.file_path, content: f.content, content_type: f.content_type };
+        }
+        const meta = { file_path: f.file_path, content_type: f.content_type, encoding: "base64", size: f.size };
+        return options.includeBinary ? { ...meta, content: await readBase64(this.env, f) } : meta;
+      })
+    );
+  }
+
+  /** Writes files into the draft. Each file succeeds or fails on its own, once the batch fits the owner's quotas. */
+  async writeFiles(projectId: string, files: FileInput[]) {
+    const project = await this.getDraftProject(projectId);
+    const draftVersionId = project.draft_version_id!;
+    await this.assertStorageQuota(
+      project.owner_email,
+      draftVersionId,
+      files.map((f) => ({ file_path: f.file_path, size: contentSize(f) }))
+    );
+
+    const results: { file_path: string; ok: boolean; error?: string }[] = [];
+
+    for (const file of files) {
+      const problem = pathProblem(file.file_path);
+      if (problem) {
+        results.push({ file_path: file.file_path, ok: false, error: problem });
+        continue;
+      }
+
+      const contentType =
+        file.content_type ??
+        guessContentType(file.file_path, file.encoding === "base64" ? "application/octet-stream" : "text/plain");
+
+      let row: StoredFile;
+      try {
+        row = await prepareFile(this.env, { ...file, content_type: contentType }, isTextContentType(contentType));
+      } catch (err) {
+        results.push({ file_path: file.file_path, ok: false, error: (err as Error).message });
+        continue;
+      }
+
+      try {
+        await this.store.putFiles(draftVersionId, [row]);
+        results.push({ file_path: file.file_path, ok: true });
+      } catch (err) {
+        results.push({ file_path: file.file_path, ok: false, error: (err as Error).message });
+      }
+    }
+
+    const written = results.filter((r) => r.ok).map((r) => r.file_path);
+    if (written.length > 0) {
+      await this.record(projectId, "write_files", { paths: written, version_id: draftVersionId });
+    }
+    return results;
+  }
+
+  /**
+   * Applies targeted edits to draft files. All edits are checked in memory first,
+   * so a single bad anchor rejects the whole batch and nothing is saved. A file listed
+   * more than once gets each entry's edits in turn.
+   */
+  async editFiles(projectId: string, files: FileEdits[]) {
+    const project = await this.getDraftProject(projectId);
+    const draftVersionId = project.draft_version_id!;
+
+    const existing = await this.store.getFiles(draftVersionId, files.map((f) => f.file_path));
+    const rows = new Map(existing.map((f) => [f.file_path, f]));
+
+    const errors: string[] = [];
+    const edited = new Map<string, { row: StoredFile; before: string; after: string }>();
+
+    for (const file of files) {
+      const row = rows.get(file.file_path);
+      if (!row) {
+        errors.push(`${file.file_path}: File not found in draft. Use write_files to create it.`);
+        continue;
+      }
+      if (row.encoding === "base64") {
+        errors.push(`${file.file_path}: Binary files can't be edited. Use write_files to replace it.`);
+        continue;
+      }
+
+      const current = edited.get(row.file_path) ?? { row, before: row.content, after: row.content };
+      const result = applyEdits(current.after, file.edits);
+      if (result.errors.length > 0) {
+        errors.push(...result.errors.map((e) => `${file.file_path}: ${e}`));
+        continue;
+      }
+
+      edited.set(row.file_path, { ...current, after: result.content });
+    }
+    const updated = [...edited.values()];
+
+    if (errors.length > 0) {
+      throw new ServiceError("unprocessable", "No changes saved. Fix these edits and try again.", errors);
+    }
+
+    const saved = updated.map((f) => ({ ...f.row, content: f.after, size: new TextEncoder().encode(f.after).length }));
+    await this.assertStorageQuota(project.owner_email, draftVersionId, saved);
+    await this.store.putFiles(draftVersionId, saved);
+    await this.record(projectId, "edit_files", { paths: updated.map((f) => f.row.file_path), version_id: draftVersionId });
+
+    return updated.map((f) => {
+      const { added, removed } = summarizeDiff(f.before, f.after);
+      return {
+        file_path: f.row.file_path,
+        lines_before: splitLines(f.before).length,
+        lines_after: splitLines(f.after).length,
+        diff: `+${added} -${removed}`,
+      };
+    });
+  }
+
+  /** Removes files from the draft. Returns how many were deleted. */
+  async deleteFiles(projectId: string, paths: string[]) {
+    const draftVersionId = await this.getDraftVersionId(projectId);
+
+    const deleted = await this.store.deleteFiles(draftVersionId, paths);
+    if (deleted > 0) {
+      await this.record(projectId, "delete_files", { paths, version_id: draftVersionId, details: { deleted } });
+    }
+    return deleted;
+  }
+
+  // --- Versions ---
+
+  /** Lists versions newest first, marking the active one and the current draft. */
+  async listVersions(projectId: string, page?: Page) {
+    const project = await this.getProjectAs(projectId, "viewer");
+
+    const { items: versions, total } = await this.store.listVersions(project.id, page);
+
+    const items = versions.map((v) => ({
+      id: v.id,
+      version_number: v.version_number,
+      message: v.message,
+      is_draft: v.is_draft,
+      created_at: v.created_at,
+      is_active: v.id === project.active_version_id,
+      is_current_draft: v.id === project.draft_version_id,
+    }));
+
+    return { items, total };
+  }
+
+  /**
+   * Compares two versions file by file: unified diffs for text files, size and hash for binaries.
+   * Defaults to the active version vs. the current draft (what publishing would change).
+   */
+  async diffVersions(projectId: string, fromVersionId?: string, toVersionId?: string) {
+    const project = await this.getProjectAs(projectId, "viewer");
+
+    const fromId = fromVersionId ?? project.active_version_id;
+    const toId = toVersionId ?? project.draft_version_id;
+
+    if (!toId) {
+      throw new ServiceError("not_found", "No draft version to compare against.");
+    }
+
+    // Verify both versions belong to this project
+    const versionIds = fromId ? [fromId, toId] : [toId];
+    const versions = await this.store.getVersions(project.id, versionIds);
+
+    const fromVersion = versions.find((v) => v.id === fromId) ?? null;
+    const toVersion = versions.find((v) => v.id === toId) ?? null;
+
+    if ((fromId && !fromVersion) || !toVersion) {
+      throw new ServiceError("not_found", "Version not found or doesn't belong to this project.");
+    }
+
+    const before = new Map((fromId ? await this.store.getFiles(fromId) : []).map((f) => [f.file_path, f]));
+    const after = new Map((await this.store.getFiles(toId)).map((f) => [f.file_path, f]));
+
+    const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+    const files: Record<string, unknown>[] = [];
+    let unchanged = 0;
+
+    for (const path of paths) {
+      const a = before.get(path);
+      const b = after.get(path);
+
+      const hashBefore = a ? await fileHash(a) : null;
+      const hashAfter = b ? await fileHash(b) : null;
+
+      if (a && b && hashBefore === hashAfter && a.content_type === b.content_type) {
+        unchanged++;
+        continue;
+      }
+
+      const status = !a ? "added" : !b ? "removed" : "modified";
+      const isText = (!a || a.encoding === "utf8") && (!b || b.encoding === "utf8");
+
+      if (isText) {
+        const diff = unifiedDiff(path, a?.content ?? "", b?.content ?? "");
+        files.push({ file_path: path, status, ...(diff ? { diff } : { note: "Only the content type changed." }) });
+      } else {
+        files.push({
+          file_path: path,
+          status,
+          size_before: a?.size ?? null,
+          size_after: b?.size ?? null,
+          hash_before: hashBefore,
+          hash_after: hashAfter,
+        });
+      }
+    }
+
+    const count = (status: string) => files.filter((f) => f.status === status).length;
+
+    return {
+      from: fromVersion
+        ? { version_id: fromVersion.id, version_number: fromVersion.version_number, message: fromVersion.message }
+        : null,
+      to: { version_id: toVersion.id, version_number: toVersion.version_number, message: toVersion.message },
+      summary: { added: count("added"), removed: count("removed"), modified: count("modified"), unchanged },
+      files,
+    };
+  }
+
+  /**
+   * Makes the draft live and starts a new draft, in one transaction. Then deletes the
+   * oldest published versions beyond the retention limit.
+   */
+  async publish(projectId: string, options: { message?: string; expectedRevision?: number } = {}) {
+    const project = await this.getProjectAs(projectId, "editor");
+    if (project.suspended_at) {
+      throw new ServiceError("forbidden", "This app has been suspended, so it can't be published.");
+    }
+
+    // A flagged draft waits for an admin instead of going live (see abuse.ts)
+    await this.store.supersedePublishReviews(project.id);
+    const files = project.draft_version_id ? await this.store.getFiles(project.draft_version_id) : [];
+    const findings = scanFiles(files, blocklistFor(this.env));
+    if (findings.length > 0) {
+      const review = await this.store.addPublishReview({
+        project_id: project.id,
+        version_id: project.draft_version_id!,
+        fingerprint: await draftFingerprint(files),
+        message: options.message ?? null,
+        findings,
+        requested_by: this.actorEmail,
+      });
+      throw new ServiceError(
+        "unprocessable",
+        `This draft was held for review instead of going live, because the abuse scanner flagged it (review ${review.id}). ` +
+          "An admin will approve or reject it. If a flag points at a real problem, fix it and publish again.",
+        findings.map(describeFinding)
+      );
+    }
+
+    // Fails if the files changed after the scan read them
+    return this.goLive(project, {
+      actorEmail: this.actorEmail,
+      expectedRevision: options.expectedRevision ?? project.revision,
+      expectedDraftRevision: project.draft_revision,
+      message: options.message,
+    });
+  }
+
+  /** Publishes the draft, then drops the cached pointer, prunes old versions and logs it. */
+  private async goLive(project: ProjectRow, options: PublishOptions) {
+    const result = await this.store.publish(project.id, options);
+
+    await this.appCache.invalidate([project.slug]);
+    const pruned = await this.pruneVersions(project.id);
+    await this.record(project.id, "publish", {
+      version_id: result.published_version_id,
+      details: {
+        version_number: result.version_number,
+        message: options.message ?? null,
+        versions_pruned: pruned,
+        ...(options.approveReview ? { review_id: options.approveReview.id } : {}),
+      },
+    });
+
+    return {
+      project,
+      live_url: liveUrl(this.env, project),
+      version_number: result.version_number,
+      new_draft_version_id: result.new_draft_version_id,
+      revision: result.revision,
+      versions_pruned: pruned,
+    };
+  }
+
+  /** Replaces the draft's files with a copy of another version's, in one transaction. */
+  async rollback(projectId: string, versionId: string, options: { expectedRevision?: number } = {}) {
+    const project = await this.getProjectAs(projectId, "editor");
+
+    const result = await this.store.rollback(project.id, versionId, {
+      actorEmail: this.actorEmail,
+      expectedRevision: options.expectedRevision ?? project.revision,
+    });
+
+    await this.appCache.invalidate([project.slug]);
+    await this.record(project.id, "rollback", {
+      version_id: versionId,
+      details: { version_number: result.version_number, files_copied: result.files_copied },
+    });
+
+    return result;
+  }
+
+  // --- Preview links ---
+
+  async createPreviewLink(projectId: string, expiresInHours = 24) {
+    const project = await this.getProjectAs(projectId, "editor");
+
+    if (!project.draft_version_id) {
+      throw new ServiceError("not_found", "No draft version exists for this project.");
+    }
+
+    const link = await this.previewLink(project, expiresInHours * 60 * 60);
+    await this.record(project.id, "get_preview_url", {
+      version_id: project.draft_version_id,
+      details: { token_id: link.token_id, expires_at: link.expires_at },
+    });
+
+    return { preview_url: link.preview_url, slug: project.slug, token_id: link.token_id, expires_at: link.expires_at };
+  }
+
+  /**
+   * What the inline preview widget shows: the draft through a preview link, the draft and
+   * live version numbers, and the newest published versions to roll back to. Pass the link
+   * get_preview_url just made to reuse it; otherwise one lasting an hour is minted. Those
+   * aren't recorded as activity, since every write_files call shows the widget.
+   */
+  async previewState(projectId: string, link?: { preview_url: string; expires_at: string }) {
+    const { project, role } = await this.access(projectId, "editor");
+    if (!project.draft_version_id) {
+      throw new ServiceError("not_found", "No draft version exists for this project.");
+    }
+
+    const preview = link ?? (await this.previewLink(project, PREVIEW_WIDGET_TTL_SECONDS));
+    const { items } = await this.store.listVersions(project.id, { limit: PREVIEW_WIDGET_VERSIONS + 1, offset: 0 });
+    const published = items.filter((v) => !v.is_draft).slice(0, PREVIEW_WIDGET_VERSIONS);
+    const draft = items.find((v) => v.id === project.draft_version_id);
+    const live = project.active_version_id
+      ? (published.find((v) => v.id === project.active_version_id) ??
+        (await this.store.getVersions(project.id, [project.active_version_id]))[0])
+      : undefined;
+
+    return {
+      project_id: project.id,
+      name: project.name,
+      slug: project.slug,
+      role,
+      revision: project.revision,
+      preview_url: preview.preview_url,
+      preview_expires_at: preview.expires_at,
+      live_url: live ? liveUrl(this.env, project) : null,
+      draft_version_number: draft?.version_number ?? null,
+      live_version_number: live?.version_number ?? null,
+      versions: published.map((v) => ({
+        version_id: v.id,
+        version_number: v.version_number,
+        message: v.message,
+        created_at: v.created_at,
+        is_live: v.id === project.active_version_id,
+      })),
+    };
+  }
+
+  /** Revokes one preview link, or all of them. Returns how many were revoked. */
+  async revokePreviewLinks(projectId: string, tokenId?: string) {
+    const project = await this.getProjectAs(projectId, "editor");
+    const revoked = await revokePreviewTokens(this.env, project.id, tokenId);
+    await this.record(project.id, "revoke_preview_links", { details: { token_id: tokenId ?? null, revoked } });
+    return revoked;
+  }
+
+  // --- Members ---
+
+  /** Everyone with access, the owner first. */
+  async listMembers(projectId: string) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    const members = await this.store.listMembers(project.id);
+
+    return [
+      { email: project.owner_email, role: "owner" as ProjectRole, invited_by: null, created_at: project.created_at },
+      ...members.map(({ email, role, invited_by, created_at }) => ({ email, role, invited_by, created_at })),
+    ];
+  }
+
+  /**
+   * Gives someone access by email, or changes their role. There's no acceptance step:
+   * they see the project as soon as they sign in with that address.
+   */
+  async addMember(projectId: string, email: string, role: MemberRole) {
+    const project = await this.getProjectAs(projectId, "owner");
+    const address = email.trim().toLowerCase();
+    if (address === project.owner_email.toLowerCase()) {
+      throw new ServiceError("invalid_request", `${email} owns this project already.`);
+    }
+
+    const member = await this.store.putMember({ project_id: project.id, email: address, role, invited_by: this.actorEmail });
+    await this.record(project.id, "invite_collaborator", { details: { email: member.email, role: member.role } });
+    return { project_id: project.id, email: member.email, role: member.role };
+  }
+
+  /** Removes a member. Owners can remove anyone but the project's creator; members can remove themselves. */
+  async removeMember(projectId: string, email: string) {
+    const address = email.trim().toLowerCase();
+    const leaving = this.actorEmail?.toLowerCase() === address;
+    const project = await this.getProjectAs(projectId, leaving ? "viewer" : "owner");
+
+    if (address === project.owner_email.toLowerCase()) {
+      throw new ServiceError("invalid_request", "The project's creator can't be removed. Delete the project instead.");
+    }
+    if (!(await this.store.deleteMember(project.id, address))) {
+      throw new ServiceError("not_found", `${email} isn't a collaborator on this project.`);
+    }
+    await this.record(project.id, "remove_collaborator", { details: { email: address } });
+  }
+
+  // --- Activity ---
+
+  /** The project's change history, newest first. Owners only. */
+  async getActivity(projectId: string, query: ActivityQuery = {}, page?: Page) {
+    const project = await this.getProjectAs(projectId, "owner");
+
+    // Stored timestamps are UTC, so compare against UTC too
+    return this.store.listActivity(
+      project.id,
+      {
+        since: query.since && new Date(query.since).toISOString(),
+        until: query.until && new Date(query.until).toISOString(),
+        actorEmail: query.actor?.trim().toLowerCase(),
+        actions: query.action,
+      },
+      page
+    );
+  }
+
+  // --- App data ---
+
+  /** The project's data collections with their rules, and how many documents each has live and in drafts. */
+  async listCollections(projectId: string) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    const collections = await this.store.listCollections(project.id);
+
+    return Promise.all(
+      collections.map(async (collection) => {
+        const scope = { projectId: project.id, collection: collection.name };
+        const [live, draft] = await Promise.all([
+          this.store.countDocuments({ ...scope, environment: "live" }),
+          this.store.countDocuments({ ...scope, environment: "draft" }),
+        ]);
+        return { ...this.collectionInfo(project, collection), documents: { live, draft } };
+      })
+    );
+  }
+
+  /**
+   * Creates a collection, or replaces the rules of an existing one (omitted rules go back to
+   * their defaults). Documents already stored aren't checked against a new schema.
+   */
+  async defineCollection(projectId: string, name: string, rules: CollectionRules) {
+    const project = await this.getProjectAs(projectId, "editor");
+    const schema = rules.schema ?? null;
+    if (schema) compileSchema(schema);
+
+    const existing = await this.store.getCollection(project.id, name);
+    const collection = await this.store.putCollection({
+      project_id: project.id,
+      name,
+      public_read: rules.public_read ?? false,
+      public_write: rules.public_write ?? "create",
+      schema,
+    });
+
+    const { public_read, public_write } = collection;
+    await this.record(project.id, "define_collection", {
+      details: { name, public_read, public_write, has_schema: schema !== null, created: !existing },
+    });
+    return { ...this.collectionInfo(project, collection), created: !existing };
+  }
+
+  /** Deletes a collection with its documents, live and draft. */
+  async deleteCollection(projectId: string, name: string) {
+    const project = await this.getProjectAs(projectId, "owner");
+    if (!(await this.store.deleteCollection(project.id, name))) {
+      throw new ServiceError("not_found", `No collection named "${name}". Call list_collections to see them.`);
+    }
+    await this.record(project.id, "delete_collection", { details: { name } });
+  }
+
+  /** A collection's documents in one environment, newest first. */
+  async queryData(projectId: string, name: string, environment: DataEnvironment, page?: Page) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    await this.requireCollection(project, name);
+
+    const { items, total } = await this.store.listDocuments({ projectId: project.id, environment, collection: name }, page);
+    return { items: items.map(documentInfo), total };
+  }
+
+  /** Deletes documents by ID from one environment. Returns how many were deleted. */
+  async deleteDocuments(projectId: string, name: string, environment: DataEnvironment, ids: string[]) {
+    const project = await this.getProjectAs(projectId, "editor");
+    await this.requireCollection(project, name);
+
+    const deleted = await this.store.deleteDocuments({ projectId: project.id, environment, collection: name }, ids);
+    if (deleted > 0) {
+      await this.record(project.id, "delete_documents", { details: { name, environment, deleted } });
+    }
+    return deleted;
+  }
+
+  // --- Forms ---
+
+  /** Submissions to the app's forms, newest first. */
+  async listFormSubmissions(projectId: string, query: FormSubmissionQuery = {}, page?: Page) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    const { items, total } = await this.store.listFormSubmissions(project.id, submissionFilter(query), page);
+    return { items: items.map(({ id, form, data, created_at }) => ({ id, form, data, created_at })), total };
+  }
+
+  /** The same submissions as CSV, oldest first. */
+  async exportFormSubmissions(projectId: string, query: FormSubmissionQuery = {}) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    const { items } = await this.store.listFormSubmissions(project.id, submissionFilter(query));
+    return { csv: submissionsCsv(items.reverse()), rows: items.length };
+  }
+
+  // --- Domains ---
+
+  /** The app's custom domains, with the DNS records each one needs. */
+  async listDomains(projectId: string) {
+    const project = await this.getProjectAs(projectId, "viewer");
+    return (await this.store.listDomains(project.id)).map((d) => domainInfo(this.env, d));
+  }
+
+  /** Adds a hostname for the app. It serves the app once verified (see domains.ts). */
+  async addDomain(projectId: string, input: string) {
+    const project = await this.getProjectAs(projectId, "owner");
+    const hostname = normalizeHostname(input);
+    if (isReservedHostname(this.env, hostname)) {
+      throw new ServiceError("invalid_request", `${hostname} belongs to Shapps and can't be added. Use a domain you own.`);
+    }
+
+    const existing = await this.store.listDomains(project.id);
+    const { maxDomainsPerProject } = limitsFor(this.env);
+    assertQuota(
+      "domains",
+      maxDomainsPerProject,
+      existing.length + 1,
+      `A project can have at most ${maxDomainsPerProject} domains. Remove one with remove_domain first.`
+    );
+
+    const domain = await this.store.addDomain({
+      project_id: project.id,
+      hostname,
+      verification_token: crypto.randomUUID().replace(/-/g, ""),
+    });
+    await this.record(project.id, "add_domain", { details: { hostname } });
+    return domainInfo(this.env, domain);
+  }
+
+  /** Checks the domain's TXT record and, if it's there, starts serving the app on it. */
+  async verifyDomain(projectId: string, input: string) {
+    const project = await this.getProjectAs(projectId, "owner");
+    const domain = await this.requireDomain(project, input);
+
+    if (!(await hasVerificationRecord(this.dns, domain))) {
+      const { name, value } = domainInfo(this.env, domain).dns_records[0];
+      throw new ServiceError(
+        "unprocessable",
+        `The TXT record for ${domain.hostname} wasn't found. Add a TXT record named ${name} with the value ${value}, ` +
+          "then try again. DNS changes can take a few minutes to show up."
+      );
+    }
+
+    const verified = await this.store.verifyDomain(project.id, domain.hostname);
+    await this.appCache.invalidateHosts([domain.hostname]);
+    await this.record(project.id, "verify_domain", { details: { hostname: domain.hostname } });
+    return domainInfo(this.env, verified);
+  }
+
+  /** Stops serving the app on a domain. */
+  async removeDomain(projectId: string, input: string) {
+    const project = await this.getProjectAs(projectId, "owner");
+    const domain = await this.requireDomain(project, input);
+    await this.store.deleteDomain(project.id, domain.hostname);
+    await this.appCache.invalidateHosts([domain.hostname]);
+    await this.record(project.id, "remove_domain", { details: { hostname: domain.hostname } });
+  }
+
+  // --- Analytics ---
+
+  /**
+   * Visits to the published app over a date range (the last 30 days by default), with
+   * how daily views and visitors changed after each publish in it. See analytics.ts.
+   */
+  async getAnalytics(projectId: string, query: AnalyticsQuery = {}) {
+    const project = await this.getProjectAs(projectId, "viewer");
+
+    const today = utcDay(new Date());
+    const to = query.to ?? today;
+    const from = query.from ?? addDays(to, -29);
+    if (from > to) {
+      throw new ServiceError("invalid_request", "`from` must not be after `to`.");
+    }
+    if (days(from, to).length > MAX_RANGE_DAYS) {
+      throw new ServiceError("invalid_request", `A report can cover at most ${MAX_RANGE_DAYS} days.`);
+    }
+
+    const last = addDays(to, COMPARE_DAYS);
+    const [rows, { items: publishes }] = await Promise.all([
+      this.store.listAnalytics(project.id, addDays(from, -COMPARE_DAYS), last < today ? last : today),
+      this.store.listActivity(project.id, { actions: ["publish"] }),
+    ]);
+
+    return summarizeAnalytics(
+      rows,
+      { from, to },
+      publishes.map((e) => ({
+        version_number: e.details?.version_number as number,
+        message: (e.details?.message as string | null) ?? null,
+        published_at: e.created_at,
+      })),
+      today
+    );
+  }
+
+  // --- Moderation (admins only, see abuse.ts) ---
+
+  async listReports(filter: ReportFilter, page?: Page) {
+    this.requireAdmin();
+    const { items, total } = await this.store.listReports(filter, page);
+    return { items: await this.withProjects(items), total };
+  }
+
+  async dismissReport(reportId: string) {
+    this.requireAdmin();
+    const closed = await this.store.resolveReports({ id: reportId }, "dismissed", this.actorEmail!);
+    if (closed === 0) {
+      throw new ServiceError("not_found", "No open report with that ID.");
+    }
+  }
+
+  async listPublishReviews(page?: Page) {
+    this.requireAdmin();
+    const { items, total } = await this.store.listPublishReviews("pending", page);
+    return { items: await this.withProjects(items), total };
+  }
+
+  /**
+   * Approves a held publish, which publishes the files that were scanned, or rejects it.
+   * Approving fails if the draft has changed since: that needs a new publish (and scan).
+   */
+  async decidePublishReview(reviewId: string, decision: "approve" | "reject", note?: string) {
+    this.requireAdmin();
+    const review = await this.store.getPublishReview(reviewId);
+    if (!review || review.status !== "pending") {
+      throw new ServiceError("not_found", "No pending review with that ID.");
+    }
+    const project = await this.store.getProject(review.project_id, null);
+    if (!project) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+
+    if (decision === "approve") {
+      if (project.suspended_at) {
+        throw new ServiceError("conflict", "This app is suspended. Lift the suspension before approving its publish.");
+      }
+      const files = project.draft_version_id === review.version_id ? await this.store.getFiles(review.version_id) : null;
+      if (!files || (await draftFingerprint(files)) !== review.fingerprint) {
+        throw new ServiceError(
+          "conflict",
+          "The draft has changed since it was held, so approving it would publish files nobody scanned. Reject this review; the next publish is scanned again."
+        );
+      }
+    }
+
+    if (decision === "reject") {
+      const rejected = await this.store.decidePublishReview(review.id, {
+        status: "rejected",
+        reviewed_by: this.actorEmail!,
+        review_note: note ?? null,
+      });
+      if (!rejected) {
+        throw new ServiceError("conflict", "Someone else decided this review first.");
+      }
+      return { review: rejected, published: null };
+    }
+
+    // Marks the review approved in the same transaction, so a failed publish leaves it pending
+    const published = await this.goLive(project, {
+      actorEmail: null,
+      expectedRevision: project.revision,
+      expectedDraftRevision: project.draft_revision,
+      message: review.message ?? undefined,
+      approveReview: { id: review.id, reviewed_by: this.actorEmail!, review_note: note ?? null },
+    });
+    const approved = (await this.store.getPublishReview(review.id))!;
+    return { review: approved, published: { live_url: published.live_url, version_number: published.version_number } };
+  }
+
+  /**
+   * Takes an app down (with a reason, which its members see in get_project) or, with
+   * null, brings it back. Suspending closes the app's open reports as actioned.
+   */
+  async setSuspension(projectId: string, reason: string | null) {
+    this.requireAdmin();
+    const project = await this.store.getProject(projectId, null);
+    if (!project) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+
+    const updated = await this.store.updateProject(project.id, {
+      suspended_at: reason === null ? null : new Date().toISOString(),
+      suspension_reason: reason,
+    });
+    await this.appCache.invalidate([project.slug]);
+    const reportsClosed = reason === null ? 0 : await this.store.resolveReports({ projectId: project.id }, "actioned", this.actorEmail!);
+
+    const { id, slug, suspended_at, suspension_reason } = updated;
+    return { id, slug, suspended_at, suspension_reason, reports_closed: reportsClosed };
+  }
+
+  // --- Archives ---
+
+  /** Zips a version (the draft by default) with a manifest and returns a short-lived download link. */
+  async exportProject(projectId: string, options: { versionId?: string; expiresInMinutes?: number } = {}) {
+    const project = await this.getProjectAs(projectId, "viewer");
+
+    const versionId = options.versionId ?? project.draft_version_id ?? project.active_version_id;
+    const [version] = versionId ? await this.store.getVersions(project.id, [versionId]) : [];
+    if (!version) {
+      throw new ServiceError("not_found", "Version not found or doesn't belong to this project.");
+    }
+
+    const files = await this.store.getFiles(version.id);
+    const contents = await Promise.all(
+      files.map(async (f) => {
+        const bytes = await fileBytes(this.env, f);
+        if (!bytes) {
+          throw new ServiceError("internal", `Stored content for ${f.file_path} is missing. Re-upload it and export again.`);
+        }
+        return { file_path: f.file_path, bytes };
+      })
+    );
+
+    const manifest: ExportManifest = {
+      format: "shapps-export",
+      format_version: 1,
+      exported_at: new Date().toISOString(),
+      project: {
+        name: project.name,
+        slug: project.slug,
+        description: project.description,
+        routing_mode: project.routing_mode ?? "static",
+        show_source: project.show_source,
+      },
+      version: {
+        version_number: version.version_number,
+        message: version.message,
+        is_draft: version.is_draft,
+        created_at: version.created_at,
+      },
+      files: files.map((f) => ({ file_path: f.file_path, content_type: f.content_type, size: f.size })),
+    };
+
+    const zip = buildArchive(contents, manifest);
+    const fileName = `${project.slug}-v${version.version_number}.zip`;
+    const link = await saveExport(this.env, zip, fileName, (options.expiresInMinutes ?? DEFAULT_EXPORT_TTL_MINUTES) * 60);
+
+    return {
+      ...link,
+      file_name: fileName,
+      version_id: version.id,
+      version_number: version.version_number,
+      file_count: files.length,
+      size: zip.length,
+    };
+  }
+
+  /**
+   * Imports a zip. With a projectId, its files replace that project's draft; otherwise
+   * a new project is created (name and slug default to the archive's manifest).
+   * Nothing is changed if any entry is invalid.
+   */
+  async importProject(
+    archive: Uint8Array,
+    target: { projectId?: string; name?: string; slug?: string; description?: string } = {}
+  ) {
+    let contents;
+    try {
+      contents = readArchive(archive);
+    } catch (err) {
+      throw new ServiceError("invalid_request", (err as Error).message);
+    }
+    if (contents.errors.length > 0) {
+      throw new ServiceError("unprocessable", "Nothing imported. Fix these problems in the archive and try again.", contents.errors);
+    }
+
+    const { manifest } = contents;
+    const manifestTypes = new Map(manifest?.files?.map((f) => [f.file_path, f.content_type]) ?? []);
+
+    // Check the target before preparing files, which may upload large binaries
+    const existing = target.projectId ? await this.getProjectAs(target.projectId, "editor") : null;
+    const name = target.name ?? manifest?.project.name;
+    const slug = target.slug ?? manifest?.project.slug;
+
+    if (!existing) {
+      if (!name || !slug) {
+        throw new ServiceError("invalid_request", "This archive has no Shapps manifest. Give a name and slug for the new project.");
+      }
+      if (!slugSchema.safeParse(slug).success) {
+        throw new ServiceError("invalid_request", `"${slug}" isn't a valid slug. Use lowercase letters, numbers and hyphens.`);
+      }
+      await this.assertProjectQuota();
+    }
+    await this.assertStorageQuota(
+      existing ? existing.owner_email : this.actorEmail,
+      existing?.draft_version_id ?? null,
+      contents.files.map((f) => ({ file_path: f.file_path, size: f.bytes.length })),
+      true
+    );
+
+    const rows = await Promise.all(
+      contents.files.map((f) => {
+        const contentType =
+          manifestTypes.get(f.file_path) ??
+          guessContentType(f.file_path, looksLikeText(f.bytes) ? "text/plain" : "application/octet-stream");
+        return prepareBytes(this.env, { file_path: f.file_path, content_type: contentType }, f.bytes, isTextContentType(contentType));
+      })
+    );
+
+    let project: ProjectRow;
+    if (existing) {
+      project = existing;
+      // Replaces the whole draft at once, so a failed save keeps the old one
+      await this.store.putFiles(await this.getDraftVersionId(project.id), rows, { replaceAll: true });
+    } else {
+      ({ project } = await this.createProject({
+        name: name!,
+        slug: slug!,
+        description: target.description ?? manifest?.project.description ?? undefined,
+      }));
+      if (manifest) {
+        project = await this.store.updateProject(project.id, {
+          routing_mode: manifest.project.routing_mode,
+          show_source: manifest.project.show_source,
+        });
+      }
+      await this.store.putFiles(project.draft_version_id!, rows);
+    }
+
+    await this.record(project.id, "import_project", {
+      paths: rows.map((r) => r.file_path),
+      version_id: project.draft_version_id,
+      details: { created: !existing },
+    });
+
+    return {
+      project_id: project.id,
+      slug: project.slug,
+      draft_version_id: project.draft_version_id,
+      created: !existing,
+      files_imported: rows.length,
+      ...(contents.skipped.length > 0 ? { skipped: contents.skipped } : {}),
+    };
+  }
+
+  // --- Helpers ---
+
+  private requireAdmin() {
+    if (!isAdmin(this.env, this.actorEmail)) {
+      throw new ServiceError("forbidden", "Only Shapps admins can do this.");
+    }
+  }
+
+  /** Adds the slug and owner of each item's project, for moderation queues. */
+  private async withProjects<T extends { project_id: string }>(items: T[]) {
+    const ids = [...new Set(items.map((item) => item.project_id))];
+    const projects = new Map(
+      (await Promise.all(ids.map((id) => this.store.getProject(id, null))))
+        .filter((p): p is ProjectRow => p !== null)
+        .map((p) => [p.id, { slug: p.slug, owner_email: p.owner_email, suspended: p.suspended_at !== null }])
+    );
+    return items.map((item) => ({ ...item, project: projects.get(item.project_id) ?? null }));
+  }
+
+  private collectionInfo(project: ProjectRow, collection: CollectionRow) {
+    const { name, public_read, public_write, schema, created_at, updated_at } = collection;
+    const url = publicUrl(this.env, `/app/${project.slug}/${DATA_PREFIX}/${name}`);
+    return { name, public_read, public_write, schema, url, created_at, updated_at };
+  }
+
+  private async requireCollection(project: ProjectRow, name: string): Promise<CollectionRow> {
+    const collection = await this.store.getCollection(project.id, name);
+    if (!collection) {
+      throw new ServiceError("not_found", `No collection named "${name}". Call list_collections to see them.`);
+    }
+    return collection;
+  }
+
+  private async requireDomain(project: ProjectRow, input: string): Promise<DomainRow> {
+    const hostname = normalizeHostname(input);
+    const domain = (await this.store.listDomains(project.id)).find((d) => d.hostname === hostname);
+    if (!domain) {
+      throw new ServiceError("not_found", `${hostname} isn't one of this app's domains. Call list_domains to see them.`);
+    }
+    return domain;
+  }
+
+  /** Mints a preview token for the draft and builds its link. */
+  private async previewLink(project: ProjectRow, ttlSeconds: number) {
+    const { token, tokenId, expiresAt } = await mintPreviewToken(this.env, project.id, ttlSeconds);
+    return {
+      preview_url: publicUrl(this.env, `/preview/${project.slug}/?token=${token}`),
+      token_id: tokenId,
+      expires_at: expiresAt,
+    };
+  }
+
+  /**
+   * Adds an entry to the activity log. The change it describes has already been made,
+   * so a failure here is logged rather than reported to the caller.
+   */
+  private async record(projectId: string, action: ActivityAction, event: Partial<Pick<NewActivity, "paths" | "version_id" | "details">> = {}) {
+    try {
+      await this.store.addActivity({
+        project_id: projectId,
+        actor_email: this.actorEmail,
+        client: this.client,
+        action,
+        paths: event.paths ?? null,
+        version_id: event.version_id ?? null,
+        details: event.details ?? null,
+      });
+    } catch (err) {
+      console.error("Failed to record activity", action, projectId, err);
+    }
+  }
+
+  /** Throws if the caller already owns as many projects as they may. */
+  private async assertProjectQuota() {
+    if (!this.actorEmail) return;
+    const { maxProjects } = limitsFor(this.env);
+    const { projects } = await this.store.getUsage(this.actorEmail);
+    assertQuota(
+      "projects",
+      maxProjects,
+      projects + 1,
+      `You already own ${projects} projects, the most allowed. Delete a project you no longer need, then try again.`
+    );
+  }
+
+  /**
+   * Throws if writing `files` into a draft would take it over the files-per-version
+   * limit or its owner over their storage. Files replace same-named ones in the draft,
+   * or with `replaceAll` the whole draft; a null draft is a project yet to be created.
+   * Only growth is checked, so cleaning up an over-limit draft still works.
+   */
+  private async assertStorageQuota(
+    ownerEmail: string | null,
+    draftVersionId: string | null,
+    files: { file_path: string; size: number }[],
+    replaceAll = false
+  ) {
+    if (!ownerEmail) return;
+    const limits = limitsFor(this.env);
+
+    const current = draftVersionId ? await this.store.listFiles(draftVersionId) : [];
+    const after = new Map(replaceAll ? [] : current.map((f) => [f.file_path, f.size]));
+    for (const file of files) after.set(file.file_path, file.size);
+
+    if (after.size > current.length) {
+      assertQuota(
+        "files_per_version",
+        limits.maxFilesPerVersion,
+        after.size,
+        `This would make ${after.size} files in the draft; a version can have at most ${limits.maxFilesPerVersion}. ` +
+          "Delete files you don't need, then try again."
+      );
+    }
+
+    const sum = (sizes: Iterable<number>) => [...sizes].reduce((total, size) => total + size, 0);
+    const growth = sum(after.values()) - sum(current.map((f) => f.size));
+    if (growth > 0) {
+      const { bytes } = await this.store.getUsage(ownerEmail);
+      const whose = ownerEmail === this.actorEmail ? "your" : "the project owner's";
+      assertQuota(
+        "total_bytes",
+        limits.maxTotalBytes,
+        bytes + growth,
+        `This would bring ${whose} storage to ${formatBytes(bytes + growth)}, over the ${formatBytes(limits.maxTotalBytes)} limit. ` +
+          "Delete files or projects you no longer need, then try again."
+      );
+    }
+  }
+
+  /** Deletes published versions beyond the retention limit. Publishing has already succeeded, so failures are only logged. */
+  private async pruneVersions(projectId: string): Promise<number> {
+    try {
+      return await this.store.pruneVersions(projectId, limitsFor(this.env).maxVersionsRetained);
+    } catch (err) {
+      console.error("Failed to prune versions", projectId, err);
+      return 0;
+    }
+  }
+
+  /** Where a project was copied from. Names are only shown while the source is still visible to the caller. */
+  private async lineage(project: ProjectRow) {
+    if (!project.forked_from_project_id) return null;
+
+    const source = await this.store.getProject(project.forked_from_project_id, null);
+    const [version] =
+      source && project.forked_from_version_id ? await this.store.getVersions(source.id, [project.forked_from_version_id]) : [];
+    const visible = source && (isForkable(source) || (await this.roleOn(source)) !== null);
+
+    return {
+      project_id: project.forked_from_project_id,
+      version_id: project.forked_from_version_id,
+      ...(visible ? { name: source.name, slug: source.slug, version_number: version?.version_number ?? null } : {}),
+    };
+  }
+
+  /**
+   * Fetches a project the current user has at least the `needed` role on.
+   * Non-members get "not found"; members with a lower role get "forbidden".
+   * If the user isn't authenticated, no check is made (backwards compatible).
+   */
+  private async access(projectId: string, needed: ProjectRole): Promise<{ project: ProjectRow; role: ProjectRole }> {
+    const project = await this.store.getProject(projectId, null);
+    const role = project ? await this.roleOn(project) : null;
+    if (!project || !role) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+    if (ROLE_RANK[role] < ROLE_RANK[needed]) {
+      throw new ServiceError(
+        "forbidden",
+        `Your role on this project is ${role}; this needs ${needed} access. Ask an owner to change your role.`
+      );
+    }
+    return { project, role };
+  }
+
+  private async getProjectAs(projectId: string, needed: ProjectRole): Promise<ProjectRow> {
+    return (await this.access(projectId, needed)).project;
+  }
+
+  /** The current user's role, or null if they aren't a member. Without a user, everyone's an owner. */
+  private async roleOn(project: ProjectRow): Promise<ProjectRole | null> {
+    if (!this.actorEmail || project.owner_email === this.actorEmail) return "owner";
+    return this.store.getRole(project.id, this.actorEmail);
+  }
+
+  /** A project the caller may edit, checked to have a draft. */
+  private async getDraftProject(projectId: string): Promise<ProjectRow> {
+    const project = await this.getProjectAs(projectId, "editor");
+    if (!project.draft_version_id) {
+      throw new ServiceError("not_found", "No draft version found. Create a project first.");
+    }
+    return project;
+  }
+
+  private async getDraftVersionId(projectId: string): Promise<string> {
+    return (await this.getDraftProject(projectId)).draft_version_id!;
+  }
+}
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/** How long the preview widget's links last, and how many published versions it offers to roll back to. */
+const PREVIEW_WIDGET_TTL_SECONDS = 60 * 60;
+const PREVIEW_WIDGET_VERSIONS = 10;
+
+/** Stored timestamps are UTC, so filters are compared in UTC too. */
+function submissionFilter(query: FormSubmissionQuery) {
+  return {
+    environment: query.environment ?? "live",
+    form: query.form,
+    since: query.since && new Date(query.since).toISOString(),
+    until: query.until && new Date(query.until).toISOString(),
+  };
+}
+
+/** Other people's projects can be forked (and their lineage named) while their source is public. */
+function isForkable(project: ProjectRow): boolean {
+  return project.is_public && project.show_source;
+}
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { pathProblem } from "../files";
+
+/**
+ * Input shapes shared by the MCP tools and the REST API, so both validate the same way.
+ */
+
+export const slugSchema = z.string().regex(/^[a-z0-9-]+$/);
+
+/** A project file path, checked by the same rule imports use (pathProblem in files.ts). */
+export const filePathSchema = z.string().superRefine((path, ctx) => {
+  const problem = pathProblem(path);
+  if (problem) ctx.addIssue({ code: "custom", message: problem });
+});
+
+export const fileInputSchema = z.object({
+  file_path: filePathSchema.describe("File path like 'index.html' or 'css/style.css'"),
+  content: z.string().describe("The file content (base64 when encoding is 'base64')"),
+  content_type: z.string().optional().describe("MIME type (auto-detected if omitted)"),
+  encoding: z.enum(["utf8", "base64"]).optional().describe("How content is encoded (default 'utf8')"),
+});
+
+export const fileEditSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("search_replace"),
+    search: z.string().describe("Exact text to find. Must match exactly once in the file."),
+    replace: z.string().describe("Text to put in its place"),
+  }),
+  z.object({
+    type: z.literal("line_range"),
+    start_line: z.number().int().describe("First line to replace (1-based)"),
+    end_line: z.number().int().describe("Last line to replace (inclusive). Use start_line - 1 to insert without removing."),
+    content: z.string().describe("Replacement lines"),
+  }),
+  z.object({
+    type: z.literal("unified_diff"),
+    diff: z.string().describe("A unified diff with @@ hunk headers for this file"),
+  }),
+]);
+
+export const fileEditsSchema = z.object({
+  file_path: filePathSchema.describe("Path of an existing file, like 'index.html'"),
+  edits: z.array(fileEditSchema).min(1).describe("Edits to apply in order"),
+});
+
+/** Browser features an app may ask for; the rest are turned off (see security.ts). */
+export const PERMISSION_FEATURES = [
+  "camera",
+  "microphone",
+  "geolocation",
+  "payment",
+  "usb",
+  "serial",
+  "hid",
+  "bluetooth",
+  "midi",
+  "display-capture",
+] as const;
+
+const cspSourceSchema = z
+  .string()
+  .regex(
+    /^(https|wss):\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+(:\d{1,5})?(\/[^\s;,'"]*)?$/i,
+    "Use an https:// (or wss://) origin like https://js.stripe.com or https://*.example.com"
+  );
+
+export const securitySettingsSchema = z
+  .object({
+    script_sources: z.array(cspSourceSchema).max(20).optional().describe(
+      "Extra origins scripts may load from, like https://js.stripe.com (common CDNs are already allowed)"
+    ),
+    connect_sources: z.array(cspSourceSchema).max(20).optional().describe(
+      "Origins the app may fetch from or open WebSockets to, like https://api.example.com"
+    ),
+    frame_sources: z.array(cspSourceSchema).max(20).optional().describe(
+      "Origins the app may embed in iframes, like https://www.youtube.com"
+    ),
+    form_actions: z.array(cspSourceSchema).max(20).optional().describe(
+      "Origins the app's forms may submit to (the app itself and ~forms always work)"
+    ),
+    frame_ancestors: z.array(cspSourceSchema).max(20).optional().describe(
+      "Sites allowed to embed the published app in an iframe (by default none, except itself on an isolated origin or custom domain)"
+    ),
+    allow_eval: z.boolean().optional().describe(
+      "Allow eval() and new Function(), which some libraries need (like Babel in the browser or Alpine.js)"
+    ),
+    permissions: z.array(z.enum(PERMISSION_FEATURES)).optional().describe(
+      "Browser features the app uses, like ['camera', 'geolocation']. Everything else in this list is turned off."
+    ),
+  })
+  .strict();
+
+export const settingsSchema = z.object({
+  name: z.string().optional().describe("New project name"),
+  slug: slugSchema.optional().describe("New URL slug (lowercase letters, numbers, hyphens)"),
+  description: z.string().optional().describe("New description"),
+  is_public: z.boolean().optional().describe("Whether the app is publicly visible"),
+  show_source: z.boolean().optional().describe("Whether visitors can browse the published source code at /app/:slug/~source (public apps only)"),
+  routing_mode: z.enum(["static", "spa"]).optional().describe(
+    "'spa' serves index.html for unknown paths (for client-side routers); 'static' serves a 404. A shapps.json file in the project overrides this."
+  ),
+  security: securitySettingsSchema.nullable().optional().describe(
+    "Loosens the app's Content-Security-Policy and Permissions-Policy for third-party scripts, APIs, embeds and browser features. Replaces the previous value; null restores the defaults."
+  ),
+  isolated_origin: z.boolean().optional().describe(
+    "Serve the published app from its own origin (https://<slug>.<apps domain>/) so other apps can't read its cookies or storage. Visits to /app/:slug are redirected there."
+  ),
+});
+
+export const memberRoleSchema = z.enum(["owner", "editor", "viewer"]).describe(
+  "viewer: read files, versions and previews. editor: also write files, publish and share preview links. owner: also settings, deleting and collaborators."
+);
+
+export const collectionNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,62}$/)
+  .describe("Collection name (lowercase letters, numbers, '_' and '-'), used in URLs like /app/:slug/~data/:name");
+
+export const dataEnvironmentSchema = z
+  .enum(["live", "draft"])
+  .describe("'live' is the data of the published app (/app), 'draft' the data of previews (/preview)");
+
+export const collectionRulesSchema = z.object({
+  public_read: z.boolean().optional().describe("Whether the app's visitors can list and read documents (default false)"),
+  public_write: z.enum(["none", "create", "all"]).optional().describe(
+    "What visitors can write: 'none', 'create' new documents only (default, e.g. form submissions), or 'all' (also update and delete)"
+  ),
+  schema: z.record(z.string(), z.unknown()).nullable().optional().describe(
+    "JSON Schema every document must match, e.g. {\"type\": \"object\", \"properties\": {\"email\": {\"type\": \"string\"}}, \"required\": [\"email\"]}. Omit or null to accept any JSON object."
+  ),
+});
+
+export const formNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,62}$/)
+  .describe("Form name, as in the form's action: ~forms/<name>");
+
+export const formSubmissionFilterSchema = z.object({
+  form: formNameSchema.optional().describe("Only this form (default: all of them)"),
+  environment: dataEnvironmentSchema.optional().describe("'live' (default) for the published app, 'draft' for previews"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only submissions at or after this ISO 8601 time"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only submissions before this ISO 8601 time"),
+});
+
+export const hostnameSchema = z.string().min(1).max(253).describe("A hostname, like www.example.com");
+
+export const reportReasonSchema = z.enum(["phishing", "malware", "spam", "impersonation", "illegal", "other"]);
+
+/** What a visitor sends from /report/:slug. */
+export const abuseReportSchema = z.object({
+  reason: reportReasonSchema,
+  details: z.string().trim().max(2000).optional(),
+  page_url: z.string().url().max(500).optional(),
+  email: z.string().trim().email().max(254).optional(),
+});
+
+export const analyticsRangeSchema = z.object({
+  from: z.string().date().optional().describe("First day, YYYY-MM-DD in UTC (default: 29 days before `to`)"),
+  to: z.string().date().optional().describe("Last day, YYYY-MM-DD in UTC (default: today)"),
+});
+
+/** Activity log actions: the MCP tools that change something. */
+export const ACTIVITY_ACTIONS = [
+  "create_project",
+  "duplicate_project",
+  "import_project",
+  "update_settings",
+  "write_files",
+  "edit_files",
+  "delete_files",
+  "publish",
+  "rollback",
+  "get_preview_url",
+  "revoke_preview_links",
+  "invite_collaborator",
+  "remove_collaborator",
+  "define_collection",
+  "delete_collection",
+  "delete_documents",
+  "add_domain",
+  "verify_domain",
+  "remove_domain",
+] as const;
+
+export const activityFilterSchema = z.object({
+  since: z.string().datetime({ offset: true }).optional().describe("Only events at or after this ISO 8601 time"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only events before this ISO 8601 time"),
+  actor: z.string().optional().describe("Only events by this email address"),
+  action: z.array(z.enum(ACTIVITY_ACTIONS)).optional().describe("Only these actions (tool names)"),
+});
+
+export type FileInput = z.infer<typeof fileInputSchema>;
+export type FileEdits = z.infer<typeof fileEditsSchema>;
+export type Settings = z.infer<typeof settingsSchema>;
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+export type MemberRole = z.infer<typeof memberRoleSchema>;
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+export type ActivityQuery = z.infer<typeof activityFilterSchema>;
+export type CollectionRules = z.infer<typeof collectionRulesSchema>;
+export type FormSubmissionQuery = z.infer<typeof formSubmissionFilterSchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsRangeSchema>;
@@ -0,0 +1,269 @@
+import type { Env } from "./types";
+
+/**
+ * Signed browser credentials for viewing non-public content:
+ * - owner sessions: a cookie set after the owner signs in at /login, or a bearer
+ *   token (same value) handed to the dashboard for the REST API
+ * - preview tokens: share links minted by get_preview_url, scoped to one project
+ * - download tokens: short-lived links to one project export
+ * - app keys: let a member's page of a private app or draft make data calls
+ *
+ * All are HMAC-signed with COOKIE_ENCRYPTION_KEY. Preview tokens are also
+ * recorded in KV so they can be revoked before they expire.
+ */
+
+export const SESSION_COOKIE = "shapps_session";
+export const PREVIEW_COOKIE = "shapps_preview";
+
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+export interface PreviewToken {
+  token: string;
+  tokenId: string;
+  expiresAt: string;
+}
+
+// --- Owner sessions ---
+
+/** Creates a signed session token for an email. */
+export async function createSessionToken(env: Env, email: string): Promise<string> {
+  return signEmailToken(env, "session", email, SESSION_TTL_SECONDS);
+}
+
+/** Builds the Set-Cookie header value for a signed owner session. */
+export async function createSessionCookie(env: Env, email: string): Promise<string> {
+  return serializeCookie(SESSION_COOKIE, await createSessionToken(env, email), "/", SESSION_TTL_SECONDS);
+}
+
+/** Builds the Set-Cookie header value that signs the owner out. */
+export function clearSessionCookie(): string {
+  return serializeCookie(SESSION_COOKIE, "", "/", 0);
+}
+
+/**
+ * The requests to apps that may carry the session: page loads and the styles, scripts and
+ * media they pull in. Every app is served from this origin, so a script in one app could
+ * otherwise fetch() another's private files or drafts with a member's cookie (the REST API
+ * refuses cookies for the same reason). A member's page makes its data calls with an app
+ * key instead. Browsers that don't send Sec-Fetch-Dest (Safari before 16.4) get no session.
+ */
+const SESSION_DESTINATIONS = new Set(["document", "style", "script", "image", "font", "audio", "video", "track", "manifest"]);
+
+/** Returns the signed-in user's email from the session cookie for a request to an app, or null. */
+export async function readSession(env: Env, request: Request): Promise<string | null> {
+  const destination = request.headers.get("Sec-Fetch-Dest");
+  if (!destination || !SESSION_DESTINATIONS.has(destination)) return null;
+  if (destination === "document" && request.headers.get("Sec-Fetch-Mode") !== "navigate") return null;
+
+  const value = getCookie(request, SESSION_COOKIE);
+  return value ? verifySessionToken(env, value) : null;
+}
+
+/** Returns the email a session token was issued for, or null if it's invalid or expired. */
+export async function verifySessionToken(env: Env, value: string): Promise<string | null> {
+  return verifyEmailToken(env, "session", value);
+}
+
+// --- App keys ---
+
+/** The header the data client (see data.ts) sends a page's app key in. */
+export const APP_KEY_HEADER = "X-Shapps-Key";
+
+const APP_KEY_TTL_SECONDS = 60 * 60 * 12;
+
+/**
+ * Signs a key for one member and project, which serveApp puts in the pages it shows them
+ * so their data calls work without the session.
+ */
+export async function mintAppKey(env: Env, projectId: string, email: string): Promise<string> {
+  return signEmailToken(env, `app:${projectId}`, email, APP_KEY_TTL_SECONDS);
+}
+
+/** Returns the email an app key was minted for, or null if it's invalid, expired or for another project. */
+export async function verifyAppKey(env: Env, projectId: string, key: string): Promise<string | null> {
+  return verifyEmailToken(env, `app:${projectId}`, key);
+}
+
+async function signEmailToken(env: Env, scope: string, email: string, ttlSeconds: number): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify({ email, exp })));
+  const signature = await sign(env, `${scope}:${payload}`);
+  return `${payload}.${signature}`;
+}
+
+async function verifyEmailToken(env: Env, scope: string, value: string): Promise<string | null> {
+  if (!env.COOKIE_ENCRYPTION_KEY) return null;
+
+  const [payload, signature] = value.split(".");
+  if (!payload || !signature || !(await verify(env, `${scope}:${payload}`, signature))) {
+    return null;
+  }
+
+  try {
+    const { email, exp } = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as {
+      email: string;
+      exp: number;
+    };
+    return exp > Date.now() / 1000 ? email : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Preview tokens ---
+
+/** Mints a preview token for one project and records it in KV so it can be revoked. */
+export async function mintPreviewToken(env: Env, projectId: string, ttlSeconds: number): Promise<PreviewToken> {
+  const tokenId = crypto.randomUUID();
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = await sign(env, `preview:${projectId}:${tokenId}:${exp}`);
+  const expiresAt = new Date(exp * 1000).toISOString();
+
+  await env.OAUTH_KV.put(
+    previewKey(projectId, tokenId),
+    JSON.stringify({ expires_at: expiresAt }),
+    { expirationTtl: Math.max(ttlSeconds, 60) } // KV's minimum TTL is 60 seconds
+  );
+
+  return { token: `${tokenId}.${exp}.${signature}`, tokenId, expiresAt };
+}
+
+/**
+ * Checks a preview token for a project. Returns the seconds it has left, or null if it's
+ * malformed, signed for another project, expired or revoked.
+ */
+export async function verifyPreviewToken(env: Env, projectId: string, token: string): Promise<number | null> {
+  if (!env.COOKIE_ENCRYPTION_KEY) return null;
+
+  const [tokenId, expRaw, signature] = token.split(".");
+  const exp = Number(expRaw);
+  if (!tokenId || !signature || !Number.isInteger(exp)) return null;
+
+  const remaining = exp - Math.floor(Date.now() / 1000);
+  if (remaining <= 0) return null;
+
+  if (!(await verify(env, `preview:${projectId}:${tokenId}:${exp}`, signature))) return null;
+
+  const record = await env.OAUTH_KV.get(previewKey(projectId, tokenId));
+  return record ? remaining : null;
+}
+
+/** Revokes one preview token, or every preview token for the project. Returns how many were revoked. */
+export async function revokePreviewTokens(env: Env, projectId: string, tokenId?: string): Promise<number> {
+  if (tokenId) {
+    const key = previewKey(projectId, tokenId);
+    if (!(await env.OAUTH_KV.get(key))) return 0;
+    await env.OAUTH_KV.delete(key);
+    return 1;
+  }
+
+  let revoked = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.OAUTH_KV.list({ prefix: previewKey(projectId, ""), cursor });
+    await Promise.all(page.keys.map((k) => env.OAUTH_KV.delete(k.name)));
+    revoked += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return revoked;
+}
+
+/**
+ * Builds the Set-Cookie header value that keeps a preview token for the rest of a preview's asset requests.
+ * Previews are shown in iframes inside chat apps, so the cookie is partitioned and sent cross-site;
+ * it only grants access to one draft and its draft data.
+ */
+export function previewCookie(slug: string, token: string, maxAgeSeconds: number): string {
+  return serializeCookie(PREVIEW_COOKIE, token, `/preview/${slug}`, maxAgeSeconds, "None; Partitioned");
+}
+
+function previewKey(projectId: string, tokenId: string): string {
+  return `preview_token:${projectId}:${tokenId}`;
+}
+
+// --- Download links ---
+
+/** Signs a download link for one export. The token goes in the link's ?token=. */
+export async function signDownload(
+  env: Env,
+  exportId: string,
+  ttlSeconds: number
+): Promise<{ token: string; expiresAt: string }> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = await sign(env, `download:${exportId}:${exp}`);
+  return { token: `${exp}.${signature}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/** Whether a download token is valid for this export and hasn't expired. */
+export async function verifyDownload(env: Env, exportId: string, token: string): Promise<boolean> {
+  if (!env.COOKIE_ENCRYPTION_KEY) return false;
+
+  const [expRaw, signature] = token.split(".");
+  const exp = Number(expRaw);
+  if (!signature || !Number.isInteger(exp) || exp <= Date.now() / 1000) return false;
+
+  return verify(env, `download:${exportId}:${exp}`, signature);
+}
+
+// --- Cookies ---
+
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("Cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return rest.join("=");
+  }
+  return null;
+}
+
+function serializeCookie(name: string, value: string, path: string, maxAgeSeconds: number, sameSite = "Lax"): string {
+  return `${name}=${value}; Path=${path}; Max-Age=${maxAgeSeconds}; HttpOnly; Secure; SameSite=${sameSite}`;
+}
+
+// --- HMAC signing ---
+
+async function hmacKey(env: Env): Promise<CryptoKey> {
+  if (!env.COOKIE_ENCRYPTION_KEY) {
+    throw new Error("Server misconfiguration: missing COOKIE_ENCRYPTION_KEY");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(env.COOKIE_ENCRYPTION_KEY),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+async function sign(env: Env, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(env), new TextEncoder().encode(data));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+async function verify(env: Env, data: string, signature: string): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(env),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(data)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
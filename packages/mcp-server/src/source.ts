@@ -0,0 +1,188 @@
+import { suspendedResponse } from "./abuse";
+import { fileBody } from "./files";
+import { highlight, languageFor } from "./highlight";
+import { escapeHtml } from "./html";
+import type { ServeDeps } from "./serve";
+import { createProjectStore } from "./store";
+import type { Env } from "./types";
+
+/**
+ * "View source" pages for published apps, at /app/:slug/~source.
+ *
+ * - /app/:slug/~source/           → the active version's file tree
+ * - /app/:slug/~source/<path>     → one file, syntax highlighted (images are shown inline)
+ * - /app/:slug/~source/<path>?raw → the file as a download
+ *
+ * Only public apps with show_source enabled have these pages; for everything else
+ * they 404 exactly like a missing project. App files can't live under "~source/".
+ */
+
+export const SOURCE_PREFIX = "~source";
+
+/** Text files larger than this are shown without highlighting. */
+const MAX_HIGHLIGHT_BYTES = 512 * 1024;
+
+export async function serveSource(
+  env: Env,
+  request: Request,
+  slug: string,
+  sourcePath: string,
+  deps: ServeDeps = {}
+): Promise<Response> {
+  if (!deps.store && (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY)) {
+    return new Response("Server misconfiguration: missing database credentials", { status: 500 });
+  }
+  const store = deps.store ?? createProjectStore(env);
+
+  const project = await store.getProjectBySlug(slug);
+  if (!project || !project.is_public || !project.show_source || !project.active_version_id) {
+    return new Response("Project not found", { status: 404 });
+  }
+  if (project.suspended_at) {
+    return suspendedResponse();
+  }
+
+  const base = `/app/${slug}/${SOURCE_PREFIX}/`;
+  const filePath = sourcePath.replace(/^\/+/, "");
+
+  if (filePath === "") {
+    const files = await store.listFiles(project.active_version_id);
+    const body = files.length === 0 ? "<p>This app has no files.</p>" : renderTree(files.map((f) => f.file_path), base);
+    return page(`${project.name} — source`, `<h1>${escapeHtml(project.name)}</h1>${breadcrumbs(slug, base, [])}${body}`);
+  }
+
+  const [file] = await store.getFiles(project.active_version_id, [filePath]);
+  if (!file) {
+    return page("File not found", `<h1>File not found</h1><p><a href="${base}">Back to all files</a></p>`, 404);
+  }
+
+  const href = base + encodePath(filePath);
+
+  if (new URL(request.url).searchParams.has("raw")) {
+    const body = await fileBody(env, file);
+    if (!body) {
+      return new Response("File not found", { status: 404 });
+    }
+    const fileName = filePath.split("/").pop()!;
+    return new Response(body.body, {
+      headers: {
+        "Content-Type": file.content_type,
+        "Content-Length": String(body.size),
+        "Content-Disposition": `attachment; filename="${fileName.replace(/["\\]/g, "_")}"`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  const header =
+    breadcrumbs(slug, base, filePath.split("/")) +
+    `<p class="meta">${escapeHtml(file.content_type)} · ${formatSize(file.size)} · <a href="${href}?raw">Download</a></p>`;
+
+  let content: string;
+  if (file.encoding === "base64") {
+    content = file.content_type.startsWith("image/")
+      ? `<p><img src="${href}?raw" alt="${escapeHtml(filePath)}"></p>`
+      : "<p>Binary file. Use Download to get it.</p>";
+  } else {
+    const language = file.size <= MAX_HIGHLIGHT_BYTES ? languageFor(file.content_type) : "plain";
+    content = renderCode(file.content, language);
+  }
+
+  return page(`${filePath} — ${project.name}`, `<h1>${escapeHtml(project.name)}</h1>${header}${content}`);
+}
+
+interface TreeNode {
+  dirs: Map<string, TreeNode>;
+  files: string[];
+}
+
+/** Renders file paths as nested lists, directories first. */
+function renderTree(paths: string[], base: string): string {
+  const root: TreeNode = { dirs: new Map(), files: [] };
+  for (const path of paths) {
+    const parts = path.split("/");
+    let node = root;
+    for (const dir of parts.slice(0, -1)) {
+      if (!node.dirs.has(dir)) node.dirs.set(dir, { dirs: new Map(), files: [] });
+      node = node.dirs.get(dir)!;
+    }
+    node.files.push(path);
+  }
+
+  const render = (node: TreeNode): string => {
+    const dirs = [...node.dirs.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, child]) => `<li class="dir">${escapeHtml(name)}/${render(child)}</li>`);
+    const files = node.files
+      .sort()
+      .map((path) => `<li><a href="${base}${encodePath(path)}">${escapeHtml(path.split("/").pop()!)}</a></li>`);
+    return `<ul>${dirs.join("")}${files.join("")}</ul>`;
+  };
+
+  return `<nav class="tree">${render(root)}</nav>`;
+}
+
+function renderCode(code: string, language: Parameters<typeof highlight>[1]): string {
+  const lineCount = code.split("\n").length - (code.endsWith("\n") ? 1 : 0);
+  const numbers = Array.from({ length: Math.max(lineCount, 1) }, (_, i) => i + 1).join("\n");
+  return `<div class="code"><pre class="lines" aria-hidden="true">${numbers}</pre><pre><code>${highlight(code, language)}</code></pre></div>`;
+}
+
+function breadcrumbs(slug: string, base: string, parts: string[]): string {
+  const links = [`<a href="/app/${slug}/">${escapeHtml(slug)}</a>`, `<a href="${base}">source</a>`];
+  return `<p class="crumbs">${[...links, ...parts.map((p) => escapeHtml(p))].join(" / ")}</p>`;
+}
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function page(title: string, body: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-cache" },
+  });
+}
+
+const PAGE_STYLE = `
+body { font: 15px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #1f2328; }
+h1 { font-size: 1.4em; margin: 0 0 4px; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.crumbs, .meta { color: #59636e; margin: 4px 0; }
+.tree ul { list-style: none; padding-left: 20px; margin: 0; }
+.tree > ul { padding-left: 0; }
+.dir { font-weight: 600; }
+.dir li { font-weight: normal; }
+.code { display: flex; border: 1px solid #d1d9e0; border-radius: 6px; overflow-x: auto; margin-top: 12px; }
+.code pre { margin: 0; padding: 12px; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+.lines { color: #8c959f; text-align: right; user-select: none; border-right: 1px solid #d1d9e0; background: #f6f8fa; }
+img { max-width: 100%; border: 1px solid #d1d9e0; }
+.tok-comment { color: #6e7781; font-style: italic; }
+.tok-string { color: #0a3069; }
+.tok-keyword { color: #cf222e; }
+.tok-literal, .tok-number { color: #0550ae; }
+.tok-property, .tok-attr { color: #953800; }
+.tok-tag { color: #116329; }
+.tok-entity { color: #8250df; }
+`;
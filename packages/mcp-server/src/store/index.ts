@@ -0,0 +1,290 @@
+import type { StoredFile } from "../files";
+import type {
+  AbuseReportRow,
+  ActivityRow,
+  AnalyticsRow,
+  CollectionRow,
+  DataEnvironment,
+  DocumentRow,
+  DomainRow,
+  Env,
+  FormSubmissionRow,
+  MemberRow,
+  ProjectRole,
+  ProjectRow,
+  PublishReviewRow,
+  VersionRow,
+} from "../types";
+import { SupabaseProjectStore } from "./supabase";
+
+/**
+ * Persistence for projects, versions and files.
+ *
+ * ProjectService and serveApp only talk to this interface, so the same logic runs
+ * against Supabase in production and against MemoryProjectStore in tests. Methods
+ * throw ServiceError for expected failures (slug taken, revision conflict, missing
+ * project or version) and return null for "not found" lookups.
+ *
+ * An ownerEmail or memberEmail of null means "don't filter by user" (MCP without OAuth).
+ */
+export interface ProjectStore {
+  // --- Projects ---
+  getProject(projectId: string, ownerEmail: string | null): Promise<ProjectRow | null>;
+  getProjectBySlug(slug: string): Promise<ProjectRow | null>;
+  /** Projects the user owns or is a member of, newest first. Without a page, returns all of them. */
+  listProjects(memberEmail: string | null, page?: Page): Promise<{ items: ProjectSummary[]; total: number }>;
+  /** Creates the project and its first (empty) draft version. */
+  createProject(input: NewProject): Promise<ProjectRow>;
+  updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectRow>;
+  /** What counts toward a user's quotas: projects they own and the total size of their drafts. */
+  getUsage(ownerEmail: string): Promise<Usage>;
+
+  // --- Members ---
+  /** The user's role on the project (owner_email counts as owner), or null without access. */
+  getRole(projectId: string, email: string): Promise<ProjectRole | null>;
+  /** Oldest first. */
+  listMembers(projectId: string): Promise<MemberRow[]>;
+  /** Adds a member, or changes their role if they already are one. */
+  putMember(member: Omit<MemberRow, "created_at">): Promise<MemberRow>;
+  /** Returns whether there was such a member. */
+  deleteMember(projectId: string, email: string): Promise<boolean>;
+
+  // --- Activity ---
+  addActivity(event: NewActivity): Promise<void>;
+  /** Newest first. Without a page, returns all matching events. */
+  listActivity(projectId: string, filter: ActivityFilter, page?: Page): Promise<{ items: ActivityRow[]; total: number }>;
+
+  // --- App data ---
+  /** By name. */
+  listCollections(projectId: string): Promise<CollectionRow[]>;
+  getCollection(projectId: string, name: string): Promise<CollectionRow | null>;
+  /** Creates a collection, or replaces its rules and schema. */
+  putCollection(collection: NewCollection): Promise<CollectionRow>;
+  /** Deletes the collection with its documents in both environments. Returns whether it existed. */
+  deleteCollection(projectId: string, name: string): Promise<boolean>;
+  /** Newest first. Without a page, returns all of them. */
+  listDocuments(scope: DataScope, page?: Page): Promise<{ items: DocumentRow[]; total: number }>;
+  countDocuments(scope: DataScope): Promise<number>;
+  getDocument(scope: DataScope, id: string): Promise<DocumentRow | null>;
+  insertDocument(scope: DataScope, data: Record<string, unknown>): Promise<DocumentRow>;
+  /** Replaces a document's data. Returns null if there's no such document. */
+  updateDocument(scope: DataScope, id: string, data: Record<string, unknown>): Promise<DocumentRow | null>;
+  /** Returns how many documents were deleted. */
+  deleteDocuments(scope: DataScope, ids: string[]): Promise<number>;
+
+  // --- Form submissions ---
+  addFormSubmission(submission: NewFormSubmission): Promise<FormSubmissionRow>;
+  /** Newest first. Without a page, returns all of them. */
+  listFormSubmissions(
+    projectId: string,
+    filter: FormSubmissionFilter,
+    page?: Page
+  ): Promise<{ items: FormSubmissionRow[]; total: number }>;
+  countFormSubmissions(projectId: string, environment: DataEnvironment): Promise<number>;
+
+  // --- Analytics ---
+  /** Adds a page view to its day's rollups. */
+  recordPageView(view: PageView): Promise<void>;
+  /** Deletes every project's visitor hashes from days before `before` (YYYY-MM-DD). Returns how many. */
+  deleteVisitorHashes(before: string): Promise<number>;
+  /** Rollups for the days from `from` to `to` (YYYY-MM-DD, both inclusive), oldest first. */
+  listAnalytics(projectId: string, from: string, to: string): Promise<AnalyticsRow[]>;
+
+  // --- Domains ---
+  /** Oldest first. */
+  listDomains(projectId: string): Promise<DomainRow[]>;
+  /** The project whose verified domain this is. */
+  getProjectByDomain(hostname: string): Promise<ProjectRow | null>;
+  /** Throws a conflict if the project has already claimed the hostname. */
+  addDomain(domain: NewDomain): Promise<DomainRow>;
+  /** Marks the project's claim verified. Throws a conflict if another project has it verified. */
+  verifyDomain(projectId: string, hostname: string): Promise<DomainRow>;
+  /** Returns whether the project had claimed the hostname. */
+  deleteDomain(projectId: string, hostname: string): Promise<boolean>;
+
+  // --- Abuse ---
+  addReport(report: NewReport): Promise<AbuseReportRow>;
+  /** Newest first. Without a page, returns all matching reports. */
+  listReports(filter: ReportFilter, page?: Page): Promise<{ items: AbuseReportRow[]; total: number }>;
+  /** Closes the open reports that match. Returns how many there were. */
+  resolveReports(filter: ReportFilter & { id?: string }, status: "dismissed" | "actioned", resolvedBy: string): Promise<number>;
+  addPublishReview(review: NewPublishReview): Promise<PublishReviewRow>;
+  getPublishReview(reviewId: string): Promise<PublishReviewRow | null>;
+  /** Oldest first, so the longest-waiting come first. Without a page, returns all of them. */
+  listPublishReviews(status: PublishReviewRow["status"], page?: Page): Promise<{ items: PublishReviewRow[]; total: number }>;
+  /** Records an admin's decision on a pending review. Returns null if it isn't pending any more. */
+  decidePublishReview(reviewId: string, decision: ReviewDecision): Promise<PublishReviewRow | null>;
+  /** Marks the project's pending reviews superseded, when a newer publish replaces them. */
+  supersedePublishReviews(projectId: string): Promise<void>;
+
+  // --- Versions ---
+  /** Newest first. Without a page, returns all of them. */
+  listVersions(projectId: string, page?: Page): Promise<{ items: VersionRow[]; total: number }>;
+  /** The versions with these IDs that belong to the project. */
+  getVersions(projectId: string, versionIds: string[]): Promise<VersionRow[]>;
+  /**
+   * Deletes published versions beyond the newest `keep`, with their files. The draft and
+   * the active version are never deleted. Returns how many versions were deleted.
+   */
+  pruneVersions(projectId: string, keep: number): Promise<number>;
+
+  // --- Files ---
+  /** File metadata (no content) for a version. */
+  listFiles(versionId: string): Promise<FileInfo[]>;
+  /** Full file rows for a version, optionally only these paths. */
+  getFiles(versionId: string, paths?: string[]): Promise<StoredFile[]>;
+  /**
+   * Creates or replaces files in a version. Changing the draft bumps the project's
+   * draft_revision; the live version's files can't be changed (a conflict). With
+   * replaceAll, the version's other files are deleted in the same transaction.
+   */
+  putFiles(versionId: string, files: StoredFile[], options?: { replaceAll?: boolean }): Promise<void>;
+  /** Returns how many files were deleted. Same rules as putFiles. */
+  deleteFiles(versionId: string, paths: string[]): Promise<number>;
+  /** The R2 keys among these that any version's files still point at. */
+  storageKeysInUse(keys: string[]): Promise<string[]>;
+
+  // --- Atomic operations (each runs as one transaction with a revision and role check) ---
+  publish(projectId: string, options: PublishOptions): Promise<PublishResult>;
+  rollback(projectId: string, versionId: string, options: AtomicOptions): Promise<RollbackResult>;
+  /** Deletes the project with all its versions and files. */
+  deleteProject(projectId: string, options: AtomicOptions): Promise<void>;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export type ProjectSummary = Pick<ProjectRow, "id" | "name" | "slug" | "description" | "status" | "created_at" | "updated_at"> & {
+  /** The listing user's role (owner when listing without a user) */
+  role: ProjectRole;
+};
+
+export interface Usage {
+  projects: number;
+  bytes: number;
+}
+
+export type FileInfo = Pick<StoredFile, "file_path" | "content_type" | "encoding" | "size">;
+
+export interface NewProject {
+  name: string;
+  slug: string;
+  description: string | null;
+  owner_email: string;
+  forked_from_project_id?: string | null;
+  forked_from_version_id?: string | null;
+}
+
+export type NewActivity = Omit<ActivityRow, "id" | "created_at">;
+
+export type NewCollection = Omit<CollectionRow, "created_at" | "updated_at">;
+
+/** One collection's documents in one environment. */
+export interface DataScope {
+  projectId: string;
+  environment: DataEnvironment;
+  collection: string;
+}
+
+export type NewFormSubmission = Omit<FormSubmissionRow, "id" | "created_at">;
+
+export interface FormSubmissionFilter {
+  environment: DataEnvironment;
+  form?: string;
+  /** ISO timestamps; since is inclusive, until exclusive */
+  since?: string;
+  until?: string;
+}
+
+export type NewDomain = Pick<DomainRow, "project_id" | "hostname" | "verification_token">;
+
+export type NewReport = Pick<AbuseReportRow, "project_id" | "reason" | "details" | "page_url" | "reporter_email">;
+
+export interface ReportFilter {
+  status?: AbuseReportRow["status"];
+  projectId?: string;
+}
+
+export type NewPublishReview = Pick<
+  PublishReviewRow,
+  "project_id" | "version_id" | "fingerprint" | "message" | "findings" | "requested_by"
+>;
+
+export interface ReviewDecision {
+  status: "approved" | "rejected";
+  reviewed_by: string;
+  review_note: string | null;
+}
+
+/** A page view, as counted by analytics.ts. Only the visitor's hash is kept. */
+export interface PageView {
+  project_id: string;
+  /** YYYY-MM-DD, UTC */
+  day: string;
+  path: string;
+  referrer_host: string | null;
+  country: string | null;
+  device: "desktop" | "mobile" | "tablet";
+  visitor_hash: string;
+}
+
+export interface ActivityFilter {
+  /** ISO timestamps; since is inclusive, until exclusive */
+  since?: string;
+  until?: string;
+  actorEmail?: string;
+  actions?: string[];
+}
+
+export type ProjectUpdate = Partial<
+  Pick<
+    ProjectRow,
+    | "name"
+    | "slug"
+    | "description"
+    | "is_public"
+    | "show_source"
+    | "routing_mode"
+    | "security"
+    | "isolated_origin"
+    | "suspended_at"
+    | "suspension_reason"
+  >
+>;
+
+export interface AtomicOptions {
+  /** Must be an owner or editor (an owner to delete). Null skips the check. */
+  actorEmail: string | null;
+  /** Rejects with a conflict if the project's revision has moved on. Omit to skip the check. */
+  expectedRevision?: number;
+}
+
+export interface PublishOptions extends AtomicOptions {
+  message?: string;
+  /** Rejects with a conflict if the draft's files changed since, e.g. after they were scanned */
+  expectedDraftRevision?: number;
+  /** The held publish this approves, which is marked approved in the same transaction */
+  approveReview?: Omit<ReviewDecision, "status"> & { id: string };
+}
+
+export interface PublishResult {
+  published_version_id: string;
+  version_number: number;
+  new_draft_version_id: string;
+  revision: number;
+}
+
+export interface RollbackResult {
+  version_number: number;
+  files_copied: number;
+  revision: number;
+}
+
+export function createProjectStore(env: Env): ProjectStore {
+  return SupabaseProjectStore.fromEnv(env);
+}
+
+export { MemoryProjectStore } from "./memory";
+export { SupabaseProjectStore } from "./supabase";
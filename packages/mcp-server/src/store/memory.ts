@@ -0,0 +1,746 @@
+import type { StoredFile } from "../files";
+import { ServiceError } from "../services/errors";
+import type {
+  AbuseReportRow,
+  ActivityRow,
+  AnalyticsRow,
+  CollectionRow,
+  DataEnvironment,
+  DocumentRow,
+  DomainRow,
+  FormSubmissionRow,
+  MemberRow,
+  ProjectRole,
+  ProjectRow,
+  PublishReviewRow,
+  VersionRow,
+} from "../types";
+import type {
+  ActivityFilter,
+  AtomicOptions,
+  DataScope,
+  FileInfo,
+  FormSubmissionFilter,
+  NewActivity,
+  NewCollection,
+  NewDomain,
+  NewFormSubmission,
+  NewProject,
+  NewPublishReview,
+  NewReport,
+  Page,
+  PageView,
+  ProjectStore,
+  ProjectSummary,
+  ProjectUpdate,
+  PublishOptions,
+  PublishResult,
+  ReportFilter,
+  ReviewDecision,
+  RollbackResult,
+  Usage,
+} from "./index";
+
+/**
+ * ProjectStore kept in plain maps, for tests and local experiments.
+ * Mirrors the Supabase store's behaviour, including the database functions
+ * for publish, rollback and delete. Rows are copied in and out so callers
+ * can't change stored data by mutating a result.
+ */
+export class MemoryProjectStore implements ProjectStore {
+  projects = new Map<string, ProjectRow>();
+  versions = new Map<string, VersionRow>();
+  /** version ID → file path → file */
+  files = new Map<string, Map<string, StoredFile>>();
+  /** project ID → email → member */
+  members = new Map<string, Map<string, MemberRow>>();
+  activity: ActivityRow[] = [];
+  /** project ID → name → collection */
+  collections = new Map<string, Map<string, CollectionRow>>();
+  /** Oldest first */
+  documents: DocumentRow[] = [];
+  /** Oldest first */
+  formSubmissions: FormSubmissionRow[] = [];
+  /** Oldest day first */
+  analytics: AnalyticsRow[] = [];
+  /** "project ID:day:visitor hash" for the visitors of days not yet cleaned up */
+  visitors = new Set<string>();
+  /** Oldest first */
+  domains: DomainRow[] = [];
+  /** Oldest first */
+  reports: AbuseReportRow[] = [];
+  /** Oldest first */
+  reviews: PublishReviewRow[] = [];
+
+  // --- Projects ---
+
+  async getProject(projectId: string, ownerEmail: string | null): Promise<ProjectRow | null> {
+    const project = this.projects.get(projectId);
+    if (!project || (ownerEmail && project.owner_email !== ownerEmail.toLowerCase())) return null;
+    return { ...project };
+  }
+
+  async getProjectBySlug(slug: string): Promise<ProjectRow | null> {
+    const project = [...this.projects.values()].find((p) => p.slug === slug);
+    return project ? { ...project } : null;
+  }
+
+  async listProjects(memberEmail: string | null, page?: Page) {
+    const all = [...this.projects.values()]
+      .filter((p) => !memberEmail || this.roleOf(p, memberEmail))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    const items: ProjectSummary[] = paginate(all, page).map((p) => ({
+      id: p.id,
+      name: p.name,
+      slug: p.slug,
+      description: p.description,
+      status: p.status,
+      created_at: p.created_at,
+      updated_at: p.updated_at,
+      role: memberEmail ? this.roleOf(p, memberEmail)! : "owner",
+    }));
+    return { items, total: all.length };
+  }
+
+  async createProject(input: NewProject): Promise<ProjectRow> {
+    this.assertSlugFree(input.slug);
+
+    const now = timestamp();
+    const project: ProjectRow = {
+      id: crypto.randomUUID(),
+      ...input,
+      is_public: false,
+      show_source: false,
+      status: "draft",
+      active_version_id: null,
+      draft_version_id: null,
+      routing_mode: "static",
+      security: {},
+      isolated_origin: false,
+      suspended_at: null,
+      suspension_reason: null,
+      forked_from_project_id: input.forked_from_project_id ?? null,
+      forked_from_version_id: input.forked_from_version_id ?? null,
+      revision: 0,
+      draft_revision: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    this.projects.set(project.id, project);
+
+    project.draft_version_id = this.addVersion(project.id, 1, "Initial version").id;
+    return { ...project };
+  }
+
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectRow> {
+    const project = this.requireProject(projectId);
+    if (updates.slug !== undefined && updates.slug !== project.slug) {
+      this.assertSlugFree(updates.slug);
+    }
+
+    const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    Object.assign(project, defined, { updated_at: timestamp() });
+    return { ...project };
+  }
+
+  async getUsage(ownerEmail: string): Promise<Usage> {
+    const owned = [...this.projects.values()].filter((p) => p.owner_email === ownerEmail.toLowerCase());
+    const bytes = owned
+      .flatMap((p) => [...(this.files.get(p.draft_version_id ?? "")?.values() ?? [])])
+      .reduce((total, f) => total + f.size, 0);
+    return { projects: owned.length, bytes };
+  }
+
+  // --- Members ---
+
+  async getRole(projectId: string, email: string): Promise<ProjectRole | null> {
+    const project = this.projects.get(projectId);
+    return project ? this.roleOf(project, email) : null;
+  }
+
+  async listMembers(projectId: string): Promise<MemberRow[]> {
+    return [...(this.members.get(projectId)?.values() ?? [])]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((m) => ({ ...m }));
+  }
+
+  async putMember(member: Omit<MemberRow, "created_at">): Promise<MemberRow> {
+    this.requireProject(member.project_id);
+
+    let members = this.members.get(member.project_id);
+    if (!members) {
+      members = new Map();
+      this.members.set(member.project_id, members);
+    }
+    const row = { ...member, created_at: members.get(member.email)?.created_at ?? timestamp() };
+    members.set(member.email, row);
+    return { ...row };
+  }
+
+  async deleteMember(projectId: string, email: string): Promise<boolean> {
+    return this.members.get(projectId)?.delete(email) ?? false;
+  }
+
+  // --- Activity ---
+
+  async addActivity(event: NewActivity): Promise<void> {
+    this.activity.push({ ...event, id: crypto.randomUUID(), created_at: timestamp() });
+  }
+
+  async listActivity(projectId: string, filter: ActivityFilter, page?: Page) {
+    const all = this.activity
+      .filter(
+        (e) =>
+          e.project_id === projectId &&
+          (!filter.since || e.created_at >= filter.since) &&
+          (!filter.until || e.created_at < filter.until) &&
+          (!filter.actorEmail || e.actor_email === filter.actorEmail) &&
+          (!filter.actions || filter.actions.includes(e.action))
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return { items: paginate(all, page).map((e) => ({ ...e })), total: all.length };
+  }
+
+  // --- App data ---
+
+  async listCollections(projectId: string): Promise<CollectionRow[]> {
+    return [...(this.collections.get(projectId)?.values() ?? [])]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((c) => ({ ...c }));
+  }
+
+  async getCollection(projectId: string, name: string): Promise<CollectionRow | null> {
+    const collection = this.collections.get(projectId)?.get(name);
+    return collection ? { ...collection } : null;
+  }
+
+  async putCollection(collection: NewCollection): Promise<CollectionRow> {
+    this.requireProject(collection.project_id);
+
+    let collections = this.collections.get(collection.project_id);
+    if (!collections) {
+      collections = new Map();
+      this.collections.set(collection.project_id, collections);
+    }
+    const now = timestamp();
+    const row = { ...collection, created_at: collections.get(collection.name)?.created_at ?? now, updated_at: now };
+    collections.set(collection.name, row);
+    return { ...row };
+  }
+
+  async deleteCollection(projectId: string, name: string): Promise<boolean> {
+    const existed = this.collections.get(projectId)?.delete(name) ?? false;
+    this.documents = this.documents.filter((d) => d.project_id !== projectId || d.collection !== name);
+    return existed;
+  }
+
+  async listDocuments(scope: DataScope, page?: Page) {
+    const all = this.documents.filter((d) => inScope(d, scope)).reverse();
+    return { items: paginate(all, page).map(copyDocument), total: all.length };
+  }
+
+  async countDocuments(scope: DataScope): Promise<number> {
+    return this.documents.filter((d) => inScope(d, scope)).length;
+  }
+
+  async getDocument(scope: DataScope, id: string): Promise<DocumentRow | null> {
+    const document = this.documents.find((d) => d.id === id && inScope(d, scope));
+    return document ? copyDocument(document) : null;
+  }
+
+  async insertDocument(scope: DataScope, data: Record<string, unknown>): Promise<DocumentRow> {
+    if (!this.collections.get(scope.projectId)?.has(scope.collection)) {
+      throw new ServiceError("not_found", "Collection not found");
+    }
+    const now = timestamp();
+    const document: DocumentRow = {
+      id: crypto.randomUUID(),
+      project_id: scope.projectId,
+      environment: scope.environment,
+      collection: scope.collection,
+      data: structuredClone(data),
+      created_at: now,
+      updated_at: now,
+    };
+    this.documents.push(document);
+    return copyDocument(document);
+  }
+
+  async updateDocument(scope: DataScope, id: string, data: Record<string, unknown>): Promise<DocumentRow | null> {
+    const document = this.documents.find((d) => d.id === id && inScope(d, scope));
+    if (!document) return null;
+    document.data = structuredClone(data);
+    document.updated_at = timestamp();
+    return copyDocument(document);
+  }
+
+  async deleteDocuments(scope: DataScope, ids: string[]): Promise<number> {
+    const before = this.documents.length;
+    this.documents = this.documents.filter((d) => !(ids.includes(d.id) && inScope(d, scope)));
+    return before - this.documents.length;
+  }
+
+  // --- Form submissions ---
+
+  async addFormSubmission(submission: NewFormSubmission): Promise<FormSubmissionRow> {
+    this.requireProject(submission.project_id);
+    const row = { ...submission, data: structuredClone(submission.data), id: crypto.randomUUID(), created_at: timestamp() };
+    this.formSubmissions.push(row);
+    return { ...row, data: structuredClone(row.data) };
+  }
+
+  async listFormSubmissions(projectId: string, filter: FormSubmissionFilter, page?: Page) {
+    const all = this.formSubmissions
+      .filter(
+        (s) =>
+          s.project_id === projectId &&
+          s.environment === filter.environment &&
+          (!filter.form || s.form === filter.form) &&
+          (!filter.since || s.created_at >= filter.since) &&
+          (!filter.until || s.created_at < filter.until)
+      )
+      .reverse();
+    return { items: paginate(all, page).map((s) => ({ ...s, data: structuredClone(s.data) })), total: all.length };
+  }
+
+  async countFormSubmissions(projectId: string, environment: DataEnvironment): Promise<number> {
+    return this.formSubmissions.filter((s) => s.project_id === projectId && s.environment === environment).length;
+  }
+
+  // --- Analytics ---
+
+  async recordPageView(view: PageView): Promise<void> {
+    this.requireProject(view.project_id);
+    const visitor = `${view.project_id}:${view.day}:${view.visitor_hash}`;
+    const newVisitor = this.visitors.has(visitor) ? 0 : 1;
+    this.visitors.add(visitor);
+
+    const counts: [AnalyticsRow["dimension"], string, number][] = [
+      ["total", "", newVisitor],
+      ["page", view.path, 0],
+      ["referrer", view.referrer_host ?? "", 0],
+      ["country", view.country ?? "", 0],
+      ["device", view.device, 0],
+    ];
+    for (const [dimension, value, visitors] of counts) {
+      const row = this.analytics.find(
+        (a) => a.project_id === view.project_id && a.day === view.day && a.dimension === dimension && a.value === value
+      );
+      if (row) {
+        row.views += 1;
+        row.visitors += visitors;
+      } else {
+        this.analytics.push({ project_id: view.project_id, day: view.day, dimension, value, views: 1, visitors });
+      }
+    }
+  }
+
+  async deleteVisitorHashes(before: string): Promise<number> {
+    let deleted = 0;
+    for (const key of this.visitors) {
+      if (key.split(":")[1] < before) {
+        this.visitors.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async listAnalytics(projectId: string, from: string, to: string): Promise<AnalyticsRow[]> {
+    return this.analytics
+      .filter((a) => a.project_id === projectId && a.day >= from && a.day <= to)
+      .sort((a, b) => a.day.localeCompare(b.day))
+      .map((a) => ({ ...a }));
+  }
+
+  // --- Domains ---
+
+  async listDomains(projectId: string): Promise<DomainRow[]> {
+    return this.domains.filter((d) => d.project_id === projectId).map((d) => ({ ...d }));
+  }
+
+  async getProjectByDomain(hostname: string): Promise<ProjectRow | null> {
+    const domain = this.domains.find((d) => d.hostname === hostname && d.verified_at !== null);
+    const project = domain && this.projects.get(domain.project_id);
+    return project ? { ...project } : null;
+  }
+
+  async addDomain(domain: NewDomain): Promise<DomainRow> {
+    this.requireProject(domain.project_id);
+    if (this.domains.some((d) => d.project_id === domain.project_id && d.hostname === domain.hostname)) {
+      throw new ServiceError("conflict", `This project has already added ${domain.hostname}.`);
+    }
+    const row = { ...domain, verified_at: null, created_at: timestamp() };
+    this.domains.push(row);
+    return { ...row };
+  }
+
+  async verifyDomain(projectId: string, hostname: string): Promise<DomainRow> {
+    const domain = this.domains.find((d) => d.project_id === projectId && d.hostname === hostname);
+    if (!domain) {
+      throw new ServiceError("not_found", "Domain not found");
+    }
+    if (this.domains.some((d) => d.hostname === hostname && d.verified_at !== null && d !== domain)) {
+      throw new ServiceError("conflict", `${hostname} is already in use by another app.`);
+    }
+    domain.verified_at = timestamp();
+    return { ...domain };
+  }
+
+  async deleteDomain(projectId: string, hostname: string): Promise<boolean> {
+    const before = this.domains.length;
+    this.domains = this.domains.filter((d) => !(d.project_id === projectId && d.hostname === hostname));
+    return this.domains.length < before;
+  }
+
+  // --- Abuse ---
+
+  async addReport(report: NewReport): Promise<AbuseReportRow> {
+    this.requireProject(report.project_id);
+    const row: AbuseReportRow = {
+      id: crypto.randomUUID(),
+      ...report,
+      status: "open",
+      resolved_by: null,
+      resolved_at: null,
+      created_at: timestamp(),
+    };
+    this.reports.push(row);
+    return { ...row };
+  }
+
+  async listReports(filter: ReportFilter, page?: Page) {
+    const all = this.reports.filter((r) => matchesReport(r, filter)).reverse();
+    return { items: paginate(all, page).map((r) => ({ ...r })), total: all.length };
+  }
+
+  async resolveReports(filter: ReportFilter & { id?: string }, status: "dismissed" | "actioned", resolvedBy: string) {
+    const open = this.reports.filter(
+      (r) => r.status === "open" && matchesReport(r, filter) && (filter.id === undefined || r.id === filter.id)
+    );
+    for (const report of open) {
+      Object.assign(report, { status, resolved_by: resolvedBy, resolved_at: timestamp() });
+    }
+    return open.length;
+  }
+
+  async addPublishReview(review: NewPublishReview): Promise<PublishReviewRow> {
+    this.requireProject(review.project_id);
+    const row: PublishReviewRow = {
+      id: crypto.randomUUID(),
+      ...review,
+      findings: review.findings.map((f) => ({ ...f })),
+      status: "pending",
+      reviewed_by: null,
+      review_note: null,
+      reviewed_at: null,
+      created_at: timestamp(),
+    };
+    this.reviews.push(row);
+    return { ...row };
+  }
+
+  async getPublishReview(reviewId: string): Promise<PublishReviewRow | null> {
+    const review = this.reviews.find((r) => r.id === reviewId);
+    return review ? { ...review } : null;
+  }
+
+  async listPublishReviews(status: PublishReviewRow["status"], page?: Page) {
+    const all = this.reviews.filter((r) => r.status === status);
+    return { items: paginate(all, page).map((r) => ({ ...r })), total: all.length };
+  }
+
+  async decidePublishReview(reviewId: string, decision: ReviewDecision): Promise<PublishReviewRow | null> {
+    const review = this.reviews.find((r) => r.id === reviewId && r.status === "pending");
+    if (!review) return null;
+    Object.assign(review, decision, { reviewed_at: timestamp() });
+    return { ...review };
+  }
+
+  async supersedePublishReviews(projectId: string): Promise<void> {
+    for (const review of this.reviews) {
+      if (review.project_id === projectId && review.status === "pending") review.status = "superseded";
+    }
+  }
+
+  // --- Versions ---
+
+  async listVersions(projectId: string, page?: Page) {
+    const all = [...this.versions.values()]
+      .filter((v) => v.project_id === projectId)
+      .sort((a, b) => b.version_number - a.version_number);
+    return { items: paginate(all, page).map((v) => ({ ...v })), total: all.length };
+  }
+
+  async getVersions(projectId: string, versionIds: string[]): Promise<VersionRow[]> {
+    return versionIds
+      .map((id) => this.versions.get(id))
+      .filter((v): v is VersionRow => v !== undefined && v.project_id === projectId)
+      .map((v) => ({ ...v }));
+  }
+
+  async pruneVersions(projectId: string, keep: number): Promise<number> {
+    const project = this.requireProject(projectId);
+    const published = [...this.versions.values()]
+      .filter((v) => v.project_id === projectId && !v.is_draft)
+      .sort((a, b) => b.version_number - a.version_number);
+
+    const doomed = published
+      .slice(keep)
+      .filter((v) => v.id !== project.active_version_id && v.id !== project.draft_version_id);
+    for (const version of doomed) {
+      this.files.delete(version.id);
+      this.versions.delete(version.id);
+      // Like the foreign key's "on delete set null"
+      for (const fork of this.projects.values()) {
+        if (fork.forked_from_version_id === version.id) fork.forked_from_version_id = null;
+      }
+    }
+    return doomed.length;
+  }
+
+  // --- Files ---
+
+  async listFiles(versionId: string): Promise<FileInfo[]> {
+    return [...(this.files.get(versionId)?.values() ?? [])].map((f) => ({
+      file_path: f.file_path,
+      content_type: f.content_type,
+      encoding: f.encoding,
+      size: f.size,
+    }));
+  }
+
+  async getFiles(versionId: string, paths?: string[]): Promise<StoredFile[]> {
+    const files = [...(this.files.get(versionId)?.values() ?? [])];
+    return files.filter((f) => !paths || paths.includes(f.file_path)).map((f) => ({ ...f }));
+  }
+
+  async putFiles(versionId: string, files: StoredFile[], options: { replaceAll?: boolean } = {}): Promise<void> {
+    this.touchFiles(versionId);
+    const stored = this.versionFiles(versionId);
+    if (options.replaceAll) stored.clear();
+    for (const file of files) {
+      stored.set(file.file_path, { ...file });
+    }
+  }
+
+  async deleteFiles(versionId: string, paths: string[]): Promise<number> {
+    this.touchFiles(versionId);
+    const stored = this.files.get(versionId);
+    return stored ? paths.filter((path) => stored.delete(path)).length : 0;
+  }
+
+  async storageKeysInUse(keys: string[]): Promise<string[]> {
+    const used = new Set([...this.files.values()].flatMap((files) => [...files.values()].map((f) => f.storage_key)));
+    return keys.filter((key) => used.has(key));
+  }
+
+  // --- Atomic operations ---
+
+  async publish(projectId: string, options: PublishOptions): Promise<PublishResult> {
+    const project = this.lockDraft(projectId, options);
+    if (options.expectedDraftRevision !== undefined && project.draft_revision !== options.expectedDraftRevision) {
+      throw new ServiceError("conflict", "The draft changed while it was being published, so it wasn't. Publish again.");
+    }
+    if (options.approveReview) {
+      const { id, ...decision } = options.approveReview;
+      const review = this.reviews.find((r) => r.id === id && r.project_id === projectId && r.status === "pending");
+      if (!review) {
+        throw new ServiceError("conflict", "Someone else decided this review first.");
+      }
+      Object.assign(review, decision, { status: "approved", reviewed_at: timestamp() });
+    }
+    const publishedId = project.draft_version_id!;
+
+    const published = this.versions.get(publishedId)!;
+    published.is_draft = false;
+    published.message = options.message ?? "Published";
+
+    const nextNumber = Math.max(...(await this.listVersions(projectId)).items.map((v) => v.version_number)) + 1;
+    const draft = this.addVersion(projectId, nextNumber, "Draft");
+    this.copyFiles(publishedId, draft.id);
+
+    Object.assign(project, {
+      active_version_id: publishedId,
+      draft_version_id: draft.id,
+      status: "published",
+      revision: project.revision + 1,
+      updated_at: timestamp(),
+    });
+
+    return {
+      published_version_id: publishedId,
+      version_number: published.version_number,
+      new_draft_version_id: draft.id,
+      revision: project.revision,
+    };
+  }
+
+  async rollback(projectId: string, versionId: string, options: AtomicOptions): Promise<RollbackResult> {
+    const project = this.lockDraft(projectId, options);
+
+    const version = this.versions.get(versionId);
+    if (!version || version.project_id !== projectId) {
+      throw new ServiceError("not_found", "Version not found or doesn't belong to this project.");
+    }
+    if (versionId === project.draft_version_id) {
+      return { version_number: version.version_number, files_copied: 0, revision: project.revision };
+    }
+
+    this.files.delete(project.draft_version_id!);
+    const copied = this.copyFiles(versionId, project.draft_version_id!);
+
+    project.revision += 1;
+    project.draft_revision += 1;
+    project.updated_at = timestamp();
+
+    return { version_number: version.version_number, files_copied: copied, revision: project.revision };
+  }
+
+  async deleteProject(projectId: string, options: AtomicOptions): Promise<void> {
+    this.lockForUpdate(projectId, options, ["owner"]);
+
+    for (const version of [...this.versions.values()]) {
+      if (version.project_id !== projectId) continue;
+      this.files.delete(version.id);
+      this.versions.delete(version.id);
+    }
+    this.projects.delete(projectId);
+    this.members.delete(projectId);
+    this.activity = this.activity.filter((e) => e.project_id !== projectId);
+    this.collections.delete(projectId);
+    this.documents = this.documents.filter((d) => d.project_id !== projectId);
+    this.formSubmissions = this.formSubmissions.filter((s) => s.project_id !== projectId);
+    this.analytics = this.analytics.filter((a) => a.project_id !== projectId);
+    this.domains = this.domains.filter((d) => d.project_id !== projectId);
+    this.reports = this.reports.filter((r) => r.project_id !== projectId);
+    this.reviews = this.reviews.filter((r) => r.project_id !== projectId);
+    for (const key of this.visitors) {
+      if (key.startsWith(`${projectId}:`)) this.visitors.delete(key);
+    }
+
+    // Forks keep existing but lose their lineage, like the foreign keys' "on delete set null"
+    for (const project of this.projects.values()) {
+      if (project.forked_from_project_id === projectId) {
+        project.forked_from_project_id = null;
+        project.forked_from_version_id = null;
+      }
+    }
+  }
+
+  // --- Helpers ---
+
+  private requireProject(projectId: string): ProjectRow {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+    return project;
+  }
+
+  /** The checks the database functions make after locking the row. */
+  private lockForUpdate(projectId: string, options: AtomicOptions, roles: ProjectRole[]): ProjectRow {
+    const project = this.projects.get(projectId);
+    const role = project && options.actorEmail ? this.roleOf(project, options.actorEmail) : null;
+    if (!project || (options.actorEmail && (!role || !roles.includes(role)))) {
+      throw new ServiceError("not_found", "Project not found");
+    }
+    if (options.expectedRevision !== undefined && project.revision !== options.expectedRevision) {
+      throw ServiceError.revisionConflict();
+    }
+    return project;
+  }
+
+  /** The checks publish_project and rollback_project make. */
+  private lockDraft(projectId: string, options: AtomicOptions): ProjectRow {
+    const project = this.lockForUpdate(projectId, options, ["owner", "editor"]);
+    if (!project.draft_version_id) {
+      throw new ServiceError("not_found", "No draft version found for this project.");
+    }
+    return project;
+  }
+
+  /** Like the track_file_changes trigger on project_files. */
+  private touchFiles(versionId: string) {
+    for (const project of this.projects.values()) {
+      if (project.active_version_id === versionId) {
+        throw new ServiceError("conflict", "The draft was published while these files were being saved, so they weren't. Save them again.");
+      }
+      if (project.draft_version_id === versionId) project.draft_revision += 1;
+    }
+  }
+
+  /** Like the project_role database function. */
+  private roleOf(project: ProjectRow, email: string): ProjectRole | null {
+    if (project.owner_email === email.toLowerCase()) return "owner";
+    return this.members.get(project.id)?.get(email.toLowerCase())?.role ?? null;
+  }
+
+  private assertSlugFree(slug: string) {
+    if ([...this.projects.values()].some((p) => p.slug === slug)) {
+      throw ServiceError.slugTaken(slug);
+    }
+  }
+
+  private addVersion(projectId: string, versionNumber: number, message: string): VersionRow {
+    const version: VersionRow = {
+      id: crypto.randomUUID(),
+      project_id: projectId,
+      version_number: versionNumber,
+      message,
+      is_draft: true,
+      created_at: timestamp(),
+    };
+    this.versions.set(version.id, version);
+    return version;
+  }
+
+  private copyFiles(fromVersionId: string, toVersionId: string): number {
+    const source = this.files.get(fromVersionId) ?? new Map<string, StoredFile>();
+    const target = this.versionFiles(toVersionId);
+    for (const [path, file] of source) {
+      target.set(path, { ...file });
+    }
+    return source.size;
+  }
+
+  private versionFiles(versionId: string): Map<string, StoredFile> {
+    let files = this.files.get(versionId);
+    if (!files) {
+      files = new Map();
+      this.files.set(versionId, files);
+    }
+    return files;
+  }
+}
+
+function inScope(document: DocumentRow, scope: DataScope): boolean {
+  return (
+    document.project_id === scope.projectId &&
+    document.environment === scope.environment &&
+    document.collection === scope.collection
+  );
+}
+
+function copyDocument(document: DocumentRow): DocumentRow {
+  return { ...document, data: structuredClone(document.data) };
+}
+
+function matchesReport(report: AbuseReportRow, filter: ReportFilter): boolean {
+  return (
+    (filter.status === undefined || report.status === filter.status) &&
+    (filter.projectId === undefined || report.project_id === filter.projectId)
+  );
+}
+
+function paginate<T>(items: T[], page?: Page): T[] {
+  return page ? items.slice(page.offset, page.offset + page.limit) : items;
+}
+
+/** ISO timestamps that stay strictly increasing, so "newest first" is stable within one millisecond. */
+let lastTimestamp = 0;
+function timestamp(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
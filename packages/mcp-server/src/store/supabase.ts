@@ -0,0 +1,904 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { StoredFile } from "../files";
+import { ServiceError } from "../services/errors";
+import type {
+  AbuseReportRow,
+  ActivityRow,
+  AnalyticsRow,
+  CollectionRow,
+  DataEnvironment,
+  DocumentRow,
+  DomainRow,
+  Env,
+  FormSubmissionRow,
+  MemberRow,
+  ProjectRole,
+  ProjectRow,
+  PublishReviewRow,
+  VersionRow,
+} from "../types";
+import type {
+  ActivityFilter,
+  AtomicOptions,
+  DataScope,
+  FileInfo,
+  FormSubmissionFilter,
+  NewActivity,
+  NewCollection,
+  NewDomain,
+  NewFormSubmission,
+  NewProject,
+  NewPublishReview,
+  NewReport,
+  Page,
+  PageView,
+  ProjectStore,
+  ProjectSummary,
+  ProjectUpdate,
+  PublishOptions,
+  PublishResult,
+  ReportFilter,
+  ReviewDecision,
+  RollbackResult,
+  Usage,
+} from "./index";
+
+const FILE_COLUMNS = "file_path, content, content_type, encoding, size, storage_key";
+
+/** ProjectStore backed by the Supabase tables and database functions in supabase/migrations. */
+export class SupabaseProjectStore implements ProjectStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  static fromEnv(env: Env): SupabaseProjectStore {
+    if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) {
+      throw new Error("Server misconfiguration: missing database credentials");
+    }
+    return new SupabaseProjectStore(createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY));
+  }
+
+  // --- Projects ---
+
+  async getProject(projectId: string, ownerEmail: string | null): Promise<ProjectRow | null> {
+    let query = this.supabase.from("projects").select("*").eq("id", projectId);
+    if (ownerEmail) {
+      query = query.eq("owner_email", ownerEmail.toLowerCase());
+    }
+
+    const { data, error } = await query.maybeSingle();
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading project");
+    }
+    return data as ProjectRow | null;
+  }
+
+  async getProjectBySlug(slug: string): Promise<ProjectRow | null> {
+    const { data, error } = await this.supabase.from("projects").select("*").eq("slug", slug).maybeSingle();
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading project");
+    }
+    return data as ProjectRow | null;
+  }
+
+  async listProjects(memberEmail: string | null, page?: Page) {
+    let query = this.supabase
+      .from("projects")
+      .select("id, name, slug, description, status, owner_email, created_at, updated_at", { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    // Owned projects match owner_email; shared ones are looked up in project_members first
+    const shared = new Map<string, ProjectRole>();
+    const email = memberEmail?.toLowerCase();
+    if (email) {
+      const { data: memberships, error } = await this.supabase
+        .from("project_members")
+        .select("project_id, role")
+        .eq("email", email);
+      if (error) {
+        throw ServiceError.fromDatabase(error, "Error listing projects");
+      }
+      for (const m of memberships ?? []) {
+        shared.set(m.project_id, m.role);
+      }
+
+      const filters = [`owner_email.eq.${filterValue(email)}`];
+      if (shared.size > 0) {
+        filters.push(`id.in.(${[...shared.keys()].join(",")})`);
+      }
+      query = query.or(filters.join(","));
+    }
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing projects");
+    }
+
+    const items: ProjectSummary[] = (data ?? []).map(({ owner_email, ...p }) => ({
+      ...p,
+      role: !email || owner_email === email ? "owner" : shared.get(p.id)!,
+    }));
+    return { items, total: count ?? items.length };
+  }
+
+  async createProject(input: NewProject): Promise<ProjectRow> {
+    const { data: project, error: projectError } = await this.supabase
+      .from("projects")
+      .insert(input)
+      .select()
+      .single();
+
+    if (projectError) {
+      throw slugError(projectError, input.slug) ?? ServiceError.fromDatabase(projectError, "Error creating project");
+    }
+
+    const { data: version, error: versionError } = await this.supabase
+      .from("project_versions")
+      .insert({
+        project_id: project.id,
+        version_number: 1,
+        message: "Initial version",
+        is_draft: true,
+      })
+      .select()
+      .single();
+
+    if (versionError) {
+      throw ServiceError.fromDatabase(versionError, "Project created but failed to create initial version");
+    }
+
+    await this.supabase
+      .from("projects")
+      .update({ draft_version_id: version.id })
+      .eq("id", project.id);
+
+    return { ...(project as ProjectRow), draft_version_id: version.id as string };
+  }
+
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<ProjectRow> {
+    const { data, error } = await this.supabase
+      .from("projects")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", projectId)
+      .select("*")
+      .single();
+
+    if (error) {
+      throw slugError(error, updates.slug) ?? ServiceError.fromDatabase(error, "Error updating settings");
+    }
+    return data as ProjectRow;
+  }
+
+  async getUsage(ownerEmail: string): Promise<Usage> {
+    const { data, error } = await this.supabase.rpc("owner_usage", { p_owner_email: ownerEmail });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error checking usage");
+    }
+    return data as Usage;
+  }
+
+  // --- Members ---
+
+  async getRole(projectId: string, email: string): Promise<ProjectRole | null> {
+    const { data, error } = await this.supabase.rpc("project_role", { p_project_id: projectId, p_email: email });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error checking access");
+    }
+    return (data as ProjectRole | null) ?? null;
+  }
+
+  async listMembers(projectId: string): Promise<MemberRow[]> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at");
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing members");
+    }
+    return (data ?? []) as MemberRow[];
+  }
+
+  async putMember(member: Omit<MemberRow, "created_at">): Promise<MemberRow> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .upsert(member, { onConflict: "project_id,email" })
+      .select()
+      .single();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving member");
+    }
+    return data as MemberRow;
+  }
+
+  async deleteMember(projectId: string, email: string): Promise<boolean> {
+    const { error, count } = await this.supabase
+      .from("project_members")
+      .delete({ count: "exact" })
+      .eq("project_id", projectId)
+      .eq("email", email);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error removing member");
+    }
+    return (count ?? 0) > 0;
+  }
+
+  // --- Activity ---
+
+  async addActivity(event: NewActivity): Promise<void> {
+    const { error } = await this.supabase.from("project_activity").insert(event);
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error recording activity");
+    }
+  }
+
+  async listActivity(projectId: string, filter: ActivityFilter, page?: Page) {
+    let query = this.supabase
+      .from("project_activity")
+      .select("*", { count: "exact" })
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false });
+
+    if (filter.since) {
+      query = query.gte("created_at", filter.since);
+    }
+    if (filter.until) {
+      query = query.lt("created_at", filter.until);
+    }
+    if (filter.actorEmail) {
+      query = query.eq("actor_email", filter.actorEmail);
+    }
+    if (filter.actions) {
+      query = query.in("action", filter.actions);
+    }
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading activity");
+    }
+
+    const items = (data ?? []) as ActivityRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  // --- App data ---
+
+  async listCollections(projectId: string): Promise<CollectionRow[]> {
+    const { data, error } = await this.supabase
+      .from("data_collections")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("name");
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing collections");
+    }
+    return (data ?? []) as CollectionRow[];
+  }
+
+  async getCollection(projectId: string, name: string): Promise<CollectionRow | null> {
+    const { data, error } = await this.supabase
+      .from("data_collections")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("name", name)
+      .maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading collection");
+    }
+    return data as CollectionRow | null;
+  }
+
+  async putCollection(collection: NewCollection): Promise<CollectionRow> {
+    const { data, error } = await this.supabase
+      .from("data_collections")
+      .upsert({ ...collection, updated_at: new Date().toISOString() }, { onConflict: "project_id,name" })
+      .select()
+      .single();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving collection");
+    }
+    return data as CollectionRow;
+  }
+
+  async deleteCollection(projectId: string, name: string): Promise<boolean> {
+    // Documents go with it (on delete cascade)
+    const { error, count } = await this.supabase
+      .from("data_collections")
+      .delete({ count: "exact" })
+      .eq("project_id", projectId)
+      .eq("name", name);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error deleting collection");
+    }
+    return (count ?? 0) > 0;
+  }
+
+  async listDocuments(scope: DataScope, page?: Page) {
+    let query = this.supabase
+      .from("data_documents")
+      .select("*", { count: "exact" })
+      .eq("project_id", scope.projectId)
+      .eq("environment", scope.environment)
+      .eq("collection", scope.collection)
+      .order("created_at", { ascending: false });
+
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing documents");
+    }
+
+    const items = (data ?? []) as DocumentRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  async countDocuments(scope: DataScope): Promise<number> {
+    const { error, count } = await this.supabase
+      .from("data_documents")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", scope.projectId)
+      .eq("environment", scope.environment)
+      .eq("collection", scope.collection);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error counting documents");
+    }
+    return count ?? 0;
+  }
+
+  async getDocument(scope: DataScope, id: string): Promise<DocumentRow | null> {
+    const { data, error } = await this.supabase
+      .from("data_documents")
+      .select("*")
+      .eq("project_id", scope.projectId)
+      .eq("environment", scope.environment)
+      .eq("collection", scope.collection)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading document");
+    }
+    return data as DocumentRow | null;
+  }
+
+  async insertDocument(scope: DataScope, data: Record<string, unknown>): Promise<DocumentRow> {
+    const { data: row, error } = await this.supabase
+      .from("data_documents")
+      .insert({ project_id: scope.projectId, environment: scope.environment, collection: scope.collection, data })
+      .select()
+      .single();
+
+    if (error) {
+      // 23503 = foreign_key_violation: the collection was deleted meanwhile
+      if (error.code === "23503") {
+        throw new ServiceError("not_found", "Collection not found");
+      }
+      throw ServiceError.fromDatabase(error, "Error saving document");
+    }
+    return row as DocumentRow;
+  }
+
+  async updateDocument(scope: DataScope, id: string, data: Record<string, unknown>): Promise<DocumentRow | null> {
+    const { data: row, error } = await this.supabase
+      .from("data_documents")
+      .update({ data, updated_at: new Date().toISOString() })
+      .eq("project_id", scope.projectId)
+      .eq("environment", scope.environment)
+      .eq("collection", scope.collection)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving document");
+    }
+    return row as DocumentRow | null;
+  }
+
+  async deleteDocuments(scope: DataScope, ids: string[]): Promise<number> {
+    const { error, count } = await this.supabase
+      .from("data_documents")
+      .delete({ count: "exact" })
+      .eq("project_id", scope.projectId)
+      .eq("environment", scope.environment)
+      .eq("collection", scope.collection)
+      .in("id", ids);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error deleting documents");
+    }
+    return count ?? 0;
+  }
+
+  // --- Form submissions ---
+
+  async addFormSubmission(submission: NewFormSubmission): Promise<FormSubmissionRow> {
+    const { data, error } = await this.supabase.from("form_submissions").insert(submission).select().single();
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving form submission");
+    }
+    return data as FormSubmissionRow;
+  }
+
+  async listFormSubmissions(projectId: string, filter: FormSubmissionFilter, page?: Page) {
+    let query = this.supabase
+      .from("form_submissions")
+      .select("*", { count: "exact" })
+      .eq("project_id", projectId)
+      .eq("environment", filter.environment)
+      .order("created_at", { ascending: false });
+
+    if (filter.form) {
+      query = query.eq("form", filter.form);
+    }
+    if (filter.since) {
+      query = query.gte("created_at", filter.since);
+    }
+    if (filter.until) {
+      query = query.lt("created_at", filter.until);
+    }
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading form submissions");
+    }
+
+    const items = (data ?? []) as FormSubmissionRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  async countFormSubmissions(projectId: string, environment: DataEnvironment): Promise<number> {
+    const { error, count } = await this.supabase
+      .from("form_submissions")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", projectId)
+      .eq("environment", environment);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error counting form submissions");
+    }
+    return count ?? 0;
+  }
+
+  // --- Analytics ---
+
+  async recordPageView(view: PageView): Promise<void> {
+    const { error } = await this.supabase.rpc("record_page_view", {
+      p_project_id: view.project_id,
+      p_day: view.day,
+      p_path: view.path,
+      p_referrer_host: view.referrer_host,
+      p_country: view.country,
+      p_device: view.device,
+      p_visitor_hash: view.visitor_hash,
+    });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error recording page view");
+    }
+  }
+
+  async deleteVisitorHashes(before: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc("delete_visitor_hashes", { p_before: before });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error deleting visitor hashes");
+    }
+    return data as number;
+  }
+
+  async listAnalytics(projectId: string, from: string, to: string): Promise<AnalyticsRow[]> {
+    const { data, error } = await this.supabase
+      .from("analytics_daily")
+      .select("*")
+      .eq("project_id", projectId)
+      .gte("day", from)
+      .lte("day", to)
+      .order("day", { ascending: true });
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading analytics");
+    }
+    return (data ?? []) as AnalyticsRow[];
+  }
+
+  // --- Domains ---
+
+  async listDomains(projectId: string): Promise<DomainRow[]> {
+    const { data, error } = await this.supabase
+      .from("project_domains")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading domains");
+    }
+    return (data ?? []) as DomainRow[];
+  }
+
+  async getProjectByDomain(hostname: string): Promise<ProjectRow | null> {
+    const { data, error } = await this.supabase
+      .from("project_domains")
+      .select("project:projects(*)")
+      .eq("hostname", hostname)
+      .not("verified_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading domain");
+    }
+    return (data as { project: ProjectRow | null } | null)?.project ?? null;
+  }
+
+  async addDomain(domain: NewDomain): Promise<DomainRow> {
+    const { data, error } = await this.supabase.from("project_domains").insert(domain).select().single();
+
+    if (error) {
+      if (error.code === "23505") {
+        throw new ServiceError("conflict", `This project has already added ${domain.hostname}.`);
+      }
+      throw ServiceError.fromDatabase(error, "Error saving domain");
+    }
+    return data as DomainRow;
+  }
+
+  async verifyDomain(projectId: string, hostname: string): Promise<DomainRow> {
+    const { data, error } = await this.supabase
+      .from("project_domains")
+      .update({ verified_at: new Date().toISOString() })
+      .eq("project_id", projectId)
+      .eq("hostname", hostname)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      // 23505 = unique_violation: another project has the hostname verified
+      if (error.code === "23505") {
+        throw new ServiceError("conflict", `${hostname} is already in use by another app.`);
+      }
+      throw ServiceError.fromDatabase(error, "Error verifying domain");
+    }
+    if (!data) {
+      throw new ServiceError("not_found", "Domain not found");
+    }
+    return data as DomainRow;
+  }
+
+  async deleteDomain(projectId: string, hostname: string): Promise<boolean> {
+    const { error, count } = await this.supabase
+      .from("project_domains")
+      .delete({ count: "exact" })
+      .eq("project_id", projectId)
+      .eq("hostname", hostname);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error removing domain");
+    }
+    return (count ?? 0) > 0;
+  }
+
+  // --- Abuse ---
+
+  async addReport(report: NewReport): Promise<AbuseReportRow> {
+    const { data, error } = await this.supabase.from("abuse_reports").insert(report).select().single();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving report");
+    }
+    return data as AbuseReportRow;
+  }
+
+  async listReports(filter: ReportFilter, page?: Page) {
+    let query = this.supabase
+      .from("abuse_reports")
+      .select("*", { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (filter.status) {
+      query = query.eq("status", filter.status);
+    }
+    if (filter.projectId) {
+      query = query.eq("project_id", filter.projectId);
+    }
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading reports");
+    }
+
+    const items = (data ?? []) as AbuseReportRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  async resolveReports(filter: ReportFilter & { id?: string }, status: "dismissed" | "actioned", resolvedBy: string) {
+    let query = this.supabase
+      .from("abuse_reports")
+      .update({ status, resolved_by: resolvedBy, resolved_at: new Date().toISOString() }, { count: "exact" })
+      .eq("status", "open");
+
+    if (filter.id) {
+      query = query.eq("id", filter.id);
+    }
+    if (filter.projectId) {
+      query = query.eq("project_id", filter.projectId);
+    }
+
+    const { error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error resolving reports");
+    }
+    return count ?? 0;
+  }
+
+  async addPublishReview(review: NewPublishReview): Promise<PublishReviewRow> {
+    const { data, error } = await this.supabase.from("publish_reviews").insert(review).select().single();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving review");
+    }
+    return data as PublishReviewRow;
+  }
+
+  async getPublishReview(reviewId: string): Promise<PublishReviewRow | null> {
+    const { data, error } = await this.supabase.from("publish_reviews").select("*").eq("id", reviewId).maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading review");
+    }
+    return data as PublishReviewRow | null;
+  }
+
+  async listPublishReviews(status: PublishReviewRow["status"], page?: Page) {
+    let query = this.supabase
+      .from("publish_reviews")
+      .select("*", { count: "exact" })
+      .eq("status", status)
+      .order("created_at", { ascending: true });
+
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error loading reviews");
+    }
+
+    const items = (data ?? []) as PublishReviewRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  async decidePublishReview(reviewId: string, decision: ReviewDecision): Promise<PublishReviewRow | null> {
+    // Only a pending review changes, so two admins deciding at once can't both win
+    const { data, error } = await this.supabase
+      .from("publish_reviews")
+      .update({ ...decision, reviewed_at: new Date().toISOString() })
+      .eq("id", reviewId)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error saving review");
+    }
+    return data as PublishReviewRow | null;
+  }
+
+  async supersedePublishReviews(projectId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("publish_reviews")
+      .update({ status: "superseded" })
+      .eq("project_id", projectId)
+      .eq("status", "pending");
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error updating reviews");
+    }
+  }
+
+  // --- Versions ---
+
+  async listVersions(projectId: string, page?: Page) {
+    let query = this.supabase
+      .from("project_versions")
+      .select("*", { count: "exact" })
+      .eq("project_id", projectId)
+      .order("version_number", { ascending: false });
+
+    if (page) {
+      query = query.range(page.offset, page.offset + page.limit - 1);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing versions");
+    }
+
+    const items = (data ?? []) as VersionRow[];
+    return { items, total: count ?? items.length };
+  }
+
+  async getVersions(projectId: string, versionIds: string[]): Promise<VersionRow[]> {
+    const { data, error } = await this.supabase
+      .from("project_versions")
+      .select("*")
+      .eq("project_id", projectId)
+      .in("id", versionIds);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error reading versions");
+    }
+    return (data ?? []) as VersionRow[];
+  }
+
+  async pruneVersions(projectId: string, keep: number): Promise<number> {
+    const { data, error } = await this.supabase.rpc("prune_versions", { p_project_id: projectId, p_keep: keep });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error deleting old versions");
+    }
+    return data as number;
+  }
+
+  // --- Files ---
+
+  async listFiles(versionId: string): Promise<FileInfo[]> {
+    const { data, error } = await this.supabase
+      .from("project_files")
+      .select("file_path, content_type, encoding, size")
+      .eq("version_id", versionId);
+
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error listing files");
+    }
+    return (data ?? []) as FileInfo[];
+  }
+
+  async getFiles(versionId: string, paths?: string[]): Promise<StoredFile[]> {
+    let query = this.supabase.from("project_files").select(FILE_COLUMNS).eq("version_id", versionId);
+    if (paths) {
+      query = query.in("file_path", paths);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error reading files");
+    }
+    return (data ?? []) as StoredFile[];
+  }
+
+  async putFiles(versionId: string, files: StoredFile[], options: { replaceAll?: boolean } = {}): Promise<void> {
+    if (files.length === 0 && !options.replaceAll) return;
+
+    // One transaction, so a failed save leaves the old files in place
+    const { error } = await this.supabase.rpc("put_files", {
+      p_version_id: versionId,
+      p_files: files,
+      p_replace_all: options.replaceAll ?? false,
+    });
+
+    if (error) {
+      throw rpcError(error, "Error saving files");
+    }
+  }
+
+  async deleteFiles(versionId: string, paths: string[]): Promise<number> {
+    const { error, count } = await this.supabase
+      .from("project_files")
+      .delete({ count: "exact" })
+      .eq("version_id", versionId)
+      .in("file_path", paths);
+
+    if (error) {
+      throw rpcError(error, "Error deleting files");
+    }
+    return count ?? 0;
+  }
+
+  async storageKeysInUse(keys: string[]): Promise<string[]> {
+    if (keys.length === 0) return [];
+
+    const { data, error } = await this.supabase.rpc("storage_keys_in_use", { p_keys: keys });
+    if (error) {
+      throw ServiceError.fromDatabase(error, "Error checking stored files");
+    }
+    return (data ?? []) as string[];
+  }
+
+  // --- Atomic operations ---
+
+  async publish(projectId: string, options: PublishOptions): Promise<PublishResult> {
+    const { data, error } = await this.supabase.rpc("publish_project", {
+      p_project_id: projectId,
+      p_actor_email: options.actorEmail,
+      p_expected_revision: options.expectedRevision ?? null,
+      p_message: options.message ?? null,
+      p_expected_draft_revision: options.expectedDraftRevision ?? null,
+      p_review_id: options.approveReview?.id ?? null,
+      p_reviewed_by: options.approveReview?.reviewed_by ?? null,
+      p_review_note: options.approveReview?.review_note ?? null,
+    });
+
+    if (error) {
+      throw rpcError(error, "Error publishing");
+    }
+    return data as PublishResult;
+  }
+
+  async rollback(projectId: string, versionId: string, options: AtomicOptions): Promise<RollbackResult> {
+    const { data, error } = await this.supabase.rpc("rollback_project", {
+      p_project_id: projectId,
+      p_actor_email: options.actorEmail,
+      p_expected_revision: options.expectedRevision ?? null,
+      p_version_id: versionId,
+    });
+
+    if (error) {
+      throw rpcError(error, "Error rolling back");
+    }
+    return data as RollbackResult;
+  }
+
+  async deleteProject(projectId: string, options: AtomicOptions): Promise<void> {
+    const { error } = await this.supabase.rpc("delete_project", {
+      p_project_id: projectId,
+      p_actor_email: options.actorEmail,
+      p_expected_revision: options.expectedRevision ?? null,
+    });
+
+    if (error) {
+      throw rpcError(error, "Error deleting project");
+    }
+  }
+}
+
+/** Quotes a value for a PostgREST filter string such as or=(...). */
+function filterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/** 23505 = unique_violation, which on projects means the slug is taken. */
+function slugError(error: { code?: string }, slug: string | undefined): ServiceError | null {
+  return error.code === "23505" ? ServiceError.slugTaken(slug) : null;
+}
+
+/** Turns an error raised by one of our database functions into a ServiceError the caller can act on. */
+function rpcError(error: { message: string }, context: string): ServiceError {
+  switch (error.message) {
+    case "project_not_found":
+      return new ServiceError("not_found", "Project not found");
+    case "version_not_found":
+      return new ServiceError("not_found", "Version not found or doesn't belong to this project.");
+    case "no_draft":
+      return new ServiceError("not_found", "No draft version found for this project.");
+    case "revision_conflict":
+      return ServiceError.revisionConflict();
+    case "draft_changed":
+      return new ServiceError("conflict", "The draft changed while it was being published, so it wasn't. Publish again.");
+    case "review_decided":
+      return new ServiceError("conflict", "Someone else decided this review first.");
+    case "version_live":
+      return new ServiceError("conflict", "The draft was published while these files were being saved, so they weren't. Save them again.");
+    default:
+      return ServiceError.fromDatabase(error, context);
+  }
+}
@@ -0,0 +1,46 @@
+import type { Template } from "./index";
+
+export const blank: Template = {
+  id: "blank",
+  name: "Blank HTML",
+  description: "A single empty HTML page with a stylesheet. Start here when nothing else fits.",
+  files: [
+    {
+      file_path: "index.html",
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{project_name}}</title>
+  <meta name="description" content="{{project_description}}">
+  <link rel="stylesheet" href="style.css">
+</head>
+<body>
+  <main>
+    <h1>{{project_name}}</h1>
+  </main>
+</body>
+</html>
+`,
+    },
+    {
+      file_path: "style.css",
+      content: `*, *::before, *::after { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.5;
+  color: #1a1a1a;
+}
+
+main {
+  max-width: 48rem;
+  margin: 0 auto;
+  padding: 2rem 1rem;
+}
+`,
+    },
+  ],
+};
@@ -0,0 +1,63 @@
+import { escapeHtml } from "../html";
+import { blank } from "./blank";
+import { landingPage } from "./landing-page";
+import { portfolio } from "./portfolio";
+
+/**
+ * Starter templates for create_project.
+ *
+ * A template is plain data: a list of files whose content may contain
+ * placeholders ({{project_name}}, {{project_description}}, {{year}}).
+ * To add one, create a file in this folder and add it to the list below.
+ */
+export interface Template {
+  id: string;
+  name: string;
+  description: string;
+  files: { file_path: string; content: string }[];
+}
+
+export const templates: Template[] = [blank, landingPage, portfolio];
+
+export function getTemplate(id: string): Template | undefined {
+  return templates.find((t) => t.id === id);
+}
+
+/** Values substituted into a template's placeholders. */
+export interface TemplateValues {
+  project_name: string;
+  project_description: string;
+  year: string;
+}
+
+/** Returns the template's files with placeholders filled in. Values are HTML-escaped in .html files. */
+export function renderTemplate(template: Template, values: TemplateValues): { file_path: string; content: string }[] {
+  return template.files.map((file) => {
+    const isHtml = file.file_path.endsWith(".html");
+    const content = file.content.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+      if (!(key in values)) return match;
+      const value = values[key as keyof TemplateValues];
+      return isHtml ? escapeHtml(value) : value;
+    });
+    return { file_path: file.file_path, content };
+  });
+}
+
+/** Renders the template's files as an indented tree, e.g. "index.html\ncss/\n  style.css". */
+export function fileTree(template: Template): string {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+
+  for (const path of template.files.map((f) => f.file_path).sort()) {
+    const parts = path.split("/");
+    parts.forEach((part, depth) => {
+      const key = parts.slice(0, depth + 1).join("/");
+      if (seen.has(key)) return;
+      seen.add(key);
+      const isDir = depth < parts.length - 1;
+      lines.push(`${"  ".repeat(depth)}${part}${isDir ? "/" : ""}`);
+    });
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,155 @@
+import type { Template } from "./index";
+
+export const landingPage: Template = {
+  id: "landing-page",
+  name: "Landing Page",
+  description: "A one-page business site with a hero, feature list, call to action and footer. Good for products, shops and local businesses.",
+  files: [
+    {
+      file_path: "index.html",
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{project_name}}</title>
+  <meta name="description" content="{{project_description}}">
+  <link rel="stylesheet" href="css/style.css">
+</head>
+<body>
+  <header class="hero">
+    <nav class="container">
+      <span class="logo">{{project_name}}</span>
+      <a class="button" href="#contact">Get in touch</a>
+    </nav>
+    <div class="container hero-body">
+      <h1>{{project_name}}</h1>
+      <p>{{project_description}}</p>
+      <a class="button button-large" href="#features">Learn more</a>
+    </div>
+  </header>
+
+  <main>
+    <section id="features" class="container features">
+      <article>
+        <h2>Feature one</h2>
+        <p>Describe what makes you special.</p>
+      </article>
+      <article>
+        <h2>Feature two</h2>
+        <p>Explain a benefit your customers care about.</p>
+      </article>
+      <article>
+        <h2>Feature three</h2>
+        <p>Give one more reason to choose you.</p>
+      </article>
+    </section>
+
+    <section id="contact" class="cta">
+      <div class="container">
+        <h2>Ready to get started?</h2>
+        <p>Tell visitors how to reach you.</p>
+      </div>
+    </section>
+  </main>
+
+  <footer class="container">
+    <p>&copy; {{year}} {{project_name}}</p>
+  </footer>
+
+  <script src="js/main.js"></script>
+</body>
+</html>
+`,
+    },
+    {
+      file_path: "css/style.css",
+      content: `:root {
+  --accent: #2f6fed;
+  --text: #1a1a1a;
+  --muted: #5b6270;
+}
+
+*, *::before, *::after { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.6;
+  color: var(--text);
+}
+
+.container {
+  max-width: 64rem;
+  margin: 0 auto;
+  padding: 0 1.25rem;
+}
+
+.hero {
+  background: linear-gradient(135deg, #eef3ff, #ffffff);
+  padding-bottom: 4rem;
+}
+
+.hero nav {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding-top: 1.25rem;
+  padding-bottom: 1.25rem;
+}
+
+.logo { font-weight: 700; }
+
+.hero-body { padding-top: 3rem; }
+.hero-body h1 { font-size: clamp(2rem, 6vw, 3.5rem); margin: 0 0 1rem; }
+.hero-body p { font-size: 1.25rem; color: var(--muted); max-width: 36rem; }
+
+.button {
+  display: inline-block;
+  background: var(--accent);
+  color: #fff;
+  padding: 0.5rem 1rem;
+  border-radius: 0.5rem;
+  text-decoration: none;
+}
+
+.button-large { padding: 0.75rem 1.5rem; font-size: 1.1rem; }
+
+.features {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(14rem, 1fr));
+  gap: 2rem;
+  padding-top: 4rem;
+  padding-bottom: 4rem;
+}
+
+.cta {
+  background: var(--accent);
+  color: #fff;
+  padding: 3rem 0;
+  text-align: center;
+}
+
+footer {
+  padding-top: 2rem;
+  padding-bottom: 2rem;
+  color: var(--muted);
+}
+`,
+    },
+    {
+      file_path: "js/main.js",
+      content: `// Smooth-scroll to in-page sections
+document.querySelectorAll('a[href^="#"]').forEach((link) => {
+  link.addEventListener("click", (event) => {
+    const target = document.querySelector(link.getAttribute("href"));
+    if (target) {
+      event.preventDefault();
+      target.scrollIntoView({ behavior: "smooth" });
+    }
+  });
+});
+`,
+    },
+  ],
+};
@@ -0,0 +1,150 @@
+import type { Template } from "./index";
+
+export const portfolio: Template = {
+  id: "portfolio",
+  name: "Portfolio",
+  description: "A personal portfolio with an intro, a project grid, an about page and contact links. Good for freelancers, artists and job seekers.",
+  files: [
+    {
+      file_path: "index.html",
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{project_name}}</title>
+  <meta name="description" content="{{project_description}}">
+  <link rel="stylesheet" href="style.css">
+</head>
+<body>
+  <header class="container">
+    <a class="name" href="index.html">{{project_name}}</a>
+    <nav>
+      <a href="index.html">Work</a>
+      <a href="about.html">About</a>
+    </nav>
+  </header>
+
+  <main class="container">
+    <section class="intro">
+      <h1>{{project_name}}</h1>
+      <p>{{project_description}}</p>
+    </section>
+
+    <section class="grid">
+      <article class="card">
+        <div class="thumb"></div>
+        <h2>Project one</h2>
+        <p>A short description of this piece of work.</p>
+      </article>
+      <article class="card">
+        <div class="thumb"></div>
+        <h2>Project two</h2>
+        <p>A short description of this piece of work.</p>
+      </article>
+      <article class="card">
+        <div class="thumb"></div>
+        <h2>Project three</h2>
+        <p>A short description of this piece of work.</p>
+      </article>
+    </section>
+  </main>
+
+  <footer class="container">
+    <p>&copy; {{year}} {{project_name}} &middot; <a href="mailto:hello@example.com">hello@example.com</a></p>
+  </footer>
+</body>
+</html>
+`,
+    },
+    {
+      file_path: "about.html",
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>About &middot; {{project_name}}</title>
+  <link rel="stylesheet" href="style.css">
+</head>
+<body>
+  <header class="container">
+    <a class="name" href="index.html">{{project_name}}</a>
+    <nav>
+      <a href="index.html">Work</a>
+      <a href="about.html">About</a>
+    </nav>
+  </header>
+
+  <main class="container">
+    <h1>About</h1>
+    <p>Write a few sentences about yourself, your background and what you're looking for.</p>
+  </main>
+
+  <footer class="container">
+    <p>&copy; {{year}} {{project_name}}</p>
+  </footer>
+</body>
+</html>
+`,
+    },
+    {
+      file_path: "style.css",
+      content: `*, *::before, *::after { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.6;
+  color: #222;
+  background: #fafaf7;
+}
+
+a { color: inherit; }
+
+.container {
+  max-width: 60rem;
+  margin: 0 auto;
+  padding: 0 1.25rem;
+}
+
+header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding-top: 1.5rem;
+  padding-bottom: 1.5rem;
+}
+
+header nav a { margin-left: 1rem; text-decoration: none; }
+.name { font-weight: bold; text-decoration: none; }
+
+.intro { padding: 3rem 0; }
+.intro h1 { font-size: clamp(2rem, 5vw, 3rem); margin: 0; }
+.intro p { font-size: 1.2rem; color: #555; }
+
+.grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(16rem, 1fr));
+  gap: 1.5rem;
+  padding-bottom: 3rem;
+}
+
+.card h2 { font-size: 1.2rem; margin: 0.75rem 0 0.25rem; }
+.card p { margin: 0; color: #555; }
+
+.thumb {
+  aspect-ratio: 4 / 3;
+  background: #e6e3da;
+  border-radius: 0.5rem;
+}
+
+footer {
+  padding-top: 2rem;
+  padding-bottom: 2rem;
+  color: #777;
+}
+`,
+    },
+  ],
+};
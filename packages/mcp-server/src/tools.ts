@@ -0,0 +1,1221 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { MAX_ARCHIVE_BYTES } from "./archive";
+import { MAX_EXPORT_TTL_MINUTES } from "./exports";
+import { decodeBase64 } from "./files";
+import { ServiceError } from "./services/errors";
+import type { ProjectService } from "./services/projects";
+import {
+  activityFilterSchema,
+  analyticsRangeSchema,
+  hostnameSchema,
+  collectionNameSchema,
+  collectionRulesSchema,
+  dataEnvironmentSchema,
+  fileEditsSchema,
+  fileInputSchema,
+  filePathSchema,
+  formSubmissionFilterSchema,
+  memberRoleSchema,
+  securitySettingsSchema,
+  settingsSchema,
+  slugSchema,
+} from "./services/schemas";
+import { fileTree, templates } from "./templates";
+import type { Props } from "./types";
+import { PREVIEW_STATE_KEY, PREVIEW_TOOL_META } from "./widget";
+
+/** What the tools need from whoever hosts them (ShappsMCP in production, a test harness in tests). */
+export interface ToolDeps {
+  /** The signed-in user, or undefined when running without OAuth. */
+  props: () => Props | undefined;
+  /** A ProjectService acting as that user. */
+  projects: () => ProjectService;
+  /** Counts a tool call against the user's rate limit, throwing a LimitError when it's used up. */
+  checkRate: () => Promise<void>;
+  /** Told after a tool changes a project, so resource subscribers can be notified (see registerResources). */
+  onProjectChange?: (change: ProjectChange) => void;
+}
+
+export interface ProjectChange {
+  projectId: string;
+  /** Draft files that changed; undefined when any of them may have. */
+  paths?: string[];
+  /** Whether files or projects may have been added or removed, or renamed. */
+  listChanged: boolean;
+}
+
+// Annotations tell clients (and the Claude and ChatGPT directories) what a tool may change.
+// Every tool works only on Shapps' own data, so none of them is open-world.
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false } as const;
+const ADDITIVE = { readOnlyHint: false, destructiveHint: false, openWorldHint: false } as const;
+const DESTRUCTIVE = { readOnlyHint: false, destructiveHint: true, openWorldHint: false } as const;
+
+// --- Output schemas shared by several tools ---
+
+const roleSchema = z.enum(["owner", "editor", "viewer"]);
+
+const fileInfoSchema = z.object({
+  file_path: z.string(),
+  content_type: z.string(),
+  encoding: z.enum(["utf8", "base64"]),
+  size: z.number(),
+});
+
+const collectionSchema = z.object({
+  name: z.string(),
+  public_read: z.boolean(),
+  public_write: z.enum(["none", "create", "all"]),
+  schema: z.record(z.string(), z.unknown()).nullable(),
+  url: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const domainSchema = z.object({
+  hostname: z.string(),
+  verified: z.boolean(),
+  verified_at: z.string().nullable(),
+  url: z.string(),
+  dns_records: z.array(z.object({ type: z.string(), name: z.string(), value: z.string() })),
+  created_at: z.string(),
+});
+
+const versionRefSchema = z.object({
+  version_id: z.string(),
+  version_number: z.number(),
+  message: z.string().nullable(),
+});
+
+/**
+ * Registers every Shapps tool on an MCP server. Project logic lives in ProjectService
+ * (shared with the REST API); tools only shape the results. Each result carries
+ * `structuredContent` matching the tool's output schema, plus text for clients that
+ * only read text: the same data as JSON, or a sentence where that reads better.
+ */
+export function registerTools(server: McpServer, deps: ToolDeps) {
+  // Every tool that touches projects is rate-limited; whoami and list_templates aren't
+  const run = (fn: () => Promise<CallToolResult>) =>
+    runTool(async () => {
+      await deps.checkRate();
+      return fn();
+    });
+  const changed = (change: ProjectChange) => deps.onProjectChange?.(change);
+
+  // Adds the preview widget's data to a result (see widget.ts). The widget is an extra,
+  // so when its data can't be built the result goes out without it.
+  const withPreview = async (
+    result: CallToolResult,
+    projectId: string,
+    link?: { preview_url: string; expires_at: string }
+  ): Promise<CallToolResult> => {
+    try {
+      const preview = await deps.projects().previewState(projectId, link);
+      return { ...result, _meta: { ...result._meta, [PREVIEW_STATE_KEY]: preview } };
+    } catch (err) {
+      console.error("Preview widget state failed", err);
+      return result;
+    }
+  };
+
+  // --- whoami --- (Phase 3: lets user verify their identity)
+  server.registerTool(
+    "whoami",
+    {
+      title: "Who am I",
+      description: "Check who you're signed in as",
+      outputSchema: {
+        email: z.string().nullable(),
+        name: z.string().nullable(),
+        userId: z.string().nullable(),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async () => {
+      const props = deps.props();
+      if (!props?.email) {
+        return structuredResult({ email: null, name: null, userId: null }, "Not authenticated (running without OAuth).");
+      }
+      return structuredResult({ email: props.email, name: props.name, userId: props.userId });
+    }
+  );
+
+  // --- list_templates ---
+  server.registerTool(
+    "list_templates",
+    {
+      title: "List templates",
+      description: "List starter templates that create_project can use, with a preview of each template's files",
+      outputSchema: {
+        templates: z.array(z.object({ id: z.string(), name: z.string(), description: z.string(), file_tree: z.string() })),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async () => {
+      const list = templates.map((t) => ({
+        id: t.id,
+        name: t.name,
+        description: t.description,
+        file_tree: fileTree(t),
+      }));
+      return structuredResult({ templates: list }, list);
+    }
+  );
+
+  // --- create_project ---
+  server.registerTool(
+    "create_project",
+    {
+      title: "Create project",
+      description: "Create a new web app project, optionally starting from a template (see list_templates)",
+      inputSchema: {
+        name: z.string().describe("The name of the project"),
+        slug: slugSchema.describe("URL-friendly slug (lowercase letters, numbers, hyphens)"),
+        description: z.string().optional().describe("A short description of the project"),
+        template: z.string().optional().describe("Template ID from list_templates. If omitted, the project starts with no files."),
+      },
+      outputSchema: {
+        message: z.string(),
+        project_id: z.string(),
+        slug: z.string(),
+        draft_version_id: z.string().nullable(),
+        template: z.string().optional(),
+        files: z.array(z.string()).nullable().optional(),
+      },
+      annotations: { ...ADDITIVE, idempotentHint: false },
+    },
+    async (input) => run(async () => {
+      const { project, template, files } = await deps.projects().createProject(input);
+      changed({ projectId: project.id, listChanged: true });
+      return structuredResult({
+        message: `Project "${project.name}" created successfully!`,
+        project_id: project.id,
+        slug: project.slug,
+        draft_version_id: project.draft_version_id,
+        ...(template ? { template, files } : {}),
+      });
+    })
+  );
+
+  // --- duplicate_project ---
+  server.registerTool(
+    "duplicate_project",
+    {
+      title: "Duplicate project",
+      description:
+        "Copy a version of a project into a new project with its own slug. Works for your own projects, " +
+        "and for other people's apps that are public with show_source enabled (their published version only).",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project to copy"),
+        slug: slugSchema.describe("Slug for the new project"),
+        name: z.string().optional().describe("Name for the new project (defaults to the source's name)"),
+        description: z.string().optional().describe("Description for the new project (defaults to the source's)"),
+        version_id: z.string().uuid().optional().describe(
+          "The version to copy (defaults to the draft of your own project, or the published version of someone else's)"
+        ),
+      },
+      outputSchema: {
+        message: z.string(),
+        project_id: z.string(),
+        slug: z.string(),
+        draft_version_id: z.string().nullable(),
+        forked_from: z.object({ project_id: z.string(), slug: z.string(), version_id: z.string(), version_number: z.number() }),
+      },
+      annotations: { ...ADDITIVE, idempotentHint: false },
+    },
+    async ({ project_id, version_id, ...input }) => run(async () => {
+      const { project, forked_from, files_copied } = await deps.projects().duplicateProject(project_id, {
+        ...input,
+        versionId: version_id,
+      });
+      changed({ projectId: project.id, listChanged: true });
+      return structuredResult({
+        message: `Project "${project.name}" created from ${forked_from.slug} v${forked_from.version_number} (${files_copied} file(s)).`,
+        project_id: project.id,
+        slug: project.slug,
+        draft_version_id: project.draft_version_id,
+        forked_from,
+      });
+    })
+  );
+
+  // --- list_projects ---
+  server.registerTool(
+    "list_projects",
+    {
+      title: "List projects",
+      description: "List your projects and the ones shared with you, with your role on each (owner, editor or viewer)",
+      outputSchema: {
+        projects: z.array(
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            slug: z.string(),
+            description: z.string().nullable(),
+            status: z.string(),
+            created_at: z.string(),
+            updated_at: z.string(),
+            role: roleSchema,
+          })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async () => run(async () => {
+      const { items } = await deps.projects().listProjects();
+      if (items.length === 0) {
+        return structuredResult({ projects: [] }, "No projects found. Use create_project to get started!");
+      }
+      return structuredResult({ projects: items }, items);
+    })
+  );
+
+  // --- get_project ---
+  server.registerTool(
+    "get_project",
+    {
+      title: "Get project",
+      description: "Get project details including its file list and how its app routes URLs to files",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+      },
+      outputSchema: {
+        id: z.string(),
+        name: z.string(),
+        slug: z.string(),
+        description: z.string().nullable(),
+        owner_email: z.string(),
+        is_public: z.boolean(),
+        show_source: z.boolean(),
+        status: z.string(),
+        active_version_id: z.string().nullable(),
+        draft_version_id: z.string().nullable(),
+        routing_mode: z.enum(["static", "spa"]),
+        security: securitySettingsSchema,
+        isolated_origin: z.boolean(),
+        suspended_at: z.string().nullable(),
+        suspension_reason: z.string().nullable(),
+        forked_from_project_id: z.string().nullable(),
+        forked_from_version_id: z.string().nullable(),
+        revision: z.number(),
+        draft_revision: z.number(),
+        created_at: z.string(),
+        updated_at: z.string(),
+        role: roleSchema,
+        routing: z.object({
+          mode: z.enum(["static", "spa"]),
+          not_found_page: z.string(),
+          source: z.enum(["shapps.json", "settings"]),
+          error: z.string().optional(),
+        }),
+        forked_from: z
+          .object({
+            project_id: z.string(),
+            version_id: z.string().nullable(),
+            name: z.string().optional(),
+            slug: z.string().optional(),
+            version_number: z.number().nullable().optional(),
+          })
+          .nullable(),
+        files: z.array(fileInfoSchema),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id }) => run(async () => structuredResult(await deps.projects().getProject(project_id)))
+  );
+
+  // --- read_files ---
+  server.registerTool(
+    "read_files",
+    {
+      title: "Read files",
+      description:
+        "Read file contents from a project. Binary files (images, fonts) return only their metadata unless include_binary is true.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        file_paths: z.array(z.string()).optional().describe("Specific file paths to read. If omitted, reads all files."),
+        include_binary: z.boolean().optional().describe("Also return base64 content for binary files (default false)"),
+      },
+      outputSchema: {
+        files: z.array(
+          z.object({
+            file_path: z.string(),
+            content_type: z.string(),
+            content: z.string().optional(),
+            encoding: z.literal("base64").optional(),
+            size: z.number().optional(),
+          })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, file_paths, include_binary }) => run(async () => {
+      const files = await deps.projects().readFiles(project_id, { paths: file_paths, includeBinary: include_binary });
+      if (files.length === 0) {
+        return structuredResult({ files: [] }, "No files found.");
+      }
+      return structuredResult({ files }, files);
+    })
+  );
+
+  // --- write_files ---
+  server.registerTool(
+    "write_files",
+    {
+      title: "Write files",
+      description:
+        "Create or update files in a project. This saves to the current draft version. " +
+        "For images, fonts and other binary files, send base64 content with encoding 'base64'.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        files: z.array(fileInputSchema).describe("The files to write"),
+      },
+      outputSchema: {
+        files: z.array(z.object({ file_path: z.string(), ok: z.boolean(), error: z.string().optional() })),
+      },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+      _meta: PREVIEW_TOOL_META,
+    },
+    async ({ project_id, files }) => run(async () => {
+      const results = await deps.projects().writeFiles(project_id, files);
+      changed({ projectId: project_id, paths: results.filter((r) => r.ok).map((r) => r.file_path), listChanged: true });
+      const lines = results.map((r) => (r.ok ? `OK ${r.file_path}` : `Failed ${r.file_path}: ${r.error}`));
+      return withPreview(structuredResult({ files: results }, `Files written:\n${lines.join("\n")}`), project_id);
+    })
+  );
+
+  // --- edit_files ---
+  server.registerTool(
+    "edit_files",
+    {
+      title: "Edit files",
+      description:
+        "Make targeted edits to existing files in the draft without re-sending whole files. " +
+        "Each edit is a search/replace block, a line-range replacement, or a unified diff. " +
+        "All edits are checked first; if any fails to apply, nothing is saved.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        files: z.array(fileEditsSchema).min(1).describe("The files to edit"),
+      },
+      outputSchema: {
+        message: z.string(),
+        files: z.array(
+          z.object({ file_path: z.string(), lines_before: z.number(), lines_after: z.number(), diff: z.string() })
+        ),
+      },
+      annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    },
+    async ({ project_id, files }) => run(async () => {
+      const edited = await deps.projects().editFiles(project_id, files);
+      changed({ projectId: project_id, paths: edited.map((f) => f.file_path), listChanged: false });
+      return structuredResult({ message: `Edited ${edited.length} file(s).`, files: edited });
+    })
+  );
+
+  // --- delete_files ---
+  server.registerTool(
+    "delete_files",
+    {
+      title: "Delete files",
+      description: "Remove files from a project's draft version",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        file_paths: z.array(filePathSchema).describe("File paths to delete"),
+      },
+      outputSchema: { deleted: z.number() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, file_paths }) => run(async () => {
+      const count = await deps.projects().deleteFiles(project_id, file_paths);
+      changed({ projectId: project_id, paths: file_paths, listChanged: true });
+      return structuredResult({ deleted: count }, `Deleted ${count} file(s).`);
+    })
+  );
+
+  // ============================================================
+  // Phase 2 tools: publish, get_preview_url, list_versions, rollback
+  // ============================================================
+
+  // --- publish ---
+  server.registerTool(
+    "publish",
+    {
+      title: "Publish",
+      description:
+        "Publish the current draft. Makes it live at /app/:slug and starts a new draft (a copy of what was published) for future edits. " +
+        "Drafts are scanned for phishing and malware first; one that gets flagged is held for review by the Shapps team instead of going live.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        message: z.string().optional().describe("A short note about what changed in this version"),
+        expected_revision: z.number().int().optional().describe(
+          "The project revision you last saw (from get_project). If someone else changed the project since, the publish is rejected."
+        ),
+      },
+      outputSchema: {
+        message: z.string(),
+        live_url: z.string(),
+        version: z.number(),
+        new_draft_version_id: z.string(),
+        revision: z.number(),
+        versions_pruned: z.number().optional(),
+        note: z.string().optional(),
+      },
+      // Replaces what's live, and may delete the oldest published versions
+      annotations: { ...DESTRUCTIVE, idempotentHint: false },
+      _meta: PREVIEW_TOOL_META,
+    },
+    async ({ project_id, message, expected_revision }) => run(async () => {
+      const result = await deps.projects().publish(project_id, { message, expectedRevision: expected_revision });
+      changed({ projectId: project_id, paths: [], listChanged: false });
+      const published = structuredResult({
+        message: "Published successfully!",
+        live_url: result.live_url,
+        version: result.version_number,
+        new_draft_version_id: result.new_draft_version_id,
+        revision: result.revision,
+        ...(result.versions_pruned > 0 ? { versions_pruned: result.versions_pruned } : {}),
+        ...(result.project.is_public
+          ? {}
+          : { note: "This app is private, so only you can see it. Use update_settings with is_public: true to share it." }),
+      });
+      return withPreview(published, project_id);
+    })
+  );
+
+  // --- get_preview_url ---
+  server.registerTool(
+    "get_preview_url",
+    {
+      title: "Get preview link",
+      description:
+        "Get a shareable preview link for a project's current draft. The link carries a signed token " +
+        "that expires and can be revoked with revoke_preview_links.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        expires_in_hours: z.number().int().min(1).max(168).optional().describe("How long the link works (default 24, max 168)"),
+      },
+      outputSchema: { preview_url: z.string(), slug: z.string(), token_id: z.string(), expires_at: z.string() },
+      annotations: { ...ADDITIVE, idempotentHint: false },
+      _meta: PREVIEW_TOOL_META,
+    },
+    async ({ project_id, expires_in_hours }) => run(async () => {
+      const link = await deps.projects().createPreviewLink(project_id, expires_in_hours);
+      return withPreview(structuredResult(link), project_id, link);
+    })
+  );
+
+  // --- revoke_preview_links ---
+  server.registerTool(
+    "revoke_preview_links",
+    {
+      title: "Revoke preview links",
+      description: "Revoke preview links for a project so they stop working. Revokes one link by token_id, or all links if omitted.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        token_id: z.string().uuid().optional().describe("The token_id returned by get_preview_url. If omitted, revokes every preview link."),
+      },
+      outputSchema: { revoked: z.number() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, token_id }) => run(async () => {
+      const revoked = await deps.projects().revokePreviewLinks(project_id, token_id);
+      return structuredResult({ revoked }, `Revoked ${revoked} preview link(s).`);
+    })
+  );
+
+  // --- list_versions ---
+  server.registerTool(
+    "list_versions",
+    {
+      title: "List versions",
+      description: "List all versions for a project, newest first. Shows which is active (live) and which is the current draft.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+      },
+      outputSchema: {
+        versions: z.array(
+          z.object({
+            id: z.string(),
+            version_number: z.number(),
+            message: z.string().nullable(),
+            is_draft: z.boolean(),
+            created_at: z.string(),
+            is_active: z.boolean(),
+            is_current_draft: z.boolean(),
+          })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id }) => run(async () => {
+      const { items } = await deps.projects().listVersions(project_id);
+      return structuredResult({ versions: items }, items);
+    })
+  );
+
+  // --- diff_versions ---
+  server.registerTool(
+    "diff_versions",
+    {
+      title: "Compare versions",
+      description:
+        "Compare two versions of a project and show which files were added, removed or modified. " +
+        "Defaults to comparing the active (live) version with the current draft, i.e. what would go live on publish.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        from_version_id: z.string().uuid().optional().describe("The older version (defaults to the active version)"),
+        to_version_id: z.string().uuid().optional().describe("The newer version (defaults to the current draft)"),
+      },
+      outputSchema: {
+        from: versionRefSchema.nullable(),
+        to: versionRefSchema,
+        summary: z.object({ added: z.number(), removed: z.number(), modified: z.number(), unchanged: z.number() }),
+        files: z.array(
+          z.object({
+            file_path: z.string(),
+            status: z.enum(["added", "removed", "modified"]),
+            diff: z.string().optional(),
+            note: z.string().optional(),
+            size_before: z.number().nullable().optional(),
+            size_after: z.number().nullable().optional(),
+            hash_before: z.string().nullable().optional(),
+            hash_after: z.string().nullable().optional(),
+          })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, from_version_id, to_version_id }) => run(async () =>
+      structuredResult(await deps.projects().diffVersions(project_id, from_version_id, to_version_id))
+    )
+  );
+
+  // --- rollback ---
+  server.registerTool(
+    "rollback",
+    {
+      title: "Roll back",
+      description: "Copy files from a previous version into the current draft. This replaces all files in the draft.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        version_id: z.string().uuid().describe("The version ID to roll back to (get this from list_versions)"),
+        expected_revision: z.number().int().optional().describe(
+          "The project revision you last saw (from get_project). If someone else changed the project since, the rollback is rejected."
+        ),
+      },
+      outputSchema: { message: z.string(), files_copied: z.number(), revision: z.number() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+      _meta: PREVIEW_TOOL_META,
+    },
+    async ({ project_id, version_id, expected_revision }) => run(async () => {
+      const result = await deps.projects().rollback(project_id, version_id, { expectedRevision: expected_revision });
+      changed({ projectId: project_id, listChanged: true });
+      const rolledBack = structuredResult({
+        message: `Rolled back to version ${result.version_number}. Files copied into your current draft.`,
+        files_copied: result.files_copied,
+        revision: result.revision,
+      });
+      return withPreview(rolledBack, project_id);
+    })
+  );
+
+  // --- export_project ---
+  server.registerTool(
+    "export_project",
+    {
+      title: "Export project",
+      description:
+        "Export a version of a project as a zip (files plus a shapps-export.json manifest) and get a short-lived download link.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        version_id: z.string().uuid().optional().describe("The version to export (defaults to the current draft)"),
+        expires_in_minutes: z.number().int().min(1).max(MAX_EXPORT_TTL_MINUTES).optional().describe(
+          `How long the download link works (default 60, max ${MAX_EXPORT_TTL_MINUTES})`
+        ),
+      },
+      outputSchema: {
+        download_url: z.string(),
+        expires_at: z.string(),
+        file_name: z.string(),
+        version_id: z.string(),
+        version_number: z.number(),
+        file_count: z.number(),
+        size: z.number(),
+      },
+      // Writes the zip to storage but leaves the project untouched
+      annotations: { ...ADDITIVE, idempotentHint: false },
+    },
+    async ({ project_id, version_id, expires_in_minutes }) => run(async () =>
+      structuredResult(await deps.projects().exportProject(project_id, { versionId: version_id, expiresInMinutes: expires_in_minutes }))
+    )
+  );
+
+  // --- import_project ---
+  server.registerTool(
+    "import_project",
+    {
+      title: "Import project",
+      description:
+        "Import a zip of a static site (or a Shapps export). Creates a new project, or replaces the draft of project_id. " +
+        `Paths are validated and content types detected from file extensions. Limit: ${MAX_ARCHIVE_BYTES / (1024 * 1024)} MB zipped.`,
+      inputSchema: {
+        zip_base64: z.string().describe("The zip file, base64 encoded"),
+        project_id: z.string().uuid().optional().describe("Replace this project's draft instead of creating a new project"),
+        name: z.string().optional().describe("Name for the new project (defaults to the one in the export manifest)"),
+        slug: slugSchema.optional().describe("Slug for the new project (defaults to the one in the export manifest)"),
+        description: z.string().optional().describe("Description for the new project"),
+      },
+      outputSchema: {
+        message: z.string(),
+        project_id: z.string(),
+        slug: z.string(),
+        draft_version_id: z.string().nullable(),
+        created: z.boolean(),
+        files_imported: z.number(),
+        skipped: z.array(z.string()).optional(),
+      },
+      annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    },
+    async ({ zip_base64, project_id, ...target }) => run(async () => {
+      let archive: Uint8Array;
+      try {
+        archive = decodeBase64(zip_base64);
+      } catch (err) {
+        throw new ServiceError("invalid_request", (err as Error).message);
+      }
+      const result = await deps.projects().importProject(archive, { projectId: project_id, ...target });
+      changed({ projectId: result.project_id, listChanged: true });
+      return structuredResult({
+        message: result.created
+          ? `Imported ${result.files_imported} file(s) into new project "${result.slug}".`
+          : `Imported ${result.files_imported} file(s) into the draft. Publish to make them live.`,
+        ...result,
+      });
+    })
+  );
+
+  // --- update_settings ---
+  server.registerTool(
+    "update_settings",
+    {
+      title: "Update settings",
+      description:
+        "Update project settings like name, slug, description, visibility, source code toggle, routing mode, security headers (allowed third-party origins) or an isolated origin.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        ...settingsSchema.shape,
+      },
+      outputSchema: {
+        message: z.string(),
+        id: z.string(),
+        name: z.string(),
+        slug: z.string(),
+        description: z.string().nullable(),
+        is_public: z.boolean(),
+        show_source: z.boolean(),
+        routing_mode: z.enum(["static", "spa"]),
+        security: securitySettingsSchema,
+        isolated_origin: z.boolean(),
+        live_url: z.string(),
+      },
+      // A new slug or making an app private breaks existing links to it
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, ...settings }) => run(async () => {
+      const data = await deps.projects().updateSettings(project_id, settings);
+      changed({ projectId: project_id, paths: [], listChanged: true });
+      return structuredResult({ message: "Settings updated!", ...data });
+    })
+  );
+
+  // --- invite_collaborator ---
+  server.registerTool(
+    "invite_collaborator",
+    {
+      title: "Invite collaborator",
+      description:
+        "Give someone access to a project by email, or change their role. They see it as soon as they sign in with that address. Owners only.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        email: z.string().email().describe("The collaborator's email address"),
+        role: memberRoleSchema,
+      },
+      outputSchema: { project_id: z.string(), email: z.string(), role: roleSchema },
+      annotations: { ...ADDITIVE, idempotentHint: true },
+    },
+    async ({ project_id, email, role }) => run(async () => {
+      const member = await deps.projects().addMember(project_id, email, role);
+      return structuredResult(member, `${member.email} is now ${role === "editor" ? "an" : "a"} ${role} on this project.`);
+    })
+  );
+
+  // --- list_collaborators ---
+  server.registerTool(
+    "list_collaborators",
+    {
+      title: "List collaborators",
+      description: "List everyone with access to a project and their role",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+      },
+      outputSchema: {
+        members: z.array(
+          z.object({ email: z.string(), role: roleSchema, invited_by: z.string().nullable(), created_at: z.string() })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id }) => run(async () => {
+      const members = await deps.projects().listMembers(project_id);
+      return structuredResult({ members }, members);
+    })
+  );
+
+  // --- remove_collaborator ---
+  server.registerTool(
+    "remove_collaborator",
+    {
+      title: "Remove collaborator",
+      description:
+        "Remove someone's access to a project. Owners can remove anyone but the project's creator; anyone can remove themselves.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        email: z.string().email().describe("The collaborator's email address"),
+      },
+      outputSchema: { removed: z.string() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, email }) => run(async () => {
+      await deps.projects().removeMember(project_id, email);
+      return structuredResult({ removed: email }, `Removed ${email} from the project.`);
+    })
+  );
+
+  // --- get_activity ---
+  server.registerTool(
+    "get_activity",
+    {
+      title: "Get activity",
+      description:
+        "Show who changed a project and how: every write, edit, publish, rollback, settings change and more, newest first, " +
+        "with the user, the app they used, the affected paths and version. Owners only.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        ...activityFilterSchema.shape,
+        limit: z.number().int().min(1).max(200).optional().describe("How many events to return (default 50)"),
+        offset: z.number().int().min(0).optional().describe("How many events to skip, for paging"),
+      },
+      outputSchema: {
+        events: z.array(
+          z.object({
+            actor_email: z.string().nullable(),
+            client: z.string().nullable(),
+            action: z.string(),
+            paths: z.array(z.string()).nullable(),
+            version_id: z.string().nullable(),
+            details: z.record(z.string(), z.unknown()).nullable(),
+            created_at: z.string(),
+          })
+        ),
+        total: z.number(),
+        next_offset: z.number().optional(),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, limit, offset, ...filter }) => run(async () => {
+      const page = { limit: limit ?? 50, offset: offset ?? 0 };
+      const { items, total } = await deps.projects().getActivity(project_id, filter, page);
+      if (items.length === 0) {
+        return structuredResult({ events: [], total }, "No matching activity.");
+      }
+      return structuredResult({
+        events: items.map(({ id, project_id, ...event }) => event),
+        total,
+        ...(page.offset + items.length < total ? { next_offset: page.offset + items.length } : {}),
+      });
+    })
+  );
+
+  // --- list_collections ---
+  server.registerTool(
+    "list_collections",
+    {
+      title: "List collections",
+      description:
+        "List a project's data collections: where the app stores JSON documents, such as form submissions. " +
+        "Shows each collection's rules, schema, URL and how many documents it has live and in drafts.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+      },
+      outputSchema: {
+        collections: z.array(collectionSchema.extend({ documents: z.object({ live: z.number(), draft: z.number() }) })),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id }) => run(async () => {
+      const collections = await deps.projects().listCollections(project_id);
+      if (collections.length === 0) {
+        return structuredResult({ collections }, "No collections yet. Create one with define_collection.");
+      }
+      return structuredResult({ collections }, collections);
+    })
+  );
+
+  // --- define_collection ---
+  server.registerTool(
+    "define_collection",
+    {
+      title: "Define collection",
+      description:
+        "Create a data collection, or replace an existing one's rules (omitted rules go back to their defaults). " +
+        "The app's pages store and read its documents with the client that Shapps adds to every HTML page: " +
+        "shapps.data.collection(name).add(doc), .list({ limit, offset }), .get(id), .update(id, doc) and .remove(id), " +
+        "each returning a promise. Published apps use live data and previews separate draft data. " +
+        "Existing documents aren't checked against a new schema.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        name: collectionNameSchema,
+        ...collectionRulesSchema.shape,
+      },
+      outputSchema: collectionSchema.extend({ created: z.boolean() }).shape,
+      annotations: { ...ADDITIVE, idempotentHint: true },
+    },
+    async ({ project_id, name, ...rules }) => run(async () => {
+      const collection = await deps.projects().defineCollection(project_id, name, rules);
+      return structuredResult(collection);
+    })
+  );
+
+  // --- query_data ---
+  server.registerTool(
+    "query_data",
+    {
+      title: "Query data",
+      description: "Read the documents in a data collection, newest first, e.g. to see form submissions.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        collection: collectionNameSchema,
+        environment: dataEnvironmentSchema.optional().describe("'live' (default) for the published app, 'draft' for previews"),
+        limit: z.number().int().min(1).max(200).optional().describe("How many documents to return (default 50)"),
+        offset: z.number().int().min(0).optional().describe("How many documents to skip, for paging"),
+      },
+      outputSchema: {
+        documents: z.array(
+          z.object({
+            id: z.string(),
+            data: z.record(z.string(), z.unknown()),
+            created_at: z.string(),
+            updated_at: z.string(),
+          })
+        ),
+        total: z.number(),
+        next_offset: z.number().optional(),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, collection, environment, limit, offset }) => run(async () => {
+      const page = { limit: limit ?? 50, offset: offset ?? 0 };
+      const { items, total } = await deps.projects().queryData(project_id, collection, environment ?? "live", page);
+      if (items.length === 0) {
+        return structuredResult({ documents: [], total }, "No documents found.");
+      }
+      return structuredResult({
+        documents: items,
+        total,
+        ...(page.offset + items.length < total ? { next_offset: page.offset + items.length } : {}),
+      });
+    })
+  );
+
+  // --- delete_documents ---
+  server.registerTool(
+    "delete_documents",
+    {
+      title: "Delete documents",
+      description: "Delete documents from a data collection by ID",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        collection: collectionNameSchema,
+        environment: dataEnvironmentSchema.optional().describe("'live' (default) for the published app, 'draft' for previews"),
+        document_ids: z.array(z.string().uuid()).min(1).describe("IDs of the documents to delete"),
+      },
+      outputSchema: { deleted: z.number() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, collection, environment, document_ids }) => run(async () => {
+      const count = await deps.projects().deleteDocuments(project_id, collection, environment ?? "live", document_ids);
+      return structuredResult({ deleted: count }, `Deleted ${count} document(s).`);
+    })
+  );
+
+  // --- delete_collection ---
+  server.registerTool(
+    "delete_collection",
+    {
+      title: "Delete collection",
+      description: "Permanently delete a data collection and all its documents, live and draft. This cannot be undone.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        collection: collectionNameSchema,
+        confirm: z.boolean().describe("Must be true to confirm deletion"),
+      },
+      outputSchema: { deleted: z.string() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, collection, confirm }) => {
+      if (!confirm) {
+        return errorResult("Deletion not confirmed. Set confirm to true to delete.");
+      }
+      return run(async () => {
+        await deps.projects().deleteCollection(project_id, collection);
+        return structuredResult({ deleted: collection }, `Collection "${collection}" deleted permanently.`);
+      });
+    }
+  );
+
+  // --- list_form_submissions ---
+  server.registerTool(
+    "list_form_submissions",
+    {
+      title: "List form submissions",
+      description:
+        "Show what visitors sent through the app's forms, newest first, e.g. 'who contacted me this week?' " +
+        'Any HTML form with method="post" action="~forms/<name>" stores its fields here; no setup needed.',
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        ...formSubmissionFilterSchema.shape,
+        limit: z.number().int().min(1).max(200).optional().describe("How many submissions to return (default 50)"),
+        offset: z.number().int().min(0).optional().describe("How many submissions to skip, for paging"),
+      },
+      outputSchema: {
+        submissions: z.array(
+          z.object({
+            id: z.string(),
+            form: z.string(),
+            data: z.record(z.string(), z.unknown()),
+            created_at: z.string(),
+          })
+        ),
+        total: z.number(),
+        next_offset: z.number().optional(),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, limit, offset, ...filter }) => run(async () => {
+      const page = { limit: limit ?? 50, offset: offset ?? 0 };
+      const { items, total } = await deps.projects().listFormSubmissions(project_id, filter, page);
+      if (items.length === 0) {
+        return structuredResult({ submissions: [], total }, "No matching form submissions.");
+      }
+      return structuredResult({
+        submissions: items,
+        total,
+        ...(page.offset + items.length < total ? { next_offset: page.offset + items.length } : {}),
+      });
+    })
+  );
+
+  // --- export_form_submissions ---
+  server.registerTool(
+    "export_form_submissions",
+    {
+      title: "Export form submissions",
+      description:
+        "Get form submissions as CSV (oldest first, one column per field), for a spreadsheet. Takes the same filters as list_form_submissions.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        ...formSubmissionFilterSchema.shape,
+      },
+      outputSchema: { csv: z.string(), rows: z.number() },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, ...filter }) => run(async () => {
+      const result = await deps.projects().exportFormSubmissions(project_id, filter);
+      return structuredResult(result, result.csv);
+    })
+  );
+
+  // --- list_domains ---
+  server.registerTool(
+    "list_domains",
+    {
+      title: "List domains",
+      description:
+        "List the custom domains a project's published app is served on (like www.mybakery.com), " +
+        "whether each is verified, and the DNS records each one needs.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+      },
+      outputSchema: { domains: z.array(domainSchema) },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id }) => run(async () => {
+      const domains = await deps.projects().listDomains(project_id);
+      if (domains.length === 0) {
+        return structuredResult({ domains }, "No custom domains yet. Add one with add_domain.");
+      }
+      return structuredResult({ domains }, domains);
+    })
+  );
+
+  // --- add_domain ---
+  server.registerTool(
+    "add_domain",
+    {
+      title: "Add domain",
+      description:
+        "Serve the published app on a domain the user owns, like www.mybakery.com. Returns the DNS records to create: " +
+        "a TXT record proving they own the domain and a CNAME pointing it at Shapps. Once they're in place, call verify_domain. " +
+        "Only public apps can be visited on custom domains. Owners only.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        hostname: hostnameSchema,
+      },
+      outputSchema: domainSchema.shape,
+      annotations: { ...ADDITIVE, idempotentHint: false },
+    },
+    async ({ project_id, hostname }) => run(async () => {
+      return structuredResult(await deps.projects().addDomain(project_id, hostname));
+    })
+  );
+
+  // --- verify_domain ---
+  server.registerTool(
+    "verify_domain",
+    {
+      title: "Verify domain",
+      description:
+        "Check a domain's TXT record and, once it's found, start serving the published app there. " +
+        "DNS changes can take a few minutes to show up, so it's fine to try again. Owners only.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        hostname: hostnameSchema,
+      },
+      outputSchema: domainSchema.shape,
+      annotations: { ...ADDITIVE, idempotentHint: true },
+    },
+    async ({ project_id, hostname }) => run(async () => {
+      return structuredResult(await deps.projects().verifyDomain(project_id, hostname));
+    })
+  );
+
+  // --- remove_domain ---
+  server.registerTool(
+    "remove_domain",
+    {
+      title: "Remove domain",
+      description: "Stop serving the app on a custom domain. Its DNS records can be deleted afterwards. Owners only.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        hostname: hostnameSchema,
+      },
+      outputSchema: { removed: z.string() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, hostname }) => run(async () => {
+      await deps.projects().removeDomain(project_id, hostname);
+      return structuredResult({ removed: hostname }, `Removed ${hostname}.`);
+    })
+  );
+
+  // --- get_analytics ---
+  const period = z.object({ days: z.number(), views: z.number(), visitors: z.number() });
+  server.registerTool(
+    "get_analytics",
+    {
+      title: "Get analytics",
+      description:
+        "See how many people visit the published app: page views and visitors per day, top pages, referring sites, " +
+        "countries and devices, for the last 30 days or the given dates. Each publish in the range is compared with " +
+        "the days before it, to show whether a change helped. Visits are counted without cookies; " +
+        "visitors are told apart per day only, so totals over several days are approximate.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        ...analyticsRangeSchema.shape,
+      },
+      outputSchema: {
+        from: z.string(),
+        to: z.string(),
+        views: z.number(),
+        visitors: z.number(),
+        daily: z.array(z.object({ day: z.string(), views: z.number(), visitors: z.number() })),
+        top_pages: z.array(z.object({ path: z.string(), views: z.number() })),
+        top_referrers: z.array(z.object({ host: z.string(), views: z.number() })),
+        countries: z.array(z.object({ country: z.string().nullable(), views: z.number() })),
+        devices: z.array(z.object({ device: z.string(), views: z.number() })),
+        publishes: z.array(
+          z.object({
+            version_number: z.number(),
+            message: z.string().nullable(),
+            published_at: z.string(),
+            before: period,
+            after: period,
+            change: z.object({ views_per_day: z.number().nullable(), visitors_per_day: z.number().nullable() }),
+          })
+        ),
+      },
+      annotations: { ...READ_ONLY, idempotentHint: true },
+    },
+    async ({ project_id, ...range }) => run(async () => {
+      return structuredResult(await deps.projects().getAnalytics(project_id, range));
+    })
+  );
+
+  // --- delete_project ---
+  server.registerTool(
+    "delete_project",
+    {
+      title: "Delete project",
+      description: "Permanently delete a project and all its versions and files. This cannot be undone.",
+      inputSchema: {
+        project_id: z.string().uuid().describe("The project ID"),
+        confirm: z.boolean().describe("Must be true to confirm deletion"),
+      },
+      outputSchema: { deleted: z.string() },
+      annotations: { ...DESTRUCTIVE, idempotentHint: true },
+    },
+    async ({ project_id, confirm }) => {
+      if (!confirm) {
+        return errorResult("Deletion not confirmed. Set confirm to true to delete.");
+      }
+      return run(async () => {
+        await deps.projects().deleteProject(project_id);
+        changed({ projectId: project_id, listChanged: true });
+        return structuredResult({ deleted: project_id }, "Project deleted permanently.");
+      });
+    }
+  );
+}
+
+/**
+ * A successful result: `data` as structuredContent, and as text either `text` itself
+ * (a string), or `text` as pretty JSON (by default, `data`).
+ */
+function structuredResult(data: Record<string, unknown>, text: unknown = data): CallToolResult {
+  return {
+    content: [{ type: "text", text: typeof text === "string" ? text : JSON.stringify(text, null, 2) }],
+    structuredContent: data,
+  };
+}
+
+/**
+ * A failed call. Clients validate structuredContent even on errors, so the details
+ * (e.g. which limit was hit) go in the text, one per line after the message.
+ */
+function errorResult(message: string, details?: string[]): CallToolResult {
+  const text = details?.length ? `${message}\n${details.join("\n")}` : message;
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** Runs a tool body, turning a ServiceError into an error result the AI can read. */
+async function runTool(fn: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (err instanceof ServiceError) {
+      return errorResult(err.message, err.details);
+    }
+    throw err;
+  }
+}
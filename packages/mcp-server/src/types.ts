@@ -1,16 +1,42 @@
 import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { RateCounter } from "./rate-counter";
+import type { SecuritySettings } from "./services/schemas";
 
 export interface Env {
   MCP_OBJECT: DurableObjectNamespace;
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
 
+  // Large binary files (images, fonts, downloads)
+  ASSETS: R2Bucket;
+
   // OAuth (added in Phase 3)
   OAUTH_KV: KVNamespace;
   OAUTH_PROVIDER: OAuthHelpers;
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
   COOKIE_ENCRYPTION_KEY: string;
+
+  // Dashboard (Phase 4): where /login?client=dashboard sends the REST API session token
+  DASHBOARD_URL?: string;
+
+  // Where this Worker is served (e.g. https://shapps.dev), for absolute links in tool results
+  PUBLIC_BASE_URL?: string;
+
+  // Apps are also served at <slug>.<APPS_DOMAIN> when set (e.g. "shapps.app"; needs wildcard DNS).
+  // List it on the Public Suffix List so apps there can't set cookies for each other.
+  APPS_DOMAIN?: string;
+  // DNS-over-HTTPS JSON endpoint for checking custom domains' TXT records (default: Cloudflare's)
+  DNS_OVER_HTTPS_URL?: string;
+
+  // Limits (Phase 5): rate-limit counters, and optional JSON overrides of DEFAULT_LIMITS
+  RATE_LIMITER: DurableObjectNamespace<RateCounter>;
+  LIMITS?: string;
+
+  // Abuse handling: who may review reports and held publishes (comma-separated emails),
+  // and hosts or URL prefixes to block on top of the built-in list (comma-separated)
+  ADMIN_EMAILS?: string;
+  ABUSE_BLOCKLIST?: string;
 }
 
 /** User identity passed through OAuth into MCP tools via this.props */
@@ -18,4 +44,181 @@ export type Props = {
   email: string;
   name: string;
   userId: string;
+  /** Name of the OAuth client the user signed in from (e.g. "Claude"). Missing from older grants. */
+  client?: string;
 };
+
+/** A row of public.projects */
+export interface ProjectRow {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  /** In lower case, like project_members.email */
+  owner_email: string;
+  is_public: boolean;
+  show_source: boolean;
+  status: string;
+  active_version_id: string | null;
+  draft_version_id: string | null;
+  routing_mode: "static" | "spa";
+  /** Additions to the default security headers (see security.ts) */
+  security: SecuritySettings;
+  /** Whether the published app is served from <slug>.<APPS_DOMAIN> */
+  isolated_origin: boolean;
+  /** Set when an admin took the app down; it isn't served until they lift it */
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  /** The project and version this one was duplicated from, if any */
+  forked_from_project_id: string | null;
+  forked_from_version_id: string | null;
+  revision: number;
+  /** Goes up with every change to the draft's files, which `revision` doesn't track */
+  draft_revision: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What a user may do with a project: viewer < editor < owner */
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+/** A row of public.project_members (the project's owner_email has no row) */
+export interface MemberRow {
+  project_id: string;
+  email: string;
+  role: ProjectRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+/** A row of public.project_activity */
+export interface ActivityRow {
+  id: string;
+  project_id: string;
+  actor_email: string | null;
+  client: string | null;
+  action: string;
+  paths: string[] | null;
+  version_id: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/** Which copy of an app's data: the published app's, or the draft preview's */
+export type DataEnvironment = "live" | "draft";
+
+/** A row of public.data_collections */
+export interface CollectionRow {
+  project_id: string;
+  name: string;
+  public_read: boolean;
+  public_write: "none" | "create" | "all";
+  /** JSON Schema that documents must match */
+  schema: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A row of public.data_documents */
+export interface DocumentRow {
+  id: string;
+  project_id: string;
+  environment: DataEnvironment;
+  collection: string;
+  data: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A row of public.form_submissions */
+export interface FormSubmissionRow {
+  id: string;
+  project_id: string;
+  environment: DataEnvironment;
+  form: string;
+  /** Field name → value; fields sent more than once have an array of values */
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+/** What an analytics rollup counts views by (see the analytics migration) */
+export type AnalyticsDimension = "total" | "page" | "referrer" | "country" | "device";
+
+/** A row of public.analytics_daily: one day's views for one value of a dimension */
+export interface AnalyticsRow {
+  project_id: string;
+  /** YYYY-MM-DD, UTC */
+  day: string;
+  dimension: AnalyticsDimension;
+  /** The path, referrer host, country or device; "" for the total and unknown values */
+  value: string;
+  views: number;
+  /** Only counted for the total */
+  visitors: number;
+}
+
+/** A row of public.project_domains */
+export interface DomainRow {
+  project_id: string;
+  /** Lowercase, without a trailing dot */
+  hostname: string;
+  /** Goes in the TXT record that proves the project's owner controls the domain */
+  verification_token: string;
+  /** Null until verified; only verified domains serve the app */
+  verified_at: string | null;
+  created_at: string;
+}
+
+/** Why a visitor reported an app */
+export type ReportReason = "phishing" | "malware" | "spam" | "impersonation" | "illegal" | "other";
+
+/** A row of public.abuse_reports */
+export interface AbuseReportRow {
+  id: string;
+  project_id: string;
+  reason: ReportReason;
+  details: string | null;
+  /** The page the visitor was on, if we know it */
+  page_url: string | null;
+  /** Only when the visitor left it, for follow-up questions */
+  reporter_email: string | null;
+  status: "open" | "dismissed" | "actioned";
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+/** Something the publish scanner flagged (see abuse.ts) */
+export interface ScanFinding {
+  rule: "credential_form" | "brand_impersonation" | "blocked_url" | "obfuscated_script";
+  file_path: string;
+  detail: string;
+}
+
+/** A row of public.publish_reviews: a flagged publish, waiting for an admin */
+export interface PublishReviewRow {
+  id: string;
+  project_id: string;
+  /** The draft that was scanned, and a hash of its files (see draftFingerprint) */
+  version_id: string;
+  fingerprint: string;
+  /** The message given to publish */
+  message: string | null;
+  findings: ScanFinding[];
+  requested_by: string | null;
+  status: "pending" | "approved" | "rejected" | "superseded";
+  reviewed_by: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/** A row of public.project_versions */
+export interface VersionRow {
+  id: string;
+  project_id: string;
+  version_number: number;
+  message: string | null;
+  is_draft: boolean;
+  created_at: string;
+}
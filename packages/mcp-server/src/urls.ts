@@ -0,0 +1,28 @@
+import type { Env, ProjectRow } from "./types";
+
+/**
+ * An absolute URL for a path on this Worker, such as "/app/my-app/". Falls back to the
+ * path itself when PUBLIC_BASE_URL isn't set (e.g. in local development).
+ */
+export function publicUrl(env: Env, path: string): string {
+  return env.PUBLIC_BASE_URL ? new URL(path, env.PUBLIC_BASE_URL).href : path;
+}
+
+/**
+ * The path an app's files are served under: /app/:slug/ when published and
+ * /preview/:slug/ for its draft. On its own domain (see domains.ts) it's "/".
+ */
+export function appBase(slug: string, mode: "active" | "draft"): string {
+  return `/${mode === "active" ? "app" : "preview"}/${slug}/`;
+}
+
+/**
+ * Where a project's published app lives: its own origin, <slug>.<APPS_DOMAIN>, when it's
+ * isolated (see security.ts), otherwise /app/:slug/ on this Worker.
+ */
+export function liveUrl(env: Env, project: Pick<ProjectRow, "slug" | "isolated_origin">): string {
+  if (project.isolated_origin && env.APPS_DOMAIN) {
+    return `https://${project.slug}.${env.APPS_DOMAIN.toLowerCase()}/`;
+  }
+  return publicUrl(env, appBase(project.slug, "active"));
+}
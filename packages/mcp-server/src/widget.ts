@@ -0,0 +1,278 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * The inline preview widget: a UI resource that chat apps render next to the results of
+ * write_files, rollback, publish and get_preview_url. It shows the draft in a sandboxed
+ * iframe with draft and live version badges, and Publish and Roll back buttons that call
+ * those tools back.
+ *
+ * The same page is served twice, once per host:
+ * - MCP Apps (ui:// resources, text/html;profile=mcp-app), which talk JSON-RPC over postMessage
+ * - ChatGPT Apps (text/html+skybridge), which provide window.openai
+ *
+ * Tool results carry the widget's data in _meta under PREVIEW_STATE_KEY (see
+ * ProjectService.previewState), which hosts pass to the widget but not to the model.
+ */
+export const PREVIEW_WIDGET_URI = "ui://shapps/preview.html";
+export const PREVIEW_WIDGET_CHATGPT_URI = "ui://shapps/preview.skybridge.html";
+export const PREVIEW_STATE_KEY = "shapps/preview";
+
+/** _meta for tools whose results show the widget. ChatGPT only lets the widget call tools marked widgetAccessible. */
+export const PREVIEW_TOOL_META = {
+  ui: { resourceUri: PREVIEW_WIDGET_URI },
+  "openai/outputTemplate": PREVIEW_WIDGET_CHATGPT_URI,
+  "openai/widgetAccessible": true,
+};
+
+/** Registers the widget's resources. `baseUrl` (PUBLIC_BASE_URL) is where previews are served, which the widget must be allowed to frame. */
+export function registerPreviewWidget(server: McpServer, baseUrl: string | undefined) {
+  const frameDomains = baseUrl ? [new URL(baseUrl).origin] : [];
+
+  server.registerResource(
+    "preview-widget",
+    PREVIEW_WIDGET_URI,
+    { title: "App preview", description: "Live preview of a Shapps draft", mimeType: "text/html;profile=mcp-app" },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "text/html;profile=mcp-app",
+          text: WIDGET_HTML,
+          _meta: { ui: { csp: { frameDomains, connectDomains: [], resourceDomains: [] }, prefersBorder: true } },
+        },
+      ],
+    })
+  );
+
+  server.registerResource(
+    "preview-widget-chatgpt",
+    PREVIEW_WIDGET_CHATGPT_URI,
+    { title: "App preview (ChatGPT)", description: "Live preview of a Shapps draft", mimeType: "text/html+skybridge" },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "text/html+skybridge",
+          text: WIDGET_HTML,
+          _meta: {
+            "openai/widgetCSP": { frame_domains: frameDomains, connect_domains: [], resource_domains: [] },
+            "openai/widgetDescription": "Shows the project's draft with its version, and buttons to publish or roll back.",
+            "openai/widgetPrefersBorder": true,
+          },
+        },
+      ],
+    })
+  );
+}
+
+// The page is self-contained (no external scripts or styles) so it needs no CSP allowances
+// beyond framing previews. Data from the server is only ever set with textContent.
+const WIDGET_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  :root { color-scheme: light dark; --border: rgba(127, 127, 127, 0.3); }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; }
+  .bar { display: flex; align-items: center; gap: 8px; padding: 8px 10px; flex-wrap: wrap; }
+  .spacer { flex: 1; }
+  .badge { padding: 2px 8px; border-radius: 999px; font-size: 12px; border: 1px solid var(--border); }
+  .badge.live { background: #16a34a; border-color: #16a34a; color: #fff; }
+  iframe { display: block; width: 100%; height: 420px; border: 0; border-top: 1px solid var(--border); border-bottom: 1px solid var(--border); background: #fff; }
+  button, select { font: inherit; padding: 4px 10px; border-radius: 6px; border: 1px solid var(--border); background: transparent; color: inherit; cursor: pointer; }
+  button.primary { background: #2563eb; border-color: #2563eb; color: #fff; }
+  button:disabled, select:disabled { opacity: 0.5; cursor: default; }
+  #status { font-size: 12px; opacity: 0.8; }
+  #status.error { color: #dc2626; opacity: 1; }
+  [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+<p id="empty" class="bar">Waiting for a project…</p>
+<main id="widget" hidden>
+  <div class="bar">
+    <strong id="name"></strong>
+    <span id="draft-badge" class="badge"></span>
+    <span id="live-badge" class="badge live"></span>
+    <span class="spacer"></span>
+    <button id="open" type="button">Open</button>
+  </div>
+  <iframe id="frame" title="App preview" sandbox="allow-scripts allow-same-origin allow-forms allow-popups"></iframe>
+  <div class="bar" id="actions">
+    <button id="publish" class="primary" type="button">Publish</button>
+    <select id="versions" aria-label="Version to roll back to"></select>
+    <button id="rollback" type="button">Roll back</button>
+    <span id="status" role="status"></span>
+  </div>
+</main>
+<script>
+(function () {
+  var STATE_KEY = "${PREVIEW_STATE_KEY}";
+  var openai = window.openai;
+  var state = null;
+  var busy = false;
+  var confirmRollback = false;
+  var $ = function (id) { return document.getElementById(id); };
+
+  // --- Host bridge: ChatGPT's window.openai, or MCP Apps' JSON-RPC over postMessage ---
+
+  var nextId = 1;
+  var pending = {};
+
+  function request(method, params) {
+    var id = nextId++;
+    window.parent.postMessage({ jsonrpc: "2.0", id: id, method: method, params: params }, "*");
+    return new Promise(function (resolve, reject) { pending[id] = { resolve: resolve, reject: reject }; });
+  }
+
+  function notify(method, params) {
+    window.parent.postMessage({ jsonrpc: "2.0", method: method, params: params || {} }, "*");
+  }
+
+  window.addEventListener("message", function (event) {
+    var message = event.data;
+    if (event.source !== window.parent || !message || message.jsonrpc !== "2.0") return;
+    if (!message.method) {
+      var call = pending[message.id];
+      delete pending[message.id];
+      if (!call) return;
+      if (message.error) call.reject(new Error(message.error.message));
+      else call.resolve(message.result);
+    } else if (message.method === "ui/notifications/tool-result") {
+      showResult(message.params);
+    } else if (message.id !== undefined) {
+      // Requests from the host (e.g. teardown) need nothing from us but an answer
+      window.parent.postMessage({ jsonrpc: "2.0", id: message.id, result: {} }, "*");
+    }
+  });
+
+  function callTool(name, args) {
+    return openai ? openai.callTool(name, args) : request("tools/call", { name: name, arguments: args });
+  }
+
+  function openLink(url) {
+    if (openai) openai.openExternal({ href: url });
+    else request("ui/open-link", { url: url }).catch(function () { window.open(url, "_blank"); });
+  }
+
+  function resized() {
+    if (!openai) notify("ui/notifications/size-changed", { height: document.documentElement.scrollHeight });
+  }
+
+  // --- Rendering ---
+
+  function showResult(result) {
+    var next = result && result._meta && result._meta[STATE_KEY];
+    if (next) render(next);
+    return Boolean(next);
+  }
+
+  function render(next) {
+    var reload = !state || state.preview_url !== next.preview_url;
+    state = next;
+    confirmRollback = false;
+    $("empty").hidden = true;
+    $("widget").hidden = false;
+    $("name").textContent = state.name;
+    $("draft-badge").textContent = state.draft_version_number ? "Draft v" + state.draft_version_number : "Draft";
+    $("live-badge").textContent = state.live_version_number ? "Live v" + state.live_version_number : "";
+    $("live-badge").hidden = !state.live_version_number;
+    if (reload) $("frame").src = state.preview_url;
+
+    var versions = $("versions");
+    versions.textContent = "";
+    state.versions.forEach(function (v) {
+      var option = document.createElement("option");
+      option.value = v.version_id;
+      option.textContent = "v" + v.version_number + (v.is_live ? " (live)" : "") + (v.message ? ": " + v.message : "");
+      versions.appendChild(option);
+    });
+
+    $("actions").hidden = state.role === "viewer";
+    $("rollback").textContent = "Roll back";
+    updateButtons();
+    resized();
+  }
+
+  function updateButtons() {
+    $("publish").disabled = busy;
+    $("versions").disabled = busy || state.versions.length === 0;
+    $("rollback").disabled = busy || state.versions.length === 0;
+  }
+
+  function setStatus(text, isError) {
+    $("status").textContent = text;
+    $("status").className = isError ? "error" : "";
+  }
+
+  function resultText(result) {
+    return (result.content || []).map(function (c) { return c.text || ""; }).join("\\n");
+  }
+
+  // --- Actions ---
+
+  function run(name, args, done) {
+    busy = true;
+    updateButtons();
+    setStatus("Working…");
+    callTool(name, args)
+      .then(function (result) {
+        if (result && result.isError) throw new Error(resultText(result));
+        var data = result && result.structuredContent;
+        // Hosts that don't pass _meta back still get the new revision, so the next action isn't rejected
+        if (data && typeof data.revision === "number") state.revision = data.revision;
+        if (!showResult(result)) $("frame").src = state.preview_url;
+        setStatus(done(data || {}));
+      })
+      .catch(function (err) { setStatus(err.message, true); })
+      .then(function () { busy = false; updateButtons(); });
+  }
+
+  $("publish").addEventListener("click", function () {
+    run("publish", { project_id: state.project_id, expected_revision: state.revision }, function (data) {
+      return data.version ? "Published v" + data.version + "." : "Published.";
+    });
+  });
+
+  $("rollback").addEventListener("click", function () {
+    var option = $("versions").selectedOptions[0];
+    if (!option) return;
+    // Rolling back replaces every file in the draft, so it takes a second click
+    if (!confirmRollback) {
+      confirmRollback = true;
+      $("rollback").textContent = "Replace draft with " + option.textContent.split(":")[0] + "?";
+      return;
+    }
+    confirmRollback = false;
+    $("rollback").textContent = "Roll back";
+    run("rollback", { project_id: state.project_id, version_id: option.value, expected_revision: state.revision }, function () {
+      return "Draft replaced with " + option.textContent.split(":")[0] + ".";
+    });
+  });
+
+  $("versions").addEventListener("change", function () {
+    confirmRollback = false;
+    $("rollback").textContent = "Roll back";
+  });
+
+  $("open").addEventListener("click", function () { openLink(state.preview_url); });
+
+  // --- Start ---
+
+  if (openai) {
+    showResult({ _meta: openai.toolResponseMetadata });
+    window.addEventListener("openai:set_globals", function () { showResult({ _meta: openai.toolResponseMetadata }); });
+  } else {
+    request("ui/initialize", {
+      protocolVersion: "2026-01-26",
+      appInfo: { name: "Shapps preview", version: "1.0.0" },
+      appCapabilities: {},
+    }).then(function () { notify("ui/notifications/initialized"); });
+  }
+})();
+</script>
+</body>
+</html>
+`;
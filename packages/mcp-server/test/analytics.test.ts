@@ -0,0 +1,174 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { forgetOldVisitors, summarizeAnalytics, utcDay } from "../src/analytics";
+import { serveApp } from "../src/serve";
+import type { AnalyticsRow } from "../src/types";
+import { ALICE, BOB, type CreatedProject, type Harness, type ServiceResult, callError, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+const pending: Promise<unknown>[] = [];
+const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as unknown as ExecutionContext;
+
+const DESKTOP = "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15";
+const PHONE = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148 Safari/604.1";
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug: "my-app" }));
+  await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+  await callText(alice, "write_files", {
+    project_id: projectId,
+    files: [
+      { file_path: "index.html", content: "<h1>Home</h1>" },
+      { file_path: "about.html", content: "<h1>About</h1>" },
+      { file_path: "style.css", content: "h1 { color: red }" },
+    ],
+  });
+  await callText(alice, "publish", { project_id: projectId });
+});
+
+/** Visits /app/my-app/:path (or /preview/...) and waits for the view to be counted. */
+async function visit(path: string, headers: Record<string, string> = {}) {
+  const request = new Request(new URL(path, "https://shapps.dev"), {
+    headers: { "User-Agent": DESKTOP, "CF-Connecting-IP": "203.0.113.7", ...headers },
+  });
+  const [, prefix, slug, ...rest] = new URL(request.url).pathname.split("/");
+  const response = await serveApp(harness.env, ctx, request, slug, rest.join("/"), prefix === "app" ? "active" : "draft", {
+    store: harness.store,
+    cache: harness.cache,
+  });
+  await Promise.all(pending.splice(0));
+  return response;
+}
+
+const rollup = (dimension: string) =>
+  Object.fromEntries(harness.store.analytics.filter((a) => a.dimension === dimension).map((a) => [a.value, a.views]));
+
+describe("counting visits", () => {
+  it("counts published pages with their referrer, country and device", async () => {
+    await visit("/app/my-app/", { Referer: "https://news.example/post?id=1", "CF-IPCountry": "NZ" });
+    // Served from the edge cache this time
+    await visit("/app/my-app/", { "User-Agent": PHONE, "CF-Connecting-IP": "198.51.100.2" });
+    await visit("/app/my-app/about", { Referer: "https://shapps.dev/app/my-app/", "CF-IPCountry": "NZ" });
+
+    expect(harness.store.analytics.find((a) => a.dimension === "total")).toMatchObject({
+      day: utcDay(new Date()),
+      views: 3,
+      visitors: 2,
+    });
+    expect(rollup("page")).toEqual({ "/about": 1, "/": 2 });
+    expect(rollup("referrer")).toEqual({ "news.example": 1, "": 2 });
+    expect(rollup("country")).toEqual({ NZ: 2, "": 1 });
+    expect(rollup("device")).toEqual({ desktop: 2, mobile: 1 });
+  });
+
+  it("skips everything but published HTML pages seen by people", async () => {
+    await visit("/app/my-app/style.css");
+    await visit("/app/my-app/missing.html");
+    await visit("/app/my-app/", { "User-Agent": "Mozilla/5.0 (compatible; Googlebot/2.1)" });
+    await visit("/app/my-app/", { "Sec-Purpose": "prefetch" });
+    await visit("/preview/my-app/");
+
+    expect(harness.store.analytics).toEqual([]);
+    expect(harness.store.visitors.size).toBe(0);
+  });
+
+  it("forgets earlier days' visitors from the scheduled cleanup", async () => {
+    await visit("/app/my-app/");
+    harness.store.visitors.add(`${projectId}:2026-01-01:old-hash`);
+
+    expect(await forgetOldVisitors(harness.env, harness.store)).toBe(1);
+    expect([...harness.store.visitors]).toEqual([expect.stringContaining(`:${utcDay(new Date())}:`)]);
+  });
+});
+
+describe("get_analytics", () => {
+  it("reports visits for the last 30 days", async () => {
+    await visit("/app/my-app/", { Referer: "https://news.example/" });
+    await visit("/app/my-app/about");
+
+    const report = await callJson<ServiceResult<"getAnalytics">>(alice, "get_analytics", { project_id: projectId });
+    const today = utcDay(new Date());
+    expect(report).toMatchObject({
+      to: today,
+      views: 2,
+      visitors: 1,
+      top_pages: [
+        { path: "/", views: 1 },
+        { path: "/about", views: 1 },
+      ],
+      top_referrers: [{ host: "news.example", views: 1 }],
+      devices: [{ device: "desktop", views: 2 }],
+      publishes: [{ version_number: 1, before: { days: 0 }, after: { days: 0 }, change: { views_per_day: null } }],
+    });
+    expect(report.daily).toHaveLength(30);
+    expect(report.daily.at(-1)).toEqual({ day: today, views: 2, visitors: 1 });
+  });
+
+  it("checks the range and access", async () => {
+    expect(await callError(alice, "get_analytics", { project_id: projectId, from: "2026-10-02", to: "2026-10-01" })).toContain(
+      "`from` must not be after `to`"
+    );
+    expect(await callError(alice, "get_analytics", { project_id: projectId, from: "2024-01-01", to: "2026-01-01" })).toContain(
+      "at most 366 days"
+    );
+
+    const bob = await harness.connect(BOB);
+    expect((await bob.callTool({ name: "get_analytics", arguments: { project_id: projectId } })).isError).toBe(true);
+    await callText(alice, "invite_collaborator", { project_id: projectId, email: BOB.email, role: "viewer" });
+    expect(await callJson(bob, "get_analytics", { project_id: projectId })).toMatchObject({ views: 0 });
+  });
+});
+
+describe("summarizeAnalytics", () => {
+  const day = (day: string, views: number, visitors = views): AnalyticsRow => ({
+    project_id: "p",
+    day,
+    dimension: "total",
+    value: "",
+    views,
+    visitors,
+  });
+
+  it("compares the days around each publish", () => {
+    const rows = [
+      day("2026-09-28", 100),
+      day("2026-09-30", 10),
+      day("2026-10-01", 10),
+      day("2026-10-02", 999),
+      day("2026-10-03", 20),
+      day("2026-10-04", 40),
+      day("2026-10-05", 999),
+      day("2026-10-06", 30),
+    ];
+    const publishes = [
+      { version_number: 1, message: null, published_at: "2026-09-29T12:00:00.000Z" },
+      { version_number: 2, message: "New headline", published_at: "2026-10-02T09:30:00.000Z" },
+      { version_number: 3, message: null, published_at: "2026-10-05T18:00:00.000Z" },
+    ];
+
+    const report = summarizeAnalytics(rows, { from: "2026-10-01", to: "2026-10-06" }, publishes, "2026-10-07");
+
+    expect(report.views).toBe(10 + 999 + 20 + 40 + 999 + 30);
+    expect(report.daily.map((d) => d.day)).toEqual(["2026-10-01", "2026-10-02", "2026-10-03", "2026-10-04", "2026-10-05", "2026-10-06"]);
+    // Version 1 is before the range; days of a publish are left out of comparisons
+    expect(report.publishes).toEqual([
+      {
+        ...publishes[1],
+        before: { days: 2, views: 20, visitors: 20 },
+        after: { days: 2, views: 60, visitors: 60 },
+        change: { views_per_day: 200, visitors_per_day: 200 },
+      },
+      {
+        ...publishes[2],
+        before: { days: 2, views: 60, visitors: 60 },
+        after: { days: 1, views: 30, visitors: 30 },
+        change: { views_per_day: 0, visitors_per_day: 0 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { zipSync } from "fflate";
+import { beforeEach, describe, expect, it } from "vitest";
+import { MANIFEST_FILE, readArchive } from "../src/archive";
+import { MemoryAppCache } from "../src/cache";
+import { encodeBase64 } from "../src/files";
+import { deleteExpiredExports, serveExport } from "../src/exports";
+import { ProjectService } from "../src/services/projects";
+import { MemoryProjectStore } from "../src/store";
+import type { Env } from "../src/types";
+import { ALICE, BOB, testEnv } from "./helpers";
+
+let env: Env;
+let store: MemoryProjectStore;
+let projects: ProjectService;
+let projectId: string;
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+beforeEach(async () => {
+  env = testEnv();
+  store = new MemoryProjectStore();
+  projects = new ProjectService(env, ALICE.email, store, new MemoryAppCache());
+
+  const { project } = await projects.createProject({ name: "Site", slug: "site", description: "A site" });
+  projectId = project.id;
+  await projects.writeFiles(projectId, [
+    { file_path: "index.html", content: "<h1>Hi</h1>\n" },
+    { file_path: "css/style.css", content: "body { color: red; }\n" },
+    { file_path: "logo.png", content: encodeBase64(new Uint8Array([137, 80, 78, 71, 0, 255])), encoding: "base64" },
+  ]);
+  await projects.updateSettings(projectId, { routing_mode: "spa", show_source: true });
+});
+
+/** Downloads an export link through serveExport. */
+async function download(url: string) {
+  const request = new Request(new URL(url, "https://shapps.dev"));
+  const exportId = new URL(request.url).pathname.match(/^\/exports\/(.+)\.zip$/)![1];
+  return serveExport(env, request, exportId);
+}
+
+describe("export", () => {
+  it("zips the draft with a manifest behind a signed link", async () => {
+    const result = await projects.exportProject(projectId);
+    expect(result.file_name).toBe("site-v1.zip");
+    expect(result.file_count).toBe(3);
+
+    const response = await download(result.download_url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="site-v1.zip"');
+
+    const { files, manifest, errors } = readArchive(new Uint8Array(await response.arrayBuffer()));
+    expect(errors).toEqual([]);
+    expect(files.map((f) => f.file_path)).toEqual(["css/style.css", "index.html", "logo.png"]);
+    expect(manifest?.project).toMatchObject({ name: "Site", slug: "site", routing_mode: "spa", show_source: true });
+    expect(manifest?.version.version_number).toBe(1);
+  });
+
+  it("rejects tampered or expired links", async () => {
+    const { download_url } = await projects.exportProject(projectId, { expiresInMinutes: 1 });
+    expect((await download(download_url.replace(/token=\w/, "token=x"))).status).toBe(403);
+    expect((await download(download_url.split("?")[0])).status).toBe(403);
+  });
+
+  it("deletes export zips once no link to them can still work", async () => {
+    const { download_url } = await projects.exportProject(projectId, { expiresInMinutes: 24 * 60 });
+    const hour = 60 * 60 * 1000;
+    expect(await deleteExpiredExports(env, Date.now() + 24 * hour)).toBe(0);
+    expect((await download(download_url)).status).toBe(200);
+
+    expect(await deleteExpiredExports(env, Date.now() + 26 * hour)).toBe(1);
+    expect((await download(download_url)).status).toBe(404);
+  });
+
+  it("only exports your own projects", async () => {
+    const bob = new ProjectService(env, BOB.email, store, new MemoryAppCache());
+    await expect(bob.exportProject(projectId)).rejects.toThrow("Project not found");
+  });
+});
+
+describe("import", () => {
+  async function exportBytes() {
+    const { download_url } = await projects.exportProject(projectId);
+    return new Uint8Array(await (await download(download_url)).arrayBuffer());
+  }
+
+  it("round-trips an export into a new project", async () => {
+    const result = await projects.importProject(await exportBytes(), { slug: "site-copy" });
+    expect(result).toMatchObject({ slug: "site-copy", created: true, files_imported: 3 });
+
+    const copy = await projects.getProject(result.project_id);
+    expect(copy).toMatchObject({ name: "Site", description: "A site", routing_mode: "spa", show_source: true });
+
+    const [logo] = await store.getFiles(result.draft_version_id!, ["logo.png"]);
+    expect(logo).toMatchObject({ content_type: "image/png", encoding: "base64" });
+  });
+
+  it("replaces an existing draft", async () => {
+    const zip = zipSync({ "about.html": text("<p>About</p>") });
+    const result = await projects.importProject(zip, { projectId });
+    expect(result).toMatchObject({ project_id: projectId, created: false, files_imported: 1 });
+
+    const files = await store.listFiles(result.draft_version_id!);
+    expect(files.map((f) => f.file_path)).toEqual(["about.html"]);
+  });
+
+  it("keeps the old draft when saving the new one fails", async () => {
+    store.putFiles = async () => {
+      throw new Error("connection lost");
+    };
+    await expect(projects.importProject(zipSync({ "about.html": text("<p>About</p>") }), { projectId })).rejects.toThrow(
+      "connection lost"
+    );
+    const { draft_version_id } = (await store.getProject(projectId, null))!;
+    expect((await store.listFiles(draft_version_id!)).map((f) => f.file_path)).toEqual(["index.html", "css/style.css", "logo.png"]);
+  });
+
+  it("needs a name and slug without a manifest", async () => {
+    const zip = zipSync({ "index.html": text("hi") });
+    await expect(projects.importProject(zip)).rejects.toThrow("Give a name and slug");
+    await expect(projects.importProject(zip, { name: "X", slug: "Not A Slug" })).rejects.toThrow("isn't a valid slug");
+  });
+
+  it("changes nothing when an entry is invalid", async () => {
+    const zip = zipSync({ "index.html": text("new"), "a/../../etc": text("x") });
+    await expect(projects.importProject(zip, { projectId })).rejects.toMatchObject({
+      code: "unprocessable",
+      details: ["a/../../etc: Paths may not contain '..'."],
+    });
+    expect((await store.listFiles((await store.getProject(projectId, null))!.draft_version_id!)).length).toBe(3);
+  });
+
+  it("rejects data that isn't a zip", async () => {
+    await expect(projects.importProject(text("not a zip"), { projectId })).rejects.toThrow("not a valid zip archive");
+  });
+});
+
+describe("readArchive", () => {
+  it("strips a single wrapping folder and skips OS clutter", () => {
+    const { files, skipped, errors } = readArchive(
+      zipSync({
+        "site/index.html": text("a"),
+        "site/css/a.css": text("b"),
+        "site/.DS_Store": text(""),
+        "__MACOSX/site/._index.html": text(""),
+      })
+    );
+    expect(errors).toEqual([]);
+    expect(files.map((f) => f.file_path)).toEqual(["css/a.css", "index.html"]);
+    expect(skipped).toEqual(["site/.DS_Store", "__MACOSX/site/._index.html"]);
+  });
+
+  it("rejects absolute, empty-segment and reserved paths", () => {
+    const { errors } = readArchive(zipSync({ "/etc/passwd": text("x"), "a//b": text("y"), "~forms/x.html": text("z") }));
+    expect(errors).toContain("/etc/passwd: Absolute paths aren't allowed.");
+    expect(errors).toContain("a//b: Path has an empty or '.' segment.");
+    expect(errors).toContain("~forms/x.html: Paths under ~forms/ are reserved for the app's built-in pages.");
+  });
+
+  it("keeps an unrecognised manifest as a file", () => {
+    const { files, manifest } = readArchive(zipSync({ [MANIFEST_FILE]: text('{"other": true}'), "a.txt": text("a") }));
+    expect(manifest).toBeNull();
+    expect(files.map((f) => f.file_path)).toEqual(["a.txt", MANIFEST_FILE]);
+  });
+
+  it("reports an empty archive", () => {
+    expect(readArchive(zipSync({ "dir/": new Uint8Array() })).errors).toEqual(["Archive contains no files."]);
+  });
+});
@@ -0,0 +1,261 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { serveData } from "../src/data";
+import { serveApp } from "../src/serve";
+import { APP_KEY_HEADER, PREVIEW_COOKIE, createSessionCookie, mintAppKey, mintPreviewToken } from "../src/session";
+import {
+  ALICE,
+  BOB,
+  type CreatedProject,
+  type DocumentInfo,
+  type ErrorBody,
+  type Harness,
+  type ServiceResult,
+  callError,
+  callJson,
+  callText,
+  createHarness,
+  readJson,
+} from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug: "my-app" }));
+  await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+});
+
+/** Requests /app/my-app/~data/... (or /preview/...) the way the auth handler routes it. */
+async function request(path: string, init: RequestInit & { json?: unknown } = {}) {
+  const { json, ...rest } = init;
+  const request = new Request(new URL(path, "https://shapps.dev"), {
+    ...rest,
+    ...(json !== undefined ? { body: JSON.stringify(json), headers: { "Content-Type": "application/json", ...rest.headers } } : {}),
+  });
+  const [, prefix, slug, ...parts] = new URL(request.url).pathname.split("/");
+  const dataPath = parts.join("/").slice("~data/".length);
+  return serveData(harness.env, request, slug, dataPath, prefix === "app" ? "active" : "draft", { store: harness.store });
+}
+
+async function defineMessages(rules: Record<string, unknown> = {}) {
+  return callJson<ServiceResult<"defineCollection">>(alice, "define_collection", { project_id: projectId, name: "messages", ...rules });
+}
+
+describe("collection tools", () => {
+  it("defines, lists and redefines collections", async () => {
+    const created = await defineMessages({ schema: { type: "object", required: ["email"] } });
+    expect(created).toMatchObject({
+      name: "messages",
+      public_read: false,
+      public_write: "create",
+      url: "https://shapps.dev/app/my-app/~data/messages",
+      created: true,
+    });
+
+    const updated = await defineMessages({ public_read: true, public_write: "all" });
+    expect(updated).toMatchObject({ public_read: true, public_write: "all", schema: null, created: false });
+
+    await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" } });
+    const listed = await callJson<ServiceResult<"listCollections">>(alice, "list_collections", { project_id: projectId });
+    expect(listed).toEqual([expect.objectContaining({ name: "messages", documents: { live: 1, draft: 0 } })]);
+
+    const { items } = await harness.store.listActivity(projectId, { actions: ["define_collection"] });
+    expect(items.map((e) => e.details?.created)).toEqual([false, true]);
+  });
+
+  it("rejects names and schemas it can't use", async () => {
+    expect(await callError(alice, "define_collection", { project_id: projectId, name: "Bad Name" })).toMatch(/name/);
+    expect(await callError(alice, "define_collection", { project_id: projectId, name: "x", schema: { type: "nope" } })).toContain(
+      "The schema isn't a JSON Schema Shapps can use"
+    );
+  });
+
+  it("queries and deletes documents per environment", async () => {
+    await defineMessages();
+    const first = await readJson<{ data: DocumentInfo }>(
+      await request("/app/my-app/~data/messages", { method: "POST", json: { n: 1 } })
+    );
+    await request("/app/my-app/~data/messages", { method: "POST", json: { n: 2 } });
+
+    const live = await callJson<{ documents: DocumentInfo[]; total: number }>(alice, "query_data", {
+      project_id: projectId,
+      collection: "messages",
+    });
+    expect(live.documents.map((d) => d.data.n)).toEqual([2, 1]);
+    expect(live.total).toBe(2);
+    expect(await callText(alice, "query_data", { project_id: projectId, collection: "messages", environment: "draft" })).toBe(
+      "No documents found."
+    );
+
+    const deleted = await callText(alice, "delete_documents", {
+      project_id: projectId,
+      collection: "messages",
+      environment: "draft",
+      document_ids: [first.data.id],
+    });
+    expect(deleted).toBe("Deleted 0 document(s).");
+    expect(
+      await callText(alice, "delete_documents", { project_id: projectId, collection: "messages", document_ids: [first.data.id] })
+    ).toBe("Deleted 1 document(s).");
+  });
+
+  it("deletes a collection with its documents, owners only", async () => {
+    await defineMessages();
+    await request("/app/my-app/~data/messages", { method: "POST", json: { n: 1 } });
+    await callText(alice, "invite_collaborator", { project_id: projectId, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+
+    expect(await callError(bob, "delete_collection", { project_id: projectId, collection: "messages", confirm: true })).toContain(
+      "this needs owner access"
+    );
+    expect(await callError(alice, "delete_collection", { project_id: projectId, collection: "messages", confirm: false })).toContain(
+      "not confirmed"
+    );
+    await callText(alice, "delete_collection", { project_id: projectId, collection: "messages", confirm: true });
+    expect(harness.store.documents).toEqual([]);
+    expect((await request("/app/my-app/~data/messages")).status).toBe(404);
+  });
+});
+
+describe("data API", () => {
+  it("follows the collection's rules", async () => {
+    await defineMessages();
+    const added = await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" } });
+    expect(added.status).toBe(201);
+    const { data: doc } = await readJson<{ data: DocumentInfo }>(added);
+    expect(doc).toMatchObject({ data: { text: "hi" } });
+
+    const denied = await request("/app/my-app/~data/messages");
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toEqual({
+      error: { code: "forbidden", message: "This collection doesn't allow reading from the app." },
+    });
+    expect((await request(`/app/my-app/~data/messages/${doc.id}`, { method: "DELETE" })).status).toBe(403);
+
+    await defineMessages({ public_read: true, public_write: "all" });
+    const list = await (await request("/app/my-app/~data/messages?limit=1")).json();
+    expect(list).toEqual({ data: [doc], pagination: { limit: 1, offset: 0, total: 1, next_offset: null } });
+
+    const put = await request(`/app/my-app/~data/messages/${doc.id}`, { method: "PUT", json: { text: "edited" } });
+    expect((await readJson<{ data: DocumentInfo }>(put)).data.data).toEqual({ text: "edited" });
+    expect((await request(`/app/my-app/~data/messages/${doc.id}`, { method: "DELETE" })).status).toBe(204);
+    expect((await request(`/app/my-app/~data/messages/${doc.id}`)).status).toBe(404);
+    expect((await request("/app/my-app/~data/messages/not-an-id")).status).toBe(404);
+    expect((await request("/app/my-app/~data/other")).status).toBe(404);
+
+    await defineMessages({ public_write: "none" });
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" } })).status).toBe(403);
+  });
+
+  it("validates documents", async () => {
+    await defineMessages({
+      schema: { type: "object", properties: { email: { type: "string", format: "email" } }, required: ["email"] },
+    });
+
+    const invalid = await request("/app/my-app/~data/messages", { method: "POST", json: { email: "nope" } });
+    expect(invalid.status).toBe(422);
+    expect(await invalid.json()).toEqual({
+      error: {
+        code: "unprocessable",
+        message: 'The document doesn\'t match the schema of "messages".',
+        details: ["email: Invalid email address"],
+      },
+    });
+
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: [1] })).status).toBe(400);
+    expect((await request("/app/my-app/~data/messages", { method: "POST", body: "email=a@b.co" })).status).toBe(400);
+    const large = await request("/app/my-app/~data/messages", {
+      method: "POST",
+      json: { email: "a@b.co", text: "x".repeat(70 * 1024) },
+    });
+    expect(large.status).toBe(400);
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: { email: "a@b.co" } })).status).toBe(201);
+  });
+
+  it("keeps draft data apart and needs a preview link for it", async () => {
+    await defineMessages({ public_read: true });
+    await request("/app/my-app/~data/messages", { method: "POST", json: { where: "live" } });
+
+    expect((await request("/preview/my-app/~data/messages")).status).toBe(404);
+
+    const { token } = await mintPreviewToken(harness.env, projectId, 60);
+    const headers = { Cookie: `${PREVIEW_COOKIE}=${token}` };
+    await request("/preview/my-app/~data/messages", { method: "POST", json: { where: "draft" }, headers });
+    const draft = await readJson<{ data: DocumentInfo[] }>(await request("/preview/my-app/~data/messages", { headers }));
+    expect(draft.data.map((d) => d.data)).toEqual([{ where: "draft" }]);
+    const live = await readJson<{ data: DocumentInfo[] }>(await request("/app/my-app/~data/messages"));
+    expect(live.data.map((d) => d.data)).toEqual([{ where: "live" }]);
+  });
+
+  it("hides private apps' data from non-members", async () => {
+    await defineMessages();
+    await callText(alice, "update_settings", { project_id: projectId, is_public: false });
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" } })).status).toBe(404);
+  });
+
+  it("lets members' pages of private apps use data with their app key", async () => {
+    await defineMessages();
+    await callText(alice, "update_settings", { project_id: projectId, is_public: false });
+    const cookie = (await createSessionCookie(harness.env, ALICE.email)).split(";")[0];
+    // fetch() doesn't carry the session, so another app can't use it
+    const fetched = { Cookie: cookie, "Sec-Fetch-Dest": "empty", "Sec-Fetch-Mode": "cors" };
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" }, headers: fetched })).status).toBe(404);
+
+    const key = await mintAppKey(harness.env, projectId, ALICE.email);
+    const headers = { ...fetched, [APP_KEY_HEADER]: key };
+    expect((await request("/app/my-app/~data/messages", { method: "POST", json: { text: "hi" }, headers })).status).toBe(201);
+    // Keys are for one project and member
+    const other = await mintAppKey(harness.env, crypto.randomUUID(), ALICE.email);
+    expect((await request("/app/my-app/~data/messages", { headers: { [APP_KEY_HEADER]: other } })).status).toBe(404);
+  });
+
+  it("caps documents per collection", async () => {
+    harness.env.LIMITS = JSON.stringify({ maxDataDocuments: 1 });
+    await defineMessages();
+    await request("/app/my-app/~data/messages", { method: "POST", json: { n: 1 } });
+
+    const over = await request("/app/my-app/~data/messages", { method: "POST", json: { n: 2 } });
+    expect(over.status).toBe(403);
+    expect((await readJson<ErrorBody>(over)).error).toMatchObject({
+      code: "quota_exceeded",
+      limit: { limit: "data_documents", max: 1, requested: 2 },
+    });
+  });
+
+  it("serves the client and adds it to HTML pages", async () => {
+    const client = await request("/preview/my-app/~data/client.js");
+    expect(client.headers.get("Content-Type")).toContain("javascript");
+    expect(await client.text()).toContain('var base = "/preview/my-app/~data/";');
+
+    await callText(alice, "write_files", {
+      project_id: projectId,
+      files: [
+        { file_path: "index.html", content: '<!DOCTYPE html><html><head><meta charset="utf-8"><title>Hi</title></head></html>' },
+        { file_path: "plain.html", content: "<h1>No head</h1>" },
+      ],
+    });
+    await callText(alice, "publish", { project_id: projectId });
+
+    const page = await serveApp(harness.env, ctx, new Request("https://shapps.dev/app/my-app/"), "my-app", "", "active", {
+      store: harness.store,
+      cache: harness.cache,
+    });
+    const html = await page.text();
+    expect(html).toBe(
+      '<!DOCTYPE html><html><head><meta charset="utf-8"><script src="/app/my-app/~data/client.js"></script><title>Hi</title></head></html>'
+    );
+    expect(page.headers.get("Content-Length")).toBe(String(new TextEncoder().encode(html).length));
+
+    const plain = await serveApp(harness.env, ctx, new Request("https://shapps.dev/app/my-app/plain.html"), "my-app", "plain.html", "active", {
+      store: harness.store,
+      cache: harness.cache,
+    });
+    expect(await plain.text()).toBe("<h1>No head</h1>");
+  });
+});
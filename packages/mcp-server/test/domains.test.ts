@@ -0,0 +1,187 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { routeAppHost } from "../src/auth-handler";
+import { ALICE, BOB, type CreatedProject, type Harness, type ServiceResult, callError, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "Bakery", slug: "bakery" }));
+});
+
+/** Adds and verifies a domain the way its owner would. */
+async function addVerifiedDomain(client: Client, project_id: string, hostname: string) {
+  const domain = await callJson<ServiceResult<"addDomain">>(client, "add_domain", { project_id, hostname });
+  harness.dns.records.set(domain.dns_records[0].name, [domain.dns_records[0].value]);
+  return callJson(client, "verify_domain", { project_id, hostname });
+}
+
+describe("domain tools", () => {
+  it("adds a domain, verifies it through DNS and removes it", async () => {
+    const added = await callJson<ServiceResult<"addDomain">>(alice, "add_domain", { project_id: projectId, hostname: "WWW.MyBakery.com." });
+    expect(added).toMatchObject({
+      hostname: "www.mybakery.com",
+      verified: false,
+      url: "https://www.mybakery.com/",
+      dns_records: [
+        { type: "TXT", name: "_shapps.www.mybakery.com", value: expect.stringMatching(/^shapps-verify=[0-9a-f]{32}$/) },
+        { type: "CNAME", name: "www.mybakery.com", value: "shapps.dev" },
+      ],
+    });
+
+    expect(await callError(alice, "verify_domain", { project_id: projectId, hostname: "www.mybakery.com" })).toContain(
+      "The TXT record for www.mybakery.com wasn't found"
+    );
+    harness.dns.records.set("_shapps.www.mybakery.com", ["something else", added.dns_records[0].value]);
+    expect(await callJson(alice, "verify_domain", { project_id: projectId, hostname: "www.mybakery.com" })).toMatchObject({
+      verified: true,
+    });
+
+    const domains = await callJson(alice, "list_domains", { project_id: projectId });
+    expect(domains).toEqual([expect.objectContaining({ hostname: "www.mybakery.com", verified: true })]);
+
+    expect(await callText(alice, "remove_domain", { project_id: projectId, hostname: "www.mybakery.com" })).toBe(
+      "Removed www.mybakery.com."
+    );
+    expect(await callText(alice, "list_domains", { project_id: projectId })).toBe("No custom domains yet. Add one with add_domain.");
+
+    const { items } = await harness.store.listActivity(projectId, {});
+    expect(items.slice(0, 3).map((e) => [e.action, e.details?.hostname])).toEqual([
+      ["remove_domain", "www.mybakery.com"],
+      ["verify_domain", "www.mybakery.com"],
+      ["add_domain", "www.mybakery.com"],
+    ]);
+  });
+
+  it("rejects hostnames it can't serve", async () => {
+    for (const hostname of ["localhost", "203.0.113.7", "*.example.com", "example.com:8080", "https://example.com"]) {
+      expect(await callError(alice, "add_domain", { project_id: projectId, hostname }), hostname).toContain("isn't a hostname");
+    }
+    expect(await callError(alice, "add_domain", { project_id: projectId, hostname: "bakery.shapps.dev" })).toContain(
+      "belongs to Shapps"
+    );
+
+    await callJson(alice, "add_domain", { project_id: projectId, hostname: "mybakery.com" });
+    expect(await callError(alice, "add_domain", { project_id: projectId, hostname: "mybakery.com" })).toContain("already added");
+    expect(await callError(alice, "verify_domain", { project_id: projectId, hostname: "other.com" })).toContain(
+      "isn't one of this app's domains"
+    );
+
+    harness.env.LIMITS = JSON.stringify({ maxDomainsPerProject: 1 });
+    expect(await callError(alice, "add_domain", { project_id: projectId, hostname: "www.mybakery.com" })).toContain(
+      "at most 1 domains"
+    );
+  });
+
+  it("lets only owners manage domains, and each domain serve one app", async () => {
+    await callText(alice, "invite_collaborator", { project_id: projectId, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "add_domain", { project_id: projectId, hostname: "mybakery.com" })).toContain(
+      "this needs owner access"
+    );
+    expect(await callText(bob, "list_domains", { project_id: projectId })).toContain("No custom domains yet");
+
+    await addVerifiedDomain(alice, projectId, "mybakery.com");
+    const { project_id: other } = await callJson<CreatedProject>(bob, "create_project", { name: "Copycat", slug: "copycat" });
+    await callJson(bob, "add_domain", { project_id: other, hostname: "mybakery.com" });
+    harness.dns.records.set("_shapps.mybakery.com", [
+      ...harness.dns.records.get("_shapps.mybakery.com")!,
+      (await callJson<ServiceResult<"listDomains">>(bob, "list_domains", { project_id: other }))[0].dns_records[0].value,
+    ]);
+    expect(await callError(bob, "verify_domain", { project_id: other, hostname: "mybakery.com" })).toContain(
+      "mybakery.com is already in use by another app"
+    );
+  });
+});
+
+describe("serving apps on their own hosts", () => {
+  beforeEach(async () => {
+    await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+    await callText(alice, "write_files", {
+      project_id: projectId,
+      files: [
+        { file_path: "index.html", content: '<html><head><meta charset="utf-8"></head><body>Fresh bread</body></html>' },
+        { file_path: "menu/index.html", content: "<h1>Menu</h1>" },
+      ],
+    });
+    await callText(alice, "publish", { project_id: projectId });
+  });
+
+  function request(url: string, init?: RequestInit) {
+    return routeAppHost(new Request(url, init), harness.env, ctx, { store: harness.store, cache: harness.cache });
+  }
+
+  it("serves the published app at the root of a verified domain", async () => {
+    expect(await request("https://www.mybakery.com/")).toBeNull();
+    await addVerifiedDomain(alice, projectId, "www.mybakery.com");
+
+    const home = (await request("https://www.mybakery.com/"))!;
+    expect(home.status).toBe(200);
+    expect(await home.text()).toBe(
+      '<html><head><meta charset="utf-8"><script src="/~data/client.js"></script></head><body>Fresh bread</body></html>'
+    );
+
+    const menu = (await request("https://WWW.MYBAKERY.COM/menu?x=1"))!;
+    expect(menu.status).toBe(302);
+    expect(menu.headers.get("Location")).toBe("/menu/?x=1");
+
+    const client = await (await request("https://www.mybakery.com/~data/client.js"))!.text();
+    expect(client).toContain('var base = "/~data/";');
+
+    const form = (await request("https://www.mybakery.com/~forms/order", {
+      method: "POST",
+      body: new URLSearchParams({ bread: "rye" }),
+      headers: { Referer: "https://www.mybakery.com/menu/" },
+    }))!;
+    expect(await form.text()).toContain('href="/menu/"');
+  });
+
+  it("leaves the Worker's own host, unverified domains and private apps alone", async () => {
+    await callJson(alice, "add_domain", { project_id: projectId, hostname: "mybakery.com" });
+    expect(await request("https://mybakery.com/")).toBeNull();
+    expect(await request("https://shapps.dev/app/bakery/")).toBeNull();
+    expect(await request("http://localhost:8787/")).toBeNull();
+
+    await addVerifiedDomain(alice, projectId, "www.mybakery.com");
+    await callText(alice, "update_settings", { project_id: projectId, is_public: false });
+    expect((await request("https://www.mybakery.com/"))!.status).toBe(404);
+  });
+
+  it("caches which app a domain serves, and that others serve none", async () => {
+    let lookups = 0;
+    const getProjectByDomain = harness.store.getProjectByDomain.bind(harness.store);
+    harness.store.getProjectByDomain = (hostname) => {
+      lookups++;
+      return getProjectByDomain(hostname);
+    };
+
+    expect(await request("https://unknown.example/")).toBeNull();
+    expect(await request("https://unknown.example/other")).toBeNull();
+    expect(lookups).toBe(1);
+
+    // Verifying, renaming and removing drop the cached answer
+    await addVerifiedDomain(alice, projectId, "unknown.example");
+    expect((await request("https://unknown.example/"))!.status).toBe(200);
+    await callText(alice, "update_settings", { project_id: projectId, slug: "bread" });
+    expect(await (await request("https://unknown.example/"))!.text()).toContain("Fresh bread");
+    expect((await request("https://unknown.example/"))!.status).toBe(200);
+    expect(lookups).toBe(3);
+
+    await callText(alice, "remove_domain", { project_id: projectId, hostname: "unknown.example" });
+    expect(await request("https://unknown.example/")).toBeNull();
+  });
+
+  it("serves <slug>.<APPS_DOMAIN> when that's set", async () => {
+    expect(await request("https://bakery.shapps.app/")).toBeNull();
+    harness.env.APPS_DOMAIN = "shapps.app";
+    expect(await (await request("https://bakery.shapps.app/"))!.text()).toContain("Fresh bread");
+    expect((await request("https://nope.shapps.app/"))!.status).toBe(404);
+    expect(await request("https://shapps.app/")).toBeNull();
+  });
+});
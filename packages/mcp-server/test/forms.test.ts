@@ -0,0 +1,148 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { serveForm, submissionsCsv } from "../src/forms";
+import { ALICE, BOB, type CreatedProject, type ErrorBody, type Harness, callJson, callText, createHarness, readJson } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug: "my-app" }));
+  await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+  await callText(alice, "publish", { project_id: projectId });
+});
+
+/** Posts to /app/my-app/~forms/:form (or /preview/...) the way the auth handler routes it. */
+async function post(path: string, body: BodyInit, headers: Record<string, string> = {}) {
+  const request = new Request(new URL(path, "https://shapps.dev"), {
+    method: "POST",
+    body,
+    headers: { "CF-Connecting-IP": "203.0.113.7", ...headers },
+  });
+  const [, prefix, slug, , form] = new URL(request.url).pathname.split("/");
+  return serveForm(harness.env, request, slug, form, prefix === "app" ? "active" : "draft", { store: harness.store });
+}
+
+const urlencoded = { "Content-Type": "application/x-www-form-urlencoded" };
+
+describe("form endpoint", () => {
+  it("stores urlencoded posts and shows a thank-you page", async () => {
+    const response = await post(
+      "/app/my-app/~forms/contact",
+      new URLSearchParams([["name", "Bob"], ["topic", "a"], ["topic", "b"], ["_honeypot", ""]]),
+      { ...urlencoded, Referer: "https://shapps.dev/app/my-app/contact.html" }
+    );
+    expect(response.status).toBe(200);
+    const html = await response.text();
+    expect(html).toContain("Thank you!");
+    expect(html).toContain('href="/app/my-app/contact.html"');
+
+    expect(harness.store.formSubmissions).toEqual([
+      expect.objectContaining({ environment: "live", form: "contact", data: { name: "Bob", topic: ["a", "b"] } }),
+    ]);
+  });
+
+  it("redirects to the thank-you page from shapps.json, but not out of the app", async () => {
+    await callText(alice, "write_files", {
+      project_id: projectId,
+      files: [{ file_path: "shapps.json", content: '{"forms": {"contact": {"redirect": "thanks.html"}, "evil": {"redirect": "https://evil.example/"}}}' }],
+    });
+    await callText(alice, "publish", { project_id: projectId });
+
+    const response = await post("/app/my-app/~forms/contact", "name=Bob", urlencoded);
+    expect(response.status).toBe(303);
+    expect(response.headers.get("Location")).toBe("/app/my-app/thanks.html");
+
+    const evil = await post("/app/my-app/~forms/evil", "name=Bob", urlencoded);
+    expect(evil.status).toBe(200);
+  });
+
+  it("answers JSON posts with JSON", async () => {
+    const response = await post("/app/my-app/~forms/signup", JSON.stringify({ email: "bob@example.com" }), {
+      "Content-Type": "application/json",
+    });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ data: { form: "signup" } });
+
+    const invalid = await post("/app/my-app/~forms/signup", "[1]", { "Content-Type": "application/json" });
+    expect(invalid.status).toBe(400);
+    expect((await readJson<ErrorBody>(invalid)).error.code).toBe("invalid_request");
+  });
+
+  it("pretends to accept posts that fill in the honeypot", async () => {
+    const response = await post("/app/my-app/~forms/contact", "name=Spam&_honeypot=gotcha", urlencoded);
+    expect(response.status).toBe(200);
+    expect(harness.store.formSubmissions).toEqual([]);
+  });
+
+  it("limits posts per IP and submissions per project", async () => {
+    harness.env.LIMITS = JSON.stringify({ formSubmissionsPerMinute: 2, maxFormSubmissions: 1 });
+    expect((await post("/app/my-app/~forms/contact", "n=1", urlencoded)).status).toBe(200);
+
+    const full = await post("/app/my-app/~forms/contact", "n=2", urlencoded);
+    expect(full.status).toBe(403);
+    expect(await full.text()).toContain("take more form submissions");
+
+    const limited = await post("/app/my-app/~forms/contact", "n=3", urlencoded);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBeTruthy();
+    expect((await post("/app/my-app/~forms/contact", "n=4", { ...urlencoded, "CF-Connecting-IP": "203.0.113.8" })).status).toBe(403);
+  });
+
+  it("keeps previews' submissions apart and needs access to the app", async () => {
+    expect((await post("/preview/my-app/~forms/contact", "n=1", urlencoded)).status).toBe(404);
+    expect((await post("/app/my-app/~forms/Bad%20Name", "n=1", urlencoded)).status).toBe(404);
+
+    await callText(alice, "update_settings", { project_id: projectId, is_public: false });
+    expect((await post("/app/my-app/~forms/contact", "n=1", urlencoded)).status).toBe(404);
+    expect(harness.store.formSubmissions).toEqual([]);
+  });
+});
+
+describe("form submission tools", () => {
+  beforeEach(async () => {
+    await post("/app/my-app/~forms/contact", "name=Ann&message=Hi, there", urlencoded);
+    await post("/app/my-app/~forms/newsletter", "email==cmd()", urlencoded);
+    await post("/app/my-app/~forms/contact", 'name=Bob&message=Say "hello"\nbye&phone=123', urlencoded);
+  });
+
+  it("lists submissions newest first, filtered by form and time", async () => {
+    const all = await callJson<{ submissions: { form: string }[]; total: number }>(alice, "list_form_submissions", {
+      project_id: projectId,
+    });
+    expect(all.submissions.map((s) => s.form)).toEqual(["contact", "newsletter", "contact"]);
+    expect(all.total).toBe(3);
+
+    const contact = await callJson(alice, "list_form_submissions", { project_id: projectId, form: "contact", limit: 1 });
+    expect(contact).toMatchObject({ submissions: [{ data: { name: "Bob" } }], total: 2, next_offset: 1 });
+
+    const future = new Date(Date.now() + 60_000).toISOString();
+    expect(await callText(alice, "list_form_submissions", { project_id: projectId, since: future })).toBe(
+      "No matching form submissions."
+    );
+    expect(await callText(alice, "list_form_submissions", { project_id: projectId, environment: "draft" })).toBe(
+      "No matching form submissions."
+    );
+
+    const bob = await harness.connect(BOB);
+    expect((await bob.callTool({ name: "list_form_submissions", arguments: { project_id: projectId } })).isError).toBe(true);
+  });
+
+  it("exports CSV oldest first with a column per field", async () => {
+    const csv = await callText(alice, "export_form_submissions", { project_id: projectId, form: "contact" });
+    const lines = csv.split("\r\n");
+    expect(lines[0]).toBe("submitted_at,form,name,message,phone");
+    expect(lines[1]).toMatch(/^[^,]+,contact,Ann,"Hi, there",$/);
+    expect(lines.slice(2).join("\r\n")).toMatch(/^[^,]+,contact,Bob,"Say ""hello""\nbye",123\r\n$/);
+  });
+});
+
+describe("submissionsCsv", () => {
+  it("keeps formulas from running in spreadsheets and joins repeated fields", () => {
+    const csv = submissionsCsv([{ form: "f", created_at: "2026-10-19T00:00:00.000Z", data: { a: "=1+1", b: ["x", "y"] } }]);
+    expect(csv).toBe("submitted_at,form,a,b\r\n2026-10-19T00:00:00.000Z,f,'=1+1,x; y\r\n");
+  });
+});
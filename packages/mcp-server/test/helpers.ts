@@ -0,0 +1,206 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { MemoryAppCache } from "../src/cache";
+import type { documentInfo } from "../src/data";
+import { MemoryDnsResolver } from "../src/domains";
+import { MemoryRateLimiter, enforceCallRate } from "../src/limits";
+import { registerPrompts } from "../src/prompts";
+import { registerResources } from "../src/resources";
+import type { LimitInfo } from "../src/services/errors";
+import { ProjectService } from "../src/services/projects";
+import { MemoryProjectStore } from "../src/store";
+import { registerTools } from "../src/tools";
+import { registerPreviewWidget } from "../src/widget";
+import type { Env, Props } from "../src/types";
+
+/** KV namespace kept in a map. Supports what Shapps uses: get, put, delete and prefix listing. */
+export class MemoryKV {
+  entries = new Map<string, string>();
+
+  async get(key: string, type?: "text" | "json") {
+    const value = this.entries.get(key);
+    if (value === undefined) return null;
+    return type === "json" ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string) {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async list({ prefix = "" }: { prefix?: string; cursor?: string } = {}) {
+    const keys = [...this.entries.keys()].filter((k) => k.startsWith(prefix)).map((name) => ({ name }));
+    return { keys, list_complete: true, cursor: undefined };
+  }
+}
+
+/** R2 bucket kept in a map. */
+export class MemoryR2 {
+  objects = new Map<string, Uint8Array>();
+  metadata = new Map<string, Record<string, string>>();
+  uploaded = new Map<string, Date>();
+
+  async put(key: string, value: Uint8Array, options: { httpMetadata?: Record<string, string> } = {}) {
+    this.objects.set(key, value);
+    this.metadata.set(key, options.httpMetadata ?? {});
+    this.uploaded.set(key, new Date());
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of typeof keys === "string" ? [keys] : keys) {
+      this.objects.delete(key);
+      this.metadata.delete(key);
+      this.uploaded.delete(key);
+    }
+  }
+
+  async list({ prefix = "" }: { prefix?: string; cursor?: string } = {}) {
+    const objects = [...this.uploaded].filter(([key]) => key.startsWith(prefix)).map(([key, uploaded]) => ({ key, uploaded }));
+    return { objects, truncated: false, cursor: undefined };
+  }
+
+  async get(key: string) {
+    const bytes = this.objects.get(key);
+    if (!bytes) return null;
+    return {
+      size: bytes.length,
+      httpMetadata: this.metadata.get(key),
+      body: new Response(bytes).body,
+      arrayBuffer: async () => bytes.slice().buffer,
+    };
+  }
+}
+
+/** Durable Object namespace of RateCounters, each counting in one shared MemoryRateLimiter. */
+export class MemoryRateCounters {
+  limiter = new MemoryRateLimiter();
+
+  idFromName(name: string) {
+    return name;
+  }
+
+  get(key: string) {
+    return { hit: (limit: number, windowSeconds: number) => this.limiter.hit(key, limit, windowSeconds) };
+  }
+}
+
+export function testEnv(): Env {
+  return {
+    OAUTH_KV: new MemoryKV(),
+    ASSETS: new MemoryR2(),
+    RATE_LIMITER: new MemoryRateCounters(),
+    COOKIE_ENCRYPTION_KEY: "test-cookie-key",
+    PUBLIC_BASE_URL: "https://shapps.dev",
+    SUPABASE_URL: "",
+    SUPABASE_ANON_KEY: "",
+  } as unknown as Env;
+}
+
+export const ALICE: Props = { email: "alice@example.com", name: "Alice", userId: "alice-id" };
+export const BOB: Props = { email: "bob@example.com", name: "Bob", userId: "bob-id" };
+
+export interface Harness {
+  env: Env;
+  store: MemoryProjectStore;
+  cache: MemoryAppCache;
+  dns: MemoryDnsResolver;
+  /** Connects an MCP client to a fresh server signed in as `props` (or without OAuth). */
+  connect(props?: Props): Promise<Client>;
+}
+
+/** One in-memory backend that any number of MCP clients (users) can share. */
+export function createHarness(): Harness {
+  const env = testEnv();
+  const store = new MemoryProjectStore();
+  const cache = new MemoryAppCache();
+  const dns = new MemoryDnsResolver();
+
+  return {
+    env,
+    store,
+    cache,
+    dns,
+    async connect(props?: Props) {
+      const server = new McpServer({ name: "Shapps", version: "test" });
+      const deps = {
+        props: () => props,
+        projects: () => new ProjectService(env, props?.email ?? null, store, cache, props?.client ?? null, dns),
+        checkRate: async () => {
+          if (props?.email) await enforceCallRate(env, props.email);
+        },
+      };
+      const resources = registerResources(server, deps);
+      registerTools(server, { ...deps, onProjectChange: resources.projectChanged });
+      registerPrompts(server, deps);
+      registerPreviewWidget(server, env.PUBLIC_BASE_URL);
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: "shapps-tests", version: "test" });
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      // Listing the tools makes the client check every result against its tool's output schema
+      await client.listTools();
+      return client;
+    },
+  };
+}
+
+/** Calls a tool and returns its text output. */
+export async function callText(client: Client, name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  return content.map((c) => c.text).join("\n");
+}
+
+/** Calls a tool that's expected to fail and returns its error text. */
+export async function callError(client: Client, name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as { type: string; text: string }[]).map((c) => c.text).join("\n");
+  if (!result.isError) {
+    throw new Error(`${name} succeeded but was expected to fail: ${text}`);
+  }
+  return text;
+}
+
+/** Calls a tool whose output is JSON and parses it. */
+export async function callJson<T = unknown>(client: Client, name: string, args: Record<string, unknown> = {}): Promise<T> {
+  const text = await callText(client, name, args);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`${name} did not return JSON: ${text}`);
+  }
+}
+
+/** A response's JSON body, as the type the test expects (see the bodies below). */
+export async function readJson<T>(response: Response): Promise<T> {
+  return (await response.json()) as T;
+}
+
+/** An error from the data, form or REST API (see errorResponse in data.ts). */
+export interface ErrorBody {
+  error: { code: string; message: string; details?: string[]; limit?: LimitInfo };
+}
+
+/** What a ProjectService method resolves to, for the tools that return it as their JSON. */
+export type ServiceResult<K extends keyof ProjectService> = ProjectService[K] extends (...args: never[]) => Promise<infer R>
+  ? R
+  : never;
+
+/** What create_project and duplicate_project return. */
+export interface CreatedProject {
+  message: string;
+  project_id: string;
+  slug: string;
+  draft_version_id: string;
+  files?: string[];
+}
+
+/** What get_preview_url returns. */
+export type PreviewLink = ServiceResult<"createPreviewLink">;
+
+/** A document as the data API and query_data return it. */
+export type DocumentInfo = ReturnType<typeof documentInfo>;
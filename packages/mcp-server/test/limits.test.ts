@@ -0,0 +1,179 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { handleApi } from "../src/api/router";
+import { DEFAULT_LIMITS, type Limits, countHit, limitsFor } from "../src/limits";
+import { serveApp } from "../src/serve";
+import type { Env } from "../src/types";
+import { ALICE, BOB, type CreatedProject, type ErrorBody, type Harness, callError, callJson, callText, createHarness, readJson } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+});
+
+function setLimits(limits: Partial<Limits>) {
+  harness.env.LIMITS = JSON.stringify(limits);
+}
+
+async function createProject(slug = "my-app"): Promise<{ id: string; draft_version_id: string }> {
+  const created = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug });
+  return { id: created.project_id, draft_version_id: created.draft_version_id };
+}
+
+describe("limitsFor", () => {
+  it("applies valid overrides and ignores the rest", () => {
+    const env = { LIMITS: JSON.stringify({ maxProjects: 3, callsPerMinute: "lots", unknown: 1 }) } as Env;
+    expect(limitsFor(env)).toEqual({ ...DEFAULT_LIMITS, maxProjects: 3 });
+    expect(limitsFor({ LIMITS: "{not json" } as Env)).toEqual(DEFAULT_LIMITS);
+  });
+});
+
+describe("quotas", () => {
+  it("caps how many projects a user owns", async () => {
+    setLimits({ maxProjects: 1 });
+    await createProject("one");
+
+    const text = await callError(alice, "create_project", { name: "Two", slug: "two" });
+    expect(text).toMatch(/^You already own 1 projects/);
+    expect(text).toContain("limit: projects\nmax: 1\nrequested: 2\nresets_at: never");
+
+    // Other users have their own quota
+    const bob = await harness.connect(BOB);
+    expect(await callJson<CreatedProject>(bob, "create_project", { name: "Bob's", slug: "bobs" })).toMatchObject({ slug: "bobs" });
+  });
+
+  it("caps files per version and writes nothing from a batch over it", async () => {
+    setLimits({ maxFilesPerVersion: 2 });
+    const project = await createProject();
+
+    const files = ["a.html", "b.html", "c.html"].map((file_path) => ({ file_path, content: "x" }));
+    const text = await callText(alice, "write_files", { project_id: project.id, files });
+    expect(text).toContain("This would make 3 files in the draft");
+    expect(await harness.store.listFiles(project.draft_version_id)).toEqual([]);
+
+    // Overwriting doesn't add files, so it's still allowed at the limit
+    await callText(alice, "write_files", { project_id: project.id, files: files.slice(0, 2) });
+    expect(await callText(alice, "write_files", { project_id: project.id, files: files.slice(0, 1) })).toMatch(/^Files written/);
+  });
+
+  it("counts an editor's writes against the owner's storage", async () => {
+    setLimits({ maxTotalBytes: 10 });
+    const project = await createProject();
+    await callText(alice, "invite_collaborator", { project_id: project.id, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+
+    const text = await callText(bob, "write_files", {
+      project_id: project.id,
+      files: [{ file_path: "index.html", content: "more than ten bytes" }],
+    });
+    expect(text).toContain("This would bring the project owner's storage to 19 B, over the 10 B limit");
+    expect(text).toContain("limit: total_bytes");
+
+    expect(
+      await callText(bob, "write_files", { project_id: project.id, files: [{ file_path: "a.txt", content: "small" }] })
+    ).toMatch(/^Files written/);
+  });
+
+  it("checks edits against storage too", async () => {
+    const project = await createProject();
+    await callText(alice, "write_files", { project_id: project.id, files: [{ file_path: "a.txt", content: "hello" }] });
+    setLimits({ maxTotalBytes: 8 });
+
+    const text = await callText(alice, "edit_files", {
+      project_id: project.id,
+      files: [{ file_path: "a.txt", edits: [{ type: "search_replace", search: "hello", replace: "hello world" }] }],
+    });
+    expect(text).toContain("limit: total_bytes");
+    const [file] = await harness.store.getFiles(project.draft_version_id, ["a.txt"]);
+    expect(file.content).toBe("hello");
+  });
+
+  it("keeps only the newest published versions", async () => {
+    setLimits({ maxVersionsRetained: 2 });
+    const project = await createProject();
+
+    let result = { versions_pruned: 0 };
+    for (let i = 0; i < 4; i++) {
+      result = await callJson<typeof result>(alice, "publish", { project_id: project.id });
+    }
+    expect(result.versions_pruned).toBe(1);
+
+    const { items } = await harness.store.listVersions(project.id);
+    expect(items.map((v) => [v.version_number, v.is_draft])).toEqual([
+      [5, true],
+      [4, false],
+      [3, false],
+    ]);
+  });
+});
+
+describe("rate limits", () => {
+  it("limits tool calls per user with a reset time", async () => {
+    setLimits({ callsPerMinute: 2 });
+    const project = await createProject();
+    await callText(alice, "get_project", { project_id: project.id });
+
+    const text = await callError(alice, "get_project", { project_id: project.id });
+    expect(text).toMatch(/^Too many calls: the limit is 2 per minute/);
+    expect(text).toContain("limit: calls_per_minute");
+    const resetsAt = Date.parse(text.match(/resets_at: (.+)/)![1]);
+    expect(resetsAt).toBeGreaterThan(Date.now());
+
+    // whoami isn't counted, and other users aren't affected
+    expect(await callJson(alice, "whoami")).toEqual(ALICE);
+    const bob = await harness.connect(BOB);
+    expect(await callText(bob, "list_projects")).toBe("No projects found. Use create_project to get started!");
+  });
+
+  it("limits app requests per IP, except edge cache hits", async () => {
+    setLimits({ appRequestsPerMinute: 1 });
+    const project = await createProject();
+    await callText(alice, "update_settings", { project_id: project.id, is_public: true });
+    await callText(alice, "write_files", { project_id: project.id, files: [{ file_path: "index.html", content: "<h1>Hi</h1>" }] });
+    await callText(alice, "publish", { project_id: project.id });
+
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (p: Promise<unknown>) => pending.push(p) } as unknown as ExecutionContext;
+    const get = async (path: string, ip?: string) => {
+      const request = new Request(`https://shapps.dev/app/my-app/${path}`, { headers: ip ? { "CF-Connecting-IP": ip } : {} });
+      const response = await serveApp(harness.env, ctx, request, "my-app", path, "active", {
+        store: harness.store,
+        cache: harness.cache,
+      });
+      await Promise.all(pending);
+      return response;
+    };
+
+    expect((await get("", "1.2.3.4")).status).toBe(200);
+    expect((await get("", "1.2.3.4")).status).toBe(200);
+    const limited = await get("missing.html", "1.2.3.4");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await limited.text()).toContain("limit: app_requests_per_minute");
+
+    expect((await get("missing.html", "5.6.7.8")).status).toBe(404);
+    // Requests without an IP don't share one bucket
+    expect((await get("missing.html")).status).toBe(404);
+    expect((await get("missing.html")).status).toBe(404);
+  });
+
+  it("returns structured 429s from the REST API", async () => {
+    setLimits({ ipCallsPerMinute: 0 });
+    const request = new Request("https://shapps.dev/api/v1/projects", { headers: { "CF-Connecting-IP": "1.2.3.4" } });
+    const response = await handleApi(request, harness.env);
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).not.toBeNull();
+    const { error } = await readJson<ErrorBody>(response);
+    expect(error).toMatchObject({ code: "rate_limited", limit: { limit: "api_requests_per_minute", max: 0, requested: 1 } });
+  });
+
+  it("starts a new window once the old one ends", () => {
+    const first = countHit(undefined, 0, 1, 60);
+    const second = countHit(first.window, 59_999, 1, 60);
+    expect(second.result).toMatchObject({ allowed: false, count: 2 });
+    expect(countHit(second.window, 60_000, 1, 60).result).toEqual({ allowed: true, count: 1, resetAt: 120_000 });
+  });
+});
@@ -0,0 +1,130 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { SHAPPS_CONVENTIONS } from "../src/prompts";
+import { fileUri, projectUri } from "../src/resources";
+import { ALICE, BOB, type CreatedProject, type Harness, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+/** The listed project and file resources (leaving out fixed ones like the preview widget). */
+async function listProjectResources(client: Client) {
+  const { resources } = await client.listResources();
+  return resources.filter((r) => r.uri.startsWith("shapps://"));
+}
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug: "my-app" }));
+  await callText(alice, "write_files", {
+    project_id: projectId,
+    files: [
+      { file_path: "index.html", content: "<h1>Hi</h1>" },
+      { file_path: "img/a logo.png", content: "iVBORw0KGgo=", encoding: "base64" },
+    ],
+  });
+});
+
+describe("resources", () => {
+  it("lists templates, projects and draft files", async () => {
+    const { resourceTemplates } = await alice.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "shapps://project/{id}",
+      "shapps://project/{id}/file/{+path}",
+    ]);
+
+    const resources = await listProjectResources(alice);
+    expect(resources.map((r) => [r.uri, r.name, r.mimeType])).toEqual([
+      [`shapps://project/${projectId}`, "my-app", "application/json"],
+      [`shapps://project/${projectId}/file/index.html`, "my-app/index.html", "text/html"],
+      [`shapps://project/${projectId}/file/img/a%20logo.png`, "my-app/img/a logo.png", "image/png"],
+    ]);
+  });
+
+  it("reads text files, binary files and the project", async () => {
+    const html = await alice.readResource({ uri: fileUri(projectId, "index.html") });
+    expect(html.contents).toEqual([{ uri: fileUri(projectId, "index.html"), mimeType: "text/html", text: "<h1>Hi</h1>" }]);
+
+    const png = await alice.readResource({ uri: fileUri(projectId, "img/a logo.png") });
+    expect(png.contents[0]).toMatchObject({ mimeType: "image/png", blob: "iVBORw0KGgo=" });
+
+    const project = await alice.readResource({ uri: projectUri(projectId) });
+    expect(JSON.parse((project.contents[0] as { text: string }).text)).toMatchObject({ id: projectId, slug: "my-app", role: "owner" });
+  });
+
+  it("reports missing files and projects the user can't see as not found", async () => {
+    await expect(alice.readResource({ uri: fileUri(projectId, "nope.html") })).rejects.toMatchObject({
+      code: -32002,
+      message: expect.stringContaining("File not found: nope.html"),
+    });
+
+    const bob = await harness.connect(BOB);
+    await expect(bob.readResource({ uri: fileUri(projectId, "index.html") })).rejects.toMatchObject({ code: -32002 });
+    expect(await listProjectResources(bob)).toEqual([]);
+  });
+
+  it("notifies subscribers when the draft changes", async () => {
+    const updated: string[] = [];
+    let listChanges = 0;
+    alice.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      updated.push(n.params.uri);
+    });
+    alice.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanges++;
+    });
+    await alice.subscribeResource({ uri: fileUri(projectId, "index.html") });
+    await alice.subscribeResource({ uri: fileUri(projectId, "img/a logo.png") });
+
+    await callText(alice, "edit_files", {
+      project_id: projectId,
+      files: [{ file_path: "index.html", edits: [{ type: "search_replace", search: "Hi", replace: "Hello" }] }],
+    });
+    await callText(alice, "write_files", { project_id: projectId, files: [{ file_path: "about.html", content: "About" }] });
+    expect(updated).toEqual([fileUri(projectId, "index.html")]);
+    expect(listChanges).toBe(1);
+
+    // A rollback may change every file
+    const { versions } = (await alice.callTool({ name: "list_versions", arguments: { project_id: projectId } }))
+      .structuredContent as { versions: { id: string }[] };
+    await alice.unsubscribeResource({ uri: fileUri(projectId, "index.html") });
+    await callText(alice, "rollback", { project_id: projectId, version_id: versions[0].id });
+    expect(updated).toEqual([fileUri(projectId, "index.html"), fileUri(projectId, "img/a logo.png")]);
+    expect(listChanges).toBe(2);
+  });
+});
+
+describe("prompts", () => {
+  it("lists the prompts", async () => {
+    const { prompts } = await alice.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(["build_landing_page", "add_contact_form", "make_mobile_friendly"]);
+  });
+
+  it("starts each prompt with the Shapps conventions", async () => {
+    const { messages } = await alice.getPrompt({
+      name: "build_landing_page",
+      arguments: { subject: "a bakery", style: "warm" },
+    });
+    expect(messages).toHaveLength(1);
+    const text = (messages[0].content as { text: string }).text;
+    expect(text.startsWith(SHAPPS_CONVENTIONS)).toBe(true);
+    expect(text).toContain("Build a landing page for a bakery.\nStyle: warm.");
+    expect(text).not.toContain("aimed at");
+
+    const form = await alice.getPrompt({ name: "add_contact_form", arguments: { project_id: projectId } });
+    expect((form.messages[0].content as { text: string }).text).toContain("Ask for: name, email and message.");
+  });
+
+  it("completes project ids", async () => {
+    const { completion } = await alice.complete({
+      ref: { type: "ref/prompt", name: "make_mobile_friendly" },
+      argument: { name: "project_id", value: projectId.slice(0, 4) },
+    });
+    expect(completion.values).toEqual([projectId]);
+  });
+});
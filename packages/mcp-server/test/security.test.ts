@@ -0,0 +1,165 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { AuthHandler, routeAppHost } from "../src/auth-handler";
+import { serveApp } from "../src/serve";
+import { ALICE, type CreatedProject, type Harness, type PreviewLink, type ServiceResult, MemoryKV, callError, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "Shop", slug: "shop" }));
+  await callText(alice, "update_settings", { project_id: projectId, is_public: true });
+  await callText(alice, "write_files", {
+    project_id: projectId,
+    files: [
+      { file_path: "index.html", content: "<h1>Shop</h1>" },
+      { file_path: "about.html", content: "<h1>About</h1>" },
+    ],
+  });
+  await callText(alice, "publish", { project_id: projectId });
+});
+
+/** Requests /app/shop/:path (or /preview/...) on the Worker's own host. */
+function visit(path: string) {
+  const request = new Request(new URL(path, "https://shapps.dev"));
+  const [, prefix, slug, ...rest] = new URL(request.url).pathname.split("/");
+  return serveApp(harness.env, ctx, request, slug, rest.join("/"), prefix === "app" ? "active" : "draft", {
+    store: harness.store,
+    cache: harness.cache,
+  });
+}
+
+function directives(response: Response) {
+  const policy = response.headers.get("Content-Security-Policy") ?? "";
+  return Object.fromEntries(policy.split("; ").map((d) => [d.split(" ")[0], d.split(" ").slice(1)]));
+}
+
+describe("security headers", () => {
+  it("hardens published apps by default, from the database and the edge cache", async () => {
+    for (const response of [await visit("/app/shop/"), await visit("/app/shop/")]) {
+      expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+      expect(response.headers.get("Referrer-Policy")).toBe("strict-origin-when-cross-origin");
+      expect(response.headers.get("Permissions-Policy")).toContain("camera=(), microphone=(), geolocation=()");
+
+      const csp = directives(response);
+      expect(csp["default-src"]).toEqual(["'self'"]);
+      expect(csp["script-src"]).toEqual(expect.arrayContaining(["'self'", "'unsafe-inline'", "https://cdn.jsdelivr.net"]));
+      expect(csp["script-src"]).not.toContain("'unsafe-eval'");
+      expect(csp["connect-src"]).not.toContain("https:");
+      expect(csp["object-src"]).toEqual(["'none'"]);
+      // Every app shares this origin, so 'self' would let other apps frame it
+      expect(csp["frame-ancestors"]).toEqual(["'none'"]);
+    }
+    // Added to each response rather than cached, since settings can change
+    const [cached] = harness.cache.responses.values();
+    expect(cached.headers.map(([name]) => name)).not.toContain("content-security-policy");
+  });
+
+  it("lets previews be framed by chat clients", async () => {
+    const { preview_url } = await callJson<PreviewLink>(alice, "get_preview_url", { project_id: projectId });
+    const response = await visit(new URL(preview_url).pathname + new URL(preview_url).search);
+    expect(response.status).toBe(200);
+    expect(directives(response)["script-src"]).toContain("'self'");
+    expect(directives(response)["frame-ancestors"]).toBeUndefined();
+  });
+
+  it("applies a project's overrides straight away, and resets them", async () => {
+    await visit("/app/shop/");
+    const settings = await callJson<ServiceResult<"updateSettings">>(alice, "update_settings", {
+      project_id: projectId,
+      security: {
+        script_sources: ["https://js.stripe.com"],
+        connect_sources: ["https://api.example.com", "wss://*.example.com"],
+        frame_sources: ["https://www.youtube.com/embed/"],
+        frame_ancestors: ["https://blog.example.com"],
+        allow_eval: true,
+        permissions: ["camera"],
+      },
+    });
+    expect(settings.security.script_sources).toEqual(["https://js.stripe.com"]);
+
+    const response = await visit("/app/shop/");
+    const csp = directives(response);
+    expect(csp["script-src"]).toEqual(expect.arrayContaining(["'unsafe-eval'", "https://js.stripe.com"]));
+    expect(csp["connect-src"]).toEqual(expect.arrayContaining(["https://api.example.com", "wss://*.example.com"]));
+    expect(csp["frame-src"]).toEqual(["'self'", "https://www.youtube.com/embed/"]);
+    expect(csp["frame-ancestors"]).toEqual(["'self'", "https://blog.example.com"]);
+    expect(response.headers.get("Permissions-Policy")).toContain("camera=(self), microphone=()");
+    // Cached with the new settings
+    expect(directives(await visit("/app/shop/"))["script-src"]).toContain("https://js.stripe.com");
+
+    await callText(alice, "update_settings", { project_id: projectId, security: null });
+    expect(directives(await visit("/app/shop/"))["script-src"]).not.toContain("https://js.stripe.com");
+  });
+
+  it("only accepts https origins as sources", async () => {
+    for (const source of ["'unsafe-inline'", "http://example.com", "*", "https://example.com; script-src *", "data:"]) {
+      const error = await callError(alice, "update_settings", { project_id: projectId, security: { script_sources: [source] } });
+      expect(error, source).toContain("Use an https:// (or wss://) origin");
+    }
+    expect(
+      (await alice.callTool({ name: "update_settings", arguments: { project_id: projectId, security: { script_src: [] } } })).isError
+    ).toBe(true);
+  });
+});
+
+describe("isolated origins", () => {
+  it("needs APPS_DOMAIN", async () => {
+    expect(await callError(alice, "update_settings", { project_id: projectId, isolated_origin: true })).toContain(
+      "APPS_DOMAIN isn't set"
+    );
+  });
+
+  it("moves the published app to its own origin", async () => {
+    harness.env.APPS_DOMAIN = "shapps.app";
+    await visit("/app/shop/");
+    const settings = await callJson<ServiceResult<"updateSettings">>(alice, "update_settings", { project_id: projectId, isolated_origin: true });
+    expect(settings).toMatchObject({ isolated_origin: true, live_url: "https://shop.shapps.app/" });
+
+    for (const _ of [1, 2]) {
+      const redirect = await visit("/app/shop/about?ref=1");
+      expect(redirect.status).toBe(302);
+      expect(redirect.headers.get("Location")).toBe("https://shop.shapps.app/about?ref=1");
+    }
+    expect((await visit("/app/shop//evil.example/")).headers.get("Location")).toBe("https://shop.shapps.app/evil.example/");
+
+    const own = (await routeAppHost(new Request("https://shop.shapps.app/about"), harness.env, ctx, {
+      store: harness.store,
+      cache: harness.cache,
+    }))!;
+    expect(await own.text()).toBe("<h1>About</h1>");
+    expect(directives(own)["frame-ancestors"]).toEqual(["'self'"]);
+
+    // Previews stay on the Worker's host
+    const { preview_url } = await callJson<PreviewLink>(alice, "get_preview_url", { project_id: projectId });
+    expect((await visit(new URL(preview_url).pathname + new URL(preview_url).search)).status).toBe(200);
+
+    await callText(alice, "update_settings", { project_id: projectId, isolated_origin: false });
+    expect((await visit("/app/shop/about")).status).toBe(200);
+  });
+});
+
+describe("sign-in", () => {
+  /** Starts a browser sign-in and returns where it will send the owner afterwards. */
+  async function returnTo(value: string) {
+    const url = new URL("https://shapps.dev/login");
+    url.searchParams.set("return_to", value);
+    const response = await AuthHandler.fetch!(new Request(url) as Request<unknown, IncomingRequestCfProperties>, harness.env, ctx);
+    const state = new URL(response.headers.get("Location")!).searchParams.get("state");
+    const saved = await (harness.env.OAUTH_KV as unknown as MemoryKV).get(`login_state:${state}`, "json");
+    return saved.returnTo;
+  }
+
+  it("only returns to paths on the Worker's own origin", async () => {
+    expect(await returnTo("/app/shop/?tab=1#top")).toBe("/app/shop/?tab=1#top");
+    expect(await returnTo("/\\evil.com")).toBe("/");
+    expect(await returnTo("//evil.com/")).toBe("/");
+    expect(await returnTo("https://evil.com/")).toBe("/");
+  });
+});
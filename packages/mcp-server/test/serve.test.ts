@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemoryAppCache } from "../src/cache";
+import { serveApp } from "../src/serve";
+import { ProjectService } from "../src/services/projects";
+import { createSessionCookie } from "../src/session";
+import { MemoryProjectStore } from "../src/store";
+import type { Env } from "../src/types";
+import { ALICE, BOB, testEnv } from "./helpers";
+
+let env: Env;
+let store: MemoryProjectStore;
+let cache: MemoryAppCache;
+let projects: ProjectService;
+let projectId: string;
+let pending: Promise<unknown>[];
+
+const ctx = { waitUntil: (p: Promise<unknown>) => pending.push(p) } as unknown as ExecutionContext;
+
+beforeEach(async () => {
+  env = testEnv();
+  store = new MemoryProjectStore();
+  cache = new MemoryAppCache();
+  projects = new ProjectService(env, ALICE.email, store, cache);
+  pending = [];
+
+  const { project } = await projects.createProject({ name: "Site", slug: "site" });
+  projectId = project.id;
+  await projects.writeFiles(projectId, [
+    { file_path: "index.html", content: "<h1>Home</h1>" },
+    { file_path: "about/index.html", content: "<h1>About</h1>" },
+  ]);
+});
+
+/** Requests /app/:slug/... or /preview/:slug/... (or a full URL to one) the way the auth handler routes them. */
+async function get(path: string, init: RequestInit = {}) {
+  const request = new Request(new URL(path, "https://shapps.dev"), init);
+  const [, prefix, slug, ...rest] = new URL(request.url).pathname.split("/");
+  const response = await serveApp(env, ctx, request, slug, rest.join("/"), prefix === "app" ? "active" : "draft", {
+    store,
+    cache,
+  });
+  await Promise.all(pending);
+  return response;
+}
+
+/** Headers of a page load by a signed-in user. */
+async function pageLoad(email = ALICE.email) {
+  const cookie = (await createSessionCookie(env, email)).split(";")[0];
+  return { Cookie: cookie, "Sec-Fetch-Dest": "document", "Sec-Fetch-Mode": "navigate" };
+}
+
+describe("published apps", () => {
+  beforeEach(async () => {
+    await projects.updateSettings(projectId, { is_public: true });
+    await projects.publish(projectId);
+  });
+
+  it("serves files with directory indexes", async () => {
+    const home = await get("/app/site/");
+    expect(home.status).toBe(200);
+    expect(await home.text()).toBe("<h1>Home</h1>");
+
+    const about = await get("/app/site/about/");
+    expect(await about.text()).toBe("<h1>About</h1>");
+  });
+
+  it("redirects directories to their trailing-slash URL", async () => {
+    const response = await get("/app/site/about");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("/app/site/about/");
+  });
+
+  it("returns 404 for missing files", async () => {
+    expect((await get("/app/site/nope.html")).status).toBe(404);
+    expect((await get("/app/unknown/")).status).toBe(404);
+  });
+
+  it("answers from the cache and honours If-None-Match", async () => {
+    const first = await get("/app/site/");
+    const etag = first.headers.get("ETag")!;
+    expect(await cache.getPointer("site")).not.toBeNull();
+
+    const cached = await get("/app/site/", { headers: { "If-None-Match": etag } });
+    expect(cached.status).toBe(304);
+  });
+
+  it("serves the newly published version after a publish", async () => {
+    await get("/app/site/");
+    await projects.writeFiles(projectId, [{ file_path: "index.html", content: "<h1>New</h1>" }]);
+    await projects.publish(projectId);
+
+    expect(await (await get("/app/site/")).text()).toBe("<h1>New</h1>");
+  });
+
+  it("doesn't keep a pointer read before a publish that invalidated it", async () => {
+    // The pointer write is held back until after the publish
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const putPointer = cache.putPointer.bind(cache);
+    cache.putPointer = async (slug, pointer) => {
+      await held;
+      return putPointer(slug, pointer);
+    };
+    const serving = get("/app/site/");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await projects.writeFiles(projectId, [{ file_path: "index.html", content: "<h1>New</h1>" }]);
+    await projects.publish(projectId);
+    release();
+    expect(await (await serving).text()).toBe("<h1>Home</h1>");
+
+    expect(await cache.getPointer("site")).toBeNull();
+    expect(await (await get("/app/site/")).text()).toBe("<h1>New</h1>");
+  });
+
+  it("falls back to index.html in SPA mode", async () => {
+    await projects.updateSettings(projectId, { routing_mode: "spa" });
+    const response = await get("/app/site/some/client/route");
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("<h1>Home</h1>");
+  });
+
+  it("doesn't serve responses cached under the previous routing mode", async () => {
+    await projects.updateSettings(projectId, { routing_mode: "spa" });
+    expect(await (await get("/app/site/some/route")).text()).toBe("<h1>Home</h1>");
+    await projects.updateSettings(projectId, { routing_mode: "static" });
+    // The first request caches the pointer again, the second answers from it
+    await get("/app/site/");
+    expect((await get("/app/site/some/route")).status).toBe(404);
+  });
+});
+
+describe("private apps", () => {
+  beforeEach(async () => {
+    await projects.publish(projectId);
+  });
+
+  it("look missing to visitors", async () => {
+    expect((await get("/app/site/")).status).toBe(404);
+  });
+
+  it("are visible to the owner and never cached", async () => {
+    const response = await get("/app/site/", { headers: await pageLoad() });
+    expect(response.status).toBe(200);
+    expect(await cache.getPointer("site")).toBeNull();
+  });
+
+  it("are visible to the owner signed in with different letter case", async () => {
+    expect((await get("/app/site/", { headers: await pageLoad("Alice@Example.COM") })).status).toBe(200);
+  });
+
+  it("are visible to collaborators", async () => {
+    const cookie = { headers: await pageLoad(BOB.email) };
+    expect((await get("/app/site/", cookie)).status).toBe(404);
+
+    await projects.addMember(projectId, BOB.email, "viewer");
+    expect((await get("/app/site/", cookie)).status).toBe(200);
+  });
+
+  it("ignore the session in requests another app's scripts could read", async () => {
+    const headers = await pageLoad();
+    for (const dest of [{ "Sec-Fetch-Dest": "empty", "Sec-Fetch-Mode": "cors" }, { "Sec-Fetch-Dest": "iframe" }, { "Sec-Fetch-Dest": "" }]) {
+      expect((await get("/app/site/", { headers: { ...headers, ...dest } })).status).toBe(404);
+      expect((await get("/preview/site/", { headers: { ...headers, ...dest } })).status).toBe(403);
+    }
+    // The files a page pulls in still load
+    expect((await get("/app/site/about/", { headers: { ...headers, "Sec-Fetch-Dest": "image", "Sec-Fetch-Mode": "no-cors" } })).status).toBe(200);
+  });
+
+  it("give members' pages an app key and keep other windows out", async () => {
+    await projects.writeFiles(projectId, [{ file_path: "index.html", content: "<html><head><title>Home</title></head></html>" }]);
+    await projects.publish(projectId);
+    const response = await get("/app/site/", { headers: await pageLoad() });
+    expect(response.headers.get("Cross-Origin-Opener-Policy")).toBe("same-origin");
+    expect(await response.text()).toMatch(/<script src="\/app\/site\/~data\/client.js" data-key="[\w-]+\.[\w-]+"><\/script>/);
+  });
+});
+
+describe("draft previews", () => {
+  it("need a preview token", async () => {
+    expect((await get("/preview/site/")).status).toBe(403);
+  });
+
+  it("accept a valid token and set a preview cookie", async () => {
+    const link = await projects.createPreviewLink(projectId, 1);
+    const response = await get(link.preview_url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Set-Cookie")).toMatch(/^shapps_preview=.*Path=\/preview\/site/);
+    // Previews are framed by chat apps, so the cookie has to work cross-site
+    expect(response.headers.get("Set-Cookie")).toContain("SameSite=None; Partitioned");
+  });
+
+  it("reject revoked tokens", async () => {
+    const link = await projects.createPreviewLink(projectId, 1);
+    await projects.revokePreviewLinks(projectId, link.token_id);
+    expect((await get(link.preview_url)).status).toBe(403);
+  });
+
+  it("are visible to the owner", async () => {
+    const response = await get("/preview/site/", { headers: await pageLoad() });
+    expect(await response.text()).toBe("<h1>Home</h1>");
+  });
+});
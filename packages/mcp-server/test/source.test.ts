@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemoryAppCache } from "../src/cache";
+import { encodeBase64 } from "../src/files";
+import { highlight } from "../src/highlight";
+import { ProjectService } from "../src/services/projects";
+import { serveSource } from "../src/source";
+import { MemoryProjectStore } from "../src/store";
+import type { Env } from "../src/types";
+import { ALICE, testEnv } from "./helpers";
+
+let env: Env;
+let store: MemoryProjectStore;
+let projects: ProjectService;
+let projectId: string;
+
+beforeEach(async () => {
+  env = testEnv();
+  store = new MemoryProjectStore();
+  projects = new ProjectService(env, ALICE.email, store, new MemoryAppCache());
+
+  const { project } = await projects.createProject({ name: "Site", slug: "site" });
+  projectId = project.id;
+  await projects.writeFiles(projectId, [
+    { file_path: "index.html", content: '<p class="x">Hi & bye</p>\n' },
+    { file_path: "css/style.css", content: "body { color: red; }\n" },
+    { file_path: "logo.png", content: encodeBase64(new Uint8Array([1, 2, 3])), encoding: "base64" },
+  ]);
+  await projects.updateSettings(projectId, { is_public: true, show_source: true });
+  await projects.publish(projectId);
+});
+
+/** Requests /app/site/~source<sourcePath>. */
+function get(sourcePath: string) {
+  const request = new Request(`https://shapps.dev/app/site/~source${sourcePath}`);
+  return serveSource(env, request, "site", new URL(request.url).pathname.slice("/app/site/~source".length), { store });
+}
+
+describe("view source", () => {
+  it("lists the published files", async () => {
+    const response = await get("/");
+    const html = await response.text();
+    expect(response.status).toBe(200);
+    expect(html).toContain('<li class="dir">css/<ul><li><a href="/app/site/~source/css/style.css">style.css</a>');
+    expect(html).toContain('<a href="/app/site/~source/index.html">index.html</a>');
+  });
+
+  it("shows highlighted, escaped file contents", async () => {
+    const html = await (await get("/index.html")).text();
+    expect(html).toContain('<span class="tok-tag">&lt;p</span>');
+    expect(html).toContain("Hi &amp; bye");
+    expect(html).toContain('href="/app/site/~source/index.html?raw"');
+  });
+
+  it("shows images inline", async () => {
+    const html = await (await get("/logo.png")).text();
+    expect(html).toContain('<img src="/app/site/~source/logo.png?raw"');
+  });
+
+  it("downloads raw files", async () => {
+    const response = await get("/css/style.css?raw");
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="style.css"');
+    expect(await response.text()).toBe("body { color: red; }\n");
+  });
+
+  it("only shows the published version", async () => {
+    await projects.writeFiles(projectId, [{ file_path: "draft.html", content: "secret" }]);
+    expect((await get("/draft.html")).status).toBe(404);
+  });
+
+  it("404s when show_source is off", async () => {
+    await projects.updateSettings(projectId, { show_source: false });
+    expect((await get("/")).status).toBe(404);
+    expect((await get("/index.html?raw")).status).toBe(404);
+  });
+
+  it("404s for private apps", async () => {
+    await projects.updateSettings(projectId, { is_public: false });
+    expect((await get("/")).status).toBe(404);
+  });
+});
+
+describe("highlight", () => {
+  it("wraps script tokens", () => {
+    expect(highlight('const a = "x"; // hi', "script")).toBe(
+      '<span class="tok-keyword">const</span> a = <span class="tok-string">&quot;x&quot;</span>; <span class="tok-comment">// hi</span>'
+    );
+  });
+
+  it("highlights tag attributes", () => {
+    expect(highlight('<a href="/">', "markup")).toBe(
+      '<span class="tok-tag">&lt;a</span> <span class="tok-attr">href</span>=<span class="tok-string">&quot;/&quot;</span><span class="tok-tag">&gt;</span>'
+    );
+  });
+});
@@ -0,0 +1,792 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { INLINE_BINARY_LIMIT, deleteUnusedBlobs, encodeBase64 } from "../src/files";
+import { ALICE, BOB, type CreatedProject, type Harness, MemoryKV, type PreviewLink, type ServiceResult, MemoryR2, callError, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+
+type ProjectDetails = ServiceResult<"getProject">;
+type FileEntry = { file_path: string; content_type: string; content?: string; encoding?: string; size?: number };
+type Published = { new_draft_version_id: string; note?: string };
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+});
+
+async function createProject(client = alice, args: Record<string, unknown> = {}) {
+  return callJson<CreatedProject>(client, "create_project", { name: "My App", slug: "my-app", ...args });
+}
+
+async function writeIndex(projectId: string, content = "<h1>Hello</h1>\n") {
+  return callText(alice, "write_files", {
+    project_id: projectId,
+    files: [{ file_path: "index.html", content }],
+  });
+}
+
+describe("tool list", () => {
+  it("registers every tool", async () => {
+    const { tools } = await alice.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([
+      "add_domain",
+      "create_project",
+      "define_collection",
+      "delete_collection",
+      "delete_documents",
+      "delete_files",
+      "delete_project",
+      "diff_versions",
+      "duplicate_project",
+      "edit_files",
+      "export_form_submissions",
+      "export_project",
+      "get_activity",
+      "get_analytics",
+      "get_preview_url",
+      "get_project",
+      "import_project",
+      "invite_collaborator",
+      "list_collaborators",
+      "list_collections",
+      "list_domains",
+      "list_form_submissions",
+      "list_projects",
+      "list_templates",
+      "list_versions",
+      "publish",
+      "query_data",
+      "read_files",
+      "remove_collaborator",
+      "remove_domain",
+      "revoke_preview_links",
+      "rollback",
+      "update_settings",
+      "verify_domain",
+      "whoami",
+      "write_files",
+    ]);
+  });
+
+  it("gives every tool a title, safety annotations and an output schema", async () => {
+    const { tools } = await alice.listTools();
+    for (const tool of tools) {
+      expect(tool.title, tool.name).toBeTruthy();
+      expect(tool.annotations?.readOnlyHint, tool.name).toBeTypeOf("boolean");
+      expect(tool.annotations?.openWorldHint, tool.name).toBe(false);
+      expect(tool.outputSchema?.type, tool.name).toBe("object");
+    }
+
+    const byName = new Map(tools.map((t) => [t.name, t.annotations]));
+    expect(byName.get("get_project")).toMatchObject({ readOnlyHint: true });
+    expect(byName.get("create_project")).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+    expect(byName.get("delete_project")).toMatchObject({ destructiveHint: true, idempotentHint: true });
+  });
+
+  it("returns structured content alongside text, and flags errors", async () => {
+    const created = await alice.callTool({ name: "create_project", arguments: { name: "My App", slug: "my-app" } });
+    const [content] = created.content as { type: string; text: string }[];
+    expect(created.structuredContent).toEqual(JSON.parse(content.text));
+    expect(created.isError).toBeFalsy();
+
+    const listed = await alice.callTool({ name: "list_projects", arguments: {} });
+    expect(listed.structuredContent).toMatchObject({ projects: [{ slug: "my-app", role: "owner" }] });
+
+    const failed = await alice.callTool({ name: "get_project", arguments: { project_id: crypto.randomUUID() } });
+    expect(failed).toMatchObject({ isError: true, content: [{ type: "text", text: "Project not found" }] });
+  });
+});
+
+describe("whoami", () => {
+  it("returns the signed-in user", async () => {
+    expect(await callJson(alice, "whoami")).toEqual(ALICE);
+  });
+
+  it("reports when running without OAuth", async () => {
+    const anonymous = await harness.connect();
+    expect(await callText(anonymous, "whoami")).toBe("Not authenticated (running without OAuth).");
+  });
+});
+
+describe("list_templates", () => {
+  it("lists templates with their file trees", async () => {
+    const templates = await callJson<{ id: string; file_tree: string }[]>(alice, "list_templates");
+    const landing = templates.find((t) => t.id === "landing-page");
+    expect(landing?.file_tree).toContain("index.html");
+  });
+});
+
+describe("create_project", () => {
+  it("creates a project with an empty draft", async () => {
+    const created = await createProject();
+    expect(created).toMatchObject({ message: 'Project "My App" created successfully!', slug: "my-app" });
+
+    const project = await callJson<ProjectDetails>(alice, "get_project", { project_id: created.project_id });
+    expect(project.owner_email).toBe(ALICE.email);
+    expect(project.draft_version_id).toBe(created.draft_version_id);
+    expect(project.files).toEqual([]);
+  });
+
+  it("fills the draft from a template", async () => {
+    const created = await createProject(alice, { template: "landing-page", description: "Fish & chips" });
+    expect(created.files).toEqual(["index.html", "css/style.css", "js/main.js"]);
+
+    const [index] = await callJson<FileEntry[]>(alice, "read_files", { project_id: created.project_id, file_paths: ["index.html"] });
+    expect(index.content).toContain("My App");
+    expect(index.content).toContain("Fish &amp; chips");
+  });
+
+  it("rejects unknown templates", async () => {
+    const text = await callError(alice, "create_project", { name: "X", slug: "x", template: "nope" });
+    expect(text).toMatch(/^Unknown template "nope"/);
+  });
+
+  it("rejects a slug that is taken", async () => {
+    await createProject();
+    const bob = await harness.connect(BOB);
+    const text = await callError(bob, "create_project", { name: "Mine", slug: "my-app" });
+    expect(text).toBe('The slug "my-app" is already taken. Choose another one.');
+  });
+
+  it("requires a signed-in user", async () => {
+    const anonymous = await harness.connect();
+    const text = await callError(anonymous, "create_project", { name: "X", slug: "x" });
+    expect(text).toMatch(/^Authentication required/);
+  });
+});
+
+describe("list_projects", () => {
+  it("lists only the caller's projects, newest first", async () => {
+    await createProject(alice, { slug: "first" });
+    await createProject(alice, { slug: "second" });
+    const bob = await harness.connect(BOB);
+    await createProject(bob, { slug: "bobs" });
+
+    const projects = await callJson<{ slug: string }[]>(alice, "list_projects");
+    expect(projects.map((p) => p.slug)).toEqual(["second", "first"]);
+  });
+
+  it("explains when there are no projects", async () => {
+    expect(await callText(alice, "list_projects")).toBe("No projects found. Use create_project to get started!");
+  });
+});
+
+describe("duplicate_project", () => {
+  it("copies a chosen version of your own project", async () => {
+    const { project_id, draft_version_id: v1 } = await createProject();
+    await writeIndex(project_id, "<h1>v1</h1>");
+    await callJson(alice, "publish", { project_id });
+    await writeIndex(project_id, "<h1>draft</h1>");
+
+    const copy = await callJson<CreatedProject>(alice, "duplicate_project", { project_id, slug: "cafe", version_id: v1 });
+    expect(copy.message).toBe('Project "My App" created from my-app v1 (1 file(s)).');
+
+    const [index] = await callJson<FileEntry[]>(alice, "read_files", { project_id: copy.project_id });
+    expect(index.content).toBe("<h1>v1</h1>");
+
+    const project = await callJson<ProjectDetails>(alice, "get_project", { project_id: copy.project_id });
+    expect(project.forked_from).toEqual({
+      project_id,
+      version_id: v1,
+      name: "My App",
+      slug: "my-app",
+      version_number: 1,
+    });
+  });
+
+  it("forks another user's public app with show_source on", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    await callJson(alice, "publish", { project_id });
+    await callJson(alice, "update_settings", { project_id, is_public: true, show_source: true, routing_mode: "spa" });
+
+    const bob = await harness.connect(BOB);
+    const fork = await callJson<CreatedProject>(bob, "duplicate_project", { project_id, slug: "bobs-app", name: "Bob's App" });
+    const project = await callJson<ProjectDetails>(bob, "get_project", { project_id: fork.project_id });
+    expect(project).toMatchObject({ name: "Bob's App", owner_email: BOB.email, routing_mode: "spa", is_public: false });
+    expect(project.files.map((f: { file_path: string }) => f.file_path)).toEqual(["index.html"]);
+  });
+
+  it("only forks the published version of another user's app", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    const { new_draft_version_id } = await callJson<Published>(alice, "publish", { project_id });
+    await callJson(alice, "update_settings", { project_id, is_public: true, show_source: true });
+
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "duplicate_project", { project_id, slug: "x", version_id: new_draft_version_id })).toBe(
+      "Only the published version of someone else's app can be forked."
+    );
+  });
+
+  it("hides apps without show_source", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    await callJson(alice, "publish", { project_id });
+    await callJson(alice, "update_settings", { project_id, is_public: true });
+
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "duplicate_project", { project_id, slug: "x" })).toBe("Project not found");
+  });
+
+  it("hides the source's name once it's no longer visible", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    await callJson(alice, "publish", { project_id });
+    await callJson(alice, "update_settings", { project_id, is_public: true, show_source: true });
+
+    const bob = await harness.connect(BOB);
+    const fork = await callJson<CreatedProject>(bob, "duplicate_project", { project_id, slug: "bobs-app" });
+    await callJson(alice, "update_settings", { project_id, show_source: false });
+
+    const project = await callJson<ProjectDetails>(bob, "get_project", { project_id: fork.project_id });
+    expect(Object.keys(project.forked_from ?? {})).toEqual(["project_id", "version_id"]);
+  });
+});
+
+describe("get_project", () => {
+  it("includes files and routing", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+
+    const project = await callJson<ProjectDetails>(alice, "get_project", { project_id });
+    expect(project.files).toEqual([{ file_path: "index.html", content_type: "text/html", encoding: "utf8", size: 15 }]);
+    expect(project.routing).toEqual({ mode: "static", not_found_page: "404.html", source: "settings" });
+  });
+
+  it("reads routing from shapps.json", async () => {
+    const { project_id } = await createProject();
+    await callText(alice, "write_files", {
+      project_id,
+      files: [{ file_path: "shapps.json", content: JSON.stringify({ routing: { mode: "spa" } }) }],
+    });
+
+    const project = await callJson<ProjectDetails>(alice, "get_project", { project_id });
+    expect(project.routing).toMatchObject({ mode: "spa", source: "shapps.json" });
+  });
+
+  it("hides other users' projects", async () => {
+    const { project_id } = await createProject();
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "get_project", { project_id })).toBe("Project not found");
+  });
+});
+
+describe("write_files and read_files", () => {
+  it("writes and reads back text files", async () => {
+    const { project_id } = await createProject();
+    expect(await writeIndex(project_id)).toBe("Files written:\nOK index.html");
+
+    const files = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(files).toEqual([{ file_path: "index.html", content: "<h1>Hello</h1>\n", content_type: "text/html" }]);
+  });
+
+  it("replaces an existing file", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id, "one");
+    await writeIndex(project_id, "two");
+
+    const files = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(files).toHaveLength(1);
+    expect(files[0].content).toBe("two");
+  });
+
+  it("stores binary files and returns their content only on request", async () => {
+    const { project_id } = await createProject();
+    const png = encodeBase64(new Uint8Array([137, 80, 78, 71]));
+    await callText(alice, "write_files", {
+      project_id,
+      files: [{ file_path: "logo.png", content: png, encoding: "base64" }],
+    });
+
+    const [meta] = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(meta).toEqual({ file_path: "logo.png", content_type: "image/png", encoding: "base64", size: 4 });
+
+    const [full] = await callJson<FileEntry[]>(alice, "read_files", { project_id, include_binary: true });
+    expect(full.content).toBe(png);
+  });
+
+  it("keeps large binaries in R2", async () => {
+    const { project_id } = await createProject();
+    const bytes = new Uint8Array(INLINE_BINARY_LIMIT + 1).fill(7);
+    await callText(alice, "write_files", {
+      project_id,
+      files: [{ file_path: "big.bin", content: encodeBase64(bytes), encoding: "base64" }],
+    });
+
+    expect((harness.env.ASSETS as unknown as MemoryR2).objects.size).toBe(1);
+    const [file] = await callJson<FileEntry[]>(alice, "read_files", { project_id, include_binary: true });
+    expect(file.content).toBe(encodeBase64(bytes));
+  });
+
+  it("deletes large binaries from R2 once no version has them", async () => {
+    const { project_id } = await createProject();
+    const r2 = harness.env.ASSETS as unknown as MemoryR2;
+    const write = (fill: number) =>
+      callText(alice, "write_files", {
+        project_id,
+        files: [{ file_path: "big.bin", content: encodeBase64(new Uint8Array(INLINE_BINARY_LIMIT + 1).fill(fill)), encoding: "base64" }],
+      });
+    await write(1);
+    await callJson(alice, "publish", { project_id });
+    await write(2);
+    await write(3);
+    const day = 24 * 60 * 60 * 1000;
+
+    // Only the second upload is unused: v1 still has the first and the draft has the third
+    expect(await deleteUnusedBlobs(harness.env, harness.store)).toBe(0);
+    expect(await deleteUnusedBlobs(harness.env, harness.store, Date.now() + 2 * day)).toBe(1);
+    expect(r2.objects.size).toBe(2);
+
+    await callText(alice, "delete_project", { project_id, confirm: true });
+    expect(await deleteUnusedBlobs(harness.env, harness.store, Date.now() + 2 * day)).toBe(2);
+    expect(r2.objects.size).toBe(0);
+  });
+
+  it("rejects paths the app could never serve", async () => {
+    const { project_id } = await createProject();
+    const cases = [
+      ["", "Path is empty."],
+      ["/index.html", "Absolute paths aren't allowed."],
+      ["../x.html", "Paths may not contain '..'."],
+      ["css\\a.css", "Use '/' to separate folders"],
+      ["~source/index.html", "Paths under ~source/ are reserved"],
+      ["~data", "Paths under ~data/ are reserved"],
+    ];
+    for (const [file_path, problem] of cases) {
+      const text = await callError(alice, "write_files", { project_id, files: [{ file_path, content: "x" }] });
+      expect(text).toContain(problem);
+    }
+    expect(await callError(alice, "delete_files", { project_id, file_paths: ["../x.html"] })).toContain("'..'");
+    expect(await callText(alice, "read_files", { project_id })).toBe("No files found.");
+  });
+
+  it("reports invalid files without failing the others", async () => {
+    const { project_id } = await createProject();
+    const text = await callText(alice, "write_files", {
+      project_id,
+      files: [
+        { file_path: "bad.png", content: "not base64!", encoding: "base64" },
+        { file_path: "index.html", content: "ok" },
+      ],
+    });
+    expect(text).toBe("Files written:\nFailed bad.png: Content is not valid base64.\nOK index.html");
+  });
+});
+
+describe("edit_files", () => {
+  it("applies search/replace, line-range and diff edits", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id, "a\nb\nc\n");
+
+    const result = await callJson<{ files: ServiceResult<"editFiles"> }>(alice, "edit_files", {
+      project_id,
+      files: [
+        {
+          file_path: "index.html",
+          edits: [
+            { type: "search_replace", search: "b", replace: "B" },
+            { type: "line_range", start_line: 1, end_line: 1, content: "A" },
+            { type: "unified_diff", diff: "@@ -3,1 +3,2 @@\n c\n+d\n" },
+          ],
+        },
+      ],
+    });
+    expect(result.files).toEqual([{ file_path: "index.html", lines_before: 3, lines_after: 4, diff: "+3 -2" }]);
+
+    const [file] = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(file.content).toBe("A\nB\nc\nd\n");
+  });
+
+  it("applies a file's entries in order when it's listed twice", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id, "a\nb\n");
+
+    const result = await callJson<{ files: ServiceResult<"editFiles"> }>(alice, "edit_files", {
+      project_id,
+      files: [
+        { file_path: "index.html", edits: [{ type: "search_replace", search: "a", replace: "A" }] },
+        { file_path: "index.html", edits: [{ type: "search_replace", search: "A\nb", replace: "A\nB" }] },
+      ],
+    });
+    expect(result.files).toEqual([{ file_path: "index.html", lines_before: 2, lines_after: 2, diff: "+2 -2" }]);
+
+    const [file] = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(file.content).toBe("A\nB\n");
+  });
+
+  it("saves nothing when any edit fails", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id, "a\n");
+    await callText(alice, "write_files", { project_id, files: [{ file_path: "b.txt", content: "b\n" }] });
+
+    const text = await callError(alice, "edit_files", {
+      project_id,
+      files: [
+        { file_path: "index.html", edits: [{ type: "search_replace", search: "a", replace: "A" }] },
+        { file_path: "b.txt", edits: [{ type: "search_replace", search: "zzz", replace: "y" }] },
+        { file_path: "missing.html", edits: [{ type: "search_replace", search: "a", replace: "b" }] },
+      ],
+    });
+    expect(text).toMatch(/^No changes saved/);
+    expect(text).toContain("b.txt:");
+    expect(text).toContain("missing.html: File not found in draft");
+
+    const files = await callJson<{ file_path: string; content: string }[]>(alice, "read_files", { project_id });
+    expect(files.find((f) => f.file_path === "index.html")?.content).toBe("a\n");
+  });
+});
+
+describe("delete_files", () => {
+  it("removes files from the draft", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+
+    expect(await callText(alice, "delete_files", { project_id, file_paths: ["index.html", "nope.html"] })).toBe(
+      "Deleted 1 file(s)."
+    );
+    expect(await callText(alice, "read_files", { project_id })).toBe("No files found.");
+  });
+});
+
+describe("publish", () => {
+  it("makes the draft live and starts a new draft with the same files", async () => {
+    const { project_id, draft_version_id } = await createProject();
+    await writeIndex(project_id);
+
+    const published = await callJson<Published>(alice, "publish", { project_id, message: "First release" });
+    expect(published).toMatchObject({ message: "Published successfully!", live_url: "https://shapps.dev/app/my-app/", version: 1, revision: 1 });
+    expect(published.note).toMatch(/private/);
+
+    const project = await callJson<ProjectDetails>(alice, "get_project", { project_id });
+    expect(project.status).toBe("published");
+    expect(project.active_version_id).toBe(draft_version_id);
+    expect(project.draft_version_id).toBe(published.new_draft_version_id);
+    expect(project.files.map((f: { file_path: string }) => f.file_path)).toEqual(["index.html"]);
+  });
+
+  it("rejects a stale expected_revision", async () => {
+    const { project_id } = await createProject();
+    await callJson(alice, "publish", { project_id });
+
+    const text = await callError(alice, "publish", { project_id, expected_revision: 0 });
+    expect(text).toMatch(/^The project was changed by someone else/);
+  });
+
+  it("drops the cached app pointer", async () => {
+    const { project_id } = await createProject();
+    await harness.cache.putPointer("my-app", { projectId: project_id, activeVersionId: "old" });
+
+    await callJson(alice, "publish", { project_id });
+    expect(await harness.cache.getPointer("my-app")).toBeNull();
+  });
+});
+
+describe("list_versions", () => {
+  it("marks the active version and the current draft", async () => {
+    const { project_id } = await createProject();
+    await callJson(alice, "publish", { project_id, message: "v1" });
+
+    const versions = await callJson<ServiceResult<"listVersions">["items"]>(alice, "list_versions", { project_id });
+    expect(versions.map((v) => [v.version_number, v.message, v.is_active, v.is_current_draft])).toEqual([
+      [2, "Draft", false, true],
+      [1, "v1", true, false],
+    ]);
+  });
+});
+
+describe("diff_versions", () => {
+  it("compares the live version with the draft by default", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id, "one\n");
+    await callJson(alice, "publish", { project_id });
+    await writeIndex(project_id, "two\n");
+    await callText(alice, "write_files", { project_id, files: [{ file_path: "new.css", content: "a{}" }] });
+
+    const diff = await callJson<{
+      from: { version_number: number };
+      to: { version_number: number };
+      summary: Record<string, number>;
+      files: { file_path: string; diff?: string }[];
+    }>(alice, "diff_versions", { project_id });
+    expect(diff.from.version_number).toBe(1);
+    expect(diff.to.version_number).toBe(2);
+    expect(diff.summary).toEqual({ added: 1, removed: 0, modified: 1, unchanged: 0 });
+    expect(diff.files.find((f) => f.file_path === "index.html")?.diff).toContain("-one\n+two");
+  });
+});
+
+describe("rollback", () => {
+  it("copies an old version's files into the draft", async () => {
+    const { project_id, draft_version_id } = await createProject();
+    await writeIndex(project_id, "one");
+    await callJson(alice, "publish", { project_id });
+    await writeIndex(project_id, "two");
+    await callText(alice, "write_files", { project_id, files: [{ file_path: "extra.txt", content: "x" }] });
+
+    const result = await callJson(alice, "rollback", { project_id, version_id: draft_version_id });
+    expect(result).toMatchObject({ files_copied: 1, revision: 2 });
+
+    const files = await callJson<FileEntry[]>(alice, "read_files", { project_id });
+    expect(files).toEqual([{ file_path: "index.html", content: "one", content_type: "text/html" }]);
+  });
+
+  it("rejects versions from another project", async () => {
+    const { project_id } = await createProject();
+    const other = await createProject(alice, { slug: "other" });
+
+    const text = await callError(alice, "rollback", { project_id, version_id: other.draft_version_id });
+    expect(text).toBe("Version not found or doesn't belong to this project.");
+  });
+});
+
+describe("preview links", () => {
+  it("mints revocable preview tokens", async () => {
+    const { project_id } = await createProject();
+    const kv = harness.env.OAUTH_KV as unknown as MemoryKV;
+
+    const link = await callJson<PreviewLink>(alice, "get_preview_url", { project_id, expires_in_hours: 2 });
+    expect(link.preview_url).toMatch(/^https:\/\/shapps\.dev\/preview\/my-app\/\?token=/);
+    await callJson(alice, "get_preview_url", { project_id });
+    expect(kv.entries.size).toBe(2);
+
+    expect(await callText(alice, "revoke_preview_links", { project_id, token_id: link.token_id })).toBe(
+      "Revoked 1 preview link(s)."
+    );
+    expect(await callText(alice, "revoke_preview_links", { project_id })).toBe("Revoked 1 preview link(s).");
+    expect(kv.entries.size).toBe(0);
+  });
+});
+
+describe("update_settings", () => {
+  it("updates settings and returns them", async () => {
+    const { project_id } = await createProject();
+
+    const result = await callJson(alice, "update_settings", {
+      project_id,
+      slug: "renamed",
+      is_public: true,
+      routing_mode: "spa",
+    });
+    expect(result).toMatchObject({ message: "Settings updated!", slug: "renamed", is_public: true, routing_mode: "spa" });
+  });
+
+  it("needs at least one setting", async () => {
+    const { project_id } = await createProject();
+    expect(await callError(alice, "update_settings", { project_id })).toBe(
+      "Nothing to update. Provide at least one setting to change."
+    );
+  });
+
+  it("rejects a slug that is taken", async () => {
+    const { project_id } = await createProject();
+    await createProject(alice, { slug: "taken" });
+    expect(await callError(alice, "update_settings", { project_id, slug: "taken" })).toBe(
+      'The slug "taken" is already taken. Choose another one.'
+    );
+  });
+});
+
+describe("collaborators", () => {
+  let bob: Client;
+  let projectId: string;
+
+  beforeEach(async () => {
+    bob = await harness.connect(BOB);
+    ({ project_id: projectId } = await createProject());
+    await writeIndex(projectId);
+  });
+
+  async function invite(role: string, email = BOB.email) {
+    return callText(alice, "invite_collaborator", { project_id: projectId, email, role });
+  }
+
+  it("invites, lists and removes collaborators", async () => {
+    expect(await invite("editor", "Bob@Example.com")).toBe("bob@example.com is now an editor on this project.");
+
+    const members = await callJson<ServiceResult<"listMembers">>(bob, "list_collaborators", { project_id: projectId });
+    expect(members.map((m: { email: string; role: string }) => [m.email, m.role])).toEqual([
+      [ALICE.email, "owner"],
+      [BOB.email, "editor"],
+    ]);
+
+    expect(await callText(alice, "remove_collaborator", { project_id: projectId, email: BOB.email })).toBe(
+      `Removed ${BOB.email} from the project.`
+    );
+    expect(await callError(bob, "get_project", { project_id: projectId })).toBe("Project not found");
+  });
+
+  it("lists shared projects with the caller's role", async () => {
+    await invite("viewer");
+    await createProject(bob, { slug: "bobs" });
+
+    const projects = await callJson<{ slug: string; role: string }[]>(bob, "list_projects");
+    expect(projects.map((p) => [p.slug, p.role])).toEqual([
+      ["bobs", "owner"],
+      ["my-app", "viewer"],
+    ]);
+  });
+
+  it("lets viewers read but not write or share previews", async () => {
+    await invite("viewer");
+
+    const project = await callJson<ProjectDetails>(bob, "get_project", { project_id: projectId });
+    expect(project.role).toBe("viewer");
+    expect(await callJson(bob, "read_files", { project_id: projectId })).toHaveLength(1);
+    expect(await callError(bob, "get_preview_url", { project_id: projectId })).toMatch(/^Your role on this project is viewer/);
+
+    expect(await callError(bob, "publish", { project_id: projectId })).toBe(
+      "Your role on this project is viewer; this needs editor access. Ask an owner to change your role."
+    );
+    expect(await callError(bob, "write_files", { project_id: projectId, files: [{ file_path: "a.txt", content: "a" }] })).toMatch(
+      /^Your role on this project is viewer/
+    );
+  });
+
+  it("lets editors write and publish but not change settings", async () => {
+    await invite("editor");
+
+    expect(await callText(bob, "write_files", { project_id: projectId, files: [{ file_path: "a.txt", content: "a" }] })).toBe(
+      "Files written:\nOK a.txt"
+    );
+    expect(await callJson(bob, "publish", { project_id: projectId })).toMatchObject({ version: 1 });
+
+    expect(await callError(bob, "update_settings", { project_id: projectId, is_public: true })).toMatch(
+      /^Your role on this project is editor; this needs owner access/
+    );
+    expect(await callError(bob, "delete_project", { project_id: projectId, confirm: true })).toMatch(/needs owner access/);
+    expect(await callError(bob, "invite_collaborator", { project_id: projectId, email: "carol@example.com", role: "viewer" })).toMatch(
+      /needs owner access/
+    );
+  });
+
+  it("lets co-owners manage members but not remove the creator", async () => {
+    await invite("owner");
+
+    expect(await callText(bob, "invite_collaborator", { project_id: projectId, email: "carol@example.com", role: "viewer" })).toBe(
+      "carol@example.com is now a viewer on this project."
+    );
+    expect(await callError(bob, "remove_collaborator", { project_id: projectId, email: ALICE.email })).toBe(
+      "The project's creator can't be removed. Delete the project instead."
+    );
+  });
+
+  it("lets members leave", async () => {
+    await invite("viewer");
+    expect(await callText(bob, "remove_collaborator", { project_id: projectId, email: BOB.email })).toBe(
+      `Removed ${BOB.email} from the project.`
+    );
+    expect(await callText(bob, "list_projects")).toBe("No projects found. Use create_project to get started!");
+  });
+
+  it("recognizes the owner whatever the letter case of their email", async () => {
+    const shouty = await harness.connect({ ...ALICE, email: "Alice@Example.COM" });
+    expect(await callJson<ProjectDetails>(shouty, "get_project", { project_id: projectId })).toMatchObject({ role: "owner", owner_email: ALICE.email });
+    expect(await callText(shouty, "update_settings", { project_id: projectId, is_public: true })).toContain("my-app");
+
+    const { project_id } = await createProject(shouty, { slug: "shouty" });
+    expect(await callJson<ProjectDetails>(alice, "get_project", { project_id })).toMatchObject({ role: "owner", owner_email: ALICE.email });
+  });
+
+  it("hides projects from non-members", async () => {
+    expect(await callError(bob, "list_collaborators", { project_id: projectId })).toBe("Project not found");
+    expect(await callError(bob, "invite_collaborator", { project_id: projectId, email: BOB.email, role: "owner" })).toBe(
+      "Project not found"
+    );
+  });
+});
+
+describe("get_activity", () => {
+  type Event = { actor_email: string; client: string | null; action: string; paths: string[] | null; version_id: string | null };
+
+  it("records who changed what, from which client", async () => {
+    const claude = await harness.connect({ ...ALICE, client: "Claude" });
+    const { project_id, draft_version_id } = await createProject(claude);
+    await writeIndex(project_id);
+    await callText(claude, "delete_files", { project_id, file_paths: ["index.html"] });
+    await callText(claude, "delete_files", { project_id, file_paths: ["missing.html"] });
+    await callJson(claude, "publish", { project_id, message: "Empty" });
+
+    const { events, total } = await callJson<{ events: Event[]; total: number }>(alice, "get_activity", { project_id });
+    expect(total).toBe(4);
+    expect(events.map((e) => [e.action, e.client, e.paths])).toEqual([
+      ["publish", "Claude", null],
+      ["delete_files", "Claude", ["index.html"]],
+      ["write_files", null, ["index.html"]],
+      ["create_project", "Claude", null],
+    ]);
+    expect(events.every((e) => e.actor_email === ALICE.email && e.version_id === draft_version_id)).toBe(true);
+  });
+
+  it("filters by action, actor and time", async () => {
+    const { project_id } = await createProject();
+    await callText(alice, "invite_collaborator", { project_id, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+    await callText(bob, "write_files", { project_id, files: [{ file_path: "a.txt", content: "a" }] });
+    await writeIndex(project_id);
+
+    const byBob = await callJson<{ events: (Event & { created_at: string })[] }>(alice, "get_activity", {
+      project_id,
+      actor: BOB.email,
+    });
+    expect(byBob.events.map((e) => e.paths)).toEqual([["a.txt"]]);
+    const shouted = await callJson<{ events: Event[] }>(alice, "get_activity", { project_id, actor: "Bob@Example.COM" });
+    expect(shouted.events).toEqual(byBob.events);
+
+    const writes = await callJson<{ events: Event[] }>(alice, "get_activity", { project_id, action: ["write_files"] });
+    expect(writes.events).toHaveLength(2);
+
+    const bobsWrite = byBob.events[0].created_at;
+    const before = await callJson<{ events: Event[] }>(alice, "get_activity", { project_id, until: bobsWrite });
+    expect(before.events.map((e) => e.action)).toEqual(["invite_collaborator", "create_project"]);
+    const since = await callJson<{ events: Event[] }>(alice, "get_activity", { project_id, since: bobsWrite });
+    expect(since.events.map((e) => e.actor_email)).toEqual([ALICE.email, BOB.email]);
+
+    expect(await callText(alice, "get_activity", { project_id, since: "2999-01-01T00:00:00Z" })).toBe("No matching activity.");
+  });
+
+  it("pages through events", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    await writeIndex(project_id);
+
+    const first = await callJson(alice, "get_activity", { project_id, limit: 2 });
+    expect(first).toMatchObject({ total: 3, next_offset: 2 });
+    const rest = await callJson<{ events: Event[] }>(alice, "get_activity", { project_id, limit: 2, offset: 2 });
+    expect(rest.events.map((e) => e.action)).toEqual(["create_project"]);
+  });
+
+  it("is for owners only", async () => {
+    const { project_id } = await createProject();
+    await callText(alice, "invite_collaborator", { project_id, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "get_activity", { project_id })).toMatch(/needs owner access/);
+  });
+});
+
+describe("delete_project", () => {
+  it("needs confirmation", async () => {
+    const { project_id } = await createProject();
+    expect(await callError(alice, "delete_project", { project_id, confirm: false })).toBe(
+      "Deletion not confirmed. Set confirm to true to delete."
+    );
+  });
+
+  it("deletes the project, its versions and files", async () => {
+    const { project_id } = await createProject();
+    await writeIndex(project_id);
+    await callJson(alice, "publish", { project_id });
+
+    expect(await callText(alice, "delete_project", { project_id, confirm: true })).toBe("Project deleted permanently.");
+    expect(await callError(alice, "get_project", { project_id })).toBe("Project not found");
+    expect(harness.store.versions.size).toBe(0);
+    expect(harness.store.files.size).toBe(0);
+  });
+
+  it("can't delete another user's project", async () => {
+    const { project_id } = await createProject();
+    const bob = await harness.connect(BOB);
+    expect(await callError(bob, "delete_project", { project_id, confirm: true })).toBe("Project not found");
+  });
+});
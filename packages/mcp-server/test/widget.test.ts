@@ -0,0 +1,99 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { verifyPreviewToken } from "../src/session";
+import type { ProjectService } from "../src/services/projects";
+import { PREVIEW_STATE_KEY, PREVIEW_WIDGET_CHATGPT_URI, PREVIEW_WIDGET_URI } from "../src/widget";
+import { ALICE, BOB, type CreatedProject, type Harness, callJson, callText, createHarness } from "./helpers";
+
+let harness: Harness;
+let alice: Client;
+let projectId: string;
+
+beforeEach(async () => {
+  harness = createHarness();
+  alice = await harness.connect(ALICE);
+  ({ project_id: projectId } = await callJson<CreatedProject>(alice, "create_project", { name: "My App", slug: "my-app" }));
+});
+
+type PreviewState = Awaited<ReturnType<ProjectService["previewState"]>>;
+
+/** The widget's HTML as resources/read returns it. */
+interface WidgetResource {
+  mimeType: string;
+  text: string;
+  _meta: { ui?: { csp: { frameDomains: string[] } }; "openai/widgetCSP"?: { frame_domains: string[] } };
+}
+
+/** Calls a tool and returns the preview widget's data from its result. */
+async function previewState(client: Client, name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  expect(result.isError).toBeFalsy();
+  return (result._meta as Record<string, PreviewState>)[PREVIEW_STATE_KEY];
+}
+
+describe("preview widget", () => {
+  it("is linked from the tools that show it", async () => {
+    const { tools } = await alice.listTools();
+    const linked = tools.filter((t) => (t._meta as { ui?: { resourceUri?: string } } | undefined)?.ui?.resourceUri === PREVIEW_WIDGET_URI).map((t) => t.name);
+    expect(linked).toEqual(["write_files", "publish", "get_preview_url", "rollback"]);
+    for (const tool of tools.filter((t) => linked.includes(t.name))) {
+      expect(tool._meta).toMatchObject({
+        "openai/outputTemplate": PREVIEW_WIDGET_CHATGPT_URI,
+        "openai/widgetAccessible": true,
+      });
+    }
+  });
+
+  it("is served for MCP Apps and ChatGPT, allowed to frame previews", async () => {
+    const mcpApps = (await alice.readResource({ uri: PREVIEW_WIDGET_URI })).contents[0] as unknown as WidgetResource;
+    expect(mcpApps.mimeType).toBe("text/html;profile=mcp-app");
+    expect(mcpApps.text).toContain("<iframe");
+    expect(mcpApps.text).toContain('var STATE_KEY = "shapps/preview";');
+    expect(mcpApps._meta.ui?.csp.frameDomains).toEqual(["https://shapps.dev"]);
+
+    const chatgpt = (await alice.readResource({ uri: PREVIEW_WIDGET_CHATGPT_URI })).contents[0] as unknown as WidgetResource;
+    expect(chatgpt.mimeType).toBe("text/html+skybridge");
+    expect(chatgpt.text).toBe(mcpApps.text);
+    expect(chatgpt._meta["openai/widgetCSP"]?.frame_domains).toEqual(["https://shapps.dev"]);
+  });
+
+  it("gets the draft's preview and versions with write_files and publish", async () => {
+    const written = await previewState(alice, "write_files", {
+      project_id: projectId,
+      files: [{ file_path: "index.html", content: "<h1>Hi</h1>" }],
+    });
+    expect(written).toMatchObject({
+      project_id: projectId,
+      name: "My App",
+      role: "owner",
+      live_url: null,
+      draft_version_number: 1,
+      live_version_number: null,
+      versions: [],
+    });
+    expect(written.preview_url).toMatch(/^https:\/\/shapps\.dev\/preview\/my-app\/\?token=/);
+    const token = new URL(written.preview_url).searchParams.get("token")!;
+    expect(await verifyPreviewToken(harness.env, projectId, token)).toBeGreaterThan(3500);
+
+    const published = await previewState(alice, "publish", { project_id: projectId, message: "First" });
+    expect(published).toMatchObject({
+      live_url: "https://shapps.dev/app/my-app/",
+      draft_version_number: 2,
+      live_version_number: 1,
+      revision: 1,
+      versions: [{ version_number: 1, message: "First", is_live: true }],
+    });
+  });
+
+  it("reuses the link get_preview_url returns", async () => {
+    const result = await alice.callTool({ name: "get_preview_url", arguments: { project_id: projectId } });
+    const state = (result._meta as Record<string, PreviewState>)[PREVIEW_STATE_KEY];
+    expect(state.preview_url).toBe((result.structuredContent as { preview_url: string }).preview_url);
+  });
+
+  it("tells collaborators their role", async () => {
+    await callText(alice, "invite_collaborator", { project_id: projectId, email: BOB.email, role: "editor" });
+    const bob = await harness.connect(BOB);
+    expect(await previewState(bob, "get_preview_url", { project_id: projectId })).toMatchObject({ role: "editor" });
+  });
+});
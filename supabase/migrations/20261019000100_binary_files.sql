@@ -0,0 +1,12 @@
+-- Binary file support: base64 content inline, or an R2 object key for large files.
+alter table public.project_files
+  add column encoding text not null default 'utf8' check (encoding in ('utf8', 'base64')),
+  add column size integer,
+  add column storage_key text;
+
+update public.project_files
+  set size = octet_length(content)
+  where size is null;
+
+alter table public.project_files
+  alter column size set not null;
@@ -0,0 +1,178 @@
+-- Atomic publish, rollback and delete.
+--
+-- Each operation runs as one database function (one transaction). The project row
+-- is locked with FOR UPDATE so concurrent calls on the same project run one at a
+-- time, and `revision` provides optimistic concurrency: callers pass the revision
+-- they last read and get a revision_conflict error if someone else changed it since.
+--
+-- Errors use PostgREST's PTxxx codes so they come back with a matching HTTP status.
+
+alter table public.projects
+  add column revision integer not null default 0;
+
+create or replace function public.publish_project(
+  p_project_id uuid,
+  p_owner_email text,
+  p_expected_revision integer,
+  p_message text default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_version_number integer;
+  v_next_number integer;
+  v_new_draft_id uuid;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_owner_email is null or owner_email = p_owner_email)
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+  if v_project.draft_version_id is null then
+    raise exception 'no_draft' using errcode = 'PT400';
+  end if;
+
+  update public.project_versions
+    set is_draft = false, message = coalesce(p_message, 'Published')
+    where id = v_project.draft_version_id
+    returning version_number into v_version_number;
+
+  select coalesce(max(version_number), 0) + 1 into v_next_number
+    from public.project_versions
+    where project_id = p_project_id;
+
+  insert into public.project_versions (project_id, version_number, message, is_draft)
+    values (p_project_id, v_next_number, 'Draft', true)
+    returning id into v_new_draft_id;
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select v_new_draft_id, file_path, content, content_type, encoding, size, storage_key
+    from public.project_files
+    where version_id = v_project.draft_version_id;
+
+  update public.projects
+    set active_version_id = v_project.draft_version_id,
+        draft_version_id = v_new_draft_id,
+        status = 'published',
+        revision = revision + 1,
+        updated_at = now()
+    where id = p_project_id;
+
+  return jsonb_build_object(
+    'published_version_id', v_project.draft_version_id,
+    'version_number', v_version_number,
+    'new_draft_version_id', v_new_draft_id,
+    'revision', v_project.revision + 1
+  );
+end;
+$$;
+
+create or replace function public.rollback_project(
+  p_project_id uuid,
+  p_owner_email text,
+  p_expected_revision integer,
+  p_version_id uuid
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_version_number integer;
+  v_files_copied integer;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_owner_email is null or owner_email = p_owner_email)
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+  if v_project.draft_version_id is null then
+    raise exception 'no_draft' using errcode = 'PT400';
+  end if;
+
+  select version_number into v_version_number
+    from public.project_versions
+    where id = p_version_id and project_id = p_project_id;
+
+  if not found then
+    raise exception 'version_not_found' using errcode = 'PT404';
+  end if;
+
+  -- Rolling back to the draft itself would delete its files before copying them
+  if p_version_id = v_project.draft_version_id then
+    return jsonb_build_object('version_number', v_version_number, 'files_copied', 0, 'revision', v_project.revision);
+  end if;
+
+  delete from public.project_files
+    where version_id = v_project.draft_version_id;
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select v_project.draft_version_id, file_path, content, content_type, encoding, size, storage_key
+    from public.project_files
+    where version_id = p_version_id;
+  get diagnostics v_files_copied = row_count;
+
+  update public.projects
+    set revision = revision + 1, updated_at = now()
+    where id = p_project_id;
+
+  return jsonb_build_object(
+    'version_number', v_version_number,
+    'files_copied', v_files_copied,
+    'revision', v_project.revision + 1
+  );
+end;
+$$;
+
+create or replace function public.delete_project(
+  p_project_id uuid,
+  p_owner_email text,
+  p_expected_revision integer default null
+) returns void
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_owner_email is null or owner_email = p_owner_email)
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+
+  -- Clear version pointers first (foreign key constraints)
+  update public.projects
+    set active_version_id = null, draft_version_id = null
+    where id = p_project_id;
+
+  delete from public.project_files
+    where version_id in (select id from public.project_versions where project_id = p_project_id);
+
+  delete from public.project_versions
+    where project_id = p_project_id;
+
+  delete from public.projects
+    where id = p_project_id;
+end;
+$$;
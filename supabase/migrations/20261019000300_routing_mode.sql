@@ -0,0 +1,4 @@
+-- Routing for served apps: 'static' serves files as-is, 'spa' falls back to index.html
+-- for unknown extensionless paths. A shapps.json file in a version overrides this.
+alter table public.projects
+  add column routing_mode text not null default 'static' check (routing_mode in ('static', 'spa'));
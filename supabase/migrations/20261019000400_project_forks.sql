@@ -0,0 +1,4 @@
+-- Where a project was duplicated or forked from. Cleared if the source is deleted.
+alter table public.projects
+  add column forked_from_project_id uuid references public.projects(id) on delete set null,
+  add column forked_from_version_id uuid references public.project_versions(id) on delete set null;
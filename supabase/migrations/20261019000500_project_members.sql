@@ -0,0 +1,201 @@
+-- Collaborators: besides its owner_email, a project can have members with a role.
+--
+--   owner  - everything, including settings, deleting and managing members
+--   editor - write files, publish and roll back
+--   viewer - read files, versions and previews
+--
+-- The atomic functions from 20261019000200 now take the acting user's email and
+-- check their role instead of matching owner_email.
+
+create table public.project_members (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by text,
+  created_at timestamptz not null default now(),
+  primary key (project_id, email)
+);
+
+create index project_members_email_idx on public.project_members (email);
+
+-- The user's role on a project, or null if they have no access
+create or replace function public.project_role(p_project_id uuid, p_email text) returns text
+language sql
+stable
+as $$
+  select case
+    when exists (select 1 from public.projects where id = p_project_id and owner_email = p_email) then 'owner'
+    else (select role from public.project_members where project_id = p_project_id and email = lower(p_email))
+  end;
+$$;
+
+drop function public.publish_project(uuid, text, integer, text);
+drop function public.rollback_project(uuid, text, integer, uuid);
+drop function public.delete_project(uuid, text, integer);
+
+create function public.publish_project(
+  p_project_id uuid,
+  p_actor_email text,
+  p_expected_revision integer,
+  p_message text default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_version_number integer;
+  v_next_number integer;
+  v_new_draft_id uuid;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_actor_email is null or public.project_role(id, p_actor_email) in ('owner', 'editor'))
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+  if v_project.draft_version_id is null then
+    raise exception 'no_draft' using errcode = 'PT400';
+  end if;
+
+  update public.project_versions
+    set is_draft = false, message = coalesce(p_message, 'Published')
+    where id = v_project.draft_version_id
+    returning version_number into v_version_number;
+
+  select coalesce(max(version_number), 0) + 1 into v_next_number
+    from public.project_versions
+    where project_id = p_project_id;
+
+  insert into public.project_versions (project_id, version_number, message, is_draft)
+    values (p_project_id, v_next_number, 'Draft', true)
+    returning id into v_new_draft_id;
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select v_new_draft_id, file_path, content, content_type, encoding, size, storage_key
+    from public.project_files
+    where version_id = v_project.draft_version_id;
+
+  update public.projects
+    set active_version_id = v_project.draft_version_id,
+        draft_version_id = v_new_draft_id,
+        status = 'published',
+        revision = revision + 1,
+        updated_at = now()
+    where id = p_project_id;
+
+  return jsonb_build_object(
+    'published_version_id', v_project.draft_version_id,
+    'version_number', v_version_number,
+    'new_draft_version_id', v_new_draft_id,
+    'revision', v_project.revision + 1
+  );
+end;
+$$;
+
+create function public.rollback_project(
+  p_project_id uuid,
+  p_actor_email text,
+  p_expected_revision integer,
+  p_version_id uuid
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_version_number integer;
+  v_files_copied integer;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_actor_email is null or public.project_role(id, p_actor_email) in ('owner', 'editor'))
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+  if v_project.draft_version_id is null then
+    raise exception 'no_draft' using errcode = 'PT400';
+  end if;
+
+  select version_number into v_version_number
+    from public.project_versions
+    where id = p_version_id and project_id = p_project_id;
+
+  if not found then
+    raise exception 'version_not_found' using errcode = 'PT404';
+  end if;
+
+  -- Rolling back to the draft itself would delete its files before copying them
+  if p_version_id = v_project.draft_version_id then
+    return jsonb_build_object('version_number', v_version_number, 'files_copied', 0, 'revision', v_project.revision);
+  end if;
+
+  delete from public.project_files
+    where version_id = v_project.draft_version_id;
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select v_project.draft_version_id, file_path, content, content_type, encoding, size, storage_key
+    from public.project_files
+    where version_id = p_version_id;
+  get diagnostics v_files_copied = row_count;
+
+  update public.projects
+    set revision = revision + 1, updated_at = now()
+    where id = p_project_id;
+
+  return jsonb_build_object(
+    'version_number', v_version_number,
+    'files_copied', v_files_copied,
+    'revision', v_project.revision + 1
+  );
+end;
+$$;
+
+create function public.delete_project(
+  p_project_id uuid,
+  p_actor_email text,
+  p_expected_revision integer default null
+) returns void
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_actor_email is null or public.project_role(id, p_actor_email) = 'owner')
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+
+  -- Clear version pointers first (foreign key constraints)
+  update public.projects
+    set active_version_id = null, draft_version_id = null
+    where id = p_project_id;
+
+  delete from public.project_files
+    where version_id in (select id from public.project_versions where project_id = p_project_id);
+
+  delete from public.project_versions
+    where project_id = p_project_id;
+
+  delete from public.projects
+    where id = p_project_id;
+end;
+$$;
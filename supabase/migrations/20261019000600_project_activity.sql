@@ -0,0 +1,17 @@
+-- Audit log: one row per change made through an MCP tool or the REST API.
+-- `action` is the MCP tool name (REST calls use the tool that does the same thing)
+-- and `client` is the OAuth client's name, or 'dashboard' for the REST API.
+-- Rows go with their project when it's deleted.
+create table public.project_activity (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  actor_email text,
+  client text,
+  action text not null,
+  paths text[],
+  version_id uuid,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index project_activity_project_created_idx on public.project_activity (project_id, created_at desc);
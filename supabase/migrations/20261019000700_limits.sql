@@ -0,0 +1,57 @@
+-- Quotas: what counts toward a user's limits, and pruning of old published versions.
+
+-- Projects the user owns and the total size of their drafts. Published versions
+-- aren't counted; how many are kept is capped by prune_versions instead.
+create function public.owner_usage(p_owner_email text)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'projects', (select count(*) from public.projects where owner_email = p_owner_email),
+    'bytes', (
+      select coalesce(sum(f.size), 0)
+        from public.projects p
+        join public.project_files f on f.version_id = p.draft_version_id
+        where p.owner_email = p_owner_email
+    )
+  );
+$$;
+
+-- Deletes published versions beyond the newest p_keep, never the draft or the
+-- active version. Forks pointing at a deleted version keep their project lineage
+-- (forked_from_version_id is set null by its foreign key).
+create function public.prune_versions(p_project_id uuid, p_keep integer)
+returns integer
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_doomed uuid[];
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into v_doomed
+    from (
+      select id
+        from public.project_versions
+        where project_id = p_project_id and not is_draft
+        order by version_number desc
+        offset p_keep
+    ) old
+    where id is distinct from v_project.active_version_id
+      and id is distinct from v_project.draft_version_id;
+
+  delete from public.project_files where version_id = any(v_doomed);
+  delete from public.project_versions where id = any(v_doomed);
+
+  return coalesce(array_length(v_doomed, 1), 0);
+end;
+$$;
@@ -0,0 +1,34 @@
+-- App data: JSON documents that a project's pages store through /app/:slug/~data.
+--
+-- A collection's rules say what the app's visitors may do:
+--   public_read  - list and read documents
+--   public_write - 'none', 'create' (add documents only) or 'all' (also update and delete)
+-- and `schema` is an optional JSON Schema every document must match.
+--
+-- Documents are kept per environment: 'live' for the published app and 'draft' for
+-- previews, so trying out a draft never touches live data. Both go with the project.
+
+create table public.data_collections (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  name text not null,
+  public_read boolean not null default false,
+  public_write text not null default 'create' check (public_write in ('none', 'create', 'all')),
+  schema jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (project_id, name)
+);
+
+create table public.data_documents (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null,
+  environment text not null check (environment in ('live', 'draft')),
+  collection text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  foreign key (project_id, collection) references public.data_collections (project_id, name) on delete cascade
+);
+
+create index data_documents_collection_created_idx
+  on public.data_documents (project_id, environment, collection, created_at desc);
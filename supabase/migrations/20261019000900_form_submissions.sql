@@ -0,0 +1,15 @@
+-- Form submissions: what visitors post to /app/:slug/~forms/:form from an app's HTML forms.
+-- Forms don't need defining first, so `form` is just the name in the form's action.
+-- Like app data, submissions are kept per environment ('live' for the published app,
+-- 'draft' for previews) and go with their project when it's deleted.
+create table public.form_submissions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  environment text not null check (environment in ('live', 'draft')),
+  form text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index form_submissions_project_created_idx
+  on public.form_submissions (project_id, environment, created_at desc);
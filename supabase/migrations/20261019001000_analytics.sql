@@ -0,0 +1,70 @@
+-- Visit analytics: daily counts of page views on published apps, kept without cookies
+-- or IP addresses.
+--
+-- Each view of an HTML page at /app/:slug is added to the day's rollups by
+-- record_page_view as it happens, so there's no raw event log. A rollup counts views
+-- for one dimension value:
+--   total    - every view ('' value); also counts the day's visitors
+--   page     - the path viewed
+--   referrer - the host of the referring site ('' for direct visits and links within the app)
+--   country  - two-letter country code ('' when unknown)
+--   device   - 'desktop', 'mobile' or 'tablet'
+--
+-- Visitors are told apart by a hash of their IP address and user agent with a secret
+-- and the day (see analytics.ts). Hashes are only kept for the day they were made, so
+-- nobody can be followed from one day to the next, and visitor counts can't be added
+-- up across days exactly: they're "unique-ish".
+
+create table public.analytics_daily (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  day date not null,
+  dimension text not null check (dimension in ('total', 'page', 'referrer', 'country', 'device')),
+  value text not null,
+  views integer not null default 0,
+  visitors integer not null default 0,
+  primary key (project_id, day, dimension, value)
+);
+
+create table public.analytics_visitors (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  day date not null,
+  visitor_hash text not null,
+  primary key (project_id, day, visitor_hash)
+);
+
+create index analytics_visitors_day_idx on public.analytics_visitors (day);
+
+create function public.record_page_view(
+  p_project_id uuid,
+  p_day date,
+  p_path text,
+  p_referrer_host text,
+  p_country text,
+  p_device text,
+  p_visitor_hash text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_new_visitor integer;
+begin
+  -- Yesterday's hashes aren't needed any more
+  delete from public.analytics_visitors where day < p_day;
+
+  insert into public.analytics_visitors (project_id, day, visitor_hash)
+    values (p_project_id, p_day, p_visitor_hash)
+    on conflict do nothing;
+  get diagnostics v_new_visitor = row_count;
+
+  insert into public.analytics_daily as a (project_id, day, dimension, value, views, visitors)
+    values
+      (p_project_id, p_day, 'total', '', 1, v_new_visitor),
+      (p_project_id, p_day, 'page', p_path, 1, 0),
+      (p_project_id, p_day, 'referrer', coalesce(p_referrer_host, ''), 1, 0),
+      (p_project_id, p_day, 'country', coalesce(p_country, ''), 1, 0),
+      (p_project_id, p_day, 'device', p_device, 1, 0)
+    on conflict (project_id, day, dimension, value) do update
+      set views = a.views + 1, visitors = a.visitors + excluded.visitors;
+end;
+$$;
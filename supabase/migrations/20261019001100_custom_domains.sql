@@ -0,0 +1,18 @@
+-- Custom domains: hostnames (like www.mybakery.com) that serve a project's published app.
+--
+-- A project claims a hostname with a random verification token, and it starts serving
+-- once a DNS TXT record proves the claimant controls the domain (see domains.ts).
+-- Several projects may claim a hostname, but only one can have it verified.
+
+create table public.project_domains (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  hostname text not null,
+  verification_token text not null,
+  verified_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (project_id, hostname)
+);
+
+create unique index project_domains_verified_hostname_idx
+  on public.project_domains (hostname)
+  where verified_at is not null;
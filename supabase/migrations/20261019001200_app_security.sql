@@ -0,0 +1,8 @@
+-- Security headers for served apps (see security.ts).
+--
+-- security holds a project's additions to the default Content-Security-Policy and
+-- Permissions-Policy, like {"script_sources": ["https://js.stripe.com"]}.
+-- isolated_origin serves the published app from <slug>.<APPS_DOMAIN> instead of /app/:slug.
+alter table public.projects
+  add column security jsonb not null default '{}'::jsonb check (jsonb_typeof(security) = 'object'),
+  add column isolated_origin boolean not null default false;
@@ -0,0 +1,44 @@
+-- Abuse handling (see abuse.ts).
+--
+-- abuse_reports are what visitors send from /report/:slug.
+-- publish_reviews hold drafts the publish scanner flagged until an admin approves or
+-- rejects them; `fingerprint` pins the files that were scanned.
+-- A suspended project keeps all its data but isn't served.
+
+alter table public.projects
+  add column suspended_at timestamptz,
+  add column suspension_reason text;
+
+create table public.abuse_reports (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  reason text not null check (reason in ('phishing', 'malware', 'spam', 'impersonation', 'illegal', 'other')),
+  details text,
+  page_url text,
+  reporter_email text,
+  status text not null default 'open' check (status in ('open', 'dismissed', 'actioned')),
+  resolved_by text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index abuse_reports_status_created_idx on public.abuse_reports (status, created_at desc);
+create index abuse_reports_project_idx on public.abuse_reports (project_id);
+
+create table public.publish_reviews (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  version_id uuid not null,
+  fingerprint text not null,
+  message text,
+  findings jsonb not null,
+  requested_by text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'superseded')),
+  reviewed_by text,
+  review_note text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index publish_reviews_status_created_idx on public.publish_reviews (status, created_at desc);
+create index publish_reviews_project_idx on public.publish_reviews (project_id, status);
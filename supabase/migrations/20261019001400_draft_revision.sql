@@ -0,0 +1,124 @@
+-- Publishing exactly what was scanned (see abuse.ts).
+--
+-- File writes don't bump projects.revision, so publish couldn't tell whether the draft
+-- changed after it was scanned. draft_revision counts every change to the draft's files,
+-- and publish_project checks the value read before the scan under its row lock. A write
+-- that races a publish and lands on the version that just went live is refused instead,
+-- so live files only ever change by publishing or rolling back.
+--
+-- Approving a held publish marks the review approved in the same transaction, so a
+-- publish that fails leaves the review pending.
+
+alter table public.projects
+  add column draft_revision integer not null default 0;
+
+create function public.track_file_changes() returns trigger
+language plpgsql
+as $$
+declare
+  v_version_id uuid;
+begin
+  if tg_op = 'DELETE' then
+    v_version_id := old.version_id;
+  else
+    v_version_id := new.version_id;
+  end if;
+
+  -- Waits for a publish holding the project's row lock, then sees what it changed
+  update public.projects
+    set draft_revision = draft_revision + 1
+    where draft_version_id = v_version_id;
+
+  if exists (select 1 from public.projects where active_version_id = v_version_id) then
+    raise exception 'version_live' using errcode = 'PT409';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger project_files_track_changes
+  after insert or update or delete on public.project_files
+  for each row execute function public.track_file_changes();
+
+drop function public.publish_project(uuid, text, integer, text);
+
+create function public.publish_project(
+  p_project_id uuid,
+  p_actor_email text,
+  p_expected_revision integer,
+  p_message text default null,
+  p_expected_draft_revision integer default null,
+  p_review_id uuid default null,
+  p_reviewed_by text default null,
+  p_review_note text default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_project public.projects%rowtype;
+  v_version_number integer;
+  v_next_number integer;
+  v_new_draft_id uuid;
+begin
+  select * into v_project
+    from public.projects
+    where id = p_project_id
+      and (p_actor_email is null or public.project_role(id, p_actor_email) in ('owner', 'editor'))
+    for update;
+
+  if not found then
+    raise exception 'project_not_found' using errcode = 'PT404';
+  end if;
+  if p_expected_revision is not null and v_project.revision <> p_expected_revision then
+    raise exception 'revision_conflict' using errcode = 'PT409';
+  end if;
+  if p_expected_draft_revision is not null and v_project.draft_revision <> p_expected_draft_revision then
+    raise exception 'draft_changed' using errcode = 'PT409';
+  end if;
+  if v_project.draft_version_id is null then
+    raise exception 'no_draft' using errcode = 'PT400';
+  end if;
+
+  if p_review_id is not null then
+    update public.publish_reviews
+      set status = 'approved', reviewed_by = p_reviewed_by, review_note = p_review_note, reviewed_at = now()
+      where id = p_review_id and project_id = p_project_id and status = 'pending';
+    if not found then
+      raise exception 'review_decided' using errcode = 'PT409';
+    end if;
+  end if;
+
+  update public.project_versions
+    set is_draft = false, message = coalesce(p_message, 'Published')
+    where id = v_project.draft_version_id
+    returning version_number into v_version_number;
+
+  select coalesce(max(version_number), 0) + 1 into v_next_number
+    from public.project_versions
+    where project_id = p_project_id;
+
+  insert into public.project_versions (project_id, version_number, message, is_draft)
+    values (p_project_id, v_next_number, 'Draft', true)
+    returning id into v_new_draft_id;
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select v_new_draft_id, file_path, content, content_type, encoding, size, storage_key
+    from public.project_files
+    where version_id = v_project.draft_version_id;
+
+  update public.projects
+    set active_version_id = v_project.draft_version_id,
+        draft_version_id = v_new_draft_id,
+        status = 'published',
+        revision = revision + 1,
+        updated_at = now()
+    where id = p_project_id;
+
+  return jsonb_build_object(
+    'published_version_id', v_project.draft_version_id,
+    'version_number', v_version_number,
+    'new_draft_version_id', v_new_draft_id,
+    'revision', v_project.revision + 1
+  );
+end;
+$$;
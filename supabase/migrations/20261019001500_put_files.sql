@@ -0,0 +1,25 @@
+-- Saving files in one transaction.
+--
+-- Replacing files used to take two requests (delete the old rows, insert the new ones), so
+-- a failed insert lost the files. put_files does both at once. When a path appears more
+-- than once, the last entry wins, as it does in the in-memory store.
+
+create function public.put_files(p_version_id uuid, p_files jsonb) returns void
+language sql
+as $$
+  delete from public.project_files
+    where version_id = p_version_id
+      and file_path in (select f ->> 'file_path' from jsonb_array_elements(p_files) f);
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select distinct on (f.value ->> 'file_path')
+        p_version_id,
+        f.value ->> 'file_path',
+        f.value ->> 'content',
+        f.value ->> 'content_type',
+        f.value ->> 'encoding',
+        (f.value ->> 'size')::integer,
+        f.value ->> 'storage_key'
+      from jsonb_array_elements(p_files) with ordinality as f(value, position)
+      order by f.value ->> 'file_path', f.position desc;
+$$;
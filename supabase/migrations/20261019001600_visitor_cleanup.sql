@@ -0,0 +1,46 @@
+-- Forgetting visitor hashes from a scheduled job.
+--
+-- record_page_view used to delete every project's hashes from earlier days on each view,
+-- a table-wide write on the hottest path. The Worker's hourly cron now calls
+-- delete_visitor_hashes instead (see forgetOldVisitors in analytics.ts).
+
+create or replace function public.record_page_view(
+  p_project_id uuid,
+  p_day date,
+  p_path text,
+  p_referrer_host text,
+  p_country text,
+  p_device text,
+  p_visitor_hash text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_new_visitor integer;
+begin
+  insert into public.analytics_visitors (project_id, day, visitor_hash)
+    values (p_project_id, p_day, p_visitor_hash)
+    on conflict do nothing;
+  get diagnostics v_new_visitor = row_count;
+
+  insert into public.analytics_daily as a (project_id, day, dimension, value, views, visitors)
+    values
+      (p_project_id, p_day, 'total', '', 1, v_new_visitor),
+      (p_project_id, p_day, 'page', p_path, 1, 0),
+      (p_project_id, p_day, 'referrer', coalesce(p_referrer_host, ''), 1, 0),
+      (p_project_id, p_day, 'country', coalesce(p_country, ''), 1, 0),
+      (p_project_id, p_day, 'device', p_device, 1, 0)
+    on conflict (project_id, day, dimension, value) do update
+      set views = a.views + 1, visitors = a.visitors + excluded.visitors;
+end;
+$$;
+
+create function public.delete_visitor_hashes(p_before date) returns integer
+language sql
+as $$
+  with deleted as (
+    delete from public.analytics_visitors where day < p_before returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
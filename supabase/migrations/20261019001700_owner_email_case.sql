@@ -0,0 +1,37 @@
+-- Owner emails in lower case.
+--
+-- Member emails were already stored in lower case and matched with lower(p_email), but
+-- owner_email kept the case it was created with and was matched exactly, so an owner
+-- signing in with different letter case lost owner access. owner_email is now stored in
+-- lower case too, and both are matched against lower(p_email).
+
+update public.projects set owner_email = lower(owner_email) where owner_email <> lower(owner_email);
+
+alter table public.projects
+  add constraint projects_owner_email_lower check (owner_email = lower(owner_email));
+
+create or replace function public.project_role(p_project_id uuid, p_email text) returns text
+language sql
+stable
+as $$
+  select case
+    when exists (select 1 from public.projects where id = p_project_id and owner_email = lower(p_email)) then 'owner'
+    else (select role from public.project_members where project_id = p_project_id and email = lower(p_email))
+  end;
+$$;
+
+create or replace function public.owner_usage(p_owner_email text)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'projects', (select count(*) from public.projects where owner_email = lower(p_owner_email)),
+    'bytes', (
+      select coalesce(sum(f.size), 0)
+        from public.projects p
+        join public.project_files f on f.version_id = p.draft_version_id
+        where p.owner_email = lower(p_owner_email)
+    )
+  );
+$$;
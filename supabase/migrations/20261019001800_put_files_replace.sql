@@ -0,0 +1,27 @@
+-- Replacing a whole draft in one transaction.
+--
+-- Importing into an existing project deleted the draft's files and then saved the new
+-- ones in a second request, so a failed save left an empty draft. With p_replace_all,
+-- put_files deletes every other file of the version in the same transaction.
+
+drop function public.put_files(uuid, jsonb);
+
+create function public.put_files(p_version_id uuid, p_files jsonb, p_replace_all boolean default false) returns void
+language sql
+as $$
+  delete from public.project_files
+    where version_id = p_version_id
+      and (p_replace_all or file_path in (select f ->> 'file_path' from jsonb_array_elements(p_files) f));
+
+  insert into public.project_files (version_id, file_path, content, content_type, encoding, size, storage_key)
+    select distinct on (f.value ->> 'file_path')
+        p_version_id,
+        f.value ->> 'file_path',
+        f.value ->> 'content',
+        f.value ->> 'content_type',
+        f.value ->> 'encoding',
+        (f.value ->> 'size')::integer,
+        f.value ->> 'storage_key'
+      from jsonb_array_elements(p_files) with ordinality as f(value, position)
+      order by f.value ->> 'file_path', f.position desc;
+$$;
@@ -0,0 +1,17 @@
+-- Deleting R2 blobs that no file points at any more.
+--
+-- Binary files over the inline limit live in R2 under blobs/<sha256>, shared by every
+-- version that has the same content. The Worker's hourly cron lists the blobs and asks
+-- storage_keys_in_use which are still referenced (see deleteUnusedBlobs in files.ts).
+
+create index project_files_storage_key_idx
+  on public.project_files (storage_key)
+  where storage_key is not null;
+
+create function public.storage_keys_in_use(p_keys text[])
+returns setof text
+language sql
+stable
+as $$
+  select distinct storage_key from public.project_files where storage_key = any(p_keys);
+$$;
@@ -0,0 +1,50 @@
+-- Counting file changes once per statement.
+--
+-- track_file_changes ran for each row, so put_files with N files updated the project's
+-- row N times. It now runs once per statement and reads the versions it touched from
+-- the statement's transition tables. Postgres only allows those on single-event
+-- triggers, so there's one trigger per event.
+
+drop trigger project_files_track_changes on public.project_files;
+
+create or replace function public.track_file_changes() returns trigger
+language plpgsql
+as $$
+declare
+  v_version_ids uuid[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct version_id) into v_version_ids from new_files;
+  elsif tg_op = 'UPDATE' then
+    select array_agg(version_id) into v_version_ids
+      from (select version_id from new_files union select version_id from old_files) changed;
+  else
+    select array_agg(distinct version_id) into v_version_ids from old_files;
+  end if;
+
+  -- Waits for a publish holding the project's row lock, then sees what it changed
+  update public.projects
+    set draft_revision = draft_revision + 1
+    where draft_version_id = any(v_version_ids);
+
+  if exists (select 1 from public.projects where active_version_id = any(v_version_ids)) then
+    raise exception 'version_live' using errcode = 'PT409';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger project_files_track_inserts
+  after insert on public.project_files
+  referencing new table as new_files
+  for each statement execute function public.track_file_changes();
+
+create trigger project_files_track_updates
+  after update on public.project_files
+  referencing old table as old_files new table as new_files
+  for each statement execute function public.track_file_changes();
+
+create trigger project_files_track_deletes
+  after delete on public.project_files
+  referencing old table as old_files
+  for each statement execute function public.track_file_changes();